@@ -157,11 +157,20 @@ async function fetchUserInfo(tokenSet: any) {
   }
 }
 
-export async function refreshAccessToken(selectedScopes?: string[]): Promise<string | null> {
+/**
+ * Exchanges the stored refresh token for a new access token, and stores the new tokens.
+ * @param {string[]} [selectedScopes] - Scopes of the authorization
+ * @param {typeof keychain} session - Keychain of the profile whose token is refreshed
+ * @returns {Promise<string | null>} The new access token, or null if it cannot be refreshed
+ */
+export async function refreshAccessToken(
+  selectedScopes?: string[],
+  session: typeof keychain = keychain
+): Promise<string | null> {
   try {
     log('Attempting to refresh access token');
 
-    const refreshToken = await keychain.getRefreshToken();
+    const refreshToken = await session.getRefreshToken();
     if (!refreshToken) {
       log('No refresh token found in keychain');
       return null;
@@ -189,16 +198,16 @@ export async function refreshAccessToken(selectedScopes?: string[]): Promise<str
 
     // Store new tokens
     const tenantName = getTenantFromToken(tokenSet.access_token);
-    await keychain.setToken(tokenSet.access_token);
-    await keychain.setDomain(tenantName);
+    await session.setToken(tokenSet.access_token);
+    await session.setDomain(tenantName);
 
     if (tokenSet.refresh_token) {
-      await keychain.setRefreshToken(tokenSet.refresh_token);
+      await session.setRefreshToken(tokenSet.refresh_token);
     }
 
     if (tokenSet.expires_in) {
       const expiresAt = Date.now() + tokenSet.expires_in * 1000;
-      await keychain.setTokenExpiresAt(expiresAt);
+      await session.setTokenExpiresAt(expiresAt);
     }
 
     log('Successfully refreshed access token');
@@ -212,13 +221,14 @@ export async function refreshAccessToken(selectedScopes?: string[]): Promise<str
 /**
  * Revokes the refresh token that is previously set within keychain when offline_access is requested.
  * Returns true if the call is successful or if the refresh token does not exist.
+ * @param {typeof keychain} session - Keychain of the profile whose refresh token is revoked
  * @returns {Promise<boolean>}
  */
-export async function revokeRefreshToken(): Promise<boolean> {
+export async function revokeRefreshToken(session: typeof keychain = keychain): Promise<boolean> {
   try {
     log('Attempting to revoke refresh token');
 
-    const refreshToken = await keychain.getRefreshToken();
+    const refreshToken = await session.getRefreshToken();
     if (!refreshToken) {
       log('No refresh token found in keychain');
       return true;
@@ -84,6 +84,10 @@ export abstract class BaseClientManager implements ClientManager {
       args.push('--read-only');
     }
 
+    if (options.profile) {
+      args.push('--profile', options.profile);
+    }
+
     const config: ServerConfig = {
       command: 'npx',
       args,
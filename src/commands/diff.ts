@@ -0,0 +1,143 @@
+import chalk from 'chalk';
+import { loadConfig, loadDomainConfig, validateConfig, type Auth0Config } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+import { formatDomain } from '../utils/http-utility.js';
+import {
+  diffTenants,
+  fetchTenantComparison,
+  type FieldDifference,
+  type TenantDiff,
+} from '../utils/tenant-diff.js';
+import { cliOutput } from '../utils/terminal.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * Command options for the diff command
+ */
+export interface DiffOptions {
+  source: string;
+  target?: string;
+  json?: boolean;
+}
+
+/**
+ * Formats a value of a difference for display, keeping it on one line
+ * @param value - The value to format
+ * @returns The formatted value, or "(none)" if the field is not set
+ */
+const formatValue = (value: unknown): string =>
+  value === undefined ? chalk.dim('(none)') : JSON.stringify(value);
+
+/**
+ * Formats a field difference, e.g. "    grant_types: + refresh_token"
+ * @param difference - The field difference
+ * @returns A formatted line
+ */
+const formatDifference = (difference: FieldDifference): string => {
+  if (difference.added || difference.removed) {
+    const items = [
+      ...(difference.added ?? []).map((item) => chalk.green(`+ ${JSON.stringify(item)}`)),
+      ...(difference.removed ?? []).map((item) => chalk.red(`- ${JSON.stringify(item)}`)),
+    ];
+    return `    ${difference.path}: ${items.join(', ')}\n`;
+  }
+
+  const line = difference.line ? chalk.dim(` (line ${difference.line})`) : '';
+  return `    ${difference.path}${line}: ${formatValue(difference.source)} → ${formatValue(difference.target)}\n`;
+};
+
+/**
+ * Creates the message describing the differences between two tenants
+ * @param diff - The differences
+ * @param source - Domain of the source tenant
+ * @param target - Domain of the target tenant
+ * @returns A formatted message string
+ */
+const createDiffMessage = (diff: TenantDiff, source: string, target: string): string => {
+  if (diff.only_in_source.length + diff.only_in_target.length + diff.changed.length === 0) {
+    return `\n${chalk.green('✓')} ${source} and ${target} have no differences.\n`;
+  }
+
+  return [
+    `\n${chalk.bold(`Differences from ${source} to ${target}:`)}\n`,
+    ...diff.only_in_source.map(
+      ({ section, key }) =>
+        `  ${chalk.red('-')} ${section}/${key} ${chalk.dim(`(only in ${source})`)}\n`
+    ),
+    ...diff.only_in_target.map(
+      ({ section, key }) =>
+        `  ${chalk.green('+')} ${section}/${key} ${chalk.dim(`(only in ${target})`)}\n`
+    ),
+    ...diff.changed.map(
+      ({ section, key, differences }) =>
+        `  ${chalk.yellow('~')} ${section}/${key}\n${differences.map(formatDifference).join('')}`
+    ),
+  ].join('');
+};
+
+/**
+ * Compares the configuration of two tenants that both have a stored session
+ *
+ * @param {DiffOptions} options - Command options from commander
+ * @returns A promise that resolves when the differences are printed
+ */
+async function diffTenantsCommand(options: DiffOptions): Promise<void> {
+  const config = await loadConfig();
+  const current = config && (await validateConfig(config)) ? config : null;
+
+  const source = formatDomain(options.source);
+  const target = options.target ? formatDomain(options.target) : current?.domain;
+  if (!target) {
+    cliOutput(
+      `\n${chalk.red('✗')} No valid authentication session found. Pass ${chalk.cyan('--target <domain>')} or run ${chalk.cyan('npx @auth0/auth0-mcp-server init')} to authenticate.\n`
+    );
+    process.exit(1);
+    return;
+  }
+
+  if (source === target) {
+    cliOutput(`\n${chalk.red('✗')} The source and target are the same tenant.\n`);
+    process.exit(1);
+    return;
+  }
+
+  // The current session is used as it is, any other tenant needs a session of its own
+  const tenantConfigs: Auth0Config[] = [];
+  for (const domain of [source, target]) {
+    const tenantConfig =
+      current && current.domain === domain ? current : await loadDomainConfig(domain);
+    if (!tenantConfig) {
+      cliOutput(
+        `\n${chalk.red('✗')} No valid session found for ${chalk.bold(domain)}. Run ${chalk.cyan('npx @auth0/auth0-mcp-server init --profile <name>')} and log in to it.\n`
+      );
+      process.exit(1);
+      return;
+    }
+    tenantConfigs.push(tenantConfig);
+  }
+
+  try {
+    log(`Comparing tenant ${source} with ${target}`);
+
+    const [sourceTenant, targetTenant] = await Promise.all(
+      tenantConfigs.map(async (tenantConfig) =>
+        fetchTenantComparison(await getManagementClient(tenantConfig))
+      )
+    );
+    const diff = diffTenants(sourceTenant, targetTenant);
+
+    cliOutput(
+      options.json
+        ? `${JSON.stringify({ source, target, ...diff }, null, 2)}\n`
+        : createDiffMessage(diff, source, target)
+    );
+  } catch (error) {
+    log('Error comparing tenants:', error);
+    cliOutput(
+      `\n${chalk.red('✗')} Failed to compare tenants: ${error instanceof Error ? error.message : String(error)}\n`
+    );
+    process.exit(1);
+  }
+}
+
+export default diffTenantsCommand;
@@ -0,0 +1,53 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { loadConfig, validateConfig } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+import { fetchTenantSnapshot, writeTenantSnapshot } from '../utils/tenant-snapshot.js';
+import { cliOutput } from '../utils/terminal.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * Command options for the export command
+ */
+export interface ExportOptions {
+  output: string;
+}
+
+/**
+ * Exports the tenant configuration to a directory of JSON files that can be kept in git
+ *
+ * @param {ExportOptions} options - Command options from commander
+ * @returns A promise that resolves when the export is written
+ */
+async function exportTenant(options: ExportOptions): Promise<void> {
+  const config = await loadConfig();
+  if (!config || !(await validateConfig(config))) {
+    cliOutput(
+      `\n${chalk.red('✗')} No valid authentication session found. Run ${chalk.cyan('npx @auth0/auth0-mcp-server init')} to authenticate.\n`
+    );
+    process.exit(1);
+    return;
+  }
+
+  const directory = path.resolve(options.output);
+
+  try {
+    log(`Exporting tenant ${config.domain} to ${directory}`);
+
+    const managementClient = await getManagementClient(config);
+    const snapshot = await fetchTenantSnapshot(managementClient);
+    const files = await writeTenantSnapshot(directory, snapshot);
+
+    cliOutput(
+      `\n${chalk.green('✓')} Exported ${chalk.bold(config.domain)} to ${directory} (${files.length} files)\n`
+    );
+  } catch (error) {
+    log('Error exporting tenant:', error);
+    cliOutput(
+      `\n${chalk.red('✗')} Failed to export tenant: ${error instanceof Error ? error.message : String(error)}\n`
+    );
+    process.exit(1);
+  }
+}
+
+export default exportTenant;
@@ -0,0 +1,134 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { loadConfig, validateConfig } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+import { fetchLiveTenant, readTenantSnapshot } from '../utils/tenant-snapshot.js';
+import {
+  applyTenantPlan,
+  planTenantChanges,
+  type PlannedChange,
+  type TenantPlan,
+} from '../utils/tenant-plan.js';
+import { cliOutput } from '../utils/terminal.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * Command options for the import command
+ */
+export interface ImportOptions {
+  input: string;
+  apply?: boolean;
+  allowDelete?: boolean;
+  readOnly?: boolean;
+}
+
+const CHANGE_SYMBOLS = {
+  create: chalk.green('+'),
+  update: chalk.yellow('~'),
+  delete: chalk.red('-'),
+};
+
+/**
+ * Formats a planned change as a single line, e.g. "~ actions/Add Claims (code)"
+ * @param change - The planned change
+ * @returns A formatted line
+ */
+const formatChange = (change: PlannedChange): string => {
+  const fields = change.fields ? chalk.dim(` (${change.fields.join(', ')})`) : '';
+  return `  ${CHANGE_SYMBOLS[change.action]} ${change.action} ${change.section}/${change.key}${fields}\n`;
+};
+
+/**
+ * Creates the message describing a plan
+ * @param plan - The plan to describe
+ * @returns A formatted message string
+ */
+const createPlanMessage = (plan: TenantPlan): string => {
+  if (plan.errors.length > 0) {
+    return [
+      `\n${chalk.red('✗')} The tenant files have errors:\n`,
+      ...plan.errors.map((error) => `  ${error}\n`),
+    ].join('');
+  }
+
+  if (plan.changes.length === 0) {
+    return `\n${chalk.green('✓')} The tenant already matches the files.\n`;
+  }
+
+  return [`\n${chalk.bold('Planned changes:')}\n`, ...plan.changes.map(formatChange)].join('');
+};
+
+/**
+ * Compares a directory of tenant files with the live tenant, prints the plan and,
+ * with --apply, applies it
+ *
+ * @param {ImportOptions} options - Command options from commander
+ * @returns A promise that resolves when the plan is printed or applied
+ */
+async function importTenant(options: ImportOptions): Promise<void> {
+  if (options.apply && options.readOnly) {
+    cliOutput(
+      `\n${chalk.red('✗')} --apply cannot be used with --read-only. Remove --apply to only see the plan.\n`
+    );
+    process.exit(1);
+    return;
+  }
+
+  const config = await loadConfig();
+  if (!config || !(await validateConfig(config))) {
+    cliOutput(
+      `\n${chalk.red('✗')} No valid authentication session found. Run ${chalk.cyan('npx @auth0/auth0-mcp-server init')} to authenticate.\n`
+    );
+    process.exit(1);
+    return;
+  }
+
+  const directory = path.resolve(options.input);
+
+  try {
+    log(`Planning changes to ${config.domain} from ${directory}`);
+
+    const managementClient = await getManagementClient(config);
+    const local = await readTenantSnapshot(directory);
+    const live = await fetchLiveTenant(managementClient);
+    const plan = planTenantChanges(local, live, { allowDelete: options.allowDelete });
+
+    cliOutput(createPlanMessage(plan));
+
+    if (plan.errors.length > 0) {
+      process.exit(1);
+      return;
+    }
+
+    if (plan.changes.length === 0) {
+      return;
+    }
+
+    if (!options.apply) {
+      cliOutput(`\nRun again with ${chalk.cyan('--apply')} to apply these changes.\n`);
+      return;
+    }
+
+    const results = await applyTenantPlan(managementClient, plan, live);
+    const failed = results.find((result) => result.status === 'failed');
+
+    if (failed) {
+      cliOutput(
+        `\n${chalk.red('✗')} Failed to ${failed.action} ${failed.section}/${failed.key}: ${failed.error}\n` +
+          `The remaining changes were skipped.\n`
+      );
+      process.exit(1);
+      return;
+    }
+
+    cliOutput(`\n${chalk.green('✓')} Applied ${results.length} changes to ${config.domain}\n`);
+  } catch (error) {
+    log('Error importing tenant:', error);
+    cliOutput(
+      `\n${chalk.red('✗')} Failed to import tenant: ${error instanceof Error ? error.message : String(error)}\n`
+    );
+    process.exit(1);
+  }
+}
+
+export default importTenant;
@@ -9,6 +9,7 @@ import { Glob } from '../utils/glob.js';
 import chalk from 'chalk';
 import trackEvent from '../utils/analytics.js';
 import type { ClientOptions } from '../utils/types.js';
+import { keychain, type Environment } from '../utils/keychain.js';
 
 /**
  * Command options for the init command
@@ -22,6 +23,8 @@ export interface InitOptions {
   auth0ClientId?: string;
   auth0ClientSecret?: string;
   interaction?: boolean;
+  profile?: string;
+  environment?: Environment;
 }
 
 /**
@@ -96,6 +99,7 @@ async function configureClient(clientType: ClientType, options: InitOptions): Pr
   const clientOptions: ClientOptions = {
     tools: options.tools,
     readOnly: options.readOnly,
+    profile: options.profile,
   };
 
   await manager.configure(clientOptions);
@@ -114,6 +118,8 @@ async function configureClient(clientType: ClientType, options: InitOptions): Pr
  *   - scopes: Optional scope patterns for authorization (will prompt if omitted)
  *   - tools: Tool patterns to enable (e.g., ['auth0_list_*'])
  *   - (no-)interaction: Should the CLI prompt the user to press return to open the browser
+ *   - profile: Optional profile to store the session in, leaving other profiles untouched
+ *   - environment: Optional environment to tag the profile with, e.g. production
  *
  * @returns {Promise<void>} A promise that resolves when initialization is complete
  *
@@ -140,6 +146,12 @@ const init = async (options: InitOptions): Promise<void> => {
 
   trackEvent.trackInit(options.client);
 
+  // Store the session in the profile, and have the client start the server with it
+  if (options.profile) {
+    log(`Storing the session in profile ${options.profile}`);
+    keychain.useProfile(options.profile);
+  }
+
   // Check if client credentials parameters are provided for Private Cloud authentication
   const { auth0Domain, auth0ClientId, auth0ClientSecret } = options;
 
@@ -162,6 +174,12 @@ const init = async (options: InitOptions): Promise<void> => {
     await requestAuthorization(selectedScopes, options.interaction);
   }
 
+  // Tag the profile once it holds a session, so that tools can treat production with care
+  if (options.environment) {
+    log(`Tagging profile ${keychain.getProfile()} as ${options.environment}`);
+    await keychain.setEnvironment(options.environment);
+  }
+
   // Configure the requested client
   await configureClient(options.client, options);
 };
@@ -1,7 +1,13 @@
 import chalk from 'chalk';
 import { log, logError } from '../utils/logger.js';
 import { cliOutput } from '../utils/terminal.js';
-import { keychain, KeychainItem, type KeychainOperationResult } from '../utils/keychain.js';
+import {
+  keychain,
+  KeychainItem,
+  ENVIRONMENTS_ITEM,
+  PROFILES_ITEM,
+  type KeychainOperationResult,
+} from '../utils/keychain.js';
 import { revokeRefreshToken } from '../auth/device-auth-flow.js';
 /**
  * Maps technical keychain item names to user-friendly descriptions
@@ -14,7 +20,15 @@ const getItemDescription = (item: string): string => {
     [KeychainItem.REFRESH_TOKEN]: 'refresh token',
     [KeychainItem.DOMAIN]: 'domain information',
     [KeychainItem.TOKEN_EXPIRES_AT]: 'token expiration',
+    [PROFILES_ITEM]: 'profile list',
+    [ENVIRONMENTS_ITEM]: 'environment tags',
   };
+
+  // Items of a profile are named "<item>:<profile>"
+  const [name, profile] = item.split(':');
+  if (profile && descriptions[name]) {
+    return `${descriptions[name]} (${profile} profile)`;
+  }
   return descriptions[item] ?? item;
 };
 
@@ -70,24 +84,38 @@ const categorizeResults = (
 /**
  * Command options for the logout command
  */
-export type LogoutOptions = Record<string, never>;
+export interface LogoutOptions {
+  profile?: string;
+}
 
 /**
- * Removes all Auth0 MCP related tokens from the system keychain
+ * Removes the Auth0 MCP related tokens of one profile, or of all profiles, from the system keychain
  *
- * @param {LogoutOptions} _options - Command options from commander (unused)
+ * @param {LogoutOptions} options - Command options from commander
  * @returns A promise that resolves when logout is complete
  */
-async function logout(_options?: LogoutOptions): Promise<void> {
+async function logout(options: LogoutOptions = {}): Promise<void> {
   try {
+    const profiles = await keychain.getProfiles();
+    if (options.profile && !profiles.includes(options.profile)) {
+      cliOutput(
+        `\n${chalk.yellow('!')} No profile named ${chalk.bold(options.profile)} was found in your system keychain.\n`
+      );
+      return;
+    }
+
     log('Removing Auth0 tokens from keychain');
     cliOutput(`\n${chalk.blue('i')} Clearing authentication data...\n`);
 
     log('Revoke refresh token if present');
-    await revokeRefreshToken();
+    for (const profile of options.profile ? [options.profile] : profiles) {
+      await revokeRefreshToken(keychain.forProfile(profile));
+    }
 
-    // Delete all items from the keychain
-    const deletionResults = await keychain.clearAll();
+    // Delete the items of the profile, or of all profiles, from the keychain
+    const deletionResults = await (
+      options.profile ? keychain.forProfile(options.profile) : keychain
+    ).clearAll();
     const { successful, failed } = categorizeResults(deletionResults);
 
     if (successful.length > 0) {
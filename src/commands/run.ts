@@ -5,6 +5,7 @@ import * as os from 'os';
 import { keychain } from '../utils/keychain.js';
 import { isTokenExpired } from '../auth/device-auth-flow.js';
 import chalk from 'chalk';
+import { isLoopbackHost } from '../utils/http-transport.js';
 
 /**
  * Command options for the run command
@@ -12,8 +13,72 @@ import chalk from 'chalk';
 export interface RunOptions {
   tools: string[];
   readOnly?: boolean;
+  filesDir?: string;
+  profile?: string;
+  allowProfiles?: string[];
+  productionReadOnly?: boolean;
+  transport?: 'stdio' | 'http';
+  port?: number;
+  host?: string;
+  authIssuer?: string;
+  authAudience?: string;
+  authJwksUri?: string;
+  callerProfiles?: string;
+  allowUnauthenticated?: boolean;
+  pollInterval?: number;
 }
 
+/**
+ * Validates the OAuth options, which only apply to the HTTP transport and need each other
+ *
+ * @param {RunOptions} options - Command options
+ * @returns {boolean} True if the options can be used together, false otherwise
+ */
+const validateOAuthOptions = (options: RunOptions): boolean => {
+  if (!options.authIssuer) {
+    if (options.authAudience || options.authJwksUri || options.callerProfiles) {
+      logError(
+        `${chalk.red('Configuration Error:')} --auth-audience, --auth-jwks-uri and --caller-profiles require --auth-issuer`
+      );
+      return false;
+    }
+
+    // Without OAuth, anyone who can reach the server uses the stored session
+    if (options.transport === 'http' && options.host && !isLoopbackHost(options.host)) {
+      if (!options.allowUnauthenticated) {
+        logError(
+          `${chalk.red('Configuration Error:')} --host ${options.host} lets other machines use your Auth0 session without authentication`
+        );
+        logError(
+          `Require access tokens with ${chalk.cyan('--auth-issuer')}, or pass ${chalk.cyan('--allow-unauthenticated')} if the network is trusted`
+        );
+        return false;
+      }
+      logInfo(
+        `${chalk.yellow('Warning:')} Serving on ${options.host} without authentication. Anyone who can reach it can use your Auth0 session.`
+      );
+    }
+    return true;
+  }
+
+  if (options.transport !== 'http') {
+    logError(`${chalk.red('Configuration Error:')} --auth-issuer requires --transport http`);
+    return false;
+  }
+
+  if (!options.authAudience || !options.callerProfiles) {
+    logError(
+      `${chalk.red('Configuration Error:')} --auth-issuer requires --auth-audience and --caller-profiles`
+    );
+    logError(
+      `Set ${chalk.cyan('--auth-audience')} to the URL of the MCP endpoint, and ${chalk.cyan('--caller-profiles')} to a JSON file that maps token subjects to profiles`
+    );
+    return false;
+  }
+
+  return true;
+};
+
 /**
  * Validates authorization preconditions before starting the server
  *
@@ -30,15 +95,18 @@ export interface RunOptions {
  * human-readable feedback, while later validation layers provide ongoing
  * security with more technical checks.
  *
+ * @param {string} [profile] - The profile the server is pinned to, if any
  * @returns {Promise<boolean>} True if authorization is valid, false otherwise
  */
-const validateAuthorization = async (): Promise<boolean> => {
+const validateAuthorization = async (profile?: string): Promise<boolean> => {
+  const initCommand = `npx @auth0/auth0-mcp-server init${profile ? ` --profile ${profile}` : ''}`;
+
   // Check if token exists
   const token = await keychain.getToken();
   if (!token) {
     logError(`${chalk.red('Authorization Error:')} No valid authorization token found`);
     logError(`${chalk.bold('Recommended actions:')}`);
-    logError(`1. Run ${chalk.cyan('npx @auth0/auth0-mcp-server init')} to authorize with Auth0`);
+    logError(`1. Run ${chalk.cyan(initCommand)} to authorize with Auth0`);
     logError(
       `2. Use ${chalk.cyan('npx @auth0/auth0-mcp-server session')} to check your current session status`
     );
@@ -52,9 +120,7 @@ const validateAuthorization = async (): Promise<boolean> => {
     const expiryDate = expiresAt ? new Date(expiresAt).toLocaleString() : 'unknown';
     logError(`${chalk.red('Authorization Error:')} Token has expired (on ${expiryDate})`);
     logError(`${chalk.bold('Recommended actions:')}`);
-    logError(
-      `1. Run ${chalk.cyan('npx @auth0/auth0-mcp-server init')} to refresh your authorization`
-    );
+    logError(`1. Run ${chalk.cyan(initCommand)} to refresh your authorization`);
     logError(
       `2. Use ${chalk.cyan('npx @auth0/auth0-mcp-server session')} to check your current session details`
     );
@@ -66,7 +132,7 @@ const validateAuthorization = async (): Promise<boolean> => {
   if (!domain) {
     logError(`${chalk.red('Authorization Error:')} No Auth0 domain found in configuration`);
     logError(`${chalk.bold('Recommended actions:')}`);
-    logError(`1. Run ${chalk.cyan('npx @auth0/auth0-mcp-server init')} to authorize with Auth0`);
+    logError(`1. Run ${chalk.cyan(initCommand)} to authorize with Auth0`);
     logError(
       `2. Use ${chalk.cyan('npx @auth0/auth0-mcp-server session')} to check your current configuration`
     );
@@ -91,13 +157,38 @@ const run = async (options: RunOptions): Promise<void> => {
 
     trackEvent.trackServerRun();
 
-    // Validate authorization before starting server
-    const isAuthorized = await validateAuthorization();
-    if (!isAuthorized) {
-      // Exit with code 1 (standard error code)
+    // Read and refresh the credentials of this profile only, whatever later logins store
+    if (options.profile) {
+      keychain.useProfile(options.profile);
+      logInfo(`Using profile ${options.profile}`);
+    }
+
+    if (options.allowProfiles) {
+      logInfo(`Tenant switching is limited to profiles: ${options.allowProfiles.join(', ')}`);
+    }
+
+    if (options.productionReadOnly) {
+      logInfo('Tenants tagged production only get read-only tools');
+    }
+
+    if (!validateOAuthOptions(options)) {
       process.exit(1);
     }
 
+    // With OAuth every caller uses the session of their own profile, checked on each tool call
+    if (options.authIssuer) {
+      logInfo(
+        `Callers need access tokens issued by ${options.authIssuer} for ${options.authAudience}`
+      );
+    } else {
+      // Validate authorization before starting server
+      const isAuthorized = await validateAuthorization(options.profile);
+      if (!isAuthorized) {
+        // Exit with code 1 (standard error code)
+        process.exit(1);
+      }
+    }
+
     if (options.readOnly && options.tools.length === 1 && options.tools[0] === '*') {
       logInfo('Starting server in read-only mode');
     } else if (options.readOnly) {
@@ -1,5 +1,5 @@
 import chalk from 'chalk';
-import { keychain } from '../utils/keychain.js';
+import { keychain, type Environment } from '../utils/keychain.js';
 import { cliOutput } from '../utils/terminal.js';
 import { log } from '../utils/logger.js';
 
@@ -23,18 +23,61 @@ const createNoSessionMessage = (): string => {
   ].join('');
 };
 
+/**
+ * Formats an environment tag, highlighting production
+ * @param environment - The environment
+ * @returns A formatted environment string
+ */
+const formatEnvironment = (environment: Environment): string =>
+  environment === 'production' ? chalk.red.bold(environment) : environment;
+
 /**
  * Creates a header for the session information display
  * @param domain - The authenticated domain
+ * @param profile - The profile of the session, if one was given
+ * @param environment - The environment the profile is tagged with, if any
  * @returns A formatted header string
  */
-const createSessionHeader = (domain: string): string => {
+const createSessionHeader = (
+  domain: string,
+  profile?: string,
+  environment?: Environment | null
+): string => {
   return [
     `\n${chalk.green('✓')} Active authentication session:\n`,
+    ...(profile ? [`${chalk.bold('Profile:')} ${profile}\n`] : []),
     `${chalk.bold('Domain:')} ${domain}\n`,
+    ...(environment ? [`${chalk.bold('Environment:')} ${formatEnvironment(environment)}\n`] : []),
   ].join('');
 };
 
+/**
+ * Creates a one-line summary of a stored profile
+ * @param profile - The profile name
+ * @param domain - The domain of the profile, if any
+ * @param expiresAt - The timestamp when the token of the profile expires, if known
+ * @param environment - The environment the profile is tagged with, if any
+ * @returns A formatted line
+ */
+const createProfileLine = (
+  profile: string,
+  domain: string | null,
+  expiresAt: number | null,
+  environment: Environment | null
+): string => {
+  let status = chalk.dim('no expiry stored');
+  if (!domain) {
+    status = chalk.yellow('no session');
+  } else if (expiresAt && expiresAt > Date.now()) {
+    status = `expires ${formatDate(expiresAt)}`;
+  } else if (expiresAt) {
+    status = chalk.red(`expired on ${formatDate(expiresAt)}`);
+  }
+
+  const tag = environment ? `  [${formatEnvironment(environment)}]` : '';
+  return `  ${chalk.bold(profile)}${tag}  ${domain ?? ''}  ${status}\n`;
+};
+
 /**
  * Creates a message about token expiration status
  * @param expiresAt - The timestamp when the token expires
@@ -71,22 +114,57 @@ const createErrorMessage = (): string => {
 /**
  * Command options for the session command
  */
-export type SessionOptions = Record<string, never>;
+export interface SessionOptions {
+  all?: boolean;
+  profile?: string;
+}
 
 /**
- * Displays information about the current authentication session
+ * Displays a summary of every stored profile
+ * @returns A promise that resolves when the display is complete
+ */
+async function listProfiles(): Promise<void> {
+  const profiles = await keychain.getProfiles();
+  if (profiles.length === 0) {
+    cliOutput(createNoSessionMessage());
+    return;
+  }
+
+  const lines = await Promise.all(
+    profiles.map(async (profile) => {
+      const store = keychain.forProfile(profile);
+      return createProfileLine(
+        profile,
+        await store.getDomain(),
+        await store.getTokenExpiresAt(),
+        await store.getEnvironment()
+      );
+    })
+  );
+
+  cliOutput([`\n${chalk.green('✓')} Stored profiles:\n`, ...lines].join(''));
+}
+
+/**
+ * Displays information about the authentication session of a profile, or of all profiles
  *
- * @param {SessionOptions} _options - Command options from commander (unused)
+ * @param {SessionOptions} options - Command options from commander
  * @returns A promise that resolves when the display is complete
  */
-async function session(_options?: SessionOptions): Promise<void> {
+async function session(options: SessionOptions = {}): Promise<void> {
   try {
     log('Retrieving session information');
 
+    if (options.all) {
+      await listProfiles();
+      return;
+    }
+
     // Get session data from keychain
-    const token = await keychain.getToken();
-    const domain = await keychain.getDomain();
-    const expiresAt = await keychain.getTokenExpiresAt();
+    const store = options.profile ? keychain.forProfile(options.profile) : keychain;
+    const token = await store.getToken();
+    const domain = await store.getDomain();
+    const expiresAt = await store.getTokenExpiresAt();
 
     // Handle case where no session exists
     if (!token || !domain) {
@@ -95,7 +173,7 @@ async function session(_options?: SessionOptions): Promise<void> {
     }
 
     // Display session information
-    cliOutput(createSessionHeader(domain));
+    cliOutput(createSessionHeader(domain, options.profile, await store.getEnvironment()));
 
     // Add expiration information if available
     if (expiresAt) {
@@ -0,0 +1,50 @@
+import chalk from 'chalk';
+import { keychain, DEFAULT_PROFILE, type Environment } from '../utils/keychain.js';
+import { cliOutput } from '../utils/terminal.js';
+import { log } from '../utils/logger.js';
+
+/**
+ * Command options for the tag command
+ */
+export interface TagOptions {
+  profile?: string;
+}
+
+/**
+ * Tags a stored profile with the environment of its tenant, or removes the tag with "none".
+ * Write tools ask for confirmation on profiles tagged production.
+ *
+ * @param {Environment | 'none'} environment - The environment to tag the profile with
+ * @param {TagOptions} options - Command options from commander
+ * @returns A promise that resolves when the tag is stored
+ */
+async function tag(environment: Environment | 'none', options: TagOptions = {}): Promise<void> {
+  const profile = options.profile ?? DEFAULT_PROFILE;
+
+  if (!(await keychain.getProfiles()).includes(profile)) {
+    cliOutput(
+      `\n${chalk.red('✗')} No profile named ${chalk.bold(profile)} was found. Run ${chalk.cyan(`npx @auth0/auth0-mcp-server init --profile ${profile}`)} to create it.\n`
+    );
+    process.exit(1);
+    return;
+  }
+
+  log(`Tagging profile ${profile} with environment ${environment}`);
+  const stored = await keychain
+    .forProfile(profile)
+    .setEnvironment(environment === 'none' ? null : environment);
+
+  if (!stored) {
+    cliOutput(`\n${chalk.red('✗')} Failed to store the environment of profile ${profile}.\n`);
+    process.exit(1);
+    return;
+  }
+
+  cliOutput(
+    environment === 'none'
+      ? `\n${chalk.green('✓')} Removed the environment tag of profile ${chalk.bold(profile)}.\n`
+      : `\n${chalk.green('✓')} Tagged profile ${chalk.bold(profile)} as ${chalk.bold(environment)}.\n`
+  );
+}
+
+export default tag;
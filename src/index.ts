@@ -1,14 +1,20 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Argument, Command, Option } from 'commander';
 import chalk from 'chalk';
 import init from './commands/init.js';
 import run from './commands/run.js';
 import logout from './commands/logout.js';
 import session from './commands/session.js';
+import exportTenant from './commands/export.js';
+import importTenant from './commands/import.js';
+import diffTenants from './commands/diff.js';
 import { logError } from './utils/logger.js';
 import { TOOLS } from './tools/index.js';
 import { validatePatterns } from './utils/tools.js';
 import { packageName, packageVersion } from './utils/package.js';
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT, DEFAULT_POLL_INTERVAL } from './server.js';
+import tag from './commands/tag.js';
+import { ENVIRONMENTS, isValidProfileName } from './utils/keychain.js';
 
 // Set process title
 process.title = packageName;
@@ -46,6 +52,92 @@ function parseToolPatterns(value: string): string[] {
   return patterns;
 }
 
+/**
+ * Validates a profile name from command line input.
+ *
+ * @param {string} value - Raw command line input
+ * @returns {string} The profile name
+ * @throws {Error} If the name holds anything other than letters, digits, dashes and underscores
+ */
+function parseProfileName(value: string): string {
+  if (!isValidProfileName(value)) {
+    throw new Error(
+      `Invalid profile name "${value}". Use only letters, digits, dashes and underscores.`
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Parses and validates comma-separated profile names from command line input.
+ *
+ * @param {string} value - Raw command line input containing comma-separated profile names
+ * @returns {string[]} Array of validated profile names
+ * @throws {Error} If any profile name is invalid
+ */
+function parseProfileNames(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map(parseProfileName);
+}
+
+/**
+ * Parses and validates a TCP port from command line input.
+ *
+ * @param {string} value - Raw command line input
+ * @returns {number} The port number
+ * @throws {Error} If the value is not a whole number between 0 and 65535
+ */
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!/^\d+$/.test(value) || port > 65535) {
+    throw new Error(`Invalid port "${value}". Use a number between 0 and 65535.`);
+  }
+
+  return port;
+}
+
+/**
+ * Parses and validates a polling interval in seconds from command line input.
+ *
+ * @param {string} value - Raw command line input
+ * @returns {number} The interval in seconds
+ * @throws {Error} If the value is not a whole number of at least 5 seconds
+ */
+function parsePollInterval(value: string): number {
+  const seconds = Number(value);
+  if (!/^\d+$/.test(value) || seconds < 5) {
+    throw new Error(`Invalid poll interval "${value}". Use a number of seconds of at least 5.`);
+  }
+
+  return seconds;
+}
+
+/**
+ * Validates an HTTP or HTTPS URL from command line input.
+ *
+ * @param {string} value - Raw command line input
+ * @returns {string} The URL
+ * @throws {Error} If the value is not an HTTP or HTTPS URL
+ */
+function parseUrl(value: string): string {
+  let protocol: string | undefined;
+  try {
+    protocol = new URL(value).protocol;
+  } catch {
+    protocol = undefined;
+  }
+
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`Invalid URL "${value}". Use an http:// or https:// URL.`);
+  }
+
+  return value;
+}
+
 // Top-level CLI
 const program = new Command()
   .name('auth0-mcp-server')
@@ -66,13 +158,28 @@ Examples:
   npx ${packageName} init
   npx ${packageName} init --tools 'auth0_*' --client claude
   npx ${packageName} init --read-only --client claude
+  npx ${packageName} init --profile staging
+  npx ${packageName} init --profile prod --environment production
   npx ${packageName} init --tools 'auth0_*_applications' --client windsurf
   npx ${packageName} init --tools 'auth0_list_*,auth0_get_*' --client cursor
   npx ${packageName} init --auth0-domain <auth0-domain> --auth0-client-id <auth0-client-id> --auth0-client-secret <auth0-client-secret>
   npx ${packageName} run
   npx ${packageName} run --read-only
+  npx ${packageName} run --profile staging
+  npx ${packageName} run --allow-profiles dev,staging
+  npx ${packageName} run --production-read-only
+  npx ${packageName} run --poll-interval 60
+  npx ${packageName} run --transport http --port 3000
+  npx ${packageName} run --transport http --auth-issuer https://<auth0-domain>/ --auth-audience https://<mcp-host>/mcp --caller-profiles ./callers.json
   npx ${packageName} session
+  npx ${packageName} session --all
+  npx ${packageName} tag production --profile prod
+  npx ${packageName} export --output ./tenant
+  npx ${packageName} import --input ./tenant
+  npx ${packageName} import --input ./tenant --apply
+  npx ${packageName} diff --source <staging-domain> --target <production-domain>
   npx ${packageName} logout
+  npx ${packageName} logout --profile staging
   
   For more information, visit: https://github.com/auth0/auth0-mcp-server`
   );
@@ -120,6 +227,17 @@ program
     '--no-interaction',
     "Don't prompt the user for any interaction, and open the browser to authenticate automatically"
   )
+  .option(
+    '--profile <name>',
+    'Store the session in a named profile, keeping the sessions of other profiles',
+    parseProfileName
+  )
+  .addOption(
+    new Option(
+      '--environment <environment>',
+      'Tag the profile with the environment of its tenant'
+    ).choices(ENVIRONMENTS)
+  )
   .action(init);
 
 // Run command
@@ -133,20 +251,117 @@ program
     ['*']
   )
   .option('--read-only', 'Only expose read-only tools (list and get operations)', false)
+  .option('--profile <name>', 'Use the session of a named profile', parseProfileName)
+  .option(
+    '--files-dir <dir>',
+    'Directory that the tenant export, plan and apply tools may use (default: the working directory)'
+  )
+  .option(
+    '--allow-profiles <profiles>',
+    'Comma-separated list of profiles the model may switch to (defaults to all stored profiles)',
+    parseProfileNames
+  )
+  .option(
+    '--production-read-only',
+    'Only expose read-only tools while the tenant is tagged production, whatever --tools says',
+    false
+  )
+  .addOption(
+    new Option('--transport <transport>', 'Transport to serve MCP over')
+      .choices(['stdio', 'http'])
+      .default('stdio')
+  )
+  .option(
+    '--port <port>',
+    `Port to listen on with --transport http (default: ${DEFAULT_HTTP_PORT})`,
+    parsePort
+  )
+  .option(
+    '--host <host>',
+    `Host to listen on with --transport http (default: ${DEFAULT_HTTP_HOST}, this machine only)`
+  )
+  .option(
+    '--allow-unauthenticated',
+    'Serve --transport http on a --host other than this machine without --auth-issuer, for trusted networks only',
+    false
+  )
+  .option(
+    '--auth-issuer <url>',
+    'Require OAuth access tokens from this issuer with --transport http, e.g. https://your-tenant.us.auth0.com/',
+    parseUrl
+  )
+  .option(
+    '--auth-audience <url>',
+    'URL of the MCP endpoint, which access tokens must be issued for (required with --auth-issuer)',
+    parseUrl
+  )
+  .option(
+    '--auth-jwks-uri <url>',
+    "URL of the issuer's signing keys (defaults to the issuer's /.well-known/jwks.json)",
+    parseUrl
+  )
+  .option(
+    '--caller-profiles <file>',
+    'JSON file mapping the subject of each access token to the profile holding their credentials (required with --auth-issuer)'
+  )
+  .option(
+    '--poll-interval <seconds>',
+    `How often the tenant logs are checked for changes to subscribed resources (default: ${DEFAULT_POLL_INTERVAL})`,
+    parsePollInterval
+  )
   .action(run);
 
 // Logout command
 program
   .command('logout')
   .description('Remove all stored Auth0 tokens from the system keychain')
+  .option('--profile <name>', 'Only remove the tokens of a named profile', parseProfileName)
   .action(logout);
 
 // Session command
 program
   .command('session')
   .description('Display current authentication session information')
+  .option('--all', 'List the sessions of all profiles', false)
+  .option('--profile <name>', 'Display the session of a named profile', parseProfileName)
   .action(session);
 
+// Tag command
+program
+  .command('tag')
+  .description('Tag a profile with the environment of its tenant, or remove the tag with "none"')
+  .addArgument(
+    new Argument('<environment>', 'Environment of the tenant').choices([...ENVIRONMENTS, 'none'])
+  )
+  .option('--profile <name>', 'Profile to tag (default: the default profile)', parseProfileName)
+  .action(tag);
+
+// Export command
+program
+  .command('export')
+  .description('Export the tenant configuration to a directory of JSON files')
+  .option('-o, --output <dir>', 'Directory to write the export to', 'tenant')
+  .action(exportTenant);
+
+// Import command
+program
+  .command('import')
+  .description('Plan and apply the changes that make the tenant match a directory of tenant files')
+  .option('-i, --input <dir>', 'Directory to read the tenant files from', 'tenant')
+  .option('--apply', 'Apply the planned changes instead of only showing them', false)
+  .option('--allow-delete', 'Delete resources that have no file in the input directory', false)
+  .option('--read-only', 'Only show the plan, never apply it (refuses --apply)', false)
+  .action(importTenant);
+
+// Diff command
+program
+  .command('diff')
+  .description('Compare the configuration of two tenants that you have logged in to')
+  .requiredOption('-s, --source <domain>', 'Domain of the tenant to compare from')
+  .option('-t, --target <domain>', 'Domain of the tenant to compare against (default: current)')
+  .option('--json', 'Print the differences as JSON', false)
+  .action(diffTenants);
+
 // Parse arguments and handle potential errors
 program.parseAsync().catch((error) => {
   logError('Command execution error:', error);
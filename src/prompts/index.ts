@@ -0,0 +1,214 @@
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { Tool } from '../utils/types.js';
+
+// A workflow that clients can start from a prompt, which guides the model through the
+// tool calls it takes
+interface WorkflowPrompt {
+  prompt: Prompt;
+  // Tools that the workflow calls, all of which must be available for the prompt to be offered
+  tools: string[];
+  // Writes the message that starts the workflow, from the arguments of the prompt
+  createMessage: (args: Record<string, string>) => string;
+}
+
+// Failed logins are looked up over this many days unless the prompt says otherwise
+const DEFAULT_LOG_DAYS = 7;
+
+// Helper function to quote a value in a Lucene query of the logs
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+const WORKFLOW_PROMPTS: WorkflowPrompt[] = [
+  {
+    prompt: {
+      name: 'setup_spa_with_api',
+      title: 'Set up a SPA with an API',
+      description:
+        'Create a single-page application and the API it calls, ready to request access tokens for the API',
+      arguments: [
+        { name: 'app_name', description: 'Name of the single-page application', required: true },
+        {
+          name: 'api_identifier',
+          description: 'Identifier (audience) of the API, e.g. https://api.example.com',
+          required: true,
+        },
+        {
+          name: 'app_url',
+          description:
+            'URL the application runs on, used for callbacks, logout and web origins. Defaults to http://localhost:3000',
+        },
+        {
+          name: 'scopes',
+          description: 'Comma-separated scopes of the API, e.g. read:orders,write:orders',
+        },
+      ],
+    },
+    tools: [
+      'auth0_list_resource_servers',
+      'auth0_create_resource_server',
+      'auth0_create_application',
+    ],
+    createMessage: ({ app_name, api_identifier, app_url, scopes }) => {
+      const url = app_url || 'http://localhost:3000';
+      const scopeList = (scopes ?? '')
+        .split(',')
+        .map((scope) => scope.trim())
+        .filter(Boolean);
+      const scopeText = scopeList.length > 0 ? ` and the scopes ${scopeList.join(', ')}` : '';
+
+      return [
+        `Set up a single-page application named "${app_name}" that calls the API ${api_identifier} in my Auth0 tenant.`,
+        '',
+        `1. Check with auth0_list_resource_servers whether an API with the identifier ${api_identifier} exists. ` +
+          `If it does not, create it with auth0_create_resource_server, using ${api_identifier} as identifier${scopeText}.`,
+        `2. Create the application with auth0_create_application, with app_type "spa" and ${url} as callback URL, ` +
+          'allowed logout URL and allowed origin.',
+        '3. Tell me the client ID of the application and how to configure the Auth0 SPA SDK with it: the domain, ' +
+          'the client ID and the API identifier as audience.',
+        '',
+        'Do not create an application or API that already exists. Ask me first instead.',
+      ].join('\n');
+    },
+  },
+  {
+    prompt: {
+      name: 'investigate_failed_logins',
+      title: 'Investigate failed logins for a user',
+      description: 'Find out from the tenant logs why the logins of a user fail',
+      arguments: [
+        {
+          name: 'user',
+          description: 'Email address, username or user ID of the user',
+          required: true,
+        },
+        {
+          name: 'days',
+          description: `Number of days to look back. Defaults to ${DEFAULT_LOG_DAYS}`,
+        },
+      ],
+    },
+    tools: ['auth0_list_logs', 'auth0_get_log'],
+    createMessage: ({ user, days }) => {
+      const dayCount = days ? Number(days) : DEFAULT_LOG_DAYS;
+      if (!Number.isInteger(dayCount) || dayCount < 1) {
+        throw new Error('days must be a positive whole number');
+      }
+
+      const since = new Date(Date.now() - dayCount * 24 * 60 * 60 * 1000).toISOString();
+      const userQuery = `(user_name:${quote(user)} OR user_id:${quote(user)})`;
+
+      return [
+        `Investigate why logins fail for the user ${user} in my Auth0 tenant over the last ${dayCount} days.`,
+        '',
+        `1. List the failed logins of the user with auth0_list_logs, using the query ` +
+          `\`${userQuery} AND (type:failed_login OR type:blocked OR type:breached_password) AND date:[${since} TO *]\`.`,
+        '2. Read the most recent failures with auth0_get_log for their descriptions, connections, applications, ' +
+          'IP addresses and user agents.',
+        `3. List the successful logins of the user in the same period with the query ` +
+          `\`${userQuery} AND type:s AND date:[${since} TO *]\`, to see whether the failures stopped.`,
+        '',
+        'Then summarize the number of failures by type, when they started, the likely cause (e.g. a wrong password, ' +
+          'a blocked account, a breached password or a misconfigured connection or application), whether they ' +
+          'look like an attack from unfamiliar IP addresses, and how to resolve them. Do not change anything in ' +
+          'the tenant.',
+      ].join('\n');
+    },
+  },
+  {
+    prompt: {
+      name: 'write_post_login_action',
+      title: 'Write and deploy a post-login action',
+      description: 'Write, test and deploy an action that runs after users log in',
+      arguments: [
+        {
+          name: 'goal',
+          description: "What the action should do, e.g. add the user's roles to the ID token",
+          required: true,
+        },
+        {
+          name: 'action_name',
+          description: 'Name of the action. Defaults to a name of your choice',
+        },
+      ],
+    },
+    tools: [
+      'auth0_create_action',
+      'auth0_update_action',
+      'auth0_test_action',
+      'auth0_deploy_action',
+      'auth0_get_trigger_bindings',
+      'auth0_update_trigger_bindings',
+    ],
+    createMessage: ({ goal, action_name }) =>
+      [
+        `Write a post-login action for my Auth0 tenant that does the following: ${goal}`,
+        '',
+        '1. Write the code as `exports.onExecutePostLogin = async (event, api) => { ... }`. Handle missing data, ' +
+          'and keep credentials in secrets of the action rather than in the code.',
+        `2. Create the action ${action_name ? `named "${action_name}"` : 'with a descriptive name'} with ` +
+          'auth0_create_action, for the post-login trigger version v3.',
+        '3. Test it with auth0_test_action on a realistic event, and fix the code with auth0_update_action until ' +
+          'the test succeeds.',
+        '4. Show me the code and the test result, and wait for my approval before deploying.',
+        '5. Deploy the action with auth0_deploy_action. Then get the current post-login bindings with ' +
+          'auth0_get_trigger_bindings and add the action at the end with auth0_update_trigger_bindings, keeping ' +
+          'the existing bindings in their order.',
+      ].join('\n'),
+  },
+];
+
+/**
+ * Gets the workflow prompts whose tools are all available, so that prompts never lead the model
+ * to tools that --tools leaves out
+ * @param tools - The available tools
+ * @returns The workflow prompts
+ */
+const getWorkflowPrompts = (tools: Tool[]): WorkflowPrompt[] =>
+  WORKFLOW_PROMPTS.filter((workflow) =>
+    workflow.tools.every((name) => tools.some((tool) => tool.name === name))
+  );
+
+/**
+ * Lists the workflow prompts
+ * @param tools - The available tools
+ * @returns The prompts
+ */
+export function listPrompts(tools: Tool[]): Prompt[] {
+  return getWorkflowPrompts(tools).map(({ prompt }) => prompt);
+}
+
+/**
+ * Gets the message that starts a workflow
+ * @param name - The name of the prompt
+ * @param args - The arguments of the prompt
+ * @param tools - The available tools
+ * @returns The prompt, with a single user message
+ * @throws {Error} If the prompt is not available or a required argument is missing
+ */
+export function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  tools: Tool[]
+): GetPromptResult {
+  const workflow = getWorkflowPrompts(tools).find(({ prompt }) => prompt.name === name);
+  if (!workflow) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const values = args ?? {};
+  const missing = (workflow.prompt.arguments ?? [])
+    .filter((argument) => argument.required && !values[argument.name]?.trim())
+    .map((argument) => argument.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required arguments: ${missing.join(', ')}`);
+  }
+
+  return {
+    description: workflow.prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: workflow.createMessage(values) },
+      },
+    ],
+  };
+}
@@ -0,0 +1,289 @@
+import type {
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { HANDLERS } from '../tools/index.js';
+import { log } from '../utils/logger.js';
+import type { HandlerConfig, HandlerResponse, Tool } from '../utils/types.js';
+
+// A type of tenant object that clients can attach to a conversation as a resource
+interface TenantResourceType {
+  template: ResourceTemplate;
+  // Tools whose handlers list the objects and get one of them
+  listTool: string;
+  getTool: string;
+  // Parameter of the get tool that takes the ID, named the same in the URI template
+  idParameter: string;
+  // Field of the list tool's result that holds the objects, unless it returns them as they are
+  listField?: string;
+  // Turns the object returned by the get tool into the text of the resource, JSON by default
+  toText?: (object: Record<string, any>) => string;
+  // Resource type that auth0_list_config_changes reports changes to the objects under
+  changeType: string;
+}
+
+/**
+ * A change to a resource, found in the Management API logs
+ */
+export interface ResourceChange {
+  uri: string;
+  // IDs of the log entries that recorded the change
+  logIds: string[];
+}
+
+// Objects listed per type, from the first page of each list tool
+const LIST_PAGE_SIZE = 50;
+
+const TENANT_RESOURCE_TYPES: TenantResourceType[] = [
+  {
+    template: {
+      uriTemplate: 'auth0://applications/{client_id}',
+      name: 'Application',
+      description: 'Settings of an Auth0 application, with secrets redacted',
+      mimeType: 'application/json',
+    },
+    listTool: 'auth0_list_applications',
+    getTool: 'auth0_get_application',
+    idParameter: 'client_id',
+    changeType: 'client',
+  },
+  {
+    template: {
+      uriTemplate: 'auth0://resource-servers/{id}',
+      name: 'Resource server',
+      description: 'Settings and scopes of an Auth0 API (resource server)',
+      mimeType: 'application/json',
+    },
+    listTool: 'auth0_list_resource_servers',
+    getTool: 'auth0_get_resource_server',
+    idParameter: 'id',
+    listField: 'resource_servers',
+    changeType: 'resource_server',
+  },
+  {
+    template: {
+      uriTemplate: 'auth0://actions/{id}/code',
+      name: 'Action code',
+      description: 'Source code of an Auth0 action',
+      mimeType: 'text/javascript',
+    },
+    listTool: 'auth0_list_actions',
+    getTool: 'auth0_get_action',
+    idParameter: 'id',
+    listField: 'actions',
+    toText: (action) => action.code ?? '',
+    changeType: 'action',
+  },
+  {
+    template: {
+      uriTemplate: 'auth0://forms/{id}',
+      name: 'Form',
+      description: 'Nodes, components and settings of an Auth0 form',
+      mimeType: 'application/json',
+    },
+    listTool: 'auth0_list_forms',
+    getTool: 'auth0_get_form',
+    idParameter: 'id',
+    listField: 'forms',
+    changeType: 'form',
+  },
+];
+
+/**
+ * Gets the resource types whose list and get tools are available, so that resources never
+ * expose objects that --tools leaves out
+ * @param tools - The available tools
+ * @returns The resource types
+ */
+const getResourceTypes = (tools: Tool[]): TenantResourceType[] =>
+  TENANT_RESOURCE_TYPES.filter(({ listTool, getTool }) =>
+    [listTool, getTool].every((name) => tools.some((tool) => tool.name === name))
+  );
+
+// Helper function to parse the JSON that a handler returned, one value per content item
+function parseContent(response: HandlerResponse): any[] {
+  if (response.isError) {
+    throw new Error(response.content.map((item) => item.text).join('\n'));
+  }
+
+  return response.content.map((item) => JSON.parse(item.text));
+}
+
+// Helper function to get the object that a get tool returned. Some of them return the
+// Management API response, which holds the object in its data field.
+function getObject(response: HandlerResponse): Record<string, any> {
+  const [value] = parseContent(response);
+  return value && typeof value === 'object' && 'data' in value && 'status' in value
+    ? value.data
+    : value;
+}
+
+// Helper function to find the resource type and ID of a resource URI
+function matchResource(
+  uri: string,
+  tools: Tool[]
+): { type: TenantResourceType; id: string } | undefined {
+  for (const type of getResourceTypes(tools)) {
+    const variables = new UriTemplate(type.template.uriTemplate).match(uri);
+    if (variables) {
+      return { type, id: decodeURIComponent(String(variables[type.idParameter])) };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Lists the resource templates of the tenant objects
+ * @param tools - The available tools
+ * @returns The resource templates
+ */
+export function listResourceTemplates(tools: Tool[]): ResourceTemplate[] {
+  return getResourceTypes(tools).map(({ template }) => template);
+}
+
+/**
+ * Lists the tenant objects as resources, using the list tools. A type whose list tool fails,
+ * e.g. for lack of a scope, is left out so that the other types are still listed.
+ *
+ * @param tools - The available tools
+ * @param token - The Management API token
+ * @param config - The handler config of the tenant
+ * @returns The resources, up to {@link LIST_PAGE_SIZE} per type
+ */
+export async function listResources(
+  tools: Tool[],
+  token: string,
+  config: HandlerConfig
+): Promise<Resource[]> {
+  const resources = await Promise.all(
+    getResourceTypes(tools).map(async ({ template, listTool, idParameter, listField }) => {
+      try {
+        const response = await HANDLERS[listTool](
+          { token, parameters: { per_page: LIST_PAGE_SIZE } },
+          config
+        );
+        const objects = parseContent(response).flatMap((value) =>
+          Array.isArray(value) ? value : listField ? (value[listField] ?? []) : [value]
+        );
+
+        const uriTemplate = new UriTemplate(template.uriTemplate);
+        return objects.map(
+          (object): Resource => ({
+            uri: uriTemplate.expand({ [idParameter]: object.id }),
+            name: object.name ?? object.id,
+            description: `${template.name} ${object.id}`,
+            mimeType: template.mimeType,
+          })
+        );
+      } catch (error) {
+        log(
+          `Failed to list ${template.name} resources: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return [];
+      }
+    })
+  );
+
+  return resources.flat();
+}
+
+/**
+ * Reads a tenant object, using the get tool of its type
+ * @param uri - The URI of the resource, e.g. auth0://applications/abc123
+ * @param tools - The available tools
+ * @param token - The Management API token
+ * @param config - The handler config of the tenant
+ * @returns The contents of the resource
+ * @throws {Error} If the URI matches no available resource type or the get tool fails
+ */
+export async function readResource(
+  uri: string,
+  tools: Tool[],
+  token: string,
+  config: HandlerConfig
+): Promise<ReadResourceResult['contents']> {
+  const match = matchResource(uri, tools);
+  if (!match) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const { template, getTool, idParameter, toText } = match.type;
+  log(`Reading resource ${uri} with ${getTool}`);
+  const object = getObject(
+    await HANDLERS[getTool]({ token, parameters: { [idParameter]: match.id } }, config)
+  );
+
+  return [
+    {
+      uri,
+      mimeType: template.mimeType,
+      text: toText ? toText(object) : JSON.stringify(object, null, 2),
+    },
+  ];
+}
+
+/**
+ * Checks whether a URI points to a tenant object of an available resource type
+ * @param uri - The URI of the resource
+ * @param tools - The available tools
+ * @returns True if the URI is a resource
+ */
+export function isResource(uri: string, tools: Tool[]): boolean {
+  return matchResource(uri, tools) !== undefined;
+}
+
+/**
+ * Lists the resources that changed in a time window, from the successful Management API
+ * operations in the tenant logs. Changes made in the Auth0 Dashboard go through the
+ * Management API too, so they are found as well.
+ *
+ * @param tools - The available tools
+ * @param token - The Management API token
+ * @param config - The handler config of the tenant
+ * @param from - Start of the time window
+ * @param to - End of the time window
+ * @returns The changed resources, with the log entries of their changes
+ * @throws {Error} If the logs cannot be read, e.g. for lack of the read:logs scope
+ */
+export async function listChangedResources(
+  tools: Tool[],
+  token: string,
+  config: HandlerConfig,
+  from: Date,
+  to: Date
+): Promise<ResourceChange[]> {
+  const [{ resources: groups }] = parseContent(
+    await HANDLERS.auth0_list_config_changes(
+      {
+        token,
+        parameters: {
+          from_date: from.toISOString(),
+          to_date: to.toISOString(),
+          include_failed: false,
+        },
+      },
+      config
+    )
+  );
+
+  const resourceTypes = getResourceTypes(tools);
+  return (groups as Record<string, any>[]).flatMap((group): ResourceChange[] => {
+    const type = resourceTypes.find(({ changeType }) => changeType === group.resource_type);
+    // Creating an object has no ID in its path, and there is nothing to subscribe to yet
+    if (!type || !group.resource_id) {
+      return [];
+    }
+
+    return [
+      {
+        uri: new UriTemplate(type.template.uriTemplate).expand({
+          [type.idParameter]: group.resource_id,
+        }),
+        logIds: group.changes.map((change: Record<string, any>) => change.log_id),
+      },
+    ];
+  });
+}
@@ -0,0 +1,108 @@
+import { listChangedResources } from './index.js';
+import { log } from '../utils/logger.js';
+import type { HandlerConfig, Tool } from '../utils/types.js';
+
+// Log entries can show up a little after the operation they record, so every poll looks back
+// this far into the window of the previous poll
+const LOG_DELAY_MS = 60 * 1000;
+
+/**
+ * Options of a resource watcher
+ */
+export interface ResourceWatcherOptions {
+  // The available tools, which decide the resource types that can be watched
+  tools: Tool[];
+  // How often the tenant logs are polled, in milliseconds
+  interval: number;
+  // Loads the tenant to poll. It runs before every poll, so that switching tenants and token
+  // refreshes take effect.
+  loadConfig: () => Promise<{ token: string; config: HandlerConfig }>;
+  // Notifies the client that a subscribed resource changed
+  onUpdated: (uri: string) => Promise<void>;
+}
+
+/**
+ * Watches the resources that a client subscribed to
+ */
+export interface ResourceWatcher {
+  subscribe: (uri: string) => void;
+  unsubscribe: (uri: string) => void;
+  close: () => void;
+}
+
+/**
+ * Creates a watcher that polls the tenant logs in the background for Management API
+ * operations on subscribed resources. Polling only runs while the client holds subscriptions.
+ *
+ * @param options - The tools, polling interval, tenant and notification callback
+ * @returns The watcher
+ */
+export function createResourceWatcher(options: ResourceWatcherOptions): ResourceWatcher {
+  const subscriptions = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let checkedUntil = new Date();
+  // Log entries found by the previous poll, which the next one finds again in the overlap
+  let seenLogIds = new Set<string>();
+  let polling = false;
+
+  const poll = async () => {
+    // Skip a tick while a slow poll is still running, rather than read the same logs twice
+    if (polling) {
+      return;
+    }
+    polling = true;
+
+    try {
+      const to = new Date();
+      const from = new Date(checkedUntil.getTime() - LOG_DELAY_MS);
+      const { token, config } = await options.loadConfig();
+      const changes = await listChangedResources(options.tools, token, config, from, to);
+
+      const updated = changes.filter(
+        ({ uri, logIds }) => subscriptions.has(uri) && logIds.some((id) => !seenLogIds.has(id))
+      );
+      checkedUntil = to;
+      seenLogIds = new Set(changes.flatMap(({ logIds }) => logIds));
+
+      for (const { uri } of updated) {
+        log(`Subscribed resource changed: ${uri}`);
+        await options.onUpdated(uri);
+      }
+    } catch (error) {
+      // Keep polling, e.g. a token that expired is refreshed before the next poll
+      log(
+        `Failed to check subscribed resources for changes: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      polling = false;
+    }
+  };
+
+  const stop = () => {
+    clearInterval(timer);
+    timer = undefined;
+  };
+
+  return {
+    subscribe: (uri) => {
+      subscriptions.add(uri);
+      if (!timer) {
+        checkedUntil = new Date();
+        seenLogIds = new Set();
+        timer = setInterval(() => void poll(), options.interval);
+        // The watcher must not keep the process alive once the transport closes
+        timer.unref();
+      }
+    },
+    unsubscribe: (uri) => {
+      subscriptions.delete(uri);
+      if (subscriptions.size === 0) {
+        stop();
+      }
+    },
+    close: () => {
+      subscriptions.clear();
+      stop();
+    },
+  };
+}
@@ -1,18 +1,170 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InsufficientScopeError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 
-import { loadConfig, validateConfig } from './utils/config.js';
+import {
+  getCurrentEnvironment,
+  getCurrentProfile,
+  getProfileEnvironment,
+  listProfileSessions,
+  loadConfig,
+  loadDomainConfig,
+  loadProfileConfig,
+  readCallerProfiles,
+  switchProfile,
+  validateConfig,
+  type Auth0Config,
+  type ProfileSession,
+} from './utils/config.js';
 import { HANDLERS, TOOLS } from './tools/index.js';
+import {
+  isResource,
+  listResources,
+  listResourceTemplates,
+  readResource,
+} from './resources/index.js';
+import { createResourceWatcher, type ResourceWatcher } from './resources/subscriptions.js';
+import { getPrompt, listPrompts } from './prompts/index.js';
 import { log, logInfo } from './utils/logger.js';
 import { formatDomain } from './utils/http-utility.js';
 import { maskTenantName } from './utils/terminal.js';
 import { getAvailableTools } from './utils/tools.js';
+import {
+  isLoopbackHost,
+  MCP_HTTP_PATH,
+  startHttpTransport,
+  type HttpAuthOptions,
+} from './utils/http-transport.js';
+import { createTokenVerifier } from './utils/oauth.js';
+import type { TenantSession, Tool } from './utils/types.js';
+import type { Environment } from './utils/keychain.js';
 import type { RunOptions } from './commands/run.js';
 import { packageVersion } from './utils/package.js';
 
 type ServerOptions = RunOptions;
 
+// Where the HTTP transport listens unless --host and --port are given
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3000;
+
+// How often subscribed resources are checked for changes unless --poll-interval is given, in seconds
+export const DEFAULT_POLL_INTERVAL = 30;
+
+// Argument that write tools need on a production tenant
+const PRODUCTION_CONFIRMATION_PARAM = 'confirm_production';
+
+/**
+ * Creates the content item naming the tenant a tool call ran against, so that the
+ * model never confuses one tenant with another
+ * @param domain - The domain of the tenant
+ * @param profile - The profile holding the tenant's session
+ * @param environment - The environment the tenant's profile is tagged with, if any
+ * @returns A text content item
+ */
+const createTenantContent = (domain: string, profile: string, environment: Environment | null) => ({
+  type: 'text',
+  text: `Tenant: ${formatDomain(domain)} (profile: ${profile}${environment ? `, environment: ${environment}` : ''})`,
+});
+
+/**
+ * Retrieves the profile of a caller that authenticated with OAuth
+ * @param authInfo - The caller's auth info, set by the HTTP transport
+ * @returns The profile, or undefined for requests without OAuth
+ */
+const getCallerProfile = (authInfo?: AuthInfo): string | undefined =>
+  typeof authInfo?.extra?.profile === 'string' ? authInfo.extra.profile : undefined;
+
+/**
+ * Creates the OAuth options of the HTTP transport. Every caller is mapped to the keychain
+ * profile holding their own Management API credentials, and callers without a profile are
+ * refused.
+ * @param options - The server options, with --auth-issuer set
+ * @returns The auth options
+ */
+async function createHttpAuth({
+  authIssuer,
+  authAudience,
+  authJwksUri,
+  callerProfiles: callerProfilesFile,
+}: ServerOptions & { authIssuer: string }): Promise<HttpAuthOptions> {
+  if (!authAudience || !callerProfilesFile) {
+    throw new Error('--auth-issuer requires --auth-audience and --caller-profiles');
+  }
+
+  const callerProfiles = await readCallerProfiles(callerProfilesFile);
+  const verifyToken = createTokenVerifier({
+    issuer: authIssuer,
+    audience: authAudience,
+    jwksUri: authJwksUri,
+  });
+
+  return {
+    authenticate: async (token) => {
+      const authInfo = await verifyToken(token);
+      const profile = callerProfiles.get(authInfo.extra?.subject as string);
+      if (!profile) {
+        throw new InsufficientScopeError('No profile is mapped to the subject of this token');
+      }
+      return { ...authInfo, extra: { ...authInfo.extra, profile } };
+    },
+    metadata: {
+      resource: authAudience,
+      authorization_servers: [authIssuer],
+      bearer_methods_supported: ['header'],
+      resource_name: 'Auth0 MCP Server',
+    },
+  };
+}
+
+/**
+ * Creates the warning banner added to the responses of write tools on a production tenant
+ * @param domain - The domain of the tenant
+ * @returns A text content item
+ */
+const createProductionBanner = (domain: string) => ({
+  type: 'text',
+  text: `⚠️ PRODUCTION TENANT: ${formatDomain(domain)} is tagged production. Double-check this change with the user.`,
+});
+
+/**
+ * Adds the production confirmation argument to the input schema of a write tool
+ * @param tool - The tool, without its _meta field
+ * @returns The tool with the extra argument
+ */
+const withProductionConfirmation = ({
+  inputSchema = { type: 'object', properties: {} },
+  ...tool
+}: Omit<Tool, '_meta'>): Omit<Tool, '_meta'> => ({
+  ...tool,
+  inputSchema: {
+    ...inputSchema,
+    properties: {
+      ...inputSchema.properties,
+      [PRODUCTION_CONFIRMATION_PARAM]: {
+        type: 'boolean',
+        description:
+          'The current tenant is tagged production. Set to true only after the user has confirmed ' +
+          'that this change should be made to production. Required.',
+      },
+    },
+    required: [...(inputSchema.required ?? []), PRODUCTION_CONFIRMATION_PARAM],
+  },
+});
+
 /**
  * Initializes and starts the Auth0 MCP server to provide AI assistants
  * with secure, controlled access to Auth0 Management API capabilities.
@@ -38,11 +190,12 @@ type ServerOptions = RunOptions;
  * - Exposing selected tools based on user permissions and preferences
  * - Handling MCP protocol requests through configured transports
  *
- * @param {ServerOptions} [options] - Optional configuration for tool filtering and read-only mode
- * @returns {Promise<Server>} The initialized MCP server instance
+ * @param {ServerOptions} [options] - Optional configuration for tool filtering, read-only mode and transport
+ * @returns {Promise<Server | HttpServer>} The MCP server connected to stdio, or the HTTP server
+ *          that serves a session per client
  * @throws {Error} If configuration validation fails or server setup encounters errors
  */
-export async function startServer(options?: ServerOptions) {
+export async function startServer(options?: ServerOptions): Promise<Server | HttpServer> {
   try {
     log('Initializing Auth0 MCP server...');
 
@@ -51,94 +204,376 @@ export async function startServer(options?: ServerOptions) {
     log(`Process ID: ${process.pid}`);
     log(`Platform: ${process.platform} (${process.arch})`);
 
-    // Load configuration
-    let config = await loadConfig();
+    // Load configuration. With OAuth, callers only use the sessions of their own profiles.
+    let config: Auth0Config | null = null;
+    if (!options?.authIssuer) {
+      config = await loadConfig();
 
-    if (!config || !(await validateConfig(config))) {
-      log('Failed to load valid Auth0 configuration');
-      throw new Error('Invalid Auth0 configuration');
+      if (!config || !(await validateConfig(config))) {
+        log('Failed to load valid Auth0 configuration');
+        throw new Error('Invalid Auth0 configuration');
+      }
+
+      log(`Successfully loaded configuration for tenant: ${maskTenantName(config.tenantName)}`);
     }
 
-    log(`Successfully loaded configuration for tenant: ${maskTenantName(config.tenantName)}`);
+    // The profile the server started with can always be switched back to
+    const startProfile = getCurrentProfile();
+    const isProfileAllowed = (profile: string) =>
+      !options?.allowProfiles ||
+      profile === startProfile ||
+      options.allowProfiles.includes(profile);
 
-    // Get available tools based on options if provided
-    const availableTools = getAvailableTools(TOOLS, options?.tools, options?.readOnly);
+    const toTenantSession = (session: ProfileSession): TenantSession => ({
+      ...session,
+      current: session.profile === getCurrentProfile(),
+      allowed: isProfileAllowed(session.profile),
+    });
 
-    // Create server instance
-    const server = new Server(
-      { name: 'auth0', version: packageVersion },
-      { capabilities: { tools: {}, logging: {} } }
-    );
+    // Looks up the sessions of other tenants for tools that work across tenants, from the
+    // profiles that the model could switch to as well
+    const getAllowedDomainConfig = (domain: string) => loadDomainConfig(domain, isProfileAllowed);
 
-    // Handle list tools request
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
-      log('Received list tools request');
+    // Lists the tenants the model can see, and switches the config used by later tool calls
+    const listTenants = async () => (await listProfileSessions()).map(toTenantSession);
+    const switchTenant = async (profile: string) => {
+      // Over HTTP, every session shares the server's tenant, so a switch would move them all
+      if (options?.transport === 'http') {
+        throw new Error(
+          'Switching tenants is not available over HTTP, because every session shares the tenant of the server. Start a server with --profile for each tenant instead'
+        );
+      }
 
-      // Sanitize tools by removing _meta fields
-      // See: https://github.com/modelcontextprotocol/modelcontextprotocol/issues/264
-      const sanitizedTools = availableTools.map(({ _meta, ...rest }) => rest);
+      const session = (await listProfileSessions()).find((item) => item.profile === profile);
+      if (!session) {
+        throw new Error(`No profile named ${profile} is stored`);
+      }
+      if (!isProfileAllowed(profile)) {
+        throw new Error(`Switching to profile ${profile} is not allowed by --allow-profiles`);
+      }
 
-      return { tools: sanitizedTools };
-    });
+      const previousEnvironment = await getCurrentEnvironment();
+      const profileConfig = await switchProfile(profile);
+      if (!profileConfig) {
+        throw new Error(
+          `Profile ${profile} has no valid session. Run "npx @auth0/auth0-mcp-server init --profile ${profile}" to log in again`
+        );
+      }
+
+      config = profileConfig;
+      log(`Switched tool calls to tenant: ${maskTenantName(config.tenantName)}`);
 
-    // Handle tool calls
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const toolName = request.params.name;
-      log(`Received tool call: ${toolName}`);
+      // The resources are the new tenant's objects, and production tenants get a different
+      // tool list, see the list tools handler
+      await Promise.all([...servers].map((server) => server.sendResourceListChanged()));
+      if (session.environment !== previousEnvironment) {
+        await Promise.all([...servers].map((server) => server.sendToolListChanged()));
+      }
+      return toTenantSession(session);
+    };
 
-      try {
-        if (!HANDLERS[toolName]) {
-          throw new Error(`Unknown tool: ${toolName}`);
+    // Loads the config that a request runs against: the session of the caller's profile for
+    // callers that authenticated with OAuth, the shared config for everyone else
+    const loadRequestConfig = async (callerProfile?: string): Promise<Auth0Config> => {
+      if (callerProfile) {
+        const profileConfig = await loadProfileConfig(callerProfile);
+        if (!profileConfig) {
+          throw new Error(
+            `Profile ${callerProfile} has no valid session. Ask the server operator to run "npx @auth0/auth0-mcp-server init --profile ${callerProfile}"`
+          );
         }
+        return profileConfig;
+      }
+
+      // Check if config is still valid, reload if needed
+      if (!config || !(await validateConfig(config))) {
+        log('Config is invalid, attempting to reload');
+        config = await loadConfig();
 
-        // Check if config is still valid, reload if needed
         if (!config || !(await validateConfig(config))) {
-          log('Config is invalid, attempting to reload');
-          config = await loadConfig();
+          throw new Error(
+            'Auth0 configuration is invalid or missing. Please check auth0-cli login status.'
+          );
+        }
+
+        log('Successfully reloaded configuration');
+      }
+      return config;
+    };
+
+    // Get available tools based on options if provided
+    const availableTools = getAvailableTools(TOOLS, options?.tools, options?.readOnly);
+
+    // With --production-read-only, production tenants only get read-only tools, whatever --tools says
+    const productionTools = options?.productionReadOnly
+      ? getAvailableTools(TOOLS, options?.tools, true)
+      : availableTools;
+
+    // Connected server instances: one on stdio, one per session over HTTP. They share the
+    // config, so switching the tenant applies to every session.
+    const servers = new Set<Server>();
+
+    const createServer = () => {
+      // Create server instance
+      const server = new Server(
+        { name: 'auth0', version: packageVersion },
+        {
+          capabilities: {
+            tools: { listChanged: true },
+            resources: { subscribe: true, listChanged: true },
+            prompts: {},
+            logging: {},
+          },
+        }
+      );
+      servers.add(server);
+
+      // Watches the resources this client subscribed to, once it subscribes to one
+      let watcher: ResourceWatcher | undefined;
+      server.onclose = () => {
+        servers.delete(server);
+        watcher?.close();
+      };
 
-          if (!config || !(await validateConfig(config))) {
+      // Handle list tools request
+      server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+        log('Received list tools request');
+
+        const callerProfile = getCallerProfile(extra?.authInfo);
+        const isProduction =
+          (callerProfile
+            ? await getProfileEnvironment(callerProfile)
+            : await getCurrentEnvironment()) === 'production';
+
+        // Sanitize tools by removing _meta fields
+        // See: https://github.com/modelcontextprotocol/modelcontextprotocol/issues/264
+        const sanitizedTools = (isProduction ? productionTools : availableTools).map(
+          ({ _meta, ...rest }) =>
+            isProduction && !_meta?.readOnly ? withProductionConfirmation(rest) : rest
+        );
+
+        return { tools: sanitizedTools };
+      });
+
+      // Handle tool calls
+      server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        const toolName = request.params.name;
+        log(`Received tool call: ${toolName}`);
+
+        // Callers that authenticated with OAuth use the session of their own profile, and
+        // cannot switch tenants or read the sessions of other profiles
+        const callerProfile = getCallerProfile(extra?.authInfo);
+        let callerConfig: Auth0Config | null = null;
+
+        let environment: Environment | null = null;
+
+        // Names the tenant of the call, which after a switch is the new one
+        const tenantContent = () => {
+          const current = callerProfile ? callerConfig : config;
+          return current?.domain
+            ? [
+                createTenantContent(
+                  current.domain,
+                  callerProfile ?? getCurrentProfile(),
+                  environment
+                ),
+              ]
+            : [];
+        };
+
+        try {
+          if (!HANDLERS[toolName]) {
+            throw new Error(`Unknown tool: ${toolName}`);
+          }
+          // Clients can call tools that the list leaves out, so --tools and --read-only are
+          // enforced here as well
+          const tool = availableTools.find((item) => item.name === toolName);
+          if (!tool) {
+            throw new Error(
+              `${toolName} is not available because the server runs with --tools or --read-only options that leave it out`
+            );
+          }
+
+          const callConfig = await loadRequestConfig(callerProfile);
+          if (callerProfile) {
+            callerConfig = callConfig;
+          }
+
+          const { [PRODUCTION_CONFIRMATION_PARAM]: productionConfirmed, ...parameters } =
+            request.params.arguments || {};
+
+          // Add auth token to request
+          const requestWithToken = {
+            token: callConfig.token,
+            parameters,
+          };
+
+          if (!callConfig.domain) {
+            throw new Error('Error: AUTH0_DOMAIN environment variable is not set');
+          }
+
+          const domain = formatDomain(callConfig.domain);
+
+          // Write tools on a production tenant are refused or need the user's confirmation
+          environment = callerProfile
+            ? await getProfileEnvironment(callerProfile)
+            : await getCurrentEnvironment();
+          const isProductionWrite = environment === 'production' && !tool._meta?.readOnly;
+
+          if (isProductionWrite && options?.productionReadOnly) {
+            throw new Error(
+              `${toolName} is not available because ${domain} is tagged production and the server runs with --production-read-only`
+            );
+          }
+          if (isProductionWrite && productionConfirmed !== true) {
             throw new Error(
-              'Auth0 configuration is invalid or missing. Please check auth0-cli login status.'
+              `${domain} is tagged production. Confirm with the user that this change should be made ` +
+                `to production, then call ${toolName} again with ${PRODUCTION_CONFIRMATION_PARAM}: true`
             );
           }
 
-          log('Successfully reloaded configuration');
+          // Execute handler
+          log(`Executing handler for tool: ${toolName}`);
+          const result = await HANDLERS[toolName](requestWithToken, {
+            domain: domain,
+            readOnly: options?.readOnly,
+            filesDir: options?.filesDir,
+            ...(!callerProfile && {
+              getDomainConfig: getAllowedDomainConfig,
+              listTenants,
+              switchTenant,
+            }),
+          });
+          log(`Handler execution completed for: ${toolName}`);
+
+          // Name the tenant in every response
+          return {
+            content: [
+              ...(isProductionWrite ? [createProductionBanner(domain)] : []),
+              ...result.content,
+              ...tenantContent(),
+            ],
+            ...(result.structuredContent ? { structuredContent: result.structuredContent } : {}),
+            isError: result.isError || false,
+          };
+        } catch (error) {
+          log(
+            `Error handling tool call: ${error instanceof Error ? error.message : String(error)}`
+          );
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              },
+              ...tenantContent(),
+            ],
+            isError: true,
+          };
         }
+      });
 
-        // Add auth token to request
-        const requestWithToken = {
-          token: config.token,
-          parameters: request.params.arguments || {},
-        };
+      // Handle resource requests, which read tenant objects with the list and get tools so
+      // that clients can attach them to a conversation
+      server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        log('Received list resource templates request');
+        return { resourceTemplates: listResourceTemplates(availableTools) };
+      });
+
+      server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+        log('Received list resources request');
+
+        const { token, domain } = await loadRequestConfig(getCallerProfile(extra?.authInfo));
+        const resources = await listResources(availableTools, token, {
+          domain: formatDomain(domain),
+          readOnly: options?.readOnly,
+        });
+
+        return { resources };
+      });
+
+      server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+        log(`Received read resource request: ${request.params.uri}`);
 
-        if (!config.domain) {
-          throw new Error('Error: AUTH0_DOMAIN environment variable is not set');
+        const { token, domain } = await loadRequestConfig(getCallerProfile(extra?.authInfo));
+        const contents = await readResource(request.params.uri, availableTools, token, {
+          domain: formatDomain(domain),
+          readOnly: options?.readOnly,
+        });
+
+        return { contents };
+      });
+
+      // Handle resource subscriptions, which poll the tenant logs for changes to the objects
+      server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+        const { uri } = request.params;
+        log(`Received subscribe request: ${uri}`);
+
+        if (!isResource(uri, availableTools)) {
+          throw new Error(`Unknown resource: ${uri}`);
         }
 
-        const domain = formatDomain(config.domain);
+        // Every request of a session comes from the same caller
+        const callerProfile = getCallerProfile(extra?.authInfo);
+        watcher ??= createResourceWatcher({
+          tools: availableTools,
+          interval: (options?.pollInterval ?? DEFAULT_POLL_INTERVAL) * 1000,
+          loadConfig: async () => {
+            const { token, domain } = await loadRequestConfig(callerProfile);
+            return { token, config: { domain: formatDomain(domain), readOnly: options?.readOnly } };
+          },
+          onUpdated: (updatedUri) => server.sendResourceUpdated({ uri: updatedUri }),
+        });
+        watcher.subscribe(uri);
 
-        // Execute handler
-        log(`Executing handler for tool: ${toolName}`);
-        const result = await HANDLERS[toolName](requestWithToken, { domain: domain });
-        log(`Handler execution completed for: ${toolName}`);
+        return {};
+      });
 
-        return {
-          content: result.content,
-          isError: result.isError || false,
-        };
-      } catch (error) {
-        log(`Error handling tool call: ${error instanceof Error ? error.message : String(error)}`);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-          isError: true,
-        };
+      server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        log(`Received unsubscribe request: ${request.params.uri}`);
+        watcher?.unsubscribe(request.params.uri);
+        return {};
+      });
+
+      // Handle prompt requests, which start workflows that chain several tool calls
+      server.setRequestHandler(ListPromptsRequestSchema, async () => {
+        log('Received list prompts request');
+        return { prompts: listPrompts(availableTools) };
+      });
+
+      server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        log(`Received get prompt request: ${request.params.name}`);
+        return getPrompt(request.params.name, request.params.arguments, availableTools);
+      });
+
+      return server;
+    };
+
+    // Serve one shared server over HTTP, e.g. for a team on a dev box
+    if (options?.transport === 'http') {
+      const host = options.host ?? DEFAULT_HTTP_HOST;
+      if (!options.authIssuer && !options.allowUnauthenticated && !isLoopbackHost(host)) {
+        throw new Error(
+          `Serving on ${host} without --auth-issuer requires --allow-unauthenticated`
+        );
       }
-    });
+      const httpServer = await startHttpTransport(createServer, {
+        host,
+        port: options.port ?? DEFAULT_HTTP_PORT,
+        ...(options.authIssuer && {
+          auth: await createHttpAuth({ ...options, authIssuer: options.authIssuer }),
+        }),
+      });
+
+      const { port } = httpServer.address() as AddressInfo;
+      const logMsg = `Auth0 MCP Server version ${packageVersion} running on http://${host}:${port}${MCP_HTTP_PATH} with ${availableTools.length}/${TOOLS.length} tools available`;
+      logInfo(logMsg);
+      log(logMsg);
+
+      return httpServer;
+    }
+
+    const server = createServer();
 
     // Connect to transport
     log('Creating stdio transport...');
@@ -1,9 +1,24 @@
 import type { HandlerConfig, HandlerRequest, HandlerResponse, Tool } from '../utils/types.js';
 import { log } from '../utils/logger.js';
-import { createErrorResponse, createSuccessResponse } from '../utils/http-utility.js';
+import {
+  createErrorResponse,
+  createStructuredResponse,
+  createSuccessResponse,
+} from '../utils/http-utility.js';
 import type { Auth0Config } from '../utils/config.js';
+import { ACTION_TEST_PAYLOADS, buildActionTestPayload } from '../utils/action-payloads.js';
+import { analyzeActionCode, type ActionCodeAnalysis } from '../utils/action-analysis.js';
 import { getManagementClient } from '../utils/auth0-client.js';
-import type { PatchActionRequest, PostActionRequest } from 'auth0/dist/cjs/management/index.js';
+import {
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  invalidConfirmationTokenMessage,
+} from '../utils/confirmation.js';
+import type {
+  PatchActionRequest,
+  PatchBindingsRequest,
+  PostActionRequest,
+} from 'auth0/dist/cjs/management/index.js';
 
 interface Auth0Action {
   id: string;
@@ -32,6 +47,25 @@ interface Auth0ActionSecret {
   updated_at?: string;
 }
 
+// Payload returned by the actions test endpoint
+interface ActionTestPayload {
+  logs?: string;
+  stats?: Record<string, number>;
+  commands?: { name: string; args: unknown[] }[];
+  error?: Record<string, unknown>;
+}
+
+// IDs of the triggers (flows) that actions can be bound to
+export const ACTION_TRIGGER_IDS = [
+  'post-login',
+  'credentials-exchange',
+  'pre-user-registration',
+  'post-user-registration',
+  'post-change-password',
+  'send-phone-message',
+  'password-reset-post-challenge',
+];
+
 // Define all available action tools
 export const ACTION_TOOLS: Tool[] = [
   {
@@ -82,7 +116,8 @@ export const ACTION_TOOLS: Tool[] = [
   },
   {
     name: 'auth0_create_action',
-    description: 'Create a new Auth0 action',
+    description:
+      'Create a new Auth0 action. The code is checked locally first and the findings are returned in code_analysis.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -150,7 +185,8 @@ export const ACTION_TOOLS: Tool[] = [
   },
   {
     name: 'auth0_update_action',
-    description: 'Update an existing Auth0 action',
+    description:
+      'Update an existing Auth0 action. New code is checked locally first and the findings are returned in code_analysis.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -234,7 +270,10 @@ export const ACTION_TOOLS: Tool[] = [
   },
   {
     name: 'auth0_deploy_action',
-    description: 'Deploy an Auth0 action',
+    description:
+      'Deploy an Auth0 action. The draft code is checked locally first and is not deployed if it has a syntax error. ' +
+      'Warnings, e.g. about a handler for a trigger or a required module that is not listed in dependencies, are returned in code_analysis. ' +
+      'A deployed action only runs once it is bound to a trigger with auth0_update_trigger_bindings.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -253,6 +292,246 @@ export const ACTION_TOOLS: Tool[] = [
       openWorldHint: false,
     },
   },
+  {
+    name: 'auth0_list_action_versions',
+    description:
+      'List the deployed versions of an Auth0 action. A new immutable version is created every time the action is deployed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the action. Required.' },
+        page: { type: 'number', description: 'Page number (0-based)' },
+        per_page: { type: 'number', description: 'Number of versions per page' },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:actions'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Action Versions',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_get_action_version',
+    description: 'Get a specific version of an Auth0 action, including its code',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the action. Required.' },
+        version_id: { type: 'string', description: 'ID of the action version. Required.' },
+      },
+      required: ['id', 'version_id'],
+    },
+    _meta: {
+      requiredScopes: ['read:actions'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Get Auth0 Action Version',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_rollback_action',
+    description:
+      'Roll back an Auth0 action to an earlier version. This deploys a new version identical to the given version; if the action is bound to a trigger it takes effect immediately.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the action. Required.' },
+        version_id: {
+          type: 'string',
+          description: 'ID of the version to roll back to. Required.',
+        },
+        update_draft: {
+          type: 'boolean',
+          description:
+            'Also replace the current draft with the code of the version. Defaults to false.',
+        },
+      },
+      required: ['id', 'version_id'],
+    },
+    _meta: {
+      requiredScopes: ['update:actions'],
+    },
+    annotations: {
+      title: 'Roll Back Auth0 Action',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_get_trigger_bindings',
+    description:
+      'Get the actions bound to a trigger (flow), in the order in which they are executed',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        trigger_id: {
+          type: 'string',
+          enum: ACTION_TRIGGER_IDS,
+          description: 'ID of the trigger, e.g. "post-login". Required.',
+        },
+      },
+      required: ['trigger_id'],
+    },
+    _meta: {
+      requiredScopes: ['read:actions'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Get Auth0 Trigger Bindings',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_update_trigger_bindings',
+    description:
+      'Set the actions bound to a trigger (flow). The list replaces all current bindings and its order is the execution order, so get the current bindings first and include the ones to keep. Only deployed actions can be bound.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        trigger_id: {
+          type: 'string',
+          enum: ACTION_TRIGGER_IDS,
+          description: 'ID of the trigger, e.g. "post-login". Required.',
+        },
+        bindings: {
+          type: 'array',
+          description:
+            'Ordered list of actions to bind to the trigger. Pass an empty list to unbind all actions. Required.',
+          items: {
+            type: 'object',
+            properties: {
+              action_id: { type: 'string', description: 'ID of the action to bind' },
+              action_name: {
+                type: 'string',
+                description: 'Name of the action to bind. Used when no action_id is provided.',
+              },
+              display_name: {
+                type: 'string',
+                description: 'Name shown for the binding in the flow',
+              },
+            },
+          },
+        },
+      },
+      required: ['trigger_id', 'bindings'],
+    },
+    _meta: {
+      requiredScopes: ['update:actions'],
+    },
+    annotations: {
+      title: 'Update Auth0 Trigger Bindings',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_test_action',
+    description:
+      'Run the draft code of an Auth0 action against a sample event for one of its triggers, without deploying it. A built-in sample event is provided for each trigger (post-login, credentials-exchange, pre-user-registration, ...) and can be customized with payload. Returns the console logs and the api calls made by the action.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the action to test. Required.' },
+        trigger_id: {
+          type: 'string',
+          enum: ACTION_TRIGGER_IDS,
+          description:
+            "Trigger whose sample event is used. Defaults to the action's first supported trigger.",
+        },
+        payload: {
+          type: 'object',
+          description:
+            'Values merged over the built-in sample event, e.g. {"user": {"email": "test@example.com"}}',
+        },
+      },
+      required: ['id'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        action_id: { type: 'string' },
+        trigger_id: { type: 'string' },
+        succeeded: { type: 'boolean' },
+        error: {},
+        console_logs: { type: 'array', items: { type: 'string' } },
+        api_calls: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              args: { type: 'array' },
+            },
+          },
+        },
+        stats: { type: 'object' },
+        payload: { type: 'object' },
+      },
+      required: ['action_id', 'trigger_id', 'succeeded', 'console_logs', 'api_calls'],
+    },
+    _meta: {
+      requiredScopes: ['read:actions', 'update:actions'],
+    },
+    annotations: {
+      title: 'Test Auth0 Action',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  },
+  {
+    name: 'auth0_delete_action',
+    description:
+      'Delete an Auth0 action. This is a two-step operation: the first call returns a preview and a confirmation_token, and only a second call with that confirmation_token deletes the action.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the action to delete. Required.' },
+        force: {
+          type: 'boolean',
+          description:
+            'Delete the action even if it is bound to a trigger, removing it from the flow. Defaults to false. ' +
+            'Pass the same value in both calls, since the confirmation_token is issued for it.',
+        },
+        confirmation_token: {
+          type: 'string',
+          description:
+            'Confirmation token returned by the first call. Omit it to get a preview of what will be deleted.',
+        },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:actions', 'delete:actions'],
+    },
+    annotations: {
+      title: 'Delete Auth0 Action',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
 ];
 
 // Define handlers for each action tool
@@ -518,16 +797,19 @@ export const ACTION_HANDLERS: Record<
         };
         const managementClient = await getManagementClient(managementClientConfig);
 
+        // Check the code locally so problems show up before the first deploy
+        const codeAnalysis = analyzeActionCode(code, { supported_triggers, dependencies });
+
         log(`Creating new action with name: ${name}`);
 
         // Use the Auth0 SDK to create an action
-        const newAction = await managementClient.actions.create(actionData);
+        const { data: newAction } = await managementClient.actions.create(actionData);
 
         log(
-          `Successfully created action: ${(newAction as any).name || name} (${(newAction as any).id || 'new action'})`
+          `Successfully created action: ${newAction.name || name} (${newAction.id || 'new action'})`
         );
 
-        return createSuccessResponse(newAction);
+        return createSuccessResponse({ ...newAction, code_analysis: codeAnalysis });
       } catch (sdkError: any) {
         // Handle SDK errors
         log('Auth0 SDK error');
@@ -595,19 +877,31 @@ export const ACTION_HANDLERS: Record<
         };
         const managementClient = await getManagementClient(managementClientConfig);
 
+        // Check new code against the triggers and dependencies it will run with
+        let codeAnalysis: ActionCodeAnalysis | undefined;
+        if (code !== undefined) {
+          let context = { supported_triggers, dependencies };
+          if (supported_triggers === undefined || dependencies === undefined) {
+            const { data: currentAction } = await managementClient.actions.get({ id });
+            context = {
+              supported_triggers: supported_triggers ?? currentAction.supported_triggers,
+              dependencies: dependencies ?? currentAction.dependencies,
+            };
+          }
+          codeAnalysis = analyzeActionCode(code, context);
+        }
+
         log(`Updating action with ID: ${id}`);
 
         // Use the Auth0 SDK to update the action
-        const updatedAction = await managementClient.actions.update({ id }, updateData);
+        const { data: updatedAction } = await managementClient.actions.update({ id }, updateData);
 
-        // Add information about secrets update to the result
         const result = {
           ...updatedAction,
+          ...(codeAnalysis ? { code_analysis: codeAnalysis } : {}),
         };
 
-        log(
-          `Successfully updated action: ${(result as any).name || 'Unknown'} (${(result as any).id || id})`
-        );
+        log(`Successfully updated action: ${result.name || 'Unknown'} (${result.id || id})`);
 
         return createSuccessResponse(result);
       } catch (sdkError: any) {
@@ -667,16 +961,28 @@ export const ACTION_HANDLERS: Record<
         };
         const managementClient = await getManagementClient(managementClientConfig);
 
+        // Check the draft code before it goes live and refuse to deploy code that cannot run
+        const { data: draft } = await managementClient.actions.get({ id });
+        const codeAnalysis = analyzeActionCode(draft.code || '', draft);
+
+        if (!codeAnalysis.passed) {
+          log(
+            `Refusing to deploy action ${id}: code analysis found ${codeAnalysis.errors} error(s)`
+          );
+
+          return createErrorResponse(
+            `Error: Action '${id}' was not deployed because its code has problems. Fix them with auth0_update_action and deploy again.\n${JSON.stringify(codeAnalysis, null, 2)}`
+          );
+        }
+
         log(`Deploying action with ID: ${id}`);
 
         // Use the Auth0 SDK to deploy the action
-        const deployedAction = await managementClient.actions.deploy({ id });
+        const { data: deployedAction } = await managementClient.actions.deploy({ id });
 
-        log(
-          `Successfully deployed action: ${(deployedAction as any).name || 'Unknown'} (${(deployedAction as any).id || id})`
-        );
+        log(`Successfully deployed action: ${draft.name || 'Unknown'} (${id})`);
 
-        return createSuccessResponse(deployedAction);
+        return createSuccessResponse({ ...deployedAction, code_analysis: codeAnalysis });
       } catch (error: any) {
         // Handle SDK errors
         log('Error deploying action:', error);
@@ -694,4 +1000,687 @@ export const ACTION_HANDLERS: Record<
       );
     }
   },
-};
+  auth0_list_action_versions: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Build query parameters
+      const options: { actionId: string; page?: number; per_page: number } = {
+        actionId: id,
+        // Default to 5 items per page
+        per_page: request.parameters.per_page ?? 5,
+      };
+      if (request.parameters.page !== undefined) {
+        options.page = request.parameters.page;
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching versions for action with ID: ${id}`);
+
+        // Use the Auth0 SDK to get the versions of the action
+        const { data: responseData } = await managementClient.actions.getVersions(options);
+
+        const versions = responseData.versions || [];
+        const total = responseData.total || versions.length;
+        const page = responseData.page || 0;
+        const perPage = responseData.per_page || options.per_page;
+        const totalPages = Math.ceil(total / perPage);
+
+        log(`Successfully retrieved ${versions.length} versions for action: ${id}`);
+
+        return createSuccessResponse({
+          action_id: id,
+          // Leave the code out of the list; use auth0_get_action_version to read it
+          versions: versions.map((version) => ({
+            id: version.id,
+            number: version.number,
+            status: version.status,
+            deployed: version.deployed,
+            runtime: version.runtime,
+            created_at: version.created_at,
+          })),
+          count: versions.length,
+          total: total,
+          pagination: {
+            page: page,
+            per_page: perPage,
+            total_pages: totalPages,
+            has_next: page + 1 < totalPages,
+          },
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list action versions: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Action with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:actions scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_get_action_version: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { id, version_id } = request.parameters;
+
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      if (!version_id) {
+        return createErrorResponse('Error: version_id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching version ${version_id} of action with ID: ${id}`);
+
+        // Use the Auth0 SDK to get the action version
+        const { data: version } = await managementClient.actions.getVersion({
+          actionId: id,
+          id: version_id,
+        });
+
+        log(`Successfully retrieved version ${version.number ?? version_id} of action: ${id}`);
+
+        return createSuccessResponse(version);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to get action version: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Version '${version_id}' of action '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:actions scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_rollback_action: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { id, version_id, update_draft } = request.parameters;
+
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      if (!version_id) {
+        return createErrorResponse('Error: version_id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Rolling back action ${id} to version: ${version_id}`);
+
+        // Use the Auth0 SDK to deploy the earlier version again
+        const { data: deployedVersion } = await managementClient.actions.deployVersion(
+          { actionId: id, id: version_id },
+          { update_draft: update_draft === true }
+        );
+
+        log(
+          `Successfully rolled back action ${id}, now at version ${deployedVersion.number ?? 'unknown'}`
+        );
+
+        return createSuccessResponse(deployedVersion);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to roll back action: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Version '${version_id}' of action '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:actions scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_get_trigger_bindings: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const triggerId = request.parameters.trigger_id;
+      if (!triggerId) {
+        return createErrorResponse('Error: trigger_id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching bindings for trigger: ${triggerId}`);
+
+        // Use the Auth0 SDK to get the bindings of the trigger
+        const { data: responseData } = await managementClient.actions.getTriggerBindings({
+          triggerId,
+          per_page: 20,
+        });
+
+        const bindings = (responseData.bindings || []).map(formatTriggerBinding);
+
+        log(`Successfully retrieved ${bindings.length} bindings for trigger: ${triggerId}`);
+
+        return createSuccessResponse({
+          trigger_id: triggerId,
+          bindings: bindings,
+          count: bindings.length,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to get trigger bindings: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Trigger '${triggerId}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:actions scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_update_trigger_bindings: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { trigger_id: triggerId, bindings } = request.parameters;
+
+      if (!triggerId) {
+        return createErrorResponse('Error: trigger_id is required');
+      }
+
+      if (!Array.isArray(bindings)) {
+        return createErrorResponse('Error: bindings is required and must be an array');
+      }
+
+      const invalidBinding = bindings.find(
+        (binding: Record<string, any>) => !binding?.action_id && !binding?.action_name
+      );
+      if (invalidBinding !== undefined) {
+        return createErrorResponse('Error: every binding requires an action_id or action_name');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Prepare request body, referencing each action by ID or by name
+      const bindingsData: PatchBindingsRequest = {
+        bindings: bindings.map((binding: Record<string, any>) => ({
+          ref: binding.action_id
+            ? { type: 'action_id' as const, value: binding.action_id }
+            : { type: 'action_name' as const, value: binding.action_name },
+          ...(binding.display_name ? { display_name: binding.display_name } : {}),
+        })),
+      };
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Updating bindings for trigger ${triggerId} with ${bindings.length} actions`);
+
+        // Use the Auth0 SDK to replace the bindings of the trigger
+        const { data: responseData } = await managementClient.actions.updateTriggerBindings(
+          { triggerId },
+          bindingsData
+        );
+
+        const updatedBindings = (responseData.bindings || []).map(formatTriggerBinding);
+
+        log(`Successfully updated bindings for trigger: ${triggerId}`);
+
+        return createSuccessResponse({
+          trigger_id: triggerId,
+          bindings: updatedBindings,
+          count: updatedBindings.length,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to update trigger bindings: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Trigger '${triggerId}' or one of the bound actions not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:actions scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Only deployed actions that support this trigger can be bound; deploy the action with auth0_deploy_action first.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_test_action: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { id, payload } = request.parameters;
+
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      if (payload !== undefined && (typeof payload !== 'object' || Array.isArray(payload))) {
+        return createErrorResponse('Error: payload must be an object');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // Pick the trigger whose sample event is used
+        const { data: action } = await managementClient.actions.get({ id });
+        const supportedTriggers = (action.supported_triggers || []).map(
+          (trigger: { id: string }) => trigger.id
+        );
+        const triggerId = request.parameters.trigger_id || supportedTriggers[0];
+
+        if (!triggerId) {
+          return createErrorResponse(
+            `Error: Action '${id}' has no supported triggers. Provide a trigger_id.`
+          );
+        }
+
+        if (!supportedTriggers.includes(triggerId)) {
+          return createErrorResponse(
+            `Error: Action '${id}' does not support trigger '${triggerId}'. Supported triggers are: ${supportedTriggers.join(', ')}.`
+          );
+        }
+
+        const testPayload = buildActionTestPayload(triggerId, payload);
+        if (!testPayload) {
+          return createErrorResponse(
+            `Error: No sample event is available for trigger '${triggerId}'. Supported triggers are: ${Object.keys(ACTION_TEST_PAYLOADS).join(', ')}.`
+          );
+        }
+
+        log(`Testing action ${id} with a sample ${triggerId} event`);
+
+        // Use the Auth0 SDK to run the draft code of the action
+        const { data: testResult } = await managementClient.actions.test(
+          { id },
+          { payload: testPayload }
+        );
+
+        const result = formatActionTestResult((testResult.payload || {}) as ActionTestPayload);
+
+        log(`Successfully tested action: ${id}`);
+
+        return createStructuredResponse({
+          action_id: id,
+          trigger_id: triggerId,
+          ...result,
+          payload: testPayload,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to test action: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Action with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:actions scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: The action could not be tested. Check that its draft code builds, e.g. with auth0_get_action.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_delete_action: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      const confirmationToken = request.parameters.confirmation_token;
+      const force = request.parameters.force === true;
+      // A forced delete also removes the action from its flows, so the confirmation covers force
+      const confirmationId = force ? `${id}:force` : id;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // First step: preview the action and hand out a confirmation token
+        if (!confirmationToken) {
+          log(`Previewing deletion of action with ID: ${id}`);
+
+          const { data: action } = await managementClient.actions.get({ id });
+
+          // Triggers whose flows run the action, which a forced delete removes it from
+          const boundTriggers: string[] = [];
+          for (const trigger of action.supported_triggers || []) {
+            const { data: responseData } = await managementClient.actions.getTriggerBindings({
+              triggerId: trigger.id,
+              per_page: 20,
+            });
+            if ((responseData.bindings || []).some((binding) => binding.action?.id === id)) {
+              boundTriggers.push(trigger.id);
+            }
+          }
+
+          const preview = {
+            id: action.id,
+            name: action.name,
+            supported_triggers: action.supported_triggers,
+            status: action.status,
+            all_changes_deployed: action.all_changes_deployed,
+            bound_triggers: boundTriggers,
+            force,
+            ...(boundTriggers.length > 0 && {
+              warning: force
+                ? `The action is removed from the flows of ${boundTriggers.join(', ')}.`
+                : 'The action is bound to a trigger, so the delete fails unless force is true.',
+            }),
+          };
+
+          return createDeletionPreviewResponse(
+            'auth0_delete_action',
+            confirmationId,
+            config.domain,
+            preview
+          );
+        }
+
+        // Second step: only delete when the confirmation token matches this action and force
+        if (
+          !consumeConfirmationToken(
+            confirmationToken,
+            'auth0_delete_action',
+            confirmationId,
+            config.domain
+          )
+        ) {
+          const otherId = force ? id : `${id}:force`;
+          if (
+            consumeConfirmationToken(
+              confirmationToken,
+              'auth0_delete_action',
+              otherId,
+              config.domain
+            )
+          ) {
+            return createErrorResponse(
+              `Error: The confirmation_token was issued for force: ${!force}. Call auth0_delete_action without a confirmation_token to get a new preview.`
+            );
+          }
+          return createErrorResponse(invalidConfirmationTokenMessage('auth0_delete_action'));
+        }
+
+        log(`Deleting action with ID: ${id}`);
+
+        // Use the Auth0 SDK to delete the action
+        await managementClient.actions.delete({ id, force });
+
+        log(`Successfully deleted action: ${id}`);
+
+        return createSuccessResponse({
+          message: `Action '${id}' deleted.`,
+          id: id,
+          deleted: true,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to delete action: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Action with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing delete:actions scope.';
+        } else if (sdkError.statusCode === 409) {
+          errorMessage +=
+            '\nError: The action is bound to a trigger. Remove it from the flow first or call again with force set to true.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
+
+// Helper function to format a trigger binding for output
+function formatTriggerBinding(binding: any) {
+  return {
+    id: binding.id,
+    display_name: binding.display_name,
+    action_id: binding.action?.id,
+    action_name: binding.action?.name,
+    created_at: binding.created_at,
+    updated_at: binding.updated_at,
+  };
+}
+
+// Helper function to extract the console logs and api calls from an action test result
+function formatActionTestResult(result: ActionTestPayload) {
+  const consoleLogs = (result.logs ?? '').split('\n').filter((line) => line.length > 0);
+
+  // The api calls are reported as commands, e.g. { name: 'accessToken.setCustomClaim', args: [...] }
+  const apiCalls = (result.commands ?? []).map((command) => ({
+    name: command.name,
+    args: command.args,
+  }));
+
+  return {
+    succeeded: !result.error,
+    ...(result.error ? { error: result.error } : {}),
+    console_logs: consoleLogs,
+    api_calls: apiCalls,
+    ...(result.stats ? { stats: result.stats } : {}),
+  };
+}
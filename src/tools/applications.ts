@@ -3,6 +3,11 @@ import { log } from '../utils/logger.js';
 import { createErrorResponse, createSuccessResponse } from '../utils/http-utility.js';
 import type { Auth0Config } from '../utils/config.js';
 import { getManagementClient } from '../utils/auth0-client.js';
+import {
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  invalidConfirmationTokenMessage,
+} from '../utils/confirmation.js';
 import type {
   ClientCreateTokenEndpointAuthMethodEnum,
   ClientCreateAppTypeEnum,
@@ -256,6 +261,36 @@ export const APPLICATION_TOOLS: Tool[] = [
       openWorldHint: false,
     },
   },
+  {
+    name: 'auth0_delete_application',
+    description:
+      'Delete an Auth0 application. This is a two-step operation: the first call returns a preview and a confirmation_token, and only a second call with that confirmation_token deletes the application.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        client_id: {
+          type: 'string',
+          description: 'Client ID of the application to delete. Required.',
+        },
+        confirmation_token: {
+          type: 'string',
+          description:
+            'Confirmation token returned by the first call. Omit it to get a preview of what will be deleted.',
+        },
+      },
+      required: ['client_id'],
+    },
+    _meta: {
+      requiredScopes: ['read:clients', 'delete:clients'],
+    },
+    annotations: {
+      title: 'Delete Auth0 Application',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
 ];
 
 interface Auth0Response {
@@ -790,6 +825,107 @@ export const APPLICATION_HANDLERS: Record<
       // Handle any other errors
       log('Error processing request');
 
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_delete_application: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const clientId = request.parameters.client_id;
+      if (!clientId) {
+        return createErrorResponse('Error: client_id is required');
+      }
+
+      const confirmationToken = request.parameters.confirmation_token;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // First step: preview the application and hand out a confirmation token
+        if (!confirmationToken) {
+          log(`Previewing deletion of application with client_id: ${clientId}`);
+
+          const { data: application } = await managementClient.clients.get({ client_id: clientId });
+          const preview = {
+            client_id: application.client_id,
+            name: application.name,
+            app_type: application.app_type,
+            description: application.description,
+            callbacks: application.callbacks,
+          };
+
+          return createDeletionPreviewResponse(
+            'auth0_delete_application',
+            clientId,
+            config.domain,
+            preview
+          );
+        }
+
+        // Second step: only delete when the confirmation token matches this application
+        if (
+          !consumeConfirmationToken(
+            confirmationToken,
+            'auth0_delete_application',
+            clientId,
+            config.domain
+          )
+        ) {
+          return createErrorResponse(invalidConfirmationTokenMessage('auth0_delete_application'));
+        }
+
+        log(`Deleting application with client_id: ${clientId}`);
+
+        // Use the Auth0 SDK to delete the application
+        await managementClient.clients.delete({ client_id: clientId });
+
+        log(`Successfully deleted application: ${clientId}`);
+
+        return createSuccessResponse({
+          message: `Application '${clientId}' deleted.`,
+          client_id: clientId,
+          deleted: true,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to delete application: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Application with client_id '${clientId}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing delete:clients scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
       return createErrorResponse(
         `Error: ${error instanceof Error ? error.message : String(error)}`
       );
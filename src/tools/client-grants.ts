@@ -0,0 +1,622 @@
+import type { ClientGrantCreate, ManagementClient, PatchClientGrantsByIdRequest } from 'auth0';
+import type { HandlerConfig, HandlerRequest, HandlerResponse, Tool } from '../utils/types.js';
+import { log } from '../utils/logger.js';
+import { createErrorResponse, createSuccessResponse } from '../utils/http-utility.js';
+import type { Auth0Config } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+import {
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  invalidConfirmationTokenMessage,
+} from '../utils/confirmation.js';
+import { findResourceServerByIdentifier, findUnknownScopes } from './resource-servers.js';
+
+// Define all available client grant tools
+export const CLIENT_GRANT_TOOLS: Tool[] = [
+  {
+    name: 'auth0_list_client_grants',
+    description:
+      'List client grants, which authorize applications to request access tokens for resource servers (APIs)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (0-based)' },
+        per_page: { type: 'number', description: 'Number of client grants per page' },
+        include_totals: { type: 'boolean', description: 'Include total count' },
+        client_id: {
+          type: 'string',
+          description: 'Only return client grants of this application',
+        },
+        audience: {
+          type: 'string',
+          description: 'Only return client grants for the resource server with this identifier',
+        },
+      },
+    },
+    _meta: {
+      requiredScopes: ['read:client_grants'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Client Grants',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_create_client_grant',
+    description:
+      'Authorize an application (typically a machine-to-machine application) to request access tokens for a resource server (API) with the given scopes. Scopes must be defined on the resource server.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        client_id: {
+          type: 'string',
+          description: 'Client ID of the application to authorize. Required.',
+        },
+        audience: {
+          type: 'string',
+          description: 'Identifier (audience) of the resource server. Required.',
+        },
+        scope: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Scopes to grant to the application. Each scope must be defined on the resource server. Required.',
+        },
+      },
+      required: ['client_id', 'audience', 'scope'],
+    },
+    _meta: {
+      requiredScopes: ['create:client_grants', 'read:resource_servers'],
+    },
+    annotations: {
+      title: 'Create Auth0 Client Grant',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_update_client_grant',
+    description:
+      'Update the scopes of an existing client grant. The scopes replace the currently granted scopes.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the client grant to update. Required.' },
+        scope: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Scopes to grant to the application. Each scope must be defined on the resource server. Required.',
+        },
+      },
+      required: ['id', 'scope'],
+    },
+    _meta: {
+      requiredScopes: ['update:client_grants', 'read:client_grants', 'read:resource_servers'],
+    },
+    annotations: {
+      title: 'Update Auth0 Client Grant',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_delete_client_grant',
+    description:
+      'Delete a client grant. The application will no longer be able to request access tokens for the resource server. This is a two-step operation: the first call returns a preview and a confirmation_token, and only a second call with that confirmation_token deletes the client grant.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the client grant to delete. Required.' },
+        confirmation_token: {
+          type: 'string',
+          description:
+            'Confirmation token returned by the first call. Omit it to get a preview of what will be deleted.',
+        },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:client_grants', 'delete:client_grants'],
+    },
+    annotations: {
+      title: 'Delete Auth0 Client Grant',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+];
+
+interface Auth0ClientGrantsResponse {
+  client_grants?: any[];
+  total?: number;
+  start?: number;
+  limit?: number;
+}
+
+/**
+ * Finds a client grant by ID. Client grants cannot be fetched by ID, so this pages through them.
+ *
+ * @param managementClient - An initialized Management API client
+ * @param id - The ID of the client grant
+ * @returns The matching client grant, or undefined if no client grant has that ID
+ */
+async function findClientGrantById(
+  managementClient: ManagementClient,
+  id: string
+): Promise<any | undefined> {
+  for (let page = 0; ; page++) {
+    const { data: responseData } = await managementClient.clientGrants.getAll({
+      page,
+      per_page: 100,
+    });
+    const clientGrants: any[] = Array.isArray(responseData)
+      ? responseData
+      : (responseData as Auth0ClientGrantsResponse)?.client_grants || [];
+    const clientGrant = clientGrants.find((grant) => grant.id === id);
+    if (clientGrant || clientGrants.length < 100) {
+      return clientGrant;
+    }
+  }
+}
+
+/**
+ * Checks that every scope is defined on the resource server with the given identifier.
+ *
+ * @param managementClient - An initialized Management API client
+ * @param audience - The identifier (audience) of the resource server
+ * @param scope - The scopes to grant
+ * @returns An error message when the resource server or any of the scopes is missing, otherwise null
+ */
+async function validateGrantScopes(
+  managementClient: ManagementClient,
+  audience: string,
+  scope: string[]
+): Promise<string | null> {
+  const resourceServer = await findResourceServerByIdentifier(managementClient, audience);
+
+  if (!resourceServer) {
+    return `Error: Resource server with identifier '${audience}' not found.`;
+  }
+
+  const unknownScopes = findUnknownScopes(resourceServer, scope);
+  if (unknownScopes.length > 0) {
+    const definedScopes = (resourceServer.scopes || []).map(
+      (definedScope: { value: string }) => definedScope.value
+    );
+    return (
+      `Error: The following scopes are not defined on resource server '${audience}': ${unknownScopes.join(', ')}. ` +
+      `Defined scopes are: ${definedScopes.join(', ') || '(none)'}. ` +
+      'Add them with auth0_update_resource_server first.'
+    );
+  }
+
+  return null;
+}
+
+// Define handlers for each client grant tool
+export const CLIENT_GRANT_HANDLERS: Record<
+  string,
+  (request: HandlerRequest, config: HandlerConfig) => Promise<HandlerResponse>
+> = {
+  auth0_list_client_grants: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Build query parameters
+      const options: Record<string, any> = {};
+      if (request.parameters.page !== undefined) {
+        options.page = request.parameters.page;
+      }
+      if (request.parameters.per_page !== undefined) {
+        options.per_page = request.parameters.per_page;
+      } else {
+        // Default to 5 items per page
+        options.per_page = 5;
+      }
+      if (request.parameters.include_totals !== undefined) {
+        options.include_totals = request.parameters.include_totals;
+      } else {
+        // Default to include totals
+        options.include_totals = true;
+      }
+      if (request.parameters.client_id) {
+        options.client_id = request.parameters.client_id;
+      }
+      if (request.parameters.audience) {
+        options.audience = request.parameters.audience;
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching client grants with supplied options`);
+
+        // Use the Auth0 SDK to get all client grants
+        const { data: responseData } = await managementClient.clientGrants.getAll(options);
+
+        let clientGrants: any[] = [];
+        let total = 0;
+        let page = 0;
+        let perPage = options.per_page;
+
+        if (Array.isArray(responseData)) {
+          // When include_totals is false, response is an array of client grants
+          clientGrants = responseData;
+          total = clientGrants.length;
+        } else if (
+          responseData &&
+          typeof responseData === 'object' &&
+          'client_grants' in responseData
+        ) {
+          // When include_totals is true, response has pagination info
+          const typedResponse = responseData as Auth0ClientGrantsResponse;
+          clientGrants = typedResponse.client_grants || [];
+          total = typedResponse.total || clientGrants.length;
+          perPage = typedResponse.limit || perPage;
+          page = Math.floor((typedResponse.start || 0) / perPage);
+        } else {
+          log('Invalid response format from Auth0 SDK');
+          return createErrorResponse('Error: Received invalid response format from Auth0 API.');
+        }
+
+        if (clientGrants.length === 0) {
+          return createSuccessResponse({
+            message: 'No client grants found matching your criteria.',
+            client_grants: [],
+          });
+        }
+
+        const totalPages = Math.ceil(total / perPage);
+
+        log(
+          `Successfully retrieved ${clientGrants.length} client grants (page ${page + 1} of ${totalPages}, total: ${total})`
+        );
+
+        return createSuccessResponse({
+          client_grants: clientGrants,
+          count: clientGrants.length,
+          total: total,
+          pagination: {
+            page: page,
+            per_page: perPage,
+            total_pages: totalPages,
+            has_next: page + 1 < totalPages,
+          },
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list client grants: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error scenarios
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid. Try running "npx @auth0/auth0-mcp-server init" to refresh your token.';
+        } else if (sdkError.statusCode === 403) {
+          errorMessage +=
+            '\nError: Forbidden. Your token might not have the required scopes (read:client_grants). Try running "npx @auth0/auth0-mcp-server init" to check the proper permissions.';
+        } else if (sdkError.statusCode === 429) {
+          errorMessage +=
+            '\nError: Rate limited. You have made too many requests to the Auth0 API. Please try again later.';
+        } else if (sdkError.statusCode >= 500) {
+          errorMessage +=
+            '\nError: Auth0 server error. The Auth0 API might be experiencing issues. Please try again later.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_create_client_grant: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { client_id, audience, scope } = request.parameters;
+
+      if (!client_id) {
+        return createErrorResponse('Error: client_id is required');
+      }
+
+      if (!audience) {
+        return createErrorResponse('Error: audience is required');
+      }
+
+      if (!scope || !Array.isArray(scope)) {
+        return createErrorResponse('Error: scope is required and must be an array');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // Make sure every scope is defined on the resource server before granting it
+        const scopeError = await validateGrantScopes(managementClient, audience, scope);
+        if (scopeError) {
+          return createErrorResponse(scopeError);
+        }
+
+        const clientGrantData: ClientGrantCreate = { client_id, audience, scope };
+
+        log(`Creating client grant for client ${client_id} and audience ${audience}`);
+
+        // Use the Auth0 SDK to create the client grant
+        const { data: newClientGrant } =
+          await managementClient.clientGrants.create(clientGrantData);
+
+        log(`Successfully created client grant: ${newClientGrant.id || 'new client grant'}`);
+
+        return createSuccessResponse(newClientGrant);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to create client grant: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 409) {
+          errorMessage = `A client grant for client '${client_id}' and audience '${audience}' already exists. Use auth0_update_client_grant to change its scopes.`;
+        } else if (sdkError.statusCode === 404) {
+          errorMessage = `Application with client_id '${client_id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:client_grants scope.';
+        } else if (sdkError.statusCode === 403) {
+          errorMessage +=
+            '\nError: Forbidden. Your token might not have the required scopes (create:client_grants, read:resource_servers).';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_update_client_grant: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { id, scope } = request.parameters;
+
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      if (!scope || !Array.isArray(scope)) {
+        return createErrorResponse('Error: scope is required and must be an array');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      const updateData: PatchClientGrantsByIdRequest = { scope };
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // Check the scopes against the resource server of the grant, just like on create
+        const clientGrant = await findClientGrantById(managementClient, id);
+        if (!clientGrant) {
+          return createErrorResponse(`Client grant with id '${id}' not found.`);
+        }
+
+        const scopeError = await validateGrantScopes(managementClient, clientGrant.audience, scope);
+        if (scopeError) {
+          return createErrorResponse(scopeError);
+        }
+
+        log(`Updating client grant with ID: ${id}`);
+
+        // Use the Auth0 SDK to update the client grant
+        const { data: updatedClientGrant } = await managementClient.clientGrants.update(
+          { id },
+          updateData
+        );
+
+        log(`Successfully updated client grant: ${id}`);
+
+        return createSuccessResponse(updatedClientGrant);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to update client grant: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Client grant with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:client_grants scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Check that every scope is defined on the resource server.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_delete_client_grant: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      const confirmationToken = request.parameters.confirmation_token;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // First step: preview the client grant and hand out a confirmation token
+        if (!confirmationToken) {
+          log(`Previewing deletion of client grant with ID: ${id}`);
+
+          const clientGrant = await findClientGrantById(managementClient, id);
+
+          if (!clientGrant) {
+            return createErrorResponse(`Client grant with id '${id}' not found.`);
+          }
+
+          const preview = {
+            id: clientGrant.id,
+            client_id: clientGrant.client_id,
+            audience: clientGrant.audience,
+            scope: clientGrant.scope,
+          };
+
+          return createDeletionPreviewResponse(
+            'auth0_delete_client_grant',
+            id,
+            config.domain,
+            preview
+          );
+        }
+
+        // Second step: only delete when the confirmation token matches this client grant
+        if (
+          !consumeConfirmationToken(
+            confirmationToken,
+            'auth0_delete_client_grant',
+            id,
+            config.domain
+          )
+        ) {
+          return createErrorResponse(invalidConfirmationTokenMessage('auth0_delete_client_grant'));
+        }
+
+        log(`Deleting client grant with ID: ${id}`);
+
+        // Use the Auth0 SDK to delete the client grant
+        await managementClient.clientGrants.delete({ id });
+
+        log(`Successfully deleted client grant: ${id}`);
+
+        return createSuccessResponse({
+          message: `Client grant '${id}' deleted.`,
+          id: id,
+          deleted: true,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to delete client grant: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Client grant with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing delete:client_grants scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
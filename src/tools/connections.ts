@@ -0,0 +1,823 @@
+import type { ConnectionCreate, ConnectionCreateStrategyEnum, ConnectionUpdate } from 'auth0';
+import type { HandlerConfig, HandlerRequest, HandlerResponse, Tool } from '../utils/types.js';
+import { log } from '../utils/logger.js';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  hasRedactedSecrets,
+  restoreRedactedSecrets,
+} from '../utils/http-utility.js';
+import type { Auth0Config } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+import {
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  invalidConfirmationTokenMessage,
+} from '../utils/confirmation.js';
+
+// Define all available connection tools
+export const CONNECTION_TOOLS: Tool[] = [
+  {
+    name: 'auth0_list_connections',
+    description: 'List all connections (database, social and enterprise) in the Auth0 tenant',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (0-based)' },
+        per_page: { type: 'number', description: 'Number of connections per page' },
+        include_totals: { type: 'boolean', description: 'Include total count' },
+        strategy: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Only return connections using these strategies (e.g. ["auth0"], ["google-oauth2", "github"], ["samlp"])',
+        },
+        name: { type: 'string', description: 'Only return the connection with this name' },
+      },
+    },
+    _meta: {
+      requiredScopes: ['read:connections'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Connections',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_get_connection',
+    description: 'Get details about a specific Auth0 connection',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the connection to retrieve' },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:connections'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Get Auth0 Connection Details',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_create_connection',
+    description: 'Create a new Auth0 connection',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description:
+            'Name of the connection (must start and end with an alphanumeric character and can only contain alphanumeric characters and "-"). Required.',
+        },
+        strategy: {
+          type: 'string',
+          description:
+            'Identity provider of the connection, e.g. "auth0" for a database connection, "google-oauth2" or "github" for social, "samlp", "oidc" or "waad" for enterprise. Required.',
+        },
+        display_name: {
+          type: 'string',
+          description: 'Connection name used in the new Universal Login experience',
+        },
+        options: {
+          type: 'object',
+          description:
+            'Strategy specific options, e.g. client_id and client_secret for social connections or passwordPolicy for database connections',
+        },
+        enabled_clients: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Client IDs of the applications for which the connection is enabled',
+        },
+        is_domain_connection: {
+          type: 'boolean',
+          description: 'Whether this is a domain connection',
+        },
+        show_as_button: {
+          type: 'boolean',
+          description: 'Whether to show a button for this connection on the login page',
+        },
+        realms: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Realms for which the connection will be used',
+        },
+        metadata: {
+          type: 'object',
+          description: 'Metadata associated with the connection (up to 10 string key/values)',
+        },
+      },
+      required: ['name', 'strategy'],
+    },
+    _meta: {
+      requiredScopes: ['create:connections'],
+    },
+    annotations: {
+      title: 'Create Auth0 Connection',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_update_connection',
+    description: 'Update an existing Auth0 connection',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the connection to update. Required.' },
+        display_name: {
+          type: 'string',
+          description: 'Connection name used in the new Universal Login experience',
+        },
+        options: {
+          type: 'object',
+          description:
+            'Strategy specific options. Note that the options object replaces the existing options entirely. Secrets left as [REDACTED], as auth0_get_connection returns them, keep their stored values.',
+        },
+        is_domain_connection: {
+          type: 'boolean',
+          description: 'Whether this is a domain connection',
+        },
+        show_as_button: {
+          type: 'boolean',
+          description: 'Whether to show a button for this connection on the login page',
+        },
+        realms: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Realms for which the connection will be used',
+        },
+        metadata: {
+          type: 'object',
+          description: 'Metadata associated with the connection (up to 10 string key/values)',
+        },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['update:connections'],
+    },
+    annotations: {
+      title: 'Update Auth0 Connection',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_enable_connection_for_application',
+    description: 'Enable or disable an Auth0 connection for an application',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the connection. Required.' },
+        client_id: {
+          type: 'string',
+          description: 'Client ID of the application. Required.',
+        },
+        enabled: {
+          type: 'boolean',
+          description:
+            'Whether the connection should be enabled for the application. Defaults to true.',
+        },
+      },
+      required: ['id', 'client_id'],
+    },
+    _meta: {
+      requiredScopes: ['update:connections'],
+    },
+    annotations: {
+      title: 'Enable Auth0 Connection for Application',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_delete_connection',
+    description:
+      'Delete an Auth0 connection. The users of the connection are deleted with it. This is a two-step operation: the first call returns a preview and a confirmation_token, and only a second call with that confirmation_token deletes the connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'ID of the connection to delete. Required.',
+        },
+        confirmation_token: {
+          type: 'string',
+          description:
+            'Confirmation token returned by the first call. Omit it to get a preview of what will be deleted.',
+        },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:connections', 'delete:connections'],
+    },
+    annotations: {
+      title: 'Delete Auth0 Connection',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+];
+
+interface Auth0ConnectionsResponse {
+  connections?: any[];
+  total?: number;
+  start?: number;
+  limit?: number;
+}
+
+// Define handlers for each connection tool
+export const CONNECTION_HANDLERS: Record<
+  string,
+  (request: HandlerRequest, config: HandlerConfig) => Promise<HandlerResponse>
+> = {
+  auth0_list_connections: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Build query parameters
+      const options: Record<string, any> = {};
+      if (request.parameters.page !== undefined) {
+        options.page = request.parameters.page;
+      }
+      if (request.parameters.per_page !== undefined) {
+        options.per_page = request.parameters.per_page;
+      } else {
+        // Default to 5 items per page
+        options.per_page = 5;
+      }
+      if (request.parameters.include_totals !== undefined) {
+        options.include_totals = request.parameters.include_totals;
+      } else {
+        // Default to include totals
+        options.include_totals = true;
+      }
+      if (request.parameters.strategy !== undefined) {
+        options.strategy = request.parameters.strategy;
+      }
+      if (request.parameters.name) {
+        options.name = request.parameters.name;
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching connections with supplied options`);
+
+        // Use the Auth0 SDK to get all connections
+        const { data: responseData } = await managementClient.connections.getAll(options);
+
+        let connections: any[] = [];
+        let total = 0;
+        let page = 0;
+        let perPage = options.per_page;
+
+        if (Array.isArray(responseData)) {
+          // When include_totals is false, response is an array of connections
+          connections = responseData;
+          total = connections.length;
+        } else if (
+          responseData &&
+          typeof responseData === 'object' &&
+          'connections' in responseData
+        ) {
+          // When include_totals is true, response has pagination info
+          const typedResponse = responseData as Auth0ConnectionsResponse;
+          connections = typedResponse.connections || [];
+          total = typedResponse.total || connections.length;
+          perPage = typedResponse.limit || perPage;
+          page = Math.floor((typedResponse.start || 0) / perPage);
+        } else {
+          log('Invalid response format from Auth0 SDK');
+          return createErrorResponse('Error: Received invalid response format from Auth0 API.');
+        }
+
+        if (connections.length === 0) {
+          return createSuccessResponse({
+            message: 'No connections found matching your criteria.',
+            connections: [],
+          });
+        }
+
+        const totalPages = Math.ceil(total / perPage);
+
+        log(
+          `Successfully retrieved ${connections.length} connections (page ${page + 1} of ${totalPages}, total: ${total})`
+        );
+
+        return createSuccessResponse({
+          connections: connections.map(formatConnection),
+          count: connections.length,
+          total: total,
+          pagination: {
+            page: page,
+            per_page: perPage,
+            total_pages: totalPages,
+            has_next: page + 1 < totalPages,
+          },
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list connections: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error scenarios
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid. Try running "npx @auth0/auth0-mcp-server init" to refresh your token.';
+        } else if (sdkError.statusCode === 403) {
+          errorMessage +=
+            '\nError: Forbidden. Your token might not have the required scopes (read:connections). Try running "npx @auth0/auth0-mcp-server init" to check the proper permissions.';
+        } else if (sdkError.statusCode === 429) {
+          errorMessage +=
+            '\nError: Rate limited. You have made too many requests to the Auth0 API. Please try again later.';
+        } else if (sdkError.statusCode >= 500) {
+          errorMessage +=
+            '\nError: Auth0 server error. The Auth0 API might be experiencing issues. Please try again later.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_get_connection: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching connection with ID: ${id}`);
+
+        // Use the Auth0 SDK to get a specific connection
+        const { data: connection } = await managementClient.connections.get({ id });
+
+        log(
+          `Successfully retrieved connection: ${connection.name || 'Unknown'} (${connection.id || id})`
+        );
+
+        return createSuccessResponse(connection);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to get connection: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Connection with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:connections scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_create_connection: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const {
+        name,
+        strategy,
+        display_name,
+        options,
+        enabled_clients,
+        is_domain_connection,
+        show_as_button,
+        realms,
+        metadata,
+      } = request.parameters;
+
+      if (!name) {
+        return createErrorResponse('Error: name is required');
+      }
+
+      if (!strategy) {
+        return createErrorResponse('Error: strategy is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Prepare request body
+      const connectionData: ConnectionCreate = {
+        name,
+        strategy: strategy as ConnectionCreateStrategyEnum,
+      };
+      if (display_name !== undefined) connectionData.display_name = display_name;
+      if (options !== undefined) connectionData.options = options;
+      if (enabled_clients !== undefined) connectionData.enabled_clients = enabled_clients;
+      if (is_domain_connection !== undefined)
+        connectionData.is_domain_connection = is_domain_connection;
+      if (show_as_button !== undefined) connectionData.show_as_button = show_as_button;
+      if (realms !== undefined) connectionData.realms = realms;
+      if (metadata !== undefined) connectionData.metadata = metadata;
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Creating new connection with name: ${name}, strategy: ${strategy}`);
+
+        // Use the Auth0 SDK to create a connection
+        const { data: newConnection } = await managementClient.connections.create(connectionData);
+
+        log(
+          `Successfully created connection: ${newConnection.name || name} (${newConnection.id || 'new connection'})`
+        );
+
+        return createSuccessResponse(newConnection);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to create connection: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 409) {
+          errorMessage = `Connection with name '${name}' already exists.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:connections scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Check that the options are valid for the strategy.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_update_connection: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      // Extract other parameters to update
+      const { display_name, options, is_domain_connection, show_as_button, realms, metadata } =
+        request.parameters;
+
+      // Prepare update body, only including fields that are present
+      const updateData: ConnectionUpdate = {};
+      if (display_name !== undefined) updateData.display_name = display_name;
+      if (options !== undefined) updateData.options = options;
+      if (is_domain_connection !== undefined)
+        updateData.is_domain_connection = is_domain_connection;
+      if (show_as_button !== undefined) updateData.show_as_button = show_as_button;
+      if (realms !== undefined) updateData.realms = realms;
+      if (metadata !== undefined) updateData.metadata = metadata;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // Options copied from auth0_get_connection hold placeholders in place of the secrets,
+        // which must not overwrite the stored ones
+        if (hasRedactedSecrets(updateData.options)) {
+          const { data: connection } = await managementClient.connections.get({ id });
+          updateData.options = restoreRedactedSecrets(updateData.options, connection.options);
+        }
+
+        log(`Updating connection with ID: ${id}`);
+
+        // Use the Auth0 SDK to update the connection
+        const { data: updatedConnection } = await managementClient.connections.update(
+          { id },
+          updateData
+        );
+
+        log(
+          `Successfully updated connection: ${updatedConnection.name || 'Unknown'} (${updatedConnection.id || id})`
+        );
+
+        return createSuccessResponse(updatedConnection);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to update connection: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Connection with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:connections scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Check that the options are valid for the strategy.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_enable_connection_for_application: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { id, client_id } = request.parameters;
+
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      if (!client_id) {
+        return createErrorResponse('Error: client_id is required');
+      }
+
+      // Default to enabling the connection
+      const enabled = request.parameters.enabled !== false;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`${enabled ? 'Enabling' : 'Disabling'} connection ${id} for client: ${client_id}`);
+
+        // Use the Auth0 SDK to toggle the application on the connection
+        await managementClient.connections.updateEnabledClients({ id }, [
+          { client_id, status: enabled },
+        ]);
+
+        log(`Successfully ${enabled ? 'enabled' : 'disabled'} connection ${id} for ${client_id}`);
+
+        return createSuccessResponse({
+          message: `Connection '${id}' ${enabled ? 'enabled' : 'disabled'} for application '${client_id}'.`,
+          connection_id: id,
+          client_id,
+          enabled,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to ${enabled ? 'enable' : 'disable'} connection for application: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Connection with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:connections scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_delete_connection: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      const confirmationToken = request.parameters.confirmation_token;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // First step: preview the connection and hand out a confirmation token
+        if (!confirmationToken) {
+          log(`Previewing deletion of connection with ID: ${id}`);
+
+          const { data: connection } = await managementClient.connections.get({ id: id });
+          const preview = {
+            id: connection.id,
+            name: connection.name,
+            strategy: connection.strategy,
+            enabled_clients: connection.enabled_clients,
+          };
+
+          return createDeletionPreviewResponse(
+            'auth0_delete_connection',
+            id,
+            config.domain,
+            preview
+          );
+        }
+
+        // Second step: only delete when the confirmation token matches this connection
+        if (
+          !consumeConfirmationToken(confirmationToken, 'auth0_delete_connection', id, config.domain)
+        ) {
+          return createErrorResponse(invalidConfirmationTokenMessage('auth0_delete_connection'));
+        }
+
+        log(`Deleting connection with ID: ${id}`);
+
+        // Use the Auth0 SDK to delete the connection
+        await managementClient.connections.delete({ id: id });
+
+        log(`Successfully deleted connection: ${id}`);
+
+        return createSuccessResponse({
+          message: `Connection '${id}' deleted.`,
+          id: id,
+          deleted: true,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to delete connection: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Connection with ID '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing delete:connections scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
+
+// Helper function to format a connection for list output
+function formatConnection(connection: any) {
+  return {
+    id: connection.id,
+    name: connection.name,
+    display_name: connection.display_name,
+    strategy: connection.strategy,
+    realms: connection.realms,
+    is_domain_connection: connection.is_domain_connection || false,
+  };
+}
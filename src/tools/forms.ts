@@ -3,6 +3,11 @@ import { log } from '../utils/logger.js';
 import { createErrorResponse, createSuccessResponse } from '../utils/http-utility.js';
 import type { Auth0Config } from '../utils/config.js';
 import { getManagementClient } from '../utils/auth0-client.js';
+import {
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  invalidConfirmationTokenMessage,
+} from '../utils/confirmation.js';
 import type { PostFormsRequest } from 'auth0/dist/cjs/management/index.js';
 
 // Define all available form tools
@@ -166,6 +171,33 @@ export const FORM_TOOLS: Tool[] = [
       openWorldHint: false,
     },
   },
+  {
+    name: 'auth0_delete_form',
+    description:
+      'Delete an Auth0 form. This is a two-step operation: the first call returns a preview and a confirmation_token, and only a second call with that confirmation_token deletes the form.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the form to delete. Required.' },
+        confirmation_token: {
+          type: 'string',
+          description:
+            'Confirmation token returned by the first call. Omit it to get a preview of what will be deleted.',
+        },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:forms', 'delete:forms'],
+    },
+    annotations: {
+      title: 'Delete Auth0 Form',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
 ];
 
 // Define handlers for each form tool
@@ -481,6 +513,94 @@ export const FORM_HANDLERS: Record<
       // Handle any other errors
       log('Error processing request');
 
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_delete_form: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      const confirmationToken = request.parameters.confirmation_token;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // First step: preview the form and hand out a confirmation token
+        if (!confirmationToken) {
+          log(`Previewing deletion of form with ID: ${id}`);
+
+          const { data: form } = await managementClient.forms.get({ id });
+          const preview = {
+            id: form.id,
+            name: form.name,
+            created_at: form.created_at,
+            updated_at: form.updated_at,
+          };
+
+          return createDeletionPreviewResponse('auth0_delete_form', id, config.domain, preview);
+        }
+
+        // Second step: only delete when the confirmation token matches this form
+        if (!consumeConfirmationToken(confirmationToken, 'auth0_delete_form', id, config.domain)) {
+          return createErrorResponse(invalidConfirmationTokenMessage('auth0_delete_form'));
+        }
+
+        log(`Deleting form with ID: ${id}`);
+
+        // Use the Auth0 SDK to delete the form
+        await managementClient.forms.delete({ id });
+
+        log(`Successfully deleted form: ${id}`);
+
+        return createSuccessResponse({
+          message: `Form '${id}' deleted.`,
+          id: id,
+          deleted: true,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to delete form: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Form with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing delete:forms scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
       return createErrorResponse(
         `Error: ${error instanceof Error ? error.message : String(error)}`
       );
@@ -4,6 +4,13 @@ import type { HandlerConfig, HandlerRequest, HandlerResponse, Tool } from '../ut
 import { FORM_HANDLERS, FORM_TOOLS } from './forms.js';
 import { LOG_HANDLERS, LOG_TOOLS } from './logs.js';
 import { RESOURCE_SERVER_HANDLERS, RESOURCE_SERVER_TOOLS } from './resource-servers.js';
+import { USER_HANDLERS, USER_TOOLS } from './users.js';
+import { ROLE_HANDLERS, ROLE_TOOLS } from './roles.js';
+import { CONNECTION_HANDLERS, CONNECTION_TOOLS } from './connections.js';
+import { ORGANIZATION_HANDLERS, ORGANIZATION_TOOLS } from './organizations.js';
+import { CLIENT_GRANT_HANDLERS, CLIENT_GRANT_TOOLS } from './client-grants.js';
+import { LOG_STREAM_HANDLERS, LOG_STREAM_TOOLS } from './log-streams.js';
+import { TENANT_HANDLERS, TENANT_TOOLS } from './tenant.js';
 import trackEvent from '../utils/analytics.js';
 
 // Combine all tools into a single array
@@ -13,6 +20,13 @@ export const TOOLS: Tool[] = [
   ...ACTION_TOOLS,
   ...LOG_TOOLS,
   ...FORM_TOOLS,
+  ...USER_TOOLS,
+  ...ROLE_TOOLS,
+  ...CONNECTION_TOOLS,
+  ...ORGANIZATION_TOOLS,
+  ...CLIENT_GRANT_TOOLS,
+  ...LOG_STREAM_TOOLS,
+  ...TENANT_TOOLS,
 ];
 
 // Collect all handlers
@@ -22,6 +36,13 @@ const allHandlers = {
   ...ACTION_HANDLERS,
   ...LOG_HANDLERS,
   ...FORM_HANDLERS,
+  ...USER_HANDLERS,
+  ...ROLE_HANDLERS,
+  ...CONNECTION_HANDLERS,
+  ...ORGANIZATION_HANDLERS,
+  ...CLIENT_GRANT_HANDLERS,
+  ...LOG_STREAM_HANDLERS,
+  ...TENANT_HANDLERS,
 };
 
 /**
@@ -0,0 +1,553 @@
+import type { PatchLogStreamsByIdRequest, PostLogStreamsRequest } from 'auth0';
+import type { HandlerConfig, HandlerRequest, HandlerResponse, Tool } from '../utils/types.js';
+import { log } from '../utils/logger.js';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  maskCredential,
+} from '../utils/http-utility.js';
+import type { Auth0Config } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+
+export const LOG_STREAM_TYPES = [
+  'http',
+  'eventbridge',
+  'eventgrid',
+  'datadog',
+  'splunk',
+  'sumo',
+  'segment',
+  'mixpanel',
+];
+
+// Sink fields that hold credentials and must never be echoed back unmasked
+export const SINK_CREDENTIAL_FIELDS = [
+  'httpAuthorization',
+  'datadogApiKey',
+  'splunkToken',
+  'sumoSourceAddress',
+  'segmentWriteKey',
+  'mixpanelServiceAccountPassword',
+];
+
+// Shapes of the values that maskCredential returns: "***", "012***123" and "https://host/***"
+const MASKED_CREDENTIAL_PATTERN = /^(\*{3}|.{3}\*{3}.{3}|https?:\/\/[^/]+\/\*{3})$/i;
+
+const SINK_DESCRIPTION =
+  'Sink configuration for the stream type. Examples: ' +
+  'http: {"httpEndpoint": "https://...", "httpContentType": "application/json", "httpContentFormat": "JSONLINES", "httpAuthorization": "..."}; ' +
+  'eventbridge: {"awsAccountId": "...", "awsRegion": "us-east-1"}; ' +
+  'datadog: {"datadogRegion": "us", "datadogApiKey": "..."}; ' +
+  'splunk: {"splunkDomain": "...", "splunkToken": "...", "splunkPort": "8088", "splunkSecure": true}; ' +
+  'sumo: {"sumoSourceAddress": "https://..."}; segment: {"segmentWriteKey": "..."}.';
+
+const FILTERS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['category'] },
+      name: {
+        type: 'string',
+        description: 'Log category, e.g. auth.login.fail, auth.signup.success or management.fail',
+      },
+    },
+    required: ['type', 'name'],
+  },
+  description: 'Only deliver events matching these filters. Omit or leave empty to deliver all.',
+};
+
+// Define all available log stream tools
+export const LOG_STREAM_TOOLS: Tool[] = [
+  {
+    name: 'auth0_list_log_streams',
+    description:
+      'List the log streams of the Auth0 tenant, which deliver all tenant logs to an external sink (http, datadog, splunk, eventbridge, ...). Sink credentials are masked.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    _meta: {
+      requiredScopes: ['read:log_streams'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Log Streams',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_create_log_stream',
+    description: 'Create a log stream that delivers tenant logs to an external sink',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the log stream' },
+        type: {
+          type: 'string',
+          enum: LOG_STREAM_TYPES,
+          description: 'Type of the sink the logs are delivered to. Required.',
+        },
+        sink: { type: 'object', description: `${SINK_DESCRIPTION} Required.` },
+        filters: FILTERS_SCHEMA,
+      },
+      required: ['type', 'sink'],
+    },
+    _meta: {
+      requiredScopes: ['create:log_streams'],
+    },
+    annotations: {
+      title: 'Create Auth0 Log Stream',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_update_log_stream',
+    description:
+      'Update the name, sink or filters of a log stream. The type of a log stream cannot be changed. Masked credentials copied from auth0_list_log_streams keep their stored values.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the log stream to update. Required.' },
+        name: { type: 'string', description: 'New name of the log stream' },
+        sink: { type: 'object', description: SINK_DESCRIPTION },
+        filters: FILTERS_SCHEMA,
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['update:log_streams'],
+    },
+    annotations: {
+      title: 'Update Auth0 Log Stream',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_pause_log_stream',
+    description: 'Pause a log stream. Logs produced while it is paused are not delivered later.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the log stream to pause. Required.' },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['update:log_streams'],
+    },
+    annotations: {
+      title: 'Pause Auth0 Log Stream',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_resume_log_stream',
+    description:
+      'Resume a paused log stream, or one that Auth0 suspended after repeated delivery failures',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the log stream to resume. Required.' },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['update:log_streams'],
+    },
+    annotations: {
+      title: 'Resume Auth0 Log Stream',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+];
+
+// Define handlers for each log stream tool
+export const LOG_STREAM_HANDLERS: Record<
+  string,
+  (request: HandlerRequest, config: HandlerConfig) => Promise<HandlerResponse>
+> = {
+  auth0_list_log_streams: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // Use the Auth0 SDK to get all log streams
+        const { data: logStreams } = await managementClient.logStreams.getAll();
+
+        log(`Successfully retrieved ${logStreams.length} log streams`);
+
+        return createSuccessResponse({
+          log_streams: logStreams.map(formatLogStream),
+          count: logStreams.length,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list log streams: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:log_streams scope.';
+        } else if (sdkError.statusCode === 403) {
+          errorMessage +=
+            '\nError: Forbidden. Your token might not have the required scopes (read:log_streams).';
+        } else if (sdkError.statusCode === 429) {
+          errorMessage +=
+            '\nError: Rate limited. You have made too many requests to the Auth0 API.';
+        } else if (sdkError.statusCode >= 500) {
+          errorMessage +=
+            '\nError: Auth0 server error. The Auth0 API might be experiencing issues.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_create_log_stream: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { name, type, sink, filters } = request.parameters;
+
+      if (!type) {
+        return createErrorResponse('Error: type is required');
+      }
+
+      if (!LOG_STREAM_TYPES.includes(type)) {
+        return createErrorResponse(`Error: type must be one of: ${LOG_STREAM_TYPES.join(', ')}`);
+      }
+
+      if (!sink || typeof sink !== 'object') {
+        return createErrorResponse('Error: sink is required and must be an object');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Prepare request body
+      const logStreamData = {
+        type,
+        sink,
+        ...(name !== undefined ? { name } : {}),
+        ...(filters !== undefined ? { filters } : {}),
+      } as PostLogStreamsRequest;
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Creating new ${type} log stream`);
+
+        // Use the Auth0 SDK to create a log stream
+        const { data: newLogStream } = await managementClient.logStreams.create(logStreamData);
+
+        log(`Successfully created log stream: ${newLogStream.name} (${newLogStream.id})`);
+
+        return createSuccessResponse(formatLogStream(newLogStream));
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to create log stream: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:log_streams scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Check that the sink fields match the stream type.';
+        } else if (sdkError.statusCode === 409) {
+          errorMessage += '\nError: The tenant already has the maximum number of log streams.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_update_log_stream: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      // Extract other parameters to update
+      const { name, sink, filters } = request.parameters;
+
+      // Prepare update body, only including fields that are present
+      const updateData: PatchLogStreamsByIdRequest = {};
+      if (name !== undefined) updateData.name = name;
+      if (sink !== undefined) updateData.sink = sink;
+      if (filters !== undefined) updateData.filters = filters;
+
+      if (Object.keys(updateData).length === 0) {
+        return createErrorResponse('Error: at least one of name, sink or filters is required');
+      }
+
+      return await setLogStream(request, config, id, updateData, 'update');
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_pause_log_stream: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      return await setLogStream(request, config, id, { status: 'paused' }, 'pause');
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_resume_log_stream: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      return await setLogStream(request, config, id, { status: 'active' }, 'resume');
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
+
+// Helper function to apply an update to a log stream, shared by update, pause and resume
+async function setLogStream(
+  request: HandlerRequest,
+  config: HandlerConfig,
+  id: string,
+  updateData: PatchLogStreamsByIdRequest,
+  operation: 'update' | 'pause' | 'resume'
+): Promise<HandlerResponse> {
+  // Check for token
+  if (!request.token) {
+    log('Warning: Token is empty or undefined');
+    return createErrorResponse('Error: Missing authorization token');
+  }
+
+  // Check if domain is configured
+  if (!config.domain) {
+    log('Error: Auth0 domain is not configured');
+    return createErrorResponse('Error: Auth0 domain is not configured');
+  }
+
+  try {
+    const managementClientConfig: Auth0Config = {
+      domain: config.domain,
+      token: request.token,
+    };
+    const managementClient = await getManagementClient(managementClientConfig);
+
+    // A sink copied from auth0_list_log_streams holds masked credentials, which must not
+    // overwrite the stored ones
+    if (updateData.sink) {
+      const { data: current } = await managementClient.logStreams.get({ id });
+      updateData.sink = restoreSinkCredentials(updateData.sink, (current as any).sink);
+    }
+
+    log(`Applying ${operation} to log stream with ID: ${id}`);
+
+    // Use the Auth0 SDK to update the log stream
+    const { data: logStream } = await managementClient.logStreams.update({ id }, updateData);
+
+    log(`Successfully applied ${operation} to log stream: ${logStream.name} (${id})`);
+
+    return createSuccessResponse(formatLogStream(logStream));
+  } catch (sdkError: any) {
+    // Handle SDK errors
+    log('Auth0 SDK error');
+
+    let errorMessage = `Failed to ${operation} log stream: ${sdkError.message || 'Unknown error'}`;
+
+    // Add context based on common error codes
+    if (sdkError.statusCode === 404) {
+      errorMessage = `Log stream with id '${id}' not found.`;
+    } else if (sdkError.statusCode === 401) {
+      errorMessage +=
+        '\nError: Unauthorized. Your token might be expired or invalid or missing update:log_streams scope.';
+    } else if (sdkError.statusCode === 400) {
+      errorMessage +=
+        '\nError: Validation errors in your request. Check that the sink fields match the stream type.';
+    }
+
+    return createErrorResponse(errorMessage);
+  }
+}
+
+/**
+ * Masks the credentials of a log stream sink, including the values of custom HTTP headers
+ * @param sink - The sink of a log stream
+ * @returns A copy of the sink with masked credentials
+ */
+export function maskSinkCredentials(sink: Record<string, any> | undefined) {
+  if (!sink) {
+    return sink;
+  }
+
+  const masked: Record<string, any> = { ...sink };
+  for (const field of SINK_CREDENTIAL_FIELDS) {
+    if (typeof masked[field] === 'string') {
+      masked[field] = maskCredential(masked[field]);
+    }
+  }
+
+  // Custom HTTP headers usually carry credentials too
+  if (Array.isArray(masked.httpCustomHeaders)) {
+    masked.httpCustomHeaders = masked.httpCustomHeaders.map((header: Record<string, any>) => ({
+      ...header,
+      value: maskCredential(header.value),
+    }));
+  }
+
+  return masked;
+}
+
+// Helper function to check whether a value looks like the output of maskCredential
+const isMaskedCredential = (value: unknown) =>
+  typeof value === 'string' && MASKED_CREDENTIAL_PATTERN.test(value);
+
+// Helper function to put the stored credentials back in place of the masked ones of a sink.
+// Masked values that do not match the stored credential are refused, so that a mask is never
+// stored as a credential.
+function restoreSinkCredentials(
+  sink: Record<string, any>,
+  current: Record<string, any> | undefined
+): Record<string, any> {
+  const restore = (field: string, value: unknown, stored: unknown) => {
+    if (!isMaskedCredential(value)) {
+      return value;
+    }
+    if (typeof stored === 'string' && maskCredential(stored) === value) {
+      return stored;
+    }
+    throw new Error(
+      `sink.${field} holds a masked credential that does not match the stored one. Pass the real value instead.`
+    );
+  };
+
+  const restored: Record<string, any> = { ...sink };
+  for (const field of SINK_CREDENTIAL_FIELDS) {
+    if (field in restored) {
+      restored[field] = restore(field, restored[field], current?.[field]);
+    }
+  }
+
+  if (Array.isArray(restored.httpCustomHeaders)) {
+    const storedHeaders: Record<string, any>[] = current?.httpCustomHeaders ?? [];
+    restored.httpCustomHeaders = restored.httpCustomHeaders.map((header: Record<string, any>) => ({
+      ...header,
+      value: restore(
+        `httpCustomHeaders.${header.header}`,
+        header.value,
+        storedHeaders.find((storedHeader) => storedHeader.header === header.header)?.value
+      ),
+    }));
+  }
+
+  return restored;
+}
+
+// Helper function to format a log stream for tool responses
+function formatLogStream(logStream: any) {
+  return {
+    id: logStream.id,
+    name: logStream.name,
+    type: logStream.type,
+    status: logStream.status,
+    filters: logStream.filters || [],
+    sink: maskSinkCredentials(logStream.sink),
+  };
+}
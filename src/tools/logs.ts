@@ -1,8 +1,86 @@
+import type { Log, ManagementClient } from 'auth0';
 import type { HandlerConfig, HandlerRequest, HandlerResponse, Tool } from '../utils/types.js';
 import { log } from '../utils/logger.js';
 import { createErrorResponse, createSuccessResponse } from '../utils/http-utility.js';
 import type { Auth0Config } from '../utils/config.js';
 import { getManagementClient } from '../utils/auth0-client.js';
+import { maskSinkCredentials } from './log-streams.js';
+import {
+  describeLogType,
+  getLogSeverity,
+  isFailureLogType,
+  renderLog,
+  translateLogQuery,
+} from '../utils/log-types.js';
+import {
+  DEFAULT_ANOMALY_THRESHOLDS,
+  detectAnomalies,
+  type AnomalyThresholds,
+} from '../utils/log-anomalies.js';
+
+// Most logs the log analysis tools read in one call
+const MAX_WINDOW_LOGS = 10000;
+
+// Longest time window the log analysis tools read, which is the longest log retention of Auth0
+const MAX_WINDOW_HOURS = 30 * 24;
+
+// Most entries in each breakdown of a log summary
+const MAX_SUMMARY_TOP = 100;
+
+// Most logs the API returns per checkpoint request
+const LOGS_PER_CHECKPOINT = 100;
+
+// Most results a log search returns, across all pages
+const MAX_SEARCH_RESULTS = 1000;
+
+const CONFIG_CHANGES_PER_PAGE = 100;
+
+// Resource types of the Management API collections, keyed by their path segment
+const CONFIG_RESOURCE_TYPES: Record<string, string> = {
+  clients: 'client',
+  'client-grants': 'client_grant',
+  'resource-servers': 'resource_server',
+  actions: 'action',
+  triggers: 'trigger_bindings',
+  forms: 'form',
+  connections: 'connection',
+  roles: 'role',
+  organizations: 'organization',
+  users: 'user',
+  'log-streams': 'log_stream',
+  tenants: 'tenant_settings',
+  branding: 'branding',
+  prompts: 'prompts',
+  'custom-domains': 'custom_domain',
+  'email-templates': 'email_template',
+  emails: 'email_provider',
+  hooks: 'hook',
+  rules: 'rule',
+  'attack-protection': 'attack_protection',
+  guardian: 'mfa',
+  keys: 'signing_key',
+};
+
+// Parameters of the tools that read all logs of a time window
+const TIME_WINDOW_PROPERTIES = {
+  from_date: {
+    type: 'string',
+    description:
+      'Start of the time window as an ISO 8601 date, e.g. 2024-05-01T00:00:00Z. Optional, defaults to the number of hours before to_date.',
+  },
+  to_date: {
+    type: 'string',
+    description: 'End of the time window as an ISO 8601 date. Optional, defaults to now.',
+  },
+  hours: {
+    type: 'number',
+    description: `Length of the time window in hours when from_date is not provided (1-${MAX_WINDOW_HOURS}). Optional, defaults to 24.`,
+  },
+  max_logs: {
+    type: 'number',
+    description: `Maximum number of logs to read (1-${MAX_WINDOW_LOGS}). Optional, defaults to 1000.`,
+  },
+};
 
 // Define all available log tools
 export const LOG_TOOLS: Tool[] = [
@@ -22,7 +100,8 @@ export const LOG_TOOLS: Tool[] = [
         },
         q: {
           type: 'string',
-          description: 'Query in Lucene query string syntax. Optional, used for filtering logs.',
+          description:
+            'Query in Lucene query string syntax. Optional, used for filtering logs. Event types can be given by code (type:fp) or by friendly name (type:failed_login, type:blocked, type:breached_password, type:failure, ...).',
         },
         sort: {
           type: 'string',
@@ -37,6 +116,12 @@ export const LOG_TOOLS: Tool[] = [
           type: 'boolean',
           description: 'Whether to include total count. Optional, defaults to true.',
         },
+        format: {
+          type: 'string',
+          enum: ['summary', 'json'],
+          description:
+            'summary (default) renders each log as one decoded line with its severity; json returns the full log entries.',
+        },
       },
     },
     _meta: {
@@ -61,6 +146,12 @@ export const LOG_TOOLS: Tool[] = [
           type: 'string',
           description: 'ID of the log entry to retrieve. Required.',
         },
+        format: {
+          type: 'string',
+          enum: ['summary', 'json'],
+          description:
+            'summary (default) renders each log as one decoded line with its severity; json returns the full log entry, including its details.',
+        },
       },
       required: ['id'],
     },
@@ -76,6 +167,108 @@ export const LOG_TOOLS: Tool[] = [
       openWorldHint: false,
     },
   },
+  {
+    name: 'auth0_summarize_logs',
+    description:
+      'Summarize the logs of a time window instead of listing them. Pages through all logs in the window and returns counts by event type (with readable names), application, connection and IP address, plus the most frequent failure descriptions.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...TIME_WINDOW_PROPERTIES,
+        top: {
+          type: 'number',
+          description: `Number of entries to return in each breakdown (1-${MAX_SUMMARY_TOP}). Optional, defaults to 10.`,
+        },
+      },
+    },
+    _meta: {
+      requiredScopes: ['read:logs'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Summarize Auth0 Logs',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_detect_anomalies',
+    description:
+      'Detect security anomalies in the logs of a time window: credential stuffing (many failed logins from one IP address for many users), brute force against a single user, spikes of blocked accounts or IP addresses (limit_wc, limit_mu) and bursts of Management API changes (sapi). Each finding lists supporting log IDs that can be inspected with auth0_get_log.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...TIME_WINDOW_PROPERTIES,
+        credential_stuffing_threshold: {
+          type: 'number',
+          description: `Failed logins from one IP address, for at least ${DEFAULT_ANOMALY_THRESHOLDS.credentialStuffingUsers} different users, that count as credential stuffing. Optional, defaults to ${DEFAULT_ANOMALY_THRESHOLDS.credentialStuffing}.`,
+        },
+        brute_force_threshold: {
+          type: 'number',
+          description: `Failed logins for one user that count as brute force. Optional, defaults to ${DEFAULT_ANOMALY_THRESHOLDS.bruteForce}.`,
+        },
+        blocked_spike_threshold: {
+          type: 'number',
+          description: `Blocked accounts and IP addresses in one hour that count as a spike. Optional, defaults to ${DEFAULT_ANOMALY_THRESHOLDS.blockedSpike}.`,
+        },
+        management_api_burst_threshold: {
+          type: 'number',
+          description: `Management API changes within burst_minutes that count as a burst. Optional, defaults to ${DEFAULT_ANOMALY_THRESHOLDS.managementApiBurst}.`,
+        },
+        burst_minutes: {
+          type: 'number',
+          description: `Length of the sliding window for Management API bursts, in minutes. Optional, defaults to ${DEFAULT_ANOMALY_THRESHOLDS.burstMinutes}.`,
+        },
+      },
+    },
+    _meta: {
+      requiredScopes: ['read:logs'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Detect Anomalies in Auth0 Logs',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_list_config_changes',
+    description:
+      'List the configuration changes made through the Management API (sapi and fapi logs) in a time window, grouped by resource (application, resource server, action, form, ...). Each change shows who made it, when, and the request method, path and body.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from_date: TIME_WINDOW_PROPERTIES.from_date,
+        to_date: TIME_WINDOW_PROPERTIES.to_date,
+        hours: TIME_WINDOW_PROPERTIES.hours,
+        resource_type: {
+          type: 'string',
+          enum: [...new Set(Object.values(CONFIG_RESOURCE_TYPES))],
+          description: 'Only list changes to this type of resource. Optional.',
+        },
+        include_failed: {
+          type: 'boolean',
+          description:
+            'Whether to include Management API operations that failed (fapi). Optional, defaults to true.',
+        },
+      },
+    },
+    _meta: {
+      requiredScopes: ['read:logs'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Configuration Changes',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
 ];
 
 // Define handlers for each log tool
@@ -116,7 +309,7 @@ export const LOG_HANDLERS: Record<
       }
 
       if (request.parameters.q) {
-        options.q = request.parameters.q;
+        options.q = translateLogQuery(request.parameters.q);
       }
 
       if (request.parameters.sort) {
@@ -160,7 +353,19 @@ export const LOG_HANDLERS: Record<
           });
         }
 
-        return createSuccessResponse(responseData);
+        if (request.parameters.format === 'json') {
+          return createSuccessResponse(responseData);
+        }
+
+        // Render each log as one decoded line instead of the full entry
+        const logsData = responseData as Log[] | { logs?: Log[]; total?: number };
+        const logs = Array.isArray(logsData) ? logsData : logsData.logs || [];
+
+        return createSuccessResponse({
+          logs: logs.map(formatLogEntry),
+          count: logs.length,
+          ...(Array.isArray(logsData) ? {} : { total: logsData.total }),
+        });
       } catch (sdkError: any) {
         // Handle SDK errors
         log('Auth0 SDK error');
@@ -223,7 +428,16 @@ export const LOG_HANDLERS: Record<
 
         log(`Successfully retrieved log entry: ${(responseData as any)._id || id}`);
 
-        return createSuccessResponse(responseData);
+        if (request.parameters.format === 'json') {
+          return createSuccessResponse(responseData);
+        }
+
+        return createSuccessResponse({
+          ...formatLogEntry(responseData),
+          user_id: responseData.user_id,
+          client_id: responseData.client_id,
+          user_agent: responseData.user_agent,
+        });
       } catch (sdkError: any) {
         // Handle SDK errors
         log('Auth0 SDK error');
@@ -244,9 +458,475 @@ export const LOG_HANDLERS: Record<
       // Handle any other errors
       log('Error processing request');
 
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_summarize_logs: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { top = 10 } = request.parameters;
+      if (!isIntegerInRange(top, MAX_SUMMARY_TOP)) {
+        return createErrorResponse(`Error: top must be an integer from 1 to ${MAX_SUMMARY_TOP}`);
+      }
+
+      const window = resolveTimeWindow(request.parameters);
+      if ('error' in window) {
+        return createErrorResponse(window.error);
+      }
+      const { from, to, maxLogs } = window;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Summarizing logs from ${from.toISOString()} to ${to.toISOString()}`);
+
+        const { logs, truncated } = await fetchLogsInWindow(managementClient, from, to, maxLogs);
+
+        log(`Successfully retrieved ${logs.length} logs to summarize`);
+
+        return createSuccessResponse({
+          window: { from: from.toISOString(), to: to.toISOString() },
+          logs_analyzed: logs.length,
+          truncated,
+          ...summarizeLogs(logs, top),
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to summarize logs: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:logs scope.';
+        } else if (sdkError.statusCode === 429) {
+          errorMessage += '\nError: Rate limited. Try a shorter time window or a lower max_logs.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_detect_anomalies: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const window = resolveTimeWindow(request.parameters);
+      if ('error' in window) {
+        return createErrorResponse(window.error);
+      }
+      const { from, to, maxLogs } = window;
+
+      // Only override the thresholds that were provided
+      const {
+        credential_stuffing_threshold,
+        brute_force_threshold,
+        blocked_spike_threshold,
+        management_api_burst_threshold,
+        burst_minutes,
+      } = request.parameters;
+      const thresholds: Partial<AnomalyThresholds> = {};
+      if (credential_stuffing_threshold !== undefined)
+        thresholds.credentialStuffing = credential_stuffing_threshold;
+      if (brute_force_threshold !== undefined) thresholds.bruteForce = brute_force_threshold;
+      if (blocked_spike_threshold !== undefined) thresholds.blockedSpike = blocked_spike_threshold;
+      if (management_api_burst_threshold !== undefined)
+        thresholds.managementApiBurst = management_api_burst_threshold;
+      if (burst_minutes !== undefined) thresholds.burstMinutes = burst_minutes;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Detecting anomalies in logs from ${from.toISOString()} to ${to.toISOString()}`);
+
+        const { logs, truncated } = await fetchLogsInWindow(managementClient, from, to, maxLogs);
+        const findings = detectAnomalies(logs, thresholds);
+
+        log(`Found ${findings.length} anomalies in ${logs.length} logs`);
+
+        return createSuccessResponse({
+          window: { from: from.toISOString(), to: to.toISOString() },
+          logs_analyzed: logs.length,
+          truncated,
+          thresholds: { ...DEFAULT_ANOMALY_THRESHOLDS, ...thresholds },
+          findings,
+          ...(findings.length === 0 ? { message: 'No anomalies found in the time window.' } : {}),
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to detect anomalies: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:logs scope.';
+        } else if (sdkError.statusCode === 429) {
+          errorMessage += '\nError: Rate limited. Try a shorter time window or a lower max_logs.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_list_config_changes: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { resource_type, include_failed = true } = request.parameters;
+
+      const window = resolveTimeWindow(request.parameters);
+      if ('error' in window) {
+        return createErrorResponse(window.error);
+      }
+      const { from, to } = window;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        const types = include_failed ? '(sapi OR fapi)' : 'sapi';
+        const q = `type:${types} AND date:[${from.toISOString()} TO ${to.toISOString()}]`;
+
+        log(`Fetching configuration changes from ${from.toISOString()} to ${to.toISOString()}`);
+
+        // Page through the search results, which the API caps at 1000 entries
+        const logs: Log[] = [];
+        for (let page = 0; page * CONFIG_CHANGES_PER_PAGE < MAX_SEARCH_RESULTS; page++) {
+          const { data: entries } = await managementClient.logs.getAll({
+            q,
+            sort: 'date:-1',
+            page,
+            per_page: CONFIG_CHANGES_PER_PAGE,
+          });
+          logs.push(...entries);
+
+          if (entries.length < CONFIG_CHANGES_PER_PAGE) {
+            break;
+          }
+        }
+
+        const changes = logs
+          .map(formatConfigChange)
+          .filter((change) => !resource_type || change.resource_type === resource_type);
+
+        log(`Successfully retrieved ${changes.length} configuration changes`);
+
+        return createSuccessResponse({
+          window: { from: from.toISOString(), to: to.toISOString() },
+          changes_found: changes.length,
+          truncated: logs.length >= MAX_SEARCH_RESULTS,
+          resources: groupConfigChanges(changes),
+          ...(changes.length === 0
+            ? { message: 'No configuration changes found in the time window.' }
+            : {}),
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list configuration changes: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:logs scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: The log search was rejected. Logs older than the retention period of your plan cannot be searched.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
       return createErrorResponse(
         `Error: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   },
 };
+
+// Helper function to validate the time window parameters shared by the log analysis tools
+function resolveTimeWindow(
+  parameters: Record<string, any>
+): { from: Date; to: Date; maxLogs: number } | { error: string } {
+  const { from_date, to_date, hours = 24, max_logs = 1000 } = parameters;
+
+  if (!isIntegerInRange(hours, MAX_WINDOW_HOURS)) {
+    return { error: `Error: hours must be an integer from 1 to ${MAX_WINDOW_HOURS}` };
+  }
+
+  if (!isIntegerInRange(max_logs, MAX_WINDOW_LOGS)) {
+    return { error: `Error: max_logs must be an integer from 1 to ${MAX_WINDOW_LOGS}` };
+  }
+
+  const to = to_date ? new Date(to_date) : new Date();
+  const from = from_date ? new Date(from_date) : new Date(to.getTime() - hours * 3600 * 1000);
+
+  if (isNaN(to.getTime()) || isNaN(from.getTime())) {
+    return { error: 'Error: from_date and to_date must be valid ISO 8601 dates' };
+  }
+
+  if (from >= to) {
+    return { error: 'Error: from_date must be before to_date' };
+  }
+
+  return { from, to, maxLogs: max_logs };
+}
+
+// Helper function to check that a numeric parameter is a whole number from 1 to max
+function isIntegerInRange(value: unknown, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max;
+}
+
+/**
+ * Reads the logs of a time window in chronological order.
+ *
+ * The first log of the window is found with a date query, and the rest are read with
+ * checkpoint pagination (`from` and `take`), which is not limited to the first 1000 results
+ * like page-based pagination is.
+ */
+async function fetchLogsInWindow(
+  managementClient: ManagementClient,
+  from: Date,
+  to: Date,
+  maxLogs: number
+): Promise<{ logs: Log[]; truncated: boolean }> {
+  const { data: firstPage } = await managementClient.logs.getAll({
+    q: `date:[${from.toISOString()} TO ${to.toISOString()}]`,
+    sort: 'date:1',
+    page: 0,
+    per_page: 1,
+  });
+
+  const logs: Log[] = [...firstPage];
+  if (logs.length === 0) {
+    return { logs, truncated: false };
+  }
+
+  let checkpoint = logs[0].log_id;
+  while (logs.length < maxLogs && checkpoint) {
+    const take = Math.min(LOGS_PER_CHECKPOINT, maxLogs - logs.length);
+    const { data: page } = await managementClient.logs.getAll({ from: checkpoint, take });
+
+    for (const entry of page) {
+      if (new Date(entry.date as string) > to) {
+        return { logs, truncated: false };
+      }
+      logs.push(entry);
+    }
+
+    if (page.length < take) {
+      return { logs, truncated: false };
+    }
+
+    checkpoint = page[page.length - 1].log_id;
+  }
+
+  return { logs, truncated: true };
+}
+
+// Helper function to count logs by a key and keep the most frequent entries
+function countBy(
+  logs: Log[],
+  keyOf: (entry: Log) => string | undefined,
+  top: number
+): Array<{ key: string; count: number; sample: Log }> {
+  const counts = new Map<string, { count: number; sample: Log }>();
+  for (const entry of logs) {
+    const key = keyOf(entry);
+    if (!key) continue;
+
+    const current = counts.get(key);
+    counts.set(key, { count: (current?.count ?? 0) + 1, sample: current?.sample ?? entry });
+  }
+
+  return [...counts.entries()]
+    .map(([key, { count, sample }]) => ({ key, count, sample }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, top);
+}
+
+// Helper function to aggregate logs by type, application, connection and IP address
+function summarizeLogs(logs: Log[], top: number) {
+  const failures = logs.filter((entry) => isFailureLogType(entry.type));
+
+  return {
+    failures: failures.length,
+    by_type: countBy(logs, (entry) => entry.type, top).map(({ key, count }) => ({
+      type: key,
+      name: describeLogType(key),
+      severity: getLogSeverity(key),
+      count,
+    })),
+    by_client: countBy(logs, (entry) => entry.client_id, top).map(({ key, count, sample }) => ({
+      client_id: key,
+      client_name: sample.client_name,
+      count,
+    })),
+    by_connection: countBy(logs, (entry) => entry.connection, top).map(({ key, count }) => ({
+      connection: key,
+      count,
+    })),
+    by_ip: countBy(logs, (entry) => entry.ip, top).map(({ key, count }) => ({ ip: key, count })),
+    top_failures: countBy(
+      failures,
+      (entry) => `${entry.type}\u0000${entry.description || describeLogType(entry.type)}`,
+      top
+    ).map(({ count, sample }) => ({
+      type: sample.type,
+      name: describeLogType(sample.type),
+      description: sample.description || describeLogType(sample.type),
+      count,
+    })),
+  };
+}
+
+// Helper function to format a log entry as one decoded line
+function formatLogEntry(entry: Log) {
+  return {
+    log_id: entry.log_id,
+    severity: getLogSeverity(entry.type),
+    summary: renderLog(entry),
+  };
+}
+
+// Helper function to describe a Management API operation recorded in a sapi or fapi log
+function formatConfigChange(entry: Log) {
+  const details = (entry.details || {}) as Record<string, any>;
+  const requestDetails = details.request || {};
+  const path: string = requestDetails.path || '';
+  const { resource_type, resource_id } = parseResourcePath(path);
+  const user = requestDetails.auth?.user;
+
+  return {
+    log_id: entry.log_id,
+    date: entry.date,
+    resource_type,
+    resource_id,
+    who:
+      user?.email ||
+      user?.name ||
+      user?.user_id ||
+      entry.client_name ||
+      entry.client_id ||
+      'unknown',
+    channel: requestDetails.channel,
+    succeeded: entry.type === 'sapi',
+    operation: entry.description,
+    method: requestDetails.method?.toUpperCase(),
+    path,
+    // Sink credentials have names that the redaction of responses does not recognize
+    body:
+      resource_type === 'log_stream' && requestDetails.body?.sink
+        ? { ...requestDetails.body, sink: maskSinkCredentials(requestDetails.body.sink) }
+        : requestDetails.body,
+    ...(details.response?.statusCode ? { status: details.response.statusCode } : {}),
+  };
+}
+
+// Helper function to find the resource a Management API path points to, e.g. /api/v2/clients/abc
+function parseResourcePath(path: string): { resource_type: string; resource_id?: string } {
+  const segments = path
+    .replace(/^\/api\/v2\//, '')
+    .split('?')[0]
+    .split('/')
+    .filter(Boolean);
+
+  // Actions live under /actions/actions/:id and triggers under /actions/triggers/:id/bindings
+  const [collection, id] =
+    segments[0] === 'actions' && segments.length > 1 ? segments.slice(1) : segments;
+
+  return {
+    resource_type: CONFIG_RESOURCE_TYPES[collection] || collection || 'unknown',
+    ...(id ? { resource_id: decodeURIComponent(id) } : {}),
+  };
+}
+
+// Helper function to group configuration changes by resource, most recently changed first
+function groupConfigChanges(changes: ReturnType<typeof formatConfigChange>[]) {
+  const groups = new Map<string, ReturnType<typeof formatConfigChange>[]>();
+  for (const change of changes) {
+    const key = `${change.resource_type}\u0000${change.resource_id ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), change]);
+  }
+
+  return [...groups.values()].map((group) => ({
+    resource_type: group[0].resource_type,
+    resource_id: group[0].resource_id,
+    change_count: group.length,
+    changes: group.map(({ resource_type: _type, resource_id: _id, ...change }) => change),
+  }));
+}
@@ -0,0 +1,1130 @@
+import type {
+  PatchOrganizationsByIdRequest,
+  PostEnabledConnectionsRequest,
+  PostInvitationsRequest,
+  PostOrganizationsRequest,
+} from 'auth0';
+import type { HandlerConfig, HandlerRequest, HandlerResponse, Tool } from '../utils/types.js';
+import { log } from '../utils/logger.js';
+import { createErrorResponse, createSuccessResponse } from '../utils/http-utility.js';
+import type { Auth0Config } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+import {
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  invalidConfirmationTokenMessage,
+} from '../utils/confirmation.js';
+
+// Define all available organization tools
+export const ORGANIZATION_TOOLS: Tool[] = [
+  {
+    name: 'auth0_list_organizations',
+    description: 'List all organizations in the Auth0 tenant',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (0-based)' },
+        per_page: { type: 'number', description: 'Number of organizations per page' },
+        include_totals: { type: 'boolean', description: 'Include total count' },
+      },
+    },
+    _meta: {
+      requiredScopes: ['read:organizations'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Organizations',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_get_organization',
+    description: 'Get details about a specific Auth0 organization by ID or by name',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the organization to retrieve' },
+        name: {
+          type: 'string',
+          description: 'Name of the organization to retrieve. Used when no id is provided.',
+        },
+      },
+    },
+    _meta: {
+      requiredScopes: ['read:organizations'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Get Auth0 Organization Details',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_create_organization',
+    description: 'Create a new Auth0 organization',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description:
+            'Name of the organization (lowercase alphanumeric characters, "-" and "_"). Required.',
+        },
+        display_name: {
+          type: 'string',
+          description: 'Friendly name of the organization shown on the login page',
+        },
+        branding: {
+          type: 'object',
+          description: 'Branding of the organization',
+          properties: {
+            logo_url: { type: 'string', description: 'URL of the organization logo' },
+            colors: {
+              type: 'object',
+              properties: {
+                primary: { type: 'string', description: 'Primary color in hex format' },
+                page_background: {
+                  type: 'string',
+                  description: 'Page background color in hex format',
+                },
+              },
+            },
+          },
+        },
+        metadata: {
+          type: 'object',
+          description: 'Metadata associated with the organization (up to 25 string key/values)',
+        },
+        enabled_connections: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              connection_id: { type: 'string', description: 'ID of the connection' },
+              assign_membership_on_login: {
+                type: 'boolean',
+                description: 'Automatically add users logging in with this connection as members',
+              },
+            },
+            required: ['connection_id'],
+          },
+          description: 'Connections to enable for the organization',
+        },
+      },
+      required: ['name'],
+    },
+    _meta: {
+      requiredScopes: ['create:organizations'],
+    },
+    annotations: {
+      title: 'Create Auth0 Organization',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_update_organization',
+    description: 'Update an existing Auth0 organization',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the organization to update. Required.' },
+        name: { type: 'string', description: 'New name of the organization' },
+        display_name: {
+          type: 'string',
+          description: 'Friendly name of the organization shown on the login page',
+        },
+        branding: {
+          type: 'object',
+          description: 'Branding of the organization (logo_url and colors)',
+        },
+        metadata: {
+          type: 'object',
+          description: 'Metadata associated with the organization (up to 25 string key/values)',
+        },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['update:organizations'],
+    },
+    annotations: {
+      title: 'Update Auth0 Organization',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_list_organization_members',
+    description: 'List the members of an Auth0 organization',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the organization. Required.' },
+        page: { type: 'number', description: 'Page number (0-based)' },
+        per_page: { type: 'number', description: 'Number of members per page' },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:organization_members'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Organization Members',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_add_organization_members',
+    description: 'Add existing users as members of an Auth0 organization',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the organization. Required.' },
+        members: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the users to add as members. Required.',
+        },
+      },
+      required: ['id', 'members'],
+    },
+    _meta: {
+      requiredScopes: ['create:organization_members'],
+    },
+    annotations: {
+      title: 'Add Auth0 Organization Members',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_create_organization_invitation',
+    description:
+      'Invite a user by email to join an Auth0 organization. Returns the invitation including its invitation_url.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the organization. Required.' },
+        inviter_name: {
+          type: 'string',
+          description: 'Name of the person sending the invitation. Required.',
+        },
+        invitee_email: {
+          type: 'string',
+          description: 'Email address of the person being invited. Required.',
+        },
+        client_id: {
+          type: 'string',
+          description: 'Client ID of the application the invitee will be sent to. Required.',
+        },
+        connection_id: {
+          type: 'string',
+          description: 'ID of the connection the invitee should sign up with',
+        },
+        roles: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the roles to assign to the invitee once they accept',
+        },
+        ttl_sec: {
+          type: 'number',
+          description: 'Number of seconds before the invitation expires (defaults to 7 days)',
+        },
+        send_invitation_email: {
+          type: 'boolean',
+          description: 'Whether Auth0 should send the invitation email. Defaults to true.',
+        },
+      },
+      required: ['id', 'inviter_name', 'invitee_email', 'client_id'],
+    },
+    _meta: {
+      requiredScopes: ['create:organization_invitations'],
+    },
+    annotations: {
+      title: 'Create Auth0 Organization Invitation',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  },
+  {
+    name: 'auth0_enable_organization_connection',
+    description: 'Enable a connection for an Auth0 organization',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the organization. Required.' },
+        connection_id: {
+          type: 'string',
+          description: 'ID of the connection to enable. Required.',
+        },
+        assign_membership_on_login: {
+          type: 'boolean',
+          description: 'Automatically add users logging in with this connection as members',
+        },
+        is_signup_enabled: {
+          type: 'boolean',
+          description: 'Allow users to sign up with this connection from the organization prompt',
+        },
+        show_as_button: {
+          type: 'boolean',
+          description: 'Whether to show a button for this connection on the login page',
+        },
+      },
+      required: ['id', 'connection_id'],
+    },
+    _meta: {
+      requiredScopes: ['create:organization_connections'],
+    },
+    annotations: {
+      title: 'Enable Auth0 Organization Connection',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_delete_organization',
+    description:
+      'Delete an Auth0 organization. Its memberships, invitations and enabled connections are removed with it. This is a two-step operation: the first call returns a preview and a confirmation_token, and only a second call with that confirmation_token deletes the organization.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'ID of the organization to delete. Required.',
+        },
+        confirmation_token: {
+          type: 'string',
+          description:
+            'Confirmation token returned by the first call. Omit it to get a preview of what will be deleted.',
+        },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:organizations', 'delete:organizations'],
+    },
+    annotations: {
+      title: 'Delete Auth0 Organization',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+];
+
+interface Auth0OrganizationsResponse {
+  organizations?: any[];
+  total?: number;
+  start?: number;
+  limit?: number;
+}
+
+// Define handlers for each organization tool
+export const ORGANIZATION_HANDLERS: Record<
+  string,
+  (request: HandlerRequest, config: HandlerConfig) => Promise<HandlerResponse>
+> = {
+  auth0_list_organizations: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Build query parameters
+      const options: Record<string, any> = {};
+      if (request.parameters.page !== undefined) {
+        options.page = request.parameters.page;
+      }
+      if (request.parameters.per_page !== undefined) {
+        options.per_page = request.parameters.per_page;
+      } else {
+        // Default to 5 items per page
+        options.per_page = 5;
+      }
+      if (request.parameters.include_totals !== undefined) {
+        options.include_totals = request.parameters.include_totals;
+      } else {
+        // Default to include totals
+        options.include_totals = true;
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching organizations with supplied options`);
+
+        // Use the Auth0 SDK to get all organizations
+        const { data: responseData } = await managementClient.organizations.getAll(options);
+
+        let organizations: any[] = [];
+        let total = 0;
+        let page = 0;
+        let perPage = options.per_page;
+
+        if (Array.isArray(responseData)) {
+          // When include_totals is false, response is an array of organizations
+          organizations = responseData;
+          total = organizations.length;
+        } else if (
+          responseData &&
+          typeof responseData === 'object' &&
+          'organizations' in responseData
+        ) {
+          // When include_totals is true, response has pagination info
+          const typedResponse = responseData as Auth0OrganizationsResponse;
+          organizations = typedResponse.organizations || [];
+          total = typedResponse.total || organizations.length;
+          perPage = typedResponse.limit || perPage;
+          page = Math.floor((typedResponse.start || 0) / perPage);
+        } else {
+          log('Invalid response format from Auth0 SDK');
+          return createErrorResponse('Error: Received invalid response format from Auth0 API.');
+        }
+
+        if (organizations.length === 0) {
+          return createSuccessResponse({
+            message: 'No organizations found in your tenant.',
+            organizations: [],
+          });
+        }
+
+        const totalPages = Math.ceil(total / perPage);
+
+        log(
+          `Successfully retrieved ${organizations.length} organizations (page ${page + 1} of ${totalPages}, total: ${total})`
+        );
+
+        return createSuccessResponse({
+          organizations: organizations,
+          count: organizations.length,
+          total: total,
+          pagination: {
+            page: page,
+            per_page: perPage,
+            total_pages: totalPages,
+            has_next: page + 1 < totalPages,
+          },
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list organizations: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error scenarios
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid. Try running "npx @auth0/auth0-mcp-server init" to refresh your token.';
+        } else if (sdkError.statusCode === 403) {
+          errorMessage +=
+            '\nError: Forbidden. Your token might not have the required scopes (read:organizations). Try running "npx @auth0/auth0-mcp-server init" to check the proper permissions.';
+        } else if (sdkError.statusCode === 429) {
+          errorMessage +=
+            '\nError: Rate limited. You have made too many requests to the Auth0 API. Please try again later.';
+        } else if (sdkError.statusCode >= 500) {
+          errorMessage +=
+            '\nError: Auth0 server error. The Auth0 API might be experiencing issues. Please try again later.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_get_organization: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { id, name } = request.parameters;
+      if (!id && !name) {
+        return createErrorResponse('Error: id or name is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching organization with ${id ? `ID: ${id}` : `name: ${name}`}`);
+
+        // Use the Auth0 SDK to get a specific organization
+        const { data: organization } = id
+          ? await managementClient.organizations.get({ id })
+          : await managementClient.organizations.getByName({ name });
+
+        log(
+          `Successfully retrieved organization: ${organization.name || 'Unknown'} (${organization.id || id})`
+        );
+
+        return createSuccessResponse(organization);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to get organization: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = id
+            ? `Organization with id '${id}' not found.`
+            : `Organization with name '${name}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:organizations scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_create_organization: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { name, display_name, branding, metadata, enabled_connections } = request.parameters;
+
+      if (!name) {
+        return createErrorResponse('Error: name is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Prepare request body
+      const organizationData: PostOrganizationsRequest = { name };
+      if (display_name !== undefined) organizationData.display_name = display_name;
+      if (branding !== undefined) organizationData.branding = branding;
+      if (metadata !== undefined) organizationData.metadata = metadata;
+      if (enabled_connections !== undefined)
+        organizationData.enabled_connections = enabled_connections;
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Creating new organization with name: ${name}`);
+
+        // Use the Auth0 SDK to create an organization
+        const { data: newOrganization } =
+          await managementClient.organizations.create(organizationData);
+
+        log(
+          `Successfully created organization: ${newOrganization.name || name} (${newOrganization.id || 'new organization'})`
+        );
+
+        return createSuccessResponse(newOrganization);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to create organization: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 409) {
+          errorMessage = `Organization with name '${name}' already exists.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:organizations scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Organization names may only contain lowercase alphanumeric characters, "-" and "_".';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_update_organization: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      // Extract other parameters to update
+      const { name, display_name, branding, metadata } = request.parameters;
+
+      // Prepare update body, only including fields that are present
+      const updateData: PatchOrganizationsByIdRequest = {};
+      if (name !== undefined) updateData.name = name;
+      if (display_name !== undefined) updateData.display_name = display_name;
+      if (branding !== undefined) updateData.branding = branding;
+      if (metadata !== undefined) updateData.metadata = metadata;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Updating organization with ID: ${id}`);
+
+        // Use the Auth0 SDK to update the organization
+        const { data: updatedOrganization } = await managementClient.organizations.update(
+          { id },
+          updateData
+        );
+
+        log(
+          `Successfully updated organization: ${updatedOrganization.name || 'Unknown'} (${updatedOrganization.id || id})`
+        );
+
+        return createSuccessResponse(updatedOrganization);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to update organization: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Organization with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:organizations scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_list_organization_members: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Build query parameters
+      const options: { id: string; [key: string]: any } = { id };
+      if (request.parameters.page !== undefined) {
+        options.page = request.parameters.page;
+      }
+      if (request.parameters.per_page !== undefined) {
+        options.per_page = request.parameters.per_page;
+      } else {
+        // Default to 5 items per page
+        options.per_page = 5;
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching members for organization with ID: ${id}`);
+
+        // Use the Auth0 SDK to get the members of the organization
+        const { data: members } = await managementClient.organizations.getMembers(options);
+
+        log(`Successfully retrieved ${members.length} members for organization: ${id}`);
+
+        return createSuccessResponse({
+          organization_id: id,
+          members: members,
+          count: members.length,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list organization members: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Organization with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:organization_members scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_add_organization_members: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { id, members } = request.parameters;
+
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      if (!Array.isArray(members) || members.length === 0) {
+        return createErrorResponse('Error: members is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Adding ${members.length} members to organization: ${id}`);
+
+        // Use the Auth0 SDK to add the members
+        await managementClient.organizations.addMembers({ id }, { members });
+
+        log(`Successfully added members to organization: ${id}`);
+
+        return createSuccessResponse({
+          message: `Added ${members.length} member(s) to organization '${id}'.`,
+          organization_id: id,
+          members,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to add organization members: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Organization with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:organization_members scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Check that every member is an existing user ID.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_create_organization_invitation: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const {
+        id,
+        inviter_name,
+        invitee_email,
+        client_id,
+        connection_id,
+        roles,
+        ttl_sec,
+        send_invitation_email,
+      } = request.parameters;
+
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      if (!inviter_name) {
+        return createErrorResponse('Error: inviter_name is required');
+      }
+
+      if (!invitee_email) {
+        return createErrorResponse('Error: invitee_email is required');
+      }
+
+      if (!client_id) {
+        return createErrorResponse('Error: client_id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Prepare request body
+      const invitationData: PostInvitationsRequest = {
+        inviter: { name: inviter_name },
+        invitee: { email: invitee_email },
+        client_id,
+        // Default to sending the invitation email
+        send_invitation_email: send_invitation_email !== false,
+      };
+      if (connection_id !== undefined) invitationData.connection_id = connection_id;
+      if (roles !== undefined) invitationData.roles = roles;
+      if (ttl_sec !== undefined) invitationData.ttl_sec = ttl_sec;
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Creating invitation for organization: ${id}`);
+
+        // Use the Auth0 SDK to create the invitation
+        const { data: invitation } = await managementClient.organizations.createInvitation(
+          { id },
+          invitationData
+        );
+
+        log(`Successfully created invitation: ${invitation.id || 'new invitation'}`);
+
+        return createSuccessResponse(invitation);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to create organization invitation: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Organization with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:organization_invitations scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Check that the application has an initiate_login_uri and supports organizations.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_enable_organization_connection: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { id, connection_id, assign_membership_on_login, is_signup_enabled, show_as_button } =
+        request.parameters;
+
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      if (!connection_id) {
+        return createErrorResponse('Error: connection_id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Prepare request body
+      const connectionData: PostEnabledConnectionsRequest = { connection_id };
+      if (assign_membership_on_login !== undefined)
+        connectionData.assign_membership_on_login = assign_membership_on_login;
+      if (is_signup_enabled !== undefined) connectionData.is_signup_enabled = is_signup_enabled;
+      if (show_as_button !== undefined) connectionData.show_as_button = show_as_button;
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Enabling connection ${connection_id} for organization: ${id}`);
+
+        // Use the Auth0 SDK to enable the connection
+        const { data: enabledConnection } =
+          await managementClient.organizations.addEnabledConnection({ id }, connectionData);
+
+        log(`Successfully enabled connection ${connection_id} for organization: ${id}`);
+
+        return createSuccessResponse(enabledConnection);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to enable organization connection: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Organization with id '${id}' or connection with id '${connection_id}' not found.`;
+        } else if (sdkError.statusCode === 409) {
+          errorMessage = `Connection '${connection_id}' is already enabled for organization '${id}'.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:organization_connections scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_delete_organization: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      const confirmationToken = request.parameters.confirmation_token;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // First step: preview the organization and hand out a confirmation token
+        if (!confirmationToken) {
+          log(`Previewing deletion of organization with ID: ${id}`);
+
+          const { data: organization } = await managementClient.organizations.get({ id: id });
+          const preview = {
+            id: organization.id,
+            name: organization.name,
+            display_name: organization.display_name,
+          };
+
+          return createDeletionPreviewResponse(
+            'auth0_delete_organization',
+            id,
+            config.domain,
+            preview
+          );
+        }
+
+        // Second step: only delete when the confirmation token matches this organization
+        if (
+          !consumeConfirmationToken(
+            confirmationToken,
+            'auth0_delete_organization',
+            id,
+            config.domain
+          )
+        ) {
+          return createErrorResponse(invalidConfirmationTokenMessage('auth0_delete_organization'));
+        }
+
+        log(`Deleting organization with ID: ${id}`);
+
+        // Use the Auth0 SDK to delete the organization
+        await managementClient.organizations.delete({ id: id });
+
+        log(`Successfully deleted organization: ${id}`);
+
+        return createSuccessResponse({
+          message: `Organization '${id}' deleted.`,
+          id: id,
+          deleted: true,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to delete organization: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Organization with ID '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing delete:organizations scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
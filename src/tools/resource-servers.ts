@@ -1,6 +1,7 @@
-import type { ResourceServerCreate, ResourceServerUpdate } from 'auth0';
+import type { ManagementClient, ResourceServerCreate, ResourceServerUpdate } from 'auth0';
 import type {
   Auth0PaginatedResponse,
+  Auth0ResourceServer,
   HandlerConfig,
   HandlerRequest,
   HandlerResponse,
@@ -10,6 +11,11 @@ import { log } from '../utils/logger.js';
 import { createErrorResponse, createSuccessResponse } from '../utils/http-utility.js';
 import type { Auth0Config } from '../utils/config.js';
 import { getManagementClient } from '../utils/auth0-client.js';
+import {
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  invalidConfirmationTokenMessage,
+} from '../utils/confirmation.js';
 
 // Define all available resource server tools
 export const RESOURCE_SERVER_TOOLS: Tool[] = [
@@ -259,6 +265,33 @@ export const RESOURCE_SERVER_TOOLS: Tool[] = [
       openWorldHint: false,
     },
   },
+  {
+    name: 'auth0_delete_resource_server',
+    description:
+      'Delete an Auth0 resource server (API). This is a two-step operation: the first call returns a preview and a confirmation_token, and only a second call with that confirmation_token deletes the resource server.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the resource server to delete. Required.' },
+        confirmation_token: {
+          type: 'string',
+          description:
+            'Confirmation token returned by the first call. Omit it to get a preview of what will be deleted.',
+        },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:resource_servers', 'delete:resource_servers'],
+    },
+    annotations: {
+      title: 'Delete Auth0 Resource Server',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
 ];
 
 // Define handlers for each resource server tool
@@ -687,6 +720,111 @@ export const RESOURCE_SERVER_HANDLERS: Record<
       // Handle any other errors
       log('Error processing request');
 
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_delete_resource_server: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      const confirmationToken = request.parameters.confirmation_token;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // First step: preview the resource server and hand out a confirmation token
+        if (!confirmationToken) {
+          log(`Previewing deletion of resource server with ID: ${id}`);
+
+          const { data: resourceServer } = await managementClient.resourceServers.get({ id });
+          const preview = {
+            id: resourceServer.id,
+            name: resourceServer.name,
+            identifier: resourceServer.identifier,
+            scopes: (resourceServer.scopes || []).map((scope: { value: string }) => scope.value),
+          };
+
+          return createDeletionPreviewResponse(
+            'auth0_delete_resource_server',
+            id,
+            config.domain,
+            preview
+          );
+        }
+
+        // Second step: only delete when the confirmation token matches this resource server
+        if (
+          !consumeConfirmationToken(
+            confirmationToken,
+            'auth0_delete_resource_server',
+            id,
+            config.domain
+          )
+        ) {
+          return createErrorResponse(
+            invalidConfirmationTokenMessage('auth0_delete_resource_server')
+          );
+        }
+
+        log(`Deleting resource server with ID: ${id}`);
+
+        // Use the Auth0 SDK to delete the resource server
+        await managementClient.resourceServers.delete({ id });
+
+        log(`Successfully deleted resource server: ${id}`);
+
+        return createSuccessResponse({
+          message: `Resource server '${id}' deleted.`,
+          id: id,
+          deleted: true,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to delete resource server: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Resource server with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing delete:resource_servers scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: The resource server cannot be deleted. System APIs such as the Auth0 Management API cannot be removed.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
       return createErrorResponse(
         `Error: ${error instanceof Error ? error.message : String(error)}`
       );
@@ -703,3 +841,45 @@ function formatResourceServer(server: any) {
     scopes: server.scopes?.length || 0,
   };
 }
+
+/**
+ * Looks up a resource server (API) by its identifier (audience).
+ *
+ * Used by tools that reference permissions of an API, so that permission names can be
+ * checked against the scopes defined on the resource server before calling the API.
+ *
+ * @param managementClient - An initialized Management API client
+ * @param identifier - The identifier (audience) of the resource server
+ * @returns The matching resource server, or null if no resource server has that identifier
+ */
+export async function findResourceServerByIdentifier(
+  managementClient: ManagementClient,
+  identifier: string
+): Promise<Auth0ResourceServer | null> {
+  const { data: responseData } = await managementClient.resourceServers.getAll({
+    identifiers: [identifier],
+  });
+
+  const resourceServers: Auth0ResourceServer[] = Array.isArray(responseData)
+    ? responseData
+    : (responseData as Auth0PaginatedResponse)?.resource_servers || [];
+
+  return resourceServers.find((server) => server.identifier === identifier) || null;
+}
+
+/**
+ * Returns the requested permission names that are not defined as scopes on the resource server.
+ *
+ * @param resourceServer - The resource server to check against
+ * @param permissions - Permission (scope) names to validate
+ * @returns The permission names that do not exist on the resource server
+ */
+export function findUnknownScopes(
+  resourceServer: Auth0ResourceServer,
+  permissions: string[]
+): string[] {
+  const definedScopes = new Set(
+    (resourceServer.scopes || []).map((scope: { value: string }) => scope.value)
+  );
+  return permissions.filter((permission) => !definedScopes.has(permission));
+}
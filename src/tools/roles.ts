@@ -0,0 +1,916 @@
+import type { RoleCreate, RoleUpdate } from 'auth0';
+import type { HandlerConfig, HandlerRequest, HandlerResponse, Tool } from '../utils/types.js';
+import { log } from '../utils/logger.js';
+import { createErrorResponse, createSuccessResponse } from '../utils/http-utility.js';
+import type { Auth0Config } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+import {
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  invalidConfirmationTokenMessage,
+} from '../utils/confirmation.js';
+import { findResourceServerByIdentifier, findUnknownScopes } from './resource-servers.js';
+
+// Define all available role tools
+export const ROLE_TOOLS: Tool[] = [
+  {
+    name: 'auth0_list_roles',
+    description: 'List all roles in the Auth0 tenant',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (0-based)' },
+        per_page: { type: 'number', description: 'Number of roles per page' },
+        include_totals: { type: 'boolean', description: 'Include total count' },
+        name_filter: {
+          type: 'string',
+          description: 'Optional filter on the role name (case-insensitive)',
+        },
+      },
+    },
+    _meta: {
+      requiredScopes: ['read:roles'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Roles',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_get_role',
+    description: 'Get details about a specific Auth0 role, including its permissions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the role to retrieve' },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:roles'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Get Auth0 Role Details',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_create_role',
+    description: 'Create a new Auth0 role',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the role. Required.' },
+        description: { type: 'string', description: 'Description of the role' },
+      },
+      required: ['name'],
+    },
+    _meta: {
+      requiredScopes: ['create:roles'],
+    },
+    annotations: {
+      title: 'Create Auth0 Role',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_update_role',
+    description: 'Update an existing Auth0 role',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the role to update. Required.' },
+        name: { type: 'string', description: 'New name of the role' },
+        description: { type: 'string', description: 'New description of the role' },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['update:roles'],
+    },
+    annotations: {
+      title: 'Update Auth0 Role',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_assign_role_permissions',
+    description:
+      'Assign permissions (scopes) of a resource server (API) to an Auth0 role. Each permission must already be defined on the resource server.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the role. Required.' },
+        resource_server_identifier: {
+          type: 'string',
+          description:
+            'Identifier (audience) of the resource server that defines the permissions. Required.',
+        },
+        permissions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Names of the permissions to assign (e.g. ["read:orders"]). Required.',
+        },
+      },
+      required: ['id', 'resource_server_identifier', 'permissions'],
+    },
+    _meta: {
+      requiredScopes: ['update:roles', 'read:resource_servers'],
+    },
+    annotations: {
+      title: 'Assign Permissions to Auth0 Role',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_assign_roles_to_user',
+    description: 'Assign one or more roles to an Auth0 user',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'ID of the user. Required.' },
+        roles: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the roles to assign to the user. Required.',
+        },
+      },
+      required: ['user_id', 'roles'],
+    },
+    _meta: {
+      requiredScopes: ['create:role_members'],
+    },
+    annotations: {
+      title: 'Assign Roles to Auth0 User',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_list_role_users',
+    description: 'List the users that have been assigned a specific Auth0 role',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'ID of the role. Required.' },
+        page: { type: 'number', description: 'Page number (0-based)' },
+        per_page: { type: 'number', description: 'Number of users per page' },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:roles', 'read:role_members'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Role Users',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_delete_role',
+    description:
+      'Delete an Auth0 role. It is also removed from every user it was assigned to. This is a two-step operation: the first call returns a preview and a confirmation_token, and only a second call with that confirmation_token deletes the role.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'ID of the role to delete. Required.',
+        },
+        confirmation_token: {
+          type: 'string',
+          description:
+            'Confirmation token returned by the first call. Omit it to get a preview of what will be deleted.',
+        },
+      },
+      required: ['id'],
+    },
+    _meta: {
+      requiredScopes: ['read:roles', 'delete:roles'],
+    },
+    annotations: {
+      title: 'Delete Auth0 Role',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+];
+
+interface Auth0RolesResponse {
+  roles?: any[];
+  total?: number;
+  start?: number;
+  limit?: number;
+}
+
+// Define handlers for each role tool
+export const ROLE_HANDLERS: Record<
+  string,
+  (request: HandlerRequest, config: HandlerConfig) => Promise<HandlerResponse>
+> = {
+  auth0_list_roles: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Build query parameters
+      const options: Record<string, any> = {};
+      if (request.parameters.page !== undefined) {
+        options.page = request.parameters.page;
+      }
+      if (request.parameters.per_page !== undefined) {
+        options.per_page = request.parameters.per_page;
+      } else {
+        // Default to 5 items per page
+        options.per_page = 5;
+      }
+      if (request.parameters.include_totals !== undefined) {
+        options.include_totals = request.parameters.include_totals;
+      } else {
+        // Default to include totals
+        options.include_totals = true;
+      }
+      if (request.parameters.name_filter) {
+        options.name_filter = request.parameters.name_filter;
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching roles with supplied options`);
+
+        // Use the Auth0 SDK to get all roles
+        const { data: responseData } = await managementClient.roles.getAll(options);
+
+        let roles: any[] = [];
+        let total = 0;
+        let page = 0;
+        let perPage = options.per_page;
+
+        if (Array.isArray(responseData)) {
+          // When include_totals is false, response is an array of roles
+          roles = responseData;
+          total = roles.length;
+        } else if (responseData && typeof responseData === 'object' && 'roles' in responseData) {
+          // When include_totals is true, response has pagination info
+          const typedResponse = responseData as Auth0RolesResponse;
+          roles = typedResponse.roles || [];
+          total = typedResponse.total || roles.length;
+          perPage = typedResponse.limit || perPage;
+          page = Math.floor((typedResponse.start || 0) / perPage);
+        } else {
+          log('Invalid response format from Auth0 SDK');
+          return createErrorResponse('Error: Received invalid response format from Auth0 API.');
+        }
+
+        if (roles.length === 0) {
+          return createSuccessResponse({
+            message: 'No roles found in your Auth0 tenant.',
+            roles: [],
+          });
+        }
+
+        const totalPages = Math.ceil(total / perPage);
+
+        log(
+          `Successfully retrieved ${roles.length} roles (page ${page + 1} of ${totalPages}, total: ${total})`
+        );
+
+        return createSuccessResponse({
+          roles: roles,
+          count: roles.length,
+          total: total,
+          pagination: {
+            page: page,
+            per_page: perPage,
+            total_pages: totalPages,
+            has_next: page + 1 < totalPages,
+          },
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list roles: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error scenarios
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid. Try running "npx @auth0/auth0-mcp-server init" to refresh your token.';
+        } else if (sdkError.statusCode === 403) {
+          errorMessage +=
+            '\nError: Forbidden. Your token might not have the required scopes (read:roles). Try running "npx @auth0/auth0-mcp-server init" to check the proper permissions.';
+        } else if (sdkError.statusCode === 429) {
+          errorMessage +=
+            '\nError: Rate limited. You have made too many requests to the Auth0 API. Please try again later.';
+        } else if (sdkError.statusCode >= 500) {
+          errorMessage +=
+            '\nError: Auth0 server error. The Auth0 API might be experiencing issues. Please try again later.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_get_role: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching role with ID: ${id}`);
+
+        // Use the Auth0 SDK to get the role and the permissions assigned to it
+        const { data: role } = await managementClient.roles.get({ id });
+        const { data: permissions } = await managementClient.roles.getPermissions({ id });
+
+        log(`Successfully retrieved role: ${role.name || 'Unknown'} (${role.id || id})`);
+
+        return createSuccessResponse({
+          ...role,
+          permissions: (permissions || []).map((permission) => ({
+            permission_name: permission.permission_name,
+            resource_server_identifier: permission.resource_server_identifier,
+          })),
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to get role: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Role with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:roles scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_create_role: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { name, description } = request.parameters;
+
+      if (!name) {
+        return createErrorResponse('Error: name is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Prepare request body
+      const roleData: RoleCreate = { name };
+      if (description !== undefined) roleData.description = description;
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Creating new role with name: ${name}`);
+
+        // Use the Auth0 SDK to create a role
+        const { data: newRole } = await managementClient.roles.create(roleData);
+
+        log(`Successfully created role: ${newRole.name || name} (${newRole.id || 'new role'})`);
+
+        return createSuccessResponse(newRole);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to create role: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 409) {
+          errorMessage = `Role with name '${name}' already exists.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:roles scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_update_role: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      // Prepare update body, only including fields that are present
+      const { name, description } = request.parameters;
+      const updateData: RoleUpdate = {};
+      if (name !== undefined) updateData.name = name;
+      if (description !== undefined) updateData.description = description;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Updating role with ID: ${id}`);
+
+        // Use the Auth0 SDK to update the role
+        const { data: updatedRole } = await managementClient.roles.update({ id }, updateData);
+
+        log(
+          `Successfully updated role: ${updatedRole.name || 'Unknown'} (${updatedRole.id || id})`
+        );
+
+        return createSuccessResponse(updatedRole);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to update role: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Role with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:roles scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_assign_role_permissions: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { id, resource_server_identifier, permissions } = request.parameters;
+
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      if (!resource_server_identifier) {
+        return createErrorResponse('Error: resource_server_identifier is required');
+      }
+
+      if (!permissions || !Array.isArray(permissions) || permissions.length === 0) {
+        return createErrorResponse('Error: permissions is required and must be a non-empty array');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // Make sure every permission is defined on the resource server before assigning it
+        const resourceServer = await findResourceServerByIdentifier(
+          managementClient,
+          resource_server_identifier
+        );
+
+        if (!resourceServer) {
+          return createErrorResponse(
+            `Error: Resource server with identifier '${resource_server_identifier}' not found.`
+          );
+        }
+
+        const unknownPermissions = findUnknownScopes(resourceServer, permissions);
+        if (unknownPermissions.length > 0) {
+          const definedScopes = (resourceServer.scopes || []).map(
+            (scope: { value: string }) => scope.value
+          );
+          return createErrorResponse(
+            `Error: The following permissions are not defined on resource server '${resource_server_identifier}': ${unknownPermissions.join(', ')}. ` +
+              `Defined permissions are: ${definedScopes.join(', ') || '(none)'}. ` +
+              'Add them with auth0_update_resource_server first.'
+          );
+        }
+
+        log(`Assigning ${permissions.length} permissions to role with ID: ${id}`);
+
+        // Use the Auth0 SDK to assign the permissions to the role
+        await managementClient.roles.addPermissions(
+          { id },
+          {
+            permissions: permissions.map((permission: string) => ({
+              resource_server_identifier,
+              permission_name: permission,
+            })),
+          }
+        );
+
+        log(`Successfully assigned permissions to role: ${id}`);
+
+        return createSuccessResponse({
+          message: `Assigned ${permissions.length} permission(s) to role '${id}'.`,
+          role_id: id,
+          resource_server_identifier,
+          permissions,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to assign permissions to role: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Role with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:roles scope.';
+        } else if (sdkError.statusCode === 403) {
+          errorMessage +=
+            '\nError: Forbidden. Your token might not have the required scopes (update:roles, read:resource_servers).';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_assign_roles_to_user: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { user_id, roles } = request.parameters;
+
+      if (!user_id) {
+        return createErrorResponse('Error: user_id is required');
+      }
+
+      if (!roles || !Array.isArray(roles) || roles.length === 0) {
+        return createErrorResponse('Error: roles is required and must be a non-empty array');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Assigning ${roles.length} roles to user with ID: ${user_id}`);
+
+        // Use the Auth0 SDK to assign the roles to the user
+        await managementClient.users.assignRoles({ id: user_id }, { roles });
+
+        log(`Successfully assigned roles to user: ${user_id}`);
+
+        return createSuccessResponse({
+          message: `Assigned ${roles.length} role(s) to user '${user_id}'.`,
+          user_id,
+          roles,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to assign roles to user: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `User with user_id '${user_id}' or one of the roles was not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:role_members scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_list_role_users: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Build query parameters
+      const options: { id: string; [key: string]: any } = { id };
+      if (request.parameters.page !== undefined) {
+        options.page = request.parameters.page;
+      }
+      if (request.parameters.per_page !== undefined) {
+        options.per_page = request.parameters.per_page;
+      } else {
+        // Default to 5 items per page
+        options.per_page = 5;
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching users for role with ID: ${id}`);
+
+        // Use the Auth0 SDK to get the users assigned to the role
+        const { data: users } = await managementClient.roles.getUsers(options);
+
+        log(`Successfully retrieved ${users.length} users for role: ${id}`);
+
+        return createSuccessResponse({
+          role_id: id,
+          users: users,
+          count: users.length,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list role users: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Role with id '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:role_members scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_delete_role: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const id = request.parameters.id;
+      if (!id) {
+        return createErrorResponse('Error: id is required');
+      }
+
+      const confirmationToken = request.parameters.confirmation_token;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // First step: preview the role and hand out a confirmation token
+        if (!confirmationToken) {
+          log(`Previewing deletion of role with ID: ${id}`);
+
+          const { data: role } = await managementClient.roles.get({ id: id });
+          const preview = {
+            id: role.id,
+            name: role.name,
+            description: role.description,
+          };
+
+          return createDeletionPreviewResponse('auth0_delete_role', id, config.domain, preview);
+        }
+
+        // Second step: only delete when the confirmation token matches this role
+        if (!consumeConfirmationToken(confirmationToken, 'auth0_delete_role', id, config.domain)) {
+          return createErrorResponse(invalidConfirmationTokenMessage('auth0_delete_role'));
+        }
+
+        log(`Deleting role with ID: ${id}`);
+
+        // Use the Auth0 SDK to delete the role
+        await managementClient.roles.delete({ id: id });
+
+        log(`Successfully deleted role: ${id}`);
+
+        return createSuccessResponse({
+          message: `Role '${id}' deleted.`,
+          id: id,
+          deleted: true,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to delete role: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `Role with ID '${id}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing delete:roles scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
@@ -0,0 +1,732 @@
+import { realpath } from 'fs/promises';
+import * as path from 'path';
+import type {
+  HandlerConfig,
+  HandlerRequest,
+  HandlerResponse,
+  TenantSession,
+  Tool,
+} from '../utils/types.js';
+import { log } from '../utils/logger.js';
+import { createErrorResponse, createSuccessResponse, formatDomain } from '../utils/http-utility.js';
+import type { Auth0Config } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+import { consumeConfirmationToken, issueConfirmationToken } from '../utils/confirmation.js';
+import {
+  fetchLiveTenant,
+  fetchTenantSnapshot,
+  readTenantSnapshot,
+  SNAPSHOT_SECTIONS,
+  writeTenantSnapshot,
+} from '../utils/tenant-snapshot.js';
+import {
+  applyTenantPlan,
+  planFingerprint,
+  planTenantChanges,
+  type TenantPlan,
+} from '../utils/tenant-plan.js';
+import {
+  DIFF_SECTIONS,
+  diffTenants,
+  fetchTenantComparison,
+  type DiffSection,
+} from '../utils/tenant-diff.js';
+
+// Scopes needed to read every resource type of an export
+const EXPORT_SCOPES = [
+  'read:clients',
+  'read:resource_servers',
+  'read:client_grants',
+  'read:actions',
+  'read:forms',
+  'read:log_streams',
+];
+
+// Scopes needed to apply changes to every resource type of an export
+const APPLY_SCOPES = [
+  ...EXPORT_SCOPES,
+  'create:clients',
+  'update:clients',
+  'delete:clients',
+  'create:resource_servers',
+  'update:resource_servers',
+  'delete:resource_servers',
+  'create:client_grants',
+  'update:client_grants',
+  'delete:client_grants',
+  'create:actions',
+  'update:actions',
+  'delete:actions',
+  'create:forms',
+  'update:forms',
+  'delete:forms',
+  'create:log_streams',
+  'update:log_streams',
+  'delete:log_streams',
+];
+
+// Scopes needed to read every resource type that is compared between tenants
+const DIFF_SCOPES = [
+  'read:clients',
+  'read:resource_servers',
+  'read:actions',
+  'read:forms',
+  'read:tenant_settings',
+];
+
+const PLAN_PROPERTIES = {
+  input_dir: {
+    type: 'string',
+    description:
+      'Directory with the tenant files, in the layout written by auth0_export_tenant, relative to the ' +
+      'files directory of the server. Required.',
+  },
+  allow_delete: {
+    type: 'boolean',
+    description:
+      'Delete resources that exist in the tenant but have no file in input_dir (default: false)',
+  },
+};
+
+// Define all available tenant tools
+export const TENANT_TOOLS: Tool[] = [
+  {
+    name: 'auth0_export_tenant',
+    description:
+      'Export the applications, resource servers, client grants, actions, trigger bindings, forms and ' +
+      'log streams of the Auth0 tenant to a directory of JSON files, with action code in separate .js files. Server-generated fields ' +
+      'are stripped and secrets are replaced with ##PLACEHOLDERS##, so the export can be committed to git ' +
+      'and reviewed in pull requests. Existing section directories in the output directory are replaced. ' +
+      'The output directory must be inside the files directory of the server.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        output_dir: {
+          type: 'string',
+          description:
+            'Directory to write the export to, relative to the files directory of the server. Required.',
+        },
+      },
+      required: ['output_dir'],
+    },
+    _meta: {
+      requiredScopes: EXPORT_SCOPES,
+    },
+    annotations: {
+      title: 'Export Auth0 Tenant',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_plan_tenant_changes',
+    description:
+      'Compare tenant files (as written by auth0_export_tenant) against the live tenant and plan the ' +
+      'creates, updates and deletes that would make the tenant match them. Nothing is changed. ' +
+      'Fields that still hold a ##PLACEHOLDER## are left as they are in the tenant. Show the plan to the ' +
+      'user and, only if they approve it, call auth0_apply_tenant_changes with the returned plan_token.',
+    inputSchema: {
+      type: 'object',
+      properties: PLAN_PROPERTIES,
+      required: ['input_dir'],
+    },
+    _meta: {
+      requiredScopes: EXPORT_SCOPES,
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Plan Auth0 Tenant Changes',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_apply_tenant_changes',
+    description:
+      'Apply a plan made by auth0_plan_tenant_changes to the tenant, in dependency order: resource servers, ' +
+      'applications, client grants, actions (which are deployed), trigger bindings, forms and log streams, ' +
+      'then deletes in reverse. Requires the plan_token of the approved plan, and fails if the files or the ' +
+      'tenant changed since the plan was made.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...PLAN_PROPERTIES,
+        plan_token: {
+          type: 'string',
+          description: 'plan_token returned by auth0_plan_tenant_changes. Required.',
+        },
+      },
+      required: ['input_dir', 'plan_token'],
+    },
+    _meta: {
+      requiredScopes: APPLY_SCOPES,
+    },
+    annotations: {
+      title: 'Apply Auth0 Tenant Changes',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_diff_tenants',
+    description:
+      'Compare the applications, resource servers, actions, forms and tenant settings of two Auth0 tenants, ' +
+      'e.g. staging and production. Resources are matched by name (resource servers by identifier), not by ID, ' +
+      'and the response lists the resources that exist in only one tenant and the fields that differ. ' +
+      'Every tenant other than the current one needs a session stored in a profile with `init --profile <name>`.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source_domain: {
+          type: 'string',
+          description:
+            'Domain of the tenant to compare from, e.g. "my-app-staging.us.auth0.com". Required.',
+        },
+        target_domain: {
+          type: 'string',
+          description: 'Domain of the tenant to compare against (default: the current tenant)',
+        },
+        resource_types: {
+          type: 'array',
+          items: { type: 'string', enum: [...DIFF_SECTIONS] },
+          description: 'Resource types to compare (default: all)',
+        },
+      },
+      required: ['source_domain'],
+    },
+    _meta: {
+      requiredScopes: DIFF_SCOPES,
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Diff Auth0 Tenants',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_list_tenants',
+    description:
+      'List the Auth0 tenants whose sessions are stored in profiles on this machine, the environment they are ' +
+      'tagged with (e.g. production), which one tool calls currently run against, and which ones ' +
+      'auth0_switch_tenant may switch to.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    _meta: {
+      requiredScopes: [],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Tenants',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_switch_tenant',
+    description:
+      'Switch the Auth0 tenant that all later tool calls run against to the one stored in a profile. ' +
+      'Use auth0_list_tenants to see the profiles. Every tool response names the tenant it ran against; ' +
+      'check it before making changes, e.g. to tell production from development. ' +
+      'Not available over HTTP, where every session shares the tenant of the server.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: {
+          type: 'string',
+          description: 'Name of the profile to switch to, e.g. "staging". Required.',
+        },
+      },
+      required: ['profile'],
+    },
+    _meta: {
+      requiredScopes: [],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Switch Auth0 Tenant',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+];
+
+// Helper function to format a tenant session for tool responses
+function formatTenant({
+  profile,
+  domain,
+  expiresAt,
+  environment,
+  current,
+  allowed,
+}: TenantSession) {
+  return {
+    profile,
+    domain,
+    environment,
+    token_expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+    current,
+    allowed,
+  };
+}
+
+// Helper function to find the real path of a file that may not exist yet, from its closest
+// existing ancestor, so that symbolic links are followed
+async function realpathOfNearest(target: string): Promise<string> {
+  try {
+    return await realpath(target);
+  } catch (error: any) {
+    const parent = path.dirname(target);
+    if (error.code !== 'ENOENT' || parent === target) {
+      throw error;
+    }
+    return path.join(await realpathOfNearest(parent), path.basename(target));
+  }
+}
+
+// Helper function to resolve a directory of tenant files that a tool call names. The model, or
+// a caller over HTTP, picks the path, so it must stay inside the files directory of the server.
+async function resolveFilesDir(dir: string, config: HandlerConfig): Promise<string> {
+  const filesDir = await realpath(path.resolve(config.filesDir ?? process.cwd()));
+  if (path.dirname(filesDir) === filesDir) {
+    throw new Error(
+      `Tenant files cannot be read or written under ${filesDir}. Start the server with --files-dir <dir> to choose a directory for them.`
+    );
+  }
+
+  const directory = await realpathOfNearest(path.resolve(filesDir, dir));
+  const relative = path.relative(filesDir, directory);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`${dir} is outside the files directory ${filesDir}. Use a path inside it.`);
+  }
+
+  return directory;
+}
+
+// Helper function to summarize a plan for tool responses, leaving out the resource bodies
+function formatPlan(plan: TenantPlan) {
+  const count = (action: string) =>
+    plan.changes.filter((change) => change.action === action).length;
+
+  return {
+    summary: { create: count('create'), update: count('update'), delete: count('delete') },
+    changes: plan.changes.map(({ section, action, key, fields }) => ({
+      section,
+      action,
+      key,
+      ...(fields ? { fields } : {}),
+    })),
+    errors: plan.errors,
+  };
+}
+
+// Define handlers for each tenant tool
+export const TENANT_HANDLERS: Record<
+  string,
+  (request: HandlerRequest, config: HandlerConfig) => Promise<HandlerResponse>
+> = {
+  auth0_export_tenant: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const outputDir = request.parameters.output_dir;
+      if (!outputDir || typeof outputDir !== 'string') {
+        return createErrorResponse('Error: output_dir is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        const directory = await resolveFilesDir(outputDir, config);
+        const snapshot = await fetchTenantSnapshot(managementClient);
+        const files = await writeTenantSnapshot(directory, snapshot);
+
+        log(`Exported tenant to ${directory} (${files.length} files)`);
+
+        return createSuccessResponse({
+          output_dir: directory,
+          counts: Object.fromEntries(
+            SNAPSHOT_SECTIONS.map((section) => [section, snapshot[section].length])
+          ),
+          files,
+        });
+      } catch (sdkError: any) {
+        log('Auth0 SDK error');
+        return createTenantErrorResponse('export tenant', sdkError, EXPORT_SCOPES, outputDir);
+      }
+    } catch (error: any) {
+      // Handle general errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_plan_tenant_changes: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const inputDir = request.parameters.input_dir;
+      if (!inputDir || typeof inputDir !== 'string') {
+        return createErrorResponse('Error: input_dir is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        const local = await readTenantSnapshot(await resolveFilesDir(inputDir, config));
+        const live = await fetchLiveTenant(managementClient);
+        const plan = planTenantChanges(local, live, {
+          allowDelete: request.parameters.allow_delete === true,
+        });
+
+        log(`Planned ${plan.changes.length} tenant changes with ${plan.errors.length} errors`);
+
+        if (plan.errors.length > 0) {
+          return createSuccessResponse({
+            message: 'The tenant files have errors. Fix them and plan again.',
+            ...formatPlan(plan),
+          });
+        }
+
+        if (plan.changes.length === 0) {
+          return createSuccessResponse({
+            message: 'The tenant already matches the files. There is nothing to apply.',
+            ...formatPlan(plan),
+          });
+        }
+
+        const { token, expiresAt } = issueConfirmationToken(
+          'auth0_apply_tenant_changes',
+          planFingerprint(plan),
+          config.domain
+        );
+
+        return createSuccessResponse({
+          message:
+            'Nothing has been changed yet. Show this plan to the user and, only if they approve it, ' +
+            'call auth0_apply_tenant_changes with the same input_dir, allow_delete and plan_token.',
+          ...formatPlan(plan),
+          plan_token: token,
+          expires_at: expiresAt.toISOString(),
+        });
+      } catch (sdkError: any) {
+        log('Auth0 SDK error');
+        return createTenantErrorResponse('plan tenant changes', sdkError, EXPORT_SCOPES, inputDir);
+      }
+    } catch (error: any) {
+      // Handle general errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_apply_tenant_changes: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      // Tool filtering hides this tool in read-only mode, but it must not run even if called directly
+      if (config.readOnly) {
+        return createErrorResponse(
+          'Error: The server is running in read-only mode. Tenant changes cannot be applied.'
+        );
+      }
+
+      const { input_dir: inputDir, plan_token: planToken } = request.parameters;
+      if (!inputDir || typeof inputDir !== 'string') {
+        return createErrorResponse('Error: input_dir is required');
+      }
+
+      if (!planToken) {
+        return createErrorResponse(
+          'Error: plan_token is required. Call auth0_plan_tenant_changes first and show the plan to the user.'
+        );
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // Plan again, so only the plan the user approved can be applied
+        const local = await readTenantSnapshot(await resolveFilesDir(inputDir, config));
+        const live = await fetchLiveTenant(managementClient);
+        const plan = planTenantChanges(local, live, {
+          allowDelete: request.parameters.allow_delete === true,
+        });
+
+        if (
+          !consumeConfirmationToken(
+            planToken,
+            'auth0_apply_tenant_changes',
+            planFingerprint(plan),
+            config.domain
+          )
+        ) {
+          return createErrorResponse(
+            'Error: The plan_token is invalid, expired, or the files or the tenant changed since the plan was made. ' +
+              'Call auth0_plan_tenant_changes again and show the new plan to the user.'
+          );
+        }
+
+        log(`Applying ${plan.changes.length} tenant changes`);
+
+        const results = await applyTenantPlan(managementClient, plan, live);
+        const failed = results.find((result) => result.status === 'failed');
+
+        log(
+          `Applied tenant changes${failed ? ` until ${failed.section}/${failed.key} failed` : ''}`
+        );
+
+        const response = {
+          applied: results.filter((result) => result.status === 'applied').length,
+          results,
+        };
+
+        return failed
+          ? createErrorResponse(
+              `Error: Failed to ${failed.action} ${failed.section}/${failed.key}: ${failed.error}. ` +
+                `The remaining changes were skipped.\n${JSON.stringify(response, null, 2)}`
+            )
+          : createSuccessResponse(response);
+      } catch (sdkError: any) {
+        log('Auth0 SDK error');
+        return createTenantErrorResponse('apply tenant changes', sdkError, APPLY_SCOPES, inputDir);
+      }
+    } catch (error: any) {
+      // Handle general errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_diff_tenants: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { source_domain: sourceDomain, target_domain: targetDomain } = request.parameters;
+      if (!sourceDomain || typeof sourceDomain !== 'string') {
+        return createErrorResponse('Error: source_domain is required');
+      }
+
+      const resourceTypes: DiffSection[] = request.parameters.resource_types ?? [...DIFF_SECTIONS];
+      const unknownTypes = resourceTypes.filter((type) => !DIFF_SECTIONS.includes(type));
+      if (unknownTypes.length > 0) {
+        return createErrorResponse(
+          `Error: Unknown resource_types: ${unknownTypes.join(', ')}. Use ${DIFF_SECTIONS.join(', ')}.`
+        );
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      const source = formatDomain(sourceDomain);
+      const target = targetDomain ? formatDomain(targetDomain) : config.domain;
+      if (source === target) {
+        return createErrorResponse('Error: source_domain and target_domain are the same tenant');
+      }
+
+      // The current tenant uses the request token, any other one its stored session
+      const tenantConfigs: Auth0Config[] = [];
+      for (const domain of [source, target]) {
+        const tenantConfig =
+          domain === config.domain
+            ? { domain, token: request.token }
+            : await config.getDomainConfig?.(domain);
+
+        if (!tenantConfig) {
+          return createErrorResponse(
+            `Error: No valid session is stored for ${domain}. Run "npx @auth0/auth0-mcp-server init --profile <name>" ` +
+              `and log in to ${domain}, then try again.`
+          );
+        }
+        tenantConfigs.push(tenantConfig);
+      }
+
+      try {
+        const [sourceTenant, targetTenant] = await Promise.all(
+          tenantConfigs.map(async (tenantConfig) =>
+            fetchTenantComparison(await getManagementClient(tenantConfig), resourceTypes)
+          )
+        );
+        const diff = diffTenants(sourceTenant, targetTenant);
+
+        log(`Compared ${source} with ${target}: ${diff.changed.length} resources differ`);
+
+        return createSuccessResponse({
+          source,
+          target,
+          resource_types: resourceTypes,
+          summary: {
+            only_in_source: diff.only_in_source.length,
+            only_in_target: diff.only_in_target.length,
+            changed: diff.changed.length,
+          },
+          ...diff,
+        });
+      } catch (sdkError: any) {
+        log('Auth0 SDK error');
+        return createTenantErrorResponse('diff tenants', sdkError, DIFF_SCOPES);
+      }
+    } catch (error: any) {
+      // Handle general errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_list_tenants: async (
+    _request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      if (!config.listTenants) {
+        return createErrorResponse('Error: Tenant switching is not available');
+      }
+
+      const tenants = await config.listTenants();
+      log(`Listed ${tenants.length} tenants`);
+
+      return createSuccessResponse({ tenants: tenants.map(formatTenant) });
+    } catch (error: any) {
+      // Handle general errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_switch_tenant: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { profile } = request.parameters;
+      if (!profile || typeof profile !== 'string') {
+        return createErrorResponse('Error: profile is required');
+      }
+
+      if (!config.switchTenant) {
+        return createErrorResponse('Error: Tenant switching is not available');
+      }
+
+      const tenant = await config.switchTenant(profile);
+      log(`Switched to profile ${profile}`);
+
+      return createSuccessResponse({ switched_to: formatTenant(tenant) });
+    } catch (error: any) {
+      // Handle general errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
+
+// Helper function to turn an SDK or file system error into an error response
+function createTenantErrorResponse(
+  operation: string,
+  sdkError: any,
+  scopes: string[],
+  directory?: string
+): HandlerResponse {
+  let errorMessage = `Failed to ${operation}: ${sdkError.message || 'Unknown error'}`;
+
+  // Add context based on common error codes
+  if (sdkError.statusCode === 401) {
+    errorMessage +=
+      '\nError: Unauthorized. Your token might be expired or invalid. Try running "npx @auth0/auth0-mcp-server init" to refresh your token.';
+  } else if (sdkError.statusCode === 403) {
+    errorMessage += `\nError: Forbidden. Your token might not have the required scopes (${scopes.join(', ')}).`;
+  } else if (sdkError.statusCode === 429) {
+    errorMessage +=
+      '\nError: Rate limited. You have made too many requests to the Auth0 API. Please try again later.';
+  } else if (directory && ['EACCES', 'ENOTDIR', 'ENOENT'].includes(sdkError.code)) {
+    errorMessage += `\nError: Cannot access '${directory}'. Check that it is a directory you can read and write.`;
+  }
+
+  return createErrorResponse(errorMessage);
+}
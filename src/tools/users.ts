@@ -0,0 +1,888 @@
+import type { UserCreate, UserUpdate } from 'auth0';
+import type { HandlerConfig, HandlerRequest, HandlerResponse, Tool } from '../utils/types.js';
+import { log } from '../utils/logger.js';
+import { createErrorResponse, createSuccessResponse } from '../utils/http-utility.js';
+import type { Auth0Config } from '../utils/config.js';
+import { getManagementClient } from '../utils/auth0-client.js';
+import {
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  invalidConfirmationTokenMessage,
+} from '../utils/confirmation.js';
+
+// Profile attributes shared by the create and update user tools
+const USER_PROFILE_PROPERTIES = {
+  email: { type: 'string', description: 'Email address of the user' },
+  phone_number: {
+    type: 'string',
+    description: 'Phone number of the user in E.164 format (SMS connections only)',
+  },
+  username: {
+    type: 'string',
+    description: 'Username of the user (only for connections that require usernames)',
+  },
+  given_name: { type: 'string', description: 'Given name of the user' },
+  family_name: { type: 'string', description: 'Family name of the user' },
+  name: { type: 'string', description: 'Full name of the user' },
+  nickname: { type: 'string', description: 'Nickname of the user' },
+  picture: { type: 'string', description: 'URL pointing to the user picture' },
+  email_verified: { type: 'boolean', description: 'Whether the email address is verified' },
+  phone_verified: { type: 'boolean', description: 'Whether the phone number is verified' },
+  user_metadata: {
+    type: 'object',
+    description: 'Data that the user has read/write access to (e.g. color_preference)',
+  },
+  app_metadata: {
+    type: 'object',
+    description: 'Data that the user does not have access to (e.g. roles, permissions, plan)',
+  },
+};
+
+// Define all available user tools
+export const USER_TOOLS: Tool[] = [
+  {
+    name: 'auth0_list_users',
+    description: 'List users in the Auth0 tenant',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        page: { type: 'number', description: 'Page number (0-based)' },
+        per_page: { type: 'number', description: 'Number of users per page' },
+        include_totals: { type: 'boolean', description: 'Include total count' },
+        sort: {
+          type: 'string',
+          description:
+            'Field to sort by. Use field:order where order is 1 for ascending and -1 for descending (e.g. created_at:1).',
+        },
+        connection: {
+          type: 'string',
+          description: 'Only return users from the given connection',
+        },
+      },
+    },
+    _meta: {
+      requiredScopes: ['read:users'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'List Auth0 Users',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_search_users',
+    description: 'Search users in the Auth0 tenant using a Lucene query',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        q: {
+          type: 'string',
+          description:
+            'Query in Lucene query string syntax (e.g. email:"jane@example.com" or name:jane*). Required.',
+        },
+        page: { type: 'number', description: 'Page number (0-based)' },
+        per_page: { type: 'number', description: 'Number of users per page' },
+        include_totals: { type: 'boolean', description: 'Include total count' },
+        sort: {
+          type: 'string',
+          description:
+            'Field to sort by. Use field:order where order is 1 for ascending and -1 for descending (e.g. last_login:-1).',
+        },
+      },
+      required: ['q'],
+    },
+    _meta: {
+      requiredScopes: ['read:users'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Search Auth0 Users',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_get_user',
+    description: 'Get details about a specific Auth0 user',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: { type: 'string', description: 'ID of the user to retrieve (e.g. auth0|123)' },
+      },
+      required: ['user_id'],
+    },
+    _meta: {
+      requiredScopes: ['read:users'],
+      readOnly: true,
+    },
+    annotations: {
+      title: 'Get Auth0 User Details',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_create_user',
+    description: 'Create a new user in an Auth0 connection',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        connection: {
+          type: 'string',
+          description: 'Name of the connection this user should be created in. Required.',
+        },
+        password: {
+          type: 'string',
+          description: 'Initial password for the user (database connections only)',
+        },
+        verify_email: {
+          type: 'boolean',
+          description: 'Whether to send a verification email to the user after creation',
+        },
+        ...USER_PROFILE_PROPERTIES,
+      },
+      required: ['connection'],
+    },
+    _meta: {
+      requiredScopes: ['create:users'],
+    },
+    annotations: {
+      title: 'Create Auth0 User',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_update_user',
+    description: 'Update an existing Auth0 user',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: {
+          type: 'string',
+          description: 'ID of the user to update. Required.',
+        },
+        connection: {
+          type: 'string',
+          description: 'Name of the connection to target when updating email or password',
+        },
+        password: {
+          type: 'string',
+          description: 'New password for the user (database connections only)',
+        },
+        verify_email: {
+          type: 'boolean',
+          description: 'Whether to send a verification email when the email is changed',
+        },
+        ...USER_PROFILE_PROPERTIES,
+      },
+      required: ['user_id'],
+    },
+    _meta: {
+      requiredScopes: ['update:users'],
+    },
+    annotations: {
+      title: 'Update Auth0 User',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_block_user',
+    description: 'Block or unblock an Auth0 user',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: {
+          type: 'string',
+          description: 'ID of the user to block or unblock. Required.',
+        },
+        blocked: {
+          type: 'boolean',
+          description: 'Whether the user should be blocked. Defaults to true.',
+        },
+      },
+      required: ['user_id'],
+    },
+    _meta: {
+      requiredScopes: ['update:users'],
+    },
+    annotations: {
+      title: 'Block Auth0 User',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  },
+  {
+    name: 'auth0_delete_user',
+    description:
+      'Delete an Auth0 user. Their identities, metadata and role assignments are removed with them. This is a two-step operation: the first call returns a preview and a confirmation_token, and only a second call with that confirmation_token deletes the user.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        user_id: {
+          type: 'string',
+          description: 'ID of the user to delete. Required.',
+        },
+        confirmation_token: {
+          type: 'string',
+          description:
+            'Confirmation token returned by the first call. Omit it to get a preview of what will be deleted.',
+        },
+      },
+      required: ['user_id'],
+    },
+    _meta: {
+      requiredScopes: ['read:users', 'delete:users'],
+    },
+    annotations: {
+      title: 'Delete Auth0 User',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+  },
+];
+
+interface Auth0UsersResponse {
+  users?: any[];
+  total?: number;
+  start?: number;
+  limit?: number;
+}
+
+// Define handlers for each user tool
+export const USER_HANDLERS: Record<
+  string,
+  (request: HandlerRequest, config: HandlerConfig) => Promise<HandlerResponse>
+> = {
+  auth0_list_users: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      const options = buildUserQueryOptions(request.parameters);
+      if (request.parameters.connection) {
+        // The connection parameter of the API only applies to the v1 search engine, so the
+        // filter is a v3 query on the identities instead
+        const connection = String(request.parameters.connection).replace(/["\\]/g, '\\$&');
+        options.q = `identities.connection:"${connection}"`;
+        options.search_engine = 'v3';
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching users with supplied options`);
+
+        // Use the Auth0 SDK to get all users
+        const { data: responseData } = await managementClient.users.getAll(options);
+
+        return formatUserListResponse(responseData, options.per_page);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to list users: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error scenarios
+        if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid. Try running "npx @auth0/auth0-mcp-server init" to refresh your token.';
+        } else if (sdkError.statusCode === 403) {
+          errorMessage +=
+            '\nError: Forbidden. Your token might not have the required scopes (read:users). Try running "npx @auth0/auth0-mcp-server init" to check the proper permissions.';
+        } else if (sdkError.statusCode === 429) {
+          errorMessage +=
+            '\nError: Rate limited. You have made too many requests to the Auth0 API. Please try again later.';
+        } else if (sdkError.statusCode >= 500) {
+          errorMessage +=
+            '\nError: Auth0 server error. The Auth0 API might be experiencing issues. Please try again later.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_search_users: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const q = request.parameters.q;
+      if (!q) {
+        return createErrorResponse('Error: q is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      const options = buildUserQueryOptions(request.parameters);
+      options.q = q;
+      options.search_engine = 'v3';
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Searching users with supplied query`);
+
+        // Use the Auth0 SDK to search users
+        const { data: responseData } = await managementClient.users.getAll(options);
+
+        return formatUserListResponse(responseData, options.per_page);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to search users: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Invalid query. Check that q uses valid Lucene syntax and searchable user fields.';
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:users scope.';
+        } else if (sdkError.statusCode === 403) {
+          errorMessage +=
+            '\nError: Forbidden. Your token might not have the required scopes (read:users).';
+        } else if (sdkError.statusCode === 429) {
+          errorMessage +=
+            '\nError: Rate limited. You have made too many requests to the Auth0 API. Please try again later.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_get_user: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const userId = request.parameters.user_id;
+      if (!userId) {
+        return createErrorResponse('Error: user_id is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Fetching user with ID: ${userId}`);
+
+        // Use the Auth0 SDK to get a specific user
+        const { data: user } = await managementClient.users.get({ id: userId });
+
+        log(`Successfully retrieved user: ${user.user_id || userId}`);
+
+        return createSuccessResponse(user);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to get user: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `User with user_id '${userId}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing read:users scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_create_user: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const { connection, password, verify_email } = request.parameters;
+
+      if (!connection) {
+        return createErrorResponse('Error: connection is required');
+      }
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      // Prepare request body
+      const userData: UserCreate = {
+        connection,
+        ...pickUserProfile(request.parameters),
+      };
+      if (password !== undefined) userData.password = password;
+      if (verify_email !== undefined) userData.verify_email = verify_email;
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Creating new user in connection: ${connection}`);
+
+        // Use the Auth0 SDK to create a user
+        const { data: newUser } = await managementClient.users.create(userData);
+
+        log(`Successfully created user: ${newUser.user_id || 'new user'}`);
+
+        return createSuccessResponse(newUser);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to create user: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 409) {
+          errorMessage = `A user with the same identifier already exists in connection '${connection}'.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing create:users scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Check that your parameters are valid for the connection.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_update_user: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const userId = request.parameters.user_id;
+      if (!userId) {
+        return createErrorResponse('Error: user_id is required');
+      }
+
+      const { connection, password, verify_email } = request.parameters;
+
+      // Prepare update body, only including fields that are present
+      const updateData: UserUpdate = pickUserProfile(request.parameters);
+      if (connection !== undefined) updateData.connection = connection;
+      if (password !== undefined) updateData.password = password;
+      if (verify_email !== undefined) updateData.verify_email = verify_email;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`Updating user with ID: ${userId}`);
+
+        // Use the Auth0 SDK to update the user
+        const { data: updatedUser } = await managementClient.users.update(
+          { id: userId },
+          updateData
+        );
+
+        log(`Successfully updated user: ${updatedUser.user_id || userId}`);
+
+        return createSuccessResponse(updatedUser);
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to update user: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `User with user_id '${userId}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:users scope.';
+        } else if (sdkError.statusCode === 400) {
+          errorMessage +=
+            '\nError: Validation errors in your request. Some attributes cannot be updated for this connection.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_block_user: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const userId = request.parameters.user_id;
+      if (!userId) {
+        return createErrorResponse('Error: user_id is required');
+      }
+
+      // Default to blocking the user
+      const blocked = request.parameters.blocked !== false;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        log(`${blocked ? 'Blocking' : 'Unblocking'} user with ID: ${userId}`);
+
+        // Use the Auth0 SDK to toggle the blocked flag on the user
+        const { data: updatedUser } = await managementClient.users.update(
+          { id: userId },
+          { blocked }
+        );
+
+        log(`Successfully ${blocked ? 'blocked' : 'unblocked'} user: ${userId}`);
+
+        return createSuccessResponse({
+          user_id: updatedUser.user_id || userId,
+          email: updatedUser.email,
+          blocked: updatedUser.blocked ?? blocked,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to ${blocked ? 'block' : 'unblock'} user: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `User with user_id '${userId}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing update:users scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+  auth0_delete_user: async (
+    request: HandlerRequest,
+    config: HandlerConfig
+  ): Promise<HandlerResponse> => {
+    try {
+      const userId = request.parameters.user_id;
+      if (!userId) {
+        return createErrorResponse('Error: user_id is required');
+      }
+
+      const confirmationToken = request.parameters.confirmation_token;
+
+      // Check for token
+      if (!request.token) {
+        log('Warning: Token is empty or undefined');
+        return createErrorResponse('Error: Missing authorization token');
+      }
+
+      // Check if domain is configured
+      if (!config.domain) {
+        log('Error: Auth0 domain is not configured');
+        return createErrorResponse('Error: Auth0 domain is not configured');
+      }
+
+      try {
+        const managementClientConfig: Auth0Config = {
+          domain: config.domain,
+          token: request.token,
+        };
+        const managementClient = await getManagementClient(managementClientConfig);
+
+        // First step: preview the user and hand out a confirmation token
+        if (!confirmationToken) {
+          log(`Previewing deletion of user with ID: ${userId}`);
+
+          const { data: user } = await managementClient.users.get({ id: userId });
+          const preview = {
+            user_id: user.user_id,
+            email: user.email,
+            name: user.name,
+            connections: user.identities?.map((identity) => identity.connection),
+            logins_count: user.logins_count,
+            last_login: user.last_login,
+          };
+
+          return createDeletionPreviewResponse('auth0_delete_user', userId, config.domain, preview);
+        }
+
+        // Second step: only delete when the confirmation token matches this user
+        if (
+          !consumeConfirmationToken(confirmationToken, 'auth0_delete_user', userId, config.domain)
+        ) {
+          return createErrorResponse(invalidConfirmationTokenMessage('auth0_delete_user'));
+        }
+
+        log(`Deleting user with ID: ${userId}`);
+
+        // Use the Auth0 SDK to delete the user
+        await managementClient.users.delete({ id: userId });
+
+        log(`Successfully deleted user: ${userId}`);
+
+        return createSuccessResponse({
+          message: `User '${userId}' deleted.`,
+          user_id: userId,
+          deleted: true,
+        });
+      } catch (sdkError: any) {
+        // Handle SDK errors
+        log('Auth0 SDK error');
+
+        let errorMessage = `Failed to delete user: ${sdkError.message || 'Unknown error'}`;
+
+        // Add context based on common error codes
+        if (sdkError.statusCode === 404) {
+          errorMessage = `User with ID '${userId}' not found.`;
+        } else if (sdkError.statusCode === 401) {
+          errorMessage +=
+            '\nError: Unauthorized. Your token might be expired or invalid or missing delete:users scope.';
+        }
+
+        return createErrorResponse(errorMessage);
+      }
+    } catch (error: any) {
+      // Handle any other errors
+      log('Error processing request');
+
+      return createErrorResponse(
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
+
+// Helper function to build the paging and sorting options shared by list and search
+function buildUserQueryOptions(parameters: Record<string, any>): Record<string, any> {
+  const options: Record<string, any> = {};
+  if (parameters.page !== undefined) {
+    options.page = parameters.page;
+  }
+  if (parameters.per_page !== undefined) {
+    options.per_page = parameters.per_page;
+  } else {
+    // Default to 5 items per page
+    options.per_page = 5;
+  }
+  if (parameters.include_totals !== undefined) {
+    options.include_totals = parameters.include_totals;
+  } else {
+    // Default to include totals
+    options.include_totals = true;
+  }
+  if (parameters.sort) {
+    options.sort = parameters.sort;
+  }
+  return options;
+}
+
+// Helper function to copy the profile attributes that were provided in the request
+function pickUserProfile(parameters: Record<string, any>): Record<string, any> {
+  const profile: Record<string, any> = {};
+  for (const key of Object.keys(USER_PROFILE_PROPERTIES)) {
+    if (parameters[key] !== undefined) {
+      profile[key] = parameters[key];
+    }
+  }
+  return profile;
+}
+
+// Helper function to build the list/search response with pagination info
+function formatUserListResponse(responseData: any, requestedPerPage: number): HandlerResponse {
+  let users: any[] = [];
+  let total = 0;
+  let page = 0;
+  let perPage = requestedPerPage || 5;
+
+  if (Array.isArray(responseData)) {
+    // When include_totals is false, response is an array of users
+    users = responseData;
+    total = users.length;
+  } else if (responseData && typeof responseData === 'object' && 'users' in responseData) {
+    // When include_totals is true, response has pagination info
+    const typedResponse = responseData as Auth0UsersResponse;
+    users = typedResponse.users || [];
+    total = typedResponse.total || users.length;
+    perPage = typedResponse.limit || perPage;
+    page = Math.floor((typedResponse.start || 0) / perPage);
+  } else {
+    log('Invalid response format from Auth0 SDK');
+    return createErrorResponse('Error: Received invalid response format from Auth0 API.');
+  }
+
+  if (users.length === 0) {
+    return createSuccessResponse({
+      message: 'No users found matching your criteria.',
+      users: [],
+    });
+  }
+
+  const totalPages = Math.ceil(total / perPage);
+
+  log(
+    `Successfully retrieved ${users.length} users (page ${page + 1} of ${totalPages}, total: ${total})`
+  );
+
+  return createSuccessResponse({
+    users: users.map(formatUser),
+    count: users.length,
+    total: total,
+    pagination: {
+      page: page,
+      per_page: perPage,
+      total_pages: totalPages,
+      has_next: page + 1 < totalPages,
+    },
+  });
+}
+
+// Helper function to format a user for list output
+function formatUser(user: any) {
+  return {
+    user_id: user.user_id,
+    email: user.email,
+    name: user.name,
+    connection: user.identities?.[0]?.connection,
+    blocked: user.blocked || false,
+    last_login: user.last_login,
+    logins_count: user.logins_count || 0,
+  };
+}
@@ -0,0 +1,261 @@
+import { builtinModules } from 'module';
+import { Script } from 'vm';
+
+// Name of the function each trigger calls in the action code
+export const ACTION_TRIGGER_HANDLERS: Record<string, string> = {
+  'post-login': 'onExecutePostLogin',
+  'credentials-exchange': 'onExecuteCredentialsExchange',
+  'pre-user-registration': 'onExecutePreUserRegistration',
+  'post-user-registration': 'onExecutePostUserRegistration',
+  'post-change-password': 'onExecutePostChangePassword',
+  'send-phone-message': 'onExecuteSendPhoneMessage',
+  'password-reset-post-challenge': 'onExecutePostChallenge',
+};
+
+export type ActionCodeRule =
+  | 'syntax-error'
+  | 'missing-handler'
+  | 'undeclared-dependency'
+  | 'hardcoded-secret';
+
+export interface ActionCodeFinding {
+  rule: ActionCodeRule;
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+}
+
+export interface ActionCodeAnalysis {
+  passed: boolean;
+  errors: number;
+  warnings: number;
+  findings: ActionCodeFinding[];
+}
+
+export interface ActionCodeContext {
+  supported_triggers?: Array<{ id: string }>;
+  dependencies?: Array<{ name: string }>;
+}
+
+// Values that are recognizable as credentials regardless of the variable they are assigned to
+const SECRET_VALUE_PATTERNS: Array<{ description: string; pattern: RegExp }> = [
+  { description: 'an AWS access key', pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+  { description: 'a Stripe secret key', pattern: /\b[sr]k_(?:live|test)_[0-9a-zA-Z]{16,}\b/g },
+  { description: 'a GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { description: 'a Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { description: 'a Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { description: 'a private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/g },
+  {
+    description: 'a JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+];
+
+// String literals assigned to names such as apiKey, CLIENT_SECRET or password
+const SECRET_ASSIGNMENT_PATTERN =
+  /\b([\w$]*?(?:secret|password|passwd|token|api_?key|private_?key)[\w$]*)['"]?\s*[:=]\s*(['"`])([^'"`\s]{8,})\2/gi;
+
+const REQUIRE_PATTERN = /\brequire\s*\(\s*(['"`])([^'"`]+)\1\s*\)/g;
+
+/**
+ * Replaces comments with spaces, keeping string literals and line breaks in place so that
+ * offsets in the result map to the same lines in the original code. With blankStrings, the
+ * contents of string literals are replaced with spaces as well, keeping their quotes.
+ */
+function stripComments(code: string, blankStrings = false): string {
+  let result = '';
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+    const next = code[i + 1];
+
+    if (char === '/' && next === '/') {
+      while (i < code.length && code[i] !== '\n') {
+        result += ' ';
+        i++;
+      }
+    } else if (char === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      const stop = end === -1 ? code.length : end + 2;
+      for (; i < stop; i++) {
+        result += code[i] === '\n' ? '\n' : ' ';
+      }
+    } else if (char === '"' || char === "'" || char === '`') {
+      result += char;
+      i++;
+      const keep = (value: string) => (blankStrings && value !== '\n' ? ' ' : value);
+      while (i < code.length && code[i] !== char) {
+        if (code[i] === '\\' && i + 1 < code.length) {
+          result += keep(code[i]);
+          i++;
+        }
+        result += keep(code[i]);
+        i++;
+      }
+      if (i < code.length) {
+        result += code[i];
+        i++;
+      }
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+function lineAt(code: string, index: number): number {
+  return code.slice(0, index).split('\n').length;
+}
+
+/**
+ * Compiles the code without running it, the way Node loads a CommonJS module.
+ */
+function checkSyntax(code: string): ActionCodeFinding | null {
+  const filename = 'action.js';
+  try {
+    new Script(`(function (exports, require, module, __filename, __dirname) {\n${code}\n})`, {
+      filename,
+    });
+    return null;
+  } catch (error: any) {
+    // The wrapper adds one line before the action code
+    const match = /action\.js:(\d+)/.exec(error?.stack || '');
+    const line = match ? Math.max(Number(match[1]) - 1, 1) : undefined;
+
+    return {
+      rule: 'syntax-error',
+      severity: 'error',
+      message: `Syntax error: ${error?.message || String(error)}`,
+      ...(line ? { line } : {}),
+    };
+  }
+}
+
+/**
+ * Checks whether the code exports a handler in one of the common ways. Exports built in
+ * other ways, e.g. from a variable, are not recognized, so a miss is only a warning.
+ */
+function exportsHandler(code: string, handlerName: string): boolean {
+  const assignment = new RegExp(
+    `\\b(?:module\\.)?exports\\s*(?:\\.\\s*${handlerName}|\\[\\s*['"\`]${handlerName}['"\`]\\s*\\])\\s*=`
+  );
+  const objectExport = new RegExp(
+    `\\b(?:module\\.exports\\s*=|Object\\.assign\\s*\\(\\s*(?:module\\.)?exports\\s*,)\\s*\\{[^}]*\\b${handlerName}\\b`
+  );
+
+  return assignment.test(code) || objectExport.test(code);
+}
+
+/**
+ * Returns the package a module specifier resolves to, e.g. "@scope/pkg" for "@scope/pkg/sub".
+ */
+function packageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Analyzes the code of an action before it is sent to Auth0.
+ *
+ * The analysis runs fully offline and reports syntax errors, triggers without a matching
+ * handler export, modules that are required but not listed in the dependencies, and
+ * hard-coded values that look like secrets.
+ *
+ * @param code - Source code of the action
+ * @param context - Triggers and dependencies declared for the action
+ * @returns The findings, with counts per severity
+ */
+export function analyzeActionCode(
+  code: string,
+  context: ActionCodeContext = {}
+): ActionCodeAnalysis {
+  const findings: ActionCodeFinding[] = [];
+
+  const syntaxError = checkSyntax(code);
+  if (syntaxError) {
+    findings.push(syntaxError);
+  }
+
+  const source = stripComments(code);
+
+  for (const trigger of context.supported_triggers || []) {
+    const handlerName = ACTION_TRIGGER_HANDLERS[trigger.id];
+    if (handlerName && !exportsHandler(source, handlerName)) {
+      findings.push({
+        rule: 'missing-handler',
+        severity: 'warning',
+        message: `The action declares the '${trigger.id}' trigger but does not seem to export ${handlerName}. Check that it does, e.g. with exports.${handlerName} = async (event, api) => { ... }.`,
+      });
+    }
+  }
+
+  // Calls of require are only looked for outside of string literals
+  const codeOnly = stripComments(code, true);
+  const declared = new Set((context.dependencies || []).map((dependency) => dependency.name));
+  const reported = new Set<string>();
+  for (const match of source.matchAll(REQUIRE_PATTERN)) {
+    if (!codeOnly.startsWith('require', match.index)) {
+      continue;
+    }
+
+    const specifier = match[2];
+    const name = packageName(specifier.replace(/^node:/, ''));
+
+    if (
+      specifier.startsWith('node:') ||
+      builtinModules.includes(name) ||
+      declared.has(name) ||
+      reported.has(name)
+    ) {
+      continue;
+    }
+
+    reported.add(name);
+    findings.push({
+      rule: 'undeclared-dependency',
+      severity: 'warning',
+      message: `The action requires '${specifier}' but '${name}' is not listed in dependencies.`,
+      line: lineAt(source, match.index ?? 0),
+    });
+  }
+
+  const secretLines = new Set<number>();
+  for (const { description, pattern } of SECRET_VALUE_PATTERNS) {
+    for (const match of source.matchAll(pattern)) {
+      const line = lineAt(source, match.index ?? 0);
+      if (secretLines.has(line)) continue;
+
+      secretLines.add(line);
+      findings.push({
+        rule: 'hardcoded-secret',
+        severity: 'warning',
+        message: `A value that looks like ${description} is hard-coded. Store it in the action secrets and read it from event.secrets instead.`,
+        line,
+      });
+    }
+  }
+  for (const match of source.matchAll(SECRET_ASSIGNMENT_PATTERN)) {
+    const line = lineAt(source, match.index ?? 0);
+    if (secretLines.has(line)) continue;
+
+    secretLines.add(line);
+    findings.push({
+      rule: 'hardcoded-secret',
+      severity: 'warning',
+      message: `'${match[1]}' is assigned a hard-coded value. Store it in the action secrets and read it from event.secrets instead.`,
+      line,
+    });
+  }
+
+  const errors = findings.filter((finding) => finding.severity === 'error').length;
+
+  return {
+    passed: errors === 0,
+    errors,
+    warnings: findings.length - errors,
+    findings,
+  };
+}
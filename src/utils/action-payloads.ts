@@ -0,0 +1,231 @@
+// Sample events used to test actions, keyed by the trigger ID they apply to.
+// The shapes follow the `event` object each trigger passes to the action handler.
+
+const SAMPLE_REQUEST = {
+  ip: '203.0.113.10',
+  hostname: 'example.us.auth0.com',
+  method: 'POST',
+  language: 'en',
+  user_agent:
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36',
+  geoip: {
+    cityName: 'Seattle',
+    countryCode: 'US',
+    countryCode3: 'USA',
+    countryName: 'United States of America',
+    latitude: 47.6062,
+    longitude: -122.3321,
+    subdivisionCode: 'WA',
+    subdivisionName: 'Washington',
+    timeZone: 'America/Los_Angeles',
+  },
+  query: {},
+  body: {},
+};
+
+const SAMPLE_USER = {
+  user_id: 'auth0|5f7c8ec7c33c6c004bbafe82',
+  email: 'j+smith@example.com',
+  email_verified: true,
+  name: 'J Smith',
+  given_name: 'J',
+  family_name: 'Smith',
+  nickname: 'j+smith',
+  picture: 'https://example.com/avatar.png',
+  phone_number: '+15555550100',
+  phone_verified: false,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  last_password_reset: '2024-01-01T00:00:00.000Z',
+  identities: [
+    {
+      connection: 'Username-Password-Authentication',
+      provider: 'auth0',
+      user_id: '5f7c8ec7c33c6c004bbafe82',
+      isSocial: false,
+    },
+  ],
+  app_metadata: {},
+  user_metadata: {},
+  multifactor: [],
+};
+
+const SAMPLE_CONNECTION = {
+  id: 'con_fpe5kj482KO1eOzQ',
+  name: 'Username-Password-Authentication',
+  strategy: 'auth0',
+  metadata: {},
+};
+
+const SAMPLE_CLIENT = {
+  client_id: 'client-id-123',
+  name: 'My Web App',
+  metadata: {},
+};
+
+const SAMPLE_TENANT = {
+  id: 'example',
+};
+
+export const ACTION_TEST_PAYLOADS: Record<string, Record<string, any>> = {
+  'post-login': {
+    transaction: {
+      id: 'transaction-id-123',
+      acr_values: [],
+      locale: 'en',
+      protocol: 'oidc-basic-profile',
+      requested_scopes: ['openid', 'profile', 'email'],
+      redirect_uri: 'https://example.com/callback',
+      response_type: ['code'],
+      response_mode: 'query',
+      ui_locales: ['en'],
+    },
+    authentication: {
+      methods: [{ name: 'pwd', timestamp: '2024-01-01T00:00:00.000Z' }],
+    },
+    authorization: {
+      roles: [],
+    },
+    user: SAMPLE_USER,
+    connection: SAMPLE_CONNECTION,
+    client: SAMPLE_CLIENT,
+    tenant: SAMPLE_TENANT,
+    request: SAMPLE_REQUEST,
+    resource_server: {
+      identifier: 'https://api.example.com',
+    },
+    stats: {
+      logins_count: 5,
+    },
+    secrets: {},
+  },
+  'credentials-exchange': {
+    transaction: {
+      requested_scopes: ['read:data'],
+    },
+    accessToken: {
+      customClaims: {},
+      scope: ['read:data'],
+    },
+    client: SAMPLE_CLIENT,
+    tenant: SAMPLE_TENANT,
+    request: SAMPLE_REQUEST,
+    resource_server: {
+      identifier: 'https://api.example.com',
+    },
+    secrets: {},
+  },
+  'pre-user-registration': {
+    transaction: {
+      locale: 'en',
+      requested_scopes: ['openid', 'profile', 'email'],
+      ui_locales: ['en'],
+    },
+    user: {
+      email: 'j+smith@example.com',
+      name: 'J Smith',
+      given_name: 'J',
+      family_name: 'Smith',
+      app_metadata: {},
+      user_metadata: {},
+    },
+    connection: SAMPLE_CONNECTION,
+    client: SAMPLE_CLIENT,
+    tenant: SAMPLE_TENANT,
+    request: SAMPLE_REQUEST,
+    secrets: {},
+  },
+  'post-user-registration': {
+    transaction: {
+      locale: 'en',
+      requested_scopes: ['openid', 'profile', 'email'],
+      ui_locales: ['en'],
+    },
+    user: SAMPLE_USER,
+    connection: SAMPLE_CONNECTION,
+    tenant: SAMPLE_TENANT,
+    request: SAMPLE_REQUEST,
+    secrets: {},
+  },
+  'post-change-password': {
+    user: {
+      user_id: SAMPLE_USER.user_id,
+      email: SAMPLE_USER.email,
+      email_verified: true,
+      created_at: SAMPLE_USER.created_at,
+      last_password_reset: SAMPLE_USER.last_password_reset,
+    },
+    connection: SAMPLE_CONNECTION,
+    tenant: SAMPLE_TENANT,
+    request: SAMPLE_REQUEST,
+    secrets: {},
+  },
+  'send-phone-message': {
+    message_options: {
+      action: 'enrollment',
+      code: '123456',
+      message_type: 'sms',
+      recipient: '+15555550100',
+      text: 'Your verification code is 123456',
+    },
+    user: SAMPLE_USER,
+    client: SAMPLE_CLIENT,
+    tenant: SAMPLE_TENANT,
+    request: SAMPLE_REQUEST,
+    secrets: {},
+  },
+  'password-reset-post-challenge': {
+    transaction: {
+      locale: 'en',
+      ui_locales: ['en'],
+    },
+    authentication: {
+      methods: [{ name: 'email', timestamp: '2024-01-01T00:00:00.000Z' }],
+    },
+    user: SAMPLE_USER,
+    connection: SAMPLE_CONNECTION,
+    client: SAMPLE_CLIENT,
+    tenant: SAMPLE_TENANT,
+    request: SAMPLE_REQUEST,
+    secrets: {},
+  },
+};
+
+/**
+ * Recursively merges plain objects. Arrays and other values in `overrides` replace those in `base`.
+ */
+function mergeObjects(
+  base: Record<string, any>,
+  overrides: Record<string, any>
+): Record<string, any> {
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    const baseValue = merged[key];
+    merged[key] =
+      isPlainObject(baseValue) && isPlainObject(value) ? mergeObjects(baseValue, value) : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Builds the sample event for testing an action bound to the given trigger.
+ *
+ * @param triggerId - ID of the trigger, e.g. "post-login"
+ * @param overrides - Values merged over the built-in template, e.g. a different user
+ * @returns The sample event, or null if there is no template for the trigger
+ */
+export function buildActionTestPayload(
+  triggerId: string,
+  overrides: Record<string, any> = {}
+): Record<string, any> | null {
+  const template = ACTION_TEST_PAYLOADS[triggerId];
+  if (!template) {
+    return null;
+  }
+
+  return mergeObjects(template, overrides);
+}
@@ -1,5 +1,6 @@
 import * as os from 'os';
-import { keychain } from './keychain.js';
+import { readFile } from 'fs/promises';
+import { isValidProfileName, keychain, type Environment } from './keychain.js';
 import {
   isTokenExpired,
   refreshAccessToken,
@@ -67,6 +68,198 @@ export async function loadConfig(): Promise<Auth0Config | null> {
   };
 }
 
+/**
+ * Loads the configuration of a specific tenant from the profiles stored in the keychain.
+ *
+ * Each profile holds the session of one tenant, so one machine can hold credentials for
+ * several tenants at once (e.g. dev, staging and prod) and compare them without logging
+ * in again.
+ *
+ * @param {string} domain - The Auth0 domain of the tenant
+ * @param {(profile: string) => boolean} [isProfileAllowed] - Limits the profiles whose
+ *        sessions may be used, e.g. to those allowed by --allow-profiles
+ * @returns {Promise<Auth0Config | null>} Configuration for the tenant, or null if no
+ *          allowed profile holds an unexpired session for it
+ */
+export async function loadDomainConfig(
+  domain: string,
+  isProfileAllowed: (profile: string) => boolean = () => true
+): Promise<Auth0Config | null> {
+  for (const profile of await keychain.getProfiles()) {
+    if (!isProfileAllowed(profile)) {
+      continue;
+    }
+
+    const session = keychain.forProfile(profile);
+    if ((await session.getDomain()) !== domain) {
+      continue;
+    }
+
+    const token = await session.getToken();
+    const expiresAt = await session.getTokenExpiresAt();
+    if (token && expiresAt && Date.now() + 300 * 1000 < expiresAt) {
+      return { token, domain, tenantName: domain };
+    }
+  }
+
+  log(`No valid session stored for ${domain}`);
+  return null;
+}
+
+// Token refreshes in progress, by profile
+const profileRefreshes = new Map<string, Promise<string | null>>();
+
+/**
+ * Loads the configuration stored in a keychain profile, without switching the keychain to it.
+ *
+ * Callers of the HTTP transport that authenticate with OAuth each use the session of their
+ * own profile, so several profiles are in use at once. A token that is about to expire is
+ * refreshed with the refresh token of the profile, and the new tokens are stored in it.
+ *
+ * @param {string} profile - The profile to load
+ * @returns {Promise<Auth0Config | null>} Configuration for the profile, or null if it holds
+ *          no unexpired session and cannot be refreshed
+ */
+export async function loadProfileConfig(profile: string): Promise<Auth0Config | null> {
+  const session = keychain.forProfile(profile);
+  const [token, domain, expiresAt] = await Promise.all([
+    session.getToken(),
+    session.getDomain(),
+    session.getTokenExpiresAt(),
+  ]);
+
+  if (token && domain && expiresAt && Date.now() + 300 * 1000 < expiresAt) {
+    return { token, domain, tenantName: domain };
+  }
+
+  // Concurrent calls of a caller share one refresh, since a rotated refresh token only works once
+  let refresh = profileRefreshes.get(profile);
+  if (!refresh) {
+    refresh = refreshAccessToken(undefined, session).finally(() =>
+      profileRefreshes.delete(profile)
+    );
+    profileRefreshes.set(profile, refresh);
+  }
+
+  const refreshedToken = await refresh;
+  const refreshedDomain = refreshedToken && (await session.getDomain());
+  if (refreshedToken && refreshedDomain) {
+    log(`Refreshed the session stored in profile ${profile}`);
+    return { token: refreshedToken, domain: refreshedDomain, tenantName: refreshedDomain };
+  }
+
+  log(`No valid session stored in profile ${profile}`);
+  return null;
+}
+
+/**
+ * Retrieves the environment a keychain profile is tagged with.
+ *
+ * @param {string} profile - The profile
+ * @returns {Promise<Environment | null>} The environment, or null if the profile is not tagged
+ */
+export async function getProfileEnvironment(profile: string): Promise<Environment | null> {
+  return keychain.forProfile(profile).getEnvironment();
+}
+
+/**
+ * Reads the file that maps callers of the HTTP transport to keychain profiles. It holds a
+ * JSON object whose keys are access token subjects and whose values are profile names, e.g.
+ * `{ "auth0|alice": "alice" }`.
+ *
+ * @param {string} file - Path to the file
+ * @returns {Promise<Map<string, string>>} The profile of every caller, by subject
+ * @throws {Error} If the file cannot be read or does not hold such an object
+ */
+export async function readCallerProfiles(file: string): Promise<Map<string, string>> {
+  const callers: unknown = JSON.parse(await readFile(file, 'utf8'));
+  if (!callers || typeof callers !== 'object' || Array.isArray(callers)) {
+    throw new Error(`${file} must hold a JSON object that maps token subjects to profile names`);
+  }
+
+  for (const [subject, profile] of Object.entries(callers)) {
+    if (typeof profile !== 'string' || !isValidProfileName(profile)) {
+      throw new Error(`${file} maps ${subject} to an invalid profile name`);
+    }
+  }
+
+  return new Map(Object.entries(callers as Record<string, string>));
+}
+
+/**
+ * Summary of the session stored in a keychain profile
+ */
+export interface ProfileSession {
+  profile: string;
+  domain: string | null;
+  expiresAt: number | null;
+  environment: Environment | null;
+}
+
+/**
+ * Retrieves the keychain profile that configuration is currently loaded from.
+ *
+ * @returns {string} The profile name
+ */
+export function getCurrentProfile(): string {
+  return keychain.getProfile();
+}
+
+/**
+ * Retrieves the environment the current keychain profile is tagged with. It is read on
+ * every call, so tagging a profile takes effect without restarting the server.
+ *
+ * @returns {Promise<Environment | null>} The environment, or null if the profile is not tagged
+ */
+export async function getCurrentEnvironment(): Promise<Environment | null> {
+  return keychain.getEnvironment();
+}
+
+/**
+ * Lists the sessions stored in the keychain profiles, without refreshing them.
+ *
+ * @returns {Promise<ProfileSession[]>} The domain and token expiry of every stored profile
+ */
+export async function listProfileSessions(): Promise<ProfileSession[]> {
+  return Promise.all(
+    (await keychain.getProfiles()).map(async (profile) => {
+      const session = keychain.forProfile(profile);
+      return {
+        profile,
+        domain: await session.getDomain(),
+        expiresAt: await session.getTokenExpiresAt(),
+        environment: await session.getEnvironment(),
+      };
+    })
+  );
+}
+
+/**
+ * Switches the keychain to another profile and loads its configuration.
+ *
+ * Later calls to {@link loadConfig} and {@link validateConfig}, including token refreshes,
+ * use the new profile. If the profile holds no valid session, the previous profile is
+ * restored so that the current session keeps working.
+ *
+ * @param {string} profile - The profile to switch to
+ * @returns {Promise<Auth0Config | null>} Configuration for the profile, or null if it
+ *          holds no valid session
+ */
+export async function switchProfile(profile: string): Promise<Auth0Config | null> {
+  const previous = keychain.getProfile();
+  keychain.useProfile(profile);
+
+  const config = await loadConfig();
+  if (!(await validateConfig(config))) {
+    log(`No valid session stored in profile ${profile}, keeping profile ${previous}`);
+    keychain.useProfile(previous);
+    return null;
+  }
+
+  log(`Switched to profile ${profile}`);
+  return config;
+}
+
 /**
  * Validates Auth0 configuration to ensure it can be used for API operations.
  *
@@ -0,0 +1,124 @@
+import { randomBytes } from 'crypto';
+import type { HandlerResponse } from './types.js';
+import { createSuccessResponse } from './http-utility.js';
+
+// How long a confirmation token issued by a delete preview stays valid
+export const CONFIRMATION_TOKEN_TTL_MS = 2 * 60 * 1000;
+
+interface PendingConfirmation {
+  toolName: string;
+  resourceId: string;
+  domain: string;
+  expiresAt: number;
+}
+
+// Confirmation tokens live in memory only, so a restart invalidates all of them
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+/**
+ * Removes confirmation tokens whose lifetime has passed.
+ */
+function purgeExpiredConfirmations(now: number): void {
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) {
+      pendingConfirmations.delete(token);
+    }
+  }
+}
+
+/**
+ * Issues a single-use confirmation token for a destructive operation.
+ *
+ * The token is bound to the tool, the resource and the tenant domain, so it cannot be
+ * replayed to delete a different resource or the same resource in another tenant.
+ *
+ * @param toolName - Name of the tool that will perform the operation
+ * @param resourceId - ID of the resource the operation applies to
+ * @param domain - Auth0 tenant domain the resource belongs to
+ * @returns The confirmation token and the time at which it expires
+ */
+export function issueConfirmationToken(
+  toolName: string,
+  resourceId: string,
+  domain: string
+): { token: string; expiresAt: Date } {
+  const now = Date.now();
+  purgeExpiredConfirmations(now);
+
+  const token = randomBytes(16).toString('hex');
+  const expiresAt = now + CONFIRMATION_TOKEN_TTL_MS;
+  pendingConfirmations.set(token, { toolName, resourceId, domain, expiresAt });
+
+  return { token, expiresAt: new Date(expiresAt) };
+}
+
+/**
+ * Validates and consumes a confirmation token.
+ *
+ * A token is accepted at most once, and only for the tool, resource and domain it was issued for.
+ *
+ * @param token - The confirmation token presented by the caller
+ * @param toolName - Name of the tool performing the operation
+ * @param resourceId - ID of the resource the operation applies to
+ * @param domain - Auth0 tenant domain the resource belongs to
+ * @returns True if the token was valid and has now been consumed, false otherwise
+ */
+export function consumeConfirmationToken(
+  token: string,
+  toolName: string,
+  resourceId: string,
+  domain: string
+): boolean {
+  purgeExpiredConfirmations(Date.now());
+
+  const pending = pendingConfirmations.get(token);
+  if (
+    !pending ||
+    pending.toolName !== toolName ||
+    pending.resourceId !== resourceId ||
+    pending.domain !== domain
+  ) {
+    return false;
+  }
+
+  pendingConfirmations.delete(token);
+  return true;
+}
+
+/**
+ * Builds the response of the first step of a delete: a preview of what will be removed
+ * and the confirmation token the caller must present to actually delete it.
+ *
+ * @param toolName - Name of the delete tool
+ * @param resourceId - ID of the resource that would be deleted
+ * @param domain - Auth0 tenant domain the resource belongs to
+ * @param preview - Summary of the resource shown to the user before deleting it
+ * @returns A success response containing the preview and confirmation token
+ */
+export function createDeletionPreviewResponse(
+  toolName: string,
+  resourceId: string,
+  domain: string,
+  preview: object
+): HandlerResponse {
+  const { token, expiresAt } = issueConfirmationToken(toolName, resourceId, domain);
+
+  return createSuccessResponse({
+    message:
+      `Nothing has been deleted yet. Show this preview to the user and, only if they confirm, ` +
+      `call ${toolName} again with the same arguments and confirmation_token to delete it.`,
+    preview,
+    confirmation_token: token,
+    expires_at: expiresAt.toISOString(),
+  });
+}
+
+/**
+ * Error message returned when a delete is attempted with an unknown, expired or mismatched token.
+ *
+ * @param toolName - Name of the delete tool
+ * @returns The error message
+ */
+export function invalidConfirmationTokenMessage(toolName: string): string {
+  return `Error: The confirmation_token is invalid, expired or was issued for a different resource. Call ${toolName} without a confirmation_token to get a new preview.`;
+}
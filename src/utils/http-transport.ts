@@ -0,0 +1,318 @@
+import { randomUUID } from 'crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+  OAuthError,
+} from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import type { OAuthProtectedResourceMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { log } from './logger.js';
+
+// Path that MCP clients connect to, e.g. http://localhost:3000/mcp
+export const MCP_HTTP_PATH = '/mcp';
+
+// Path of the protected resource metadata (RFC 9728), which tells clients where to get a token
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+// Hosts that are only reachable from this machine
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+// Largest request body accepted, which is far more than any MCP request needs
+export const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Sessions that receive no request for this long are closed, since clients that go away
+// without deleting their session would otherwise keep it forever
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Checks whether a host is only reachable from this machine
+ * @param host - The host to listen on
+ * @returns True for loopback hosts such as 127.0.0.1 and localhost
+ */
+export const isLoopbackHost = (host: string): boolean => LOOPBACK_HOSTS.includes(host);
+
+export interface HttpAuthOptions {
+  // Verifies a bearer token and describes its caller. Throws InvalidTokenError for tokens that
+  // are not valid and InsufficientScopeError for callers that may not use the server.
+  authenticate: (token: string) => Promise<AuthInfo>;
+  // Served to clients, with the URL of the MCP endpoint as the resource
+  metadata: OAuthProtectedResourceMetadata;
+}
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  // Require a bearer token on every MCP request
+  auth?: HttpAuthOptions;
+  // Close sessions that receive no request for this many milliseconds
+  sessionIdleTimeout?: number;
+}
+
+// A client session, and the subject of the token that started it when OAuth is required
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  subject?: string;
+  // When the last request of the session ended, and how many are still open, e.g. SSE streams
+  lastActive: number;
+  openRequests: number;
+}
+
+// Thrown for request bodies larger than MAX_BODY_BYTES
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Reads and parses the JSON body of a request
+ * @param req - The incoming request
+ * @returns The parsed body, or undefined if the body is empty
+ * @throws {SyntaxError} If the body is not valid JSON
+ * @throws {PayloadTooLargeError} If the body is larger than MAX_BODY_BYTES
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    throw new PayloadTooLargeError();
+  }
+
+  // Bodies sent without a length are counted as they arrive
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const body = Buffer.concat(chunks).toString('utf8');
+  return body ? JSON.parse(body) : undefined;
+}
+
+/**
+ * Creates a JSON-RPC error body, as MCP clients expect for transport errors
+ * @param code - The JSON-RPC error code
+ * @param message - The error message
+ * @returns The serialized error
+ */
+const createJsonRpcError = (code: number, message: string): string =>
+  JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null });
+
+/**
+ * Builds the URL of the protected resource metadata for a resource, inserting the well-known
+ * path before the resource's path as RFC 9728 describes
+ * @param resource - The URL of the MCP endpoint
+ * @returns The metadata URL, e.g. https://mcp.example.com/.well-known/oauth-protected-resource/mcp
+ */
+export const getResourceMetadataUrl = (resource: string): string => {
+  const { origin, pathname } = new URL(resource);
+  return `${origin}${PROTECTED_RESOURCE_METADATA_PATH}${pathname === '/' ? '' : pathname}`;
+};
+
+/**
+ * Verifies the bearer token of a request
+ * @param req - The incoming request
+ * @param auth - The OAuth options of the transport
+ * @returns The caller's auth info
+ * @throws {OAuthError} If the request has no valid token or the caller may not use the server
+ */
+async function authenticateRequest(req: IncomingMessage, auth: HttpAuthOptions): Promise<AuthInfo> {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    throw new InvalidTokenError('Missing bearer token in the Authorization header');
+  }
+
+  return auth.authenticate(token);
+}
+
+/**
+ * Serves MCP over Streamable HTTP. Each client session gets its own MCP server instance
+ * and transport, found again by the Mcp-Session-Id header. Clients open an SSE stream with
+ * GET to receive server-to-client notifications, and end their session with DELETE.
+ *
+ * When bound to a loopback host, requests whose Host header names another host are
+ * rejected, which protects the server from DNS rebinding attacks by websites.
+ *
+ * With auth options, the server is an OAuth protected resource: every MCP request needs a
+ * bearer token, the caller's auth info reaches request handlers as `extra.authInfo`, and a
+ * session can only be used by the caller that started it. Requests without a valid token get
+ * a 401 response that points to the protected resource metadata.
+ *
+ * Request bodies are limited to MAX_BODY_BYTES, and sessions without open requests are closed
+ * once they have been idle for the session idle timeout.
+ *
+ * @param createMcpServer - Creates the MCP server for a new session
+ * @param options - The host and port to listen on, where port 0 picks a free port, the
+ *        OAuth options and the session idle timeout
+ * @returns The listening HTTP server
+ */
+export async function startHttpTransport(
+  createMcpServer: () => Server,
+  { host, port, auth, sessionIdleTimeout = SESSION_IDLE_TIMEOUT_MS }: HttpTransportOptions
+): Promise<HttpServer> {
+  const sessions = new Map<string, Session>();
+  const resourceMetadataUrl = auth && getResourceMetadataUrl(auth.metadata.resource);
+
+  // Counts a request of a session as open until its response ends
+  const trackRequest = (session: Session, res: ServerResponse) => {
+    session.openRequests++;
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActive = Date.now();
+    });
+  };
+
+  const expireSessions = () => {
+    const idleSince = Date.now() - sessionIdleTimeout;
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && session.lastActive < idleSince) {
+        log(`Closing MCP session ${id} after ${Math.round(sessionIdleTimeout / 1000)}s idle`);
+        sessions.delete(id);
+        void session.transport.close();
+      }
+    }
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    // Served at the root and at the path-specific location, clients may try either
+    if (auth && req.method === 'GET' && pathname.startsWith(PROTECTED_RESOURCE_METADATA_PATH)) {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(auth.metadata));
+      return;
+    }
+
+    if (pathname !== MCP_HTTP_PATH) {
+      res
+        .writeHead(404, { 'Content-Type': 'application/json' })
+        .end(createJsonRpcError(-32000, `Not found. MCP is served at ${MCP_HTTP_PATH}`));
+      return;
+    }
+
+    try {
+      let subject: string | undefined;
+      if (auth) {
+        const authInfo = await authenticateRequest(req, auth);
+        subject = authInfo.extra?.subject as string | undefined;
+        (req as IncomingMessage & { auth?: AuthInfo }).auth = authInfo;
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      if (typeof sessionId === 'string') {
+        // Sessions of other callers are reported as unknown, to not reveal that they exist
+        const session = sessions.get(sessionId);
+        if (!session || session.subject !== subject) {
+          res
+            .writeHead(404, { 'Content-Type': 'application/json' })
+            .end(createJsonRpcError(-32001, 'Session not found'));
+          return;
+        }
+
+        trackRequest(session, res);
+        await session.transport.handleRequest(
+          req,
+          res,
+          req.method === 'POST' ? await readJsonBody(req) : undefined
+        );
+        return;
+      }
+
+      // Requests without a session must initialize a new one
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      if (!isInitializeRequest(body)) {
+        res
+          .writeHead(400, { 'Content-Type': 'application/json' })
+          .end(createJsonRpcError(-32000, 'Bad Request: No valid session ID provided'));
+        return;
+      }
+
+      const { port: boundPort } = httpServer.address() as AddressInfo;
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          log(`Started MCP session ${id}`);
+          const session: Session = { transport, subject, lastActive: Date.now(), openRequests: 0 };
+          sessions.set(id, session);
+          trackRequest(session, res);
+        },
+        ...(LOOPBACK_HOSTS.includes(host) && {
+          enableDnsRebindingProtection: true,
+          allowedHosts: LOOPBACK_HOSTS.map((name) =>
+            name.includes(':') ? `[${name}]:${boundPort}` : `${name}:${boundPort}`
+          ),
+        }),
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          log(`Closed MCP session ${transport.sessionId}`);
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      await createMcpServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        log(`Rejected HTTP request: ${error.message}`);
+        res
+          .writeHead(error instanceof InsufficientScopeError ? 403 : 401, {
+            'Content-Type': 'application/json',
+            'WWW-Authenticate': `Bearer error="${error.errorCode}", error_description="${error.message}", resource_metadata="${resourceMetadataUrl}"`,
+          })
+          .end(JSON.stringify(error.toResponseObject()));
+        return;
+      }
+
+      if (error instanceof PayloadTooLargeError) {
+        log(`Rejected HTTP request: ${error.message}`);
+        if (!res.headersSent) {
+          res
+            .writeHead(413, { 'Content-Type': 'application/json', Connection: 'close' })
+            .end(createJsonRpcError(-32600, error.message));
+        }
+        return;
+      }
+
+      log('Error handling HTTP request:', error);
+      if (!res.headersSent) {
+        const isParseError = error instanceof SyntaxError;
+        res
+          .writeHead(isParseError ? 400 : 500, { 'Content-Type': 'application/json' })
+          .end(
+            createJsonRpcError(
+              isParseError ? -32700 : -32603,
+              isParseError ? 'Parse error' : 'Internal server error'
+            )
+          );
+      }
+    }
+  });
+
+  // The sweep must not keep the process alive, and ends with the server
+  const sweep = setInterval(expireSessions, Math.min(sessionIdleTimeout, 60 * 1000));
+  sweep.unref();
+  httpServer.once('close', () => clearInterval(sweep));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
@@ -28,8 +28,94 @@ export function formatDomain(domain: string): string {
   return formattedDomain.includes('.') ? formattedDomain : `${formattedDomain}.us.auth0.com`;
 }
 
+// Placeholder used in place of secret values in tool responses
+export const REDACTED_VALUE = '[REDACTED]';
+
+// Keys whose string values are secrets, e.g. client_secret, signing_secret or social app_secret
+export const SECRET_KEY_PATTERN = /(^|_)secret$|^(password|private_key|api_key)$/i;
+
+// Helper function to replace secret values with a placeholder before they are echoed to the model
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const redacted: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] =
+        SECRET_KEY_PATTERN.test(key) && typeof item === 'string' && item
+          ? REDACTED_VALUE
+          : redactSecrets(item);
+    }
+    return redacted as T;
+  }
+
+  return value;
+}
+
+// Helper function to check whether a value still holds placeholders of redacted secrets
+export function hasRedactedSecrets(value: unknown): boolean {
+  return JSON.stringify(value ?? null).includes(JSON.stringify(REDACTED_VALUE));
+}
+
+// Helper function to put the stored secrets back in place of the placeholders of a value that
+// was read from a tool response, so that writing it back does not overwrite the secrets
+export function restoreRedactedSecrets<T>(value: T, stored: unknown): T {
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      restoreRedactedSecrets(item, Array.isArray(stored) ? stored[index] : undefined)
+    ) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const storedObject =
+      stored && typeof stored === 'object' ? (stored as Record<string, unknown>) : {};
+    const restored: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item === REDACTED_VALUE) {
+        if (typeof storedObject[key] !== 'string') {
+          throw new Error(
+            `${key} holds the ${REDACTED_VALUE} placeholder and no stored secret replaces it. Pass the real value instead.`
+          );
+        }
+        restored[key] = storedObject[key];
+      } else {
+        restored[key] = restoreRedactedSecrets(item, storedObject[key]);
+      }
+    }
+    return restored as T;
+  }
+
+  return value;
+}
+
+// Helper function to mask a credential in the same style as maskTenantName, e.g. "012***123".
+// URLs keep only their origin, since their path often embeds a token.
+export function maskCredential(credential: string | undefined | null): string {
+  if (!credential) {
+    return '***';
+  }
+
+  if (/^https?:\/\//i.test(credential)) {
+    try {
+      return `${new URL(credential).origin}/***`;
+    } catch {
+      return '***';
+    }
+  }
+
+  if (credential.length < 12) {
+    return '***';
+  }
+
+  return `${credential.substring(0, 3)}***${credential.substring(credential.length - 3)}`;
+}
+
 // Helper function to create success response
 export function createSuccessResponse(result: object | Array<any>): HandlerResponse {
+  result = redactSecrets(result);
+
   // Check if result is an array and has more than one item
   if (Array.isArray(result) && result.length > 1) {
     const mutiContent = result.map((item) => {
@@ -55,6 +141,23 @@ export function createSuccessResponse(result: object | Array<any>): HandlerRespo
   }
 }
 
+// Helper function to create success response that also carries structured content,
+// for tools that declare an outputSchema
+export function createStructuredResponse(result: Record<string, any>): HandlerResponse {
+  result = redactSecrets(result);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+    structuredContent: result,
+    isError: false,
+  };
+}
+
 // Helper function to create error response
 export function createErrorResponse(errorString: string): HandlerResponse {
   return {
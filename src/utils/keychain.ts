@@ -28,6 +28,40 @@ export const KeychainItem = {
  */
 export const ALL_KEYCHAIN_ITEMS = Object.values(KeychainItem);
 
+/**
+ * Keychain item holding the JSON list of named profiles
+ */
+export const PROFILES_ITEM = 'AUTH0_PROFILES';
+
+/**
+ * Keychain item holding the JSON map of profile names to the environment they are tagged with
+ */
+export const ENVIRONMENTS_ITEM = 'AUTH0_ENVIRONMENTS';
+
+/**
+ * Environments a profile can be tagged with. Tools treat production tenants with extra care.
+ */
+export const ENVIRONMENTS = ['production', 'staging', 'development'] as const;
+
+export type Environment = (typeof ENVIRONMENTS)[number];
+
+/**
+ * Profile used when none is given. It keeps the keys used before profiles existed, so a
+ * session stored by an earlier version carries over as the default profile.
+ */
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Checks whether a profile name can be used, e.g. "staging" or "prod-eu"
+ * @param name - The profile name
+ * @returns True if the name only holds letters, digits, dashes and underscores
+ */
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
 /**
  * Type representing the result of a keychain operation
  */
@@ -43,13 +77,88 @@ export type KeychainOperationResult = {
  */
 class KeychainService {
   private serviceName: string;
+  private profile?: string;
 
   /**
    * Creates a new KeychainService instance
    * @param serviceName - The keychain service name to use
+   * @param profile - Profile this instance reads and writes; the default profile if not set
    */
-  constructor(serviceName: string = KEYCHAIN_SERVICE_NAME) {
+  constructor(serviceName: string = KEYCHAIN_SERVICE_NAME, profile?: string) {
     this.serviceName = serviceName;
+    this.profile = profile;
+  }
+
+  /**
+   * Get a keychain service for a specific profile
+   * @param profile - The profile name
+   * @returns A keychain service scoped to the profile
+   */
+  forProfile(profile: string): KeychainService {
+    return new KeychainService(this.serviceName, profile);
+  }
+
+  /**
+   * Pin this instance to a profile, so that every later read and write uses it
+   * @param profile - The profile name
+   */
+  useProfile(profile: string): void {
+    this.profile = profile;
+  }
+
+  /**
+   * Retrieve the profile this instance reads and writes
+   * @returns The profile name
+   */
+  getProfile(): string {
+    return this.profile ?? DEFAULT_PROFILE;
+  }
+
+  /**
+   * Retrieve the names of all stored profiles, including the default profile if it holds a session
+   * @returns A promise that resolves to the list of profile names
+   */
+  async getProfiles(): Promise<string[]> {
+    const profiles = await this.readProfiles();
+    const hasDefault =
+      (await this.get(KeychainItem.TOKEN)) !== null ||
+      (await this.get(KeychainItem.DOMAIN)) !== null;
+
+    return hasDefault ? [DEFAULT_PROFILE, ...profiles] : profiles;
+  }
+
+  /**
+   * Tag the profile with the environment of its tenant, e.g. production
+   * @param environment - The environment, or null to remove the tag
+   * @returns A promise that resolves to true if successful, false otherwise
+   */
+  async setEnvironment(environment: Environment | null): Promise<boolean> {
+    const environments = await this.readEnvironments();
+    if (environment) {
+      environments[this.getProfile()] = environment;
+    } else {
+      delete environments[this.getProfile()];
+    }
+
+    if (Object.keys(environments).length > 0) {
+      return this.set(ENVIRONMENTS_ITEM, JSON.stringify(environments));
+    }
+
+    try {
+      await keytar.deletePassword(this.serviceName, ENVIRONMENTS_ITEM);
+      return true;
+    } catch (error) {
+      log(`Error deleting ${ENVIRONMENTS_ITEM} from keychain:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Retrieve the environment the profile is tagged with
+   * @returns A promise that resolves to the environment or null if the profile is not tagged
+   */
+  async getEnvironment(): Promise<Environment | null> {
+    return (await this.readEnvironments())[this.getProfile()] ?? null;
   }
 
   /**
@@ -58,7 +167,7 @@ class KeychainService {
    * @returns A promise that resolves to true if successful, false otherwise
    */
   async setToken(token: string): Promise<boolean> {
-    return this.set(KeychainItem.TOKEN, token);
+    return this.setItem(KeychainItem.TOKEN, token);
   }
 
   /**
@@ -66,7 +175,7 @@ class KeychainService {
    * @returns A promise that resolves to the access token or null if not found
    */
   async getToken(): Promise<string | null> {
-    return this.get(KeychainItem.TOKEN);
+    return this.getItem(KeychainItem.TOKEN);
   }
 
   /**
@@ -75,7 +184,7 @@ class KeychainService {
    * @returns A promise that resolves to true if successful, false otherwise
    */
   async setDomain(domain: string): Promise<boolean> {
-    return this.set(KeychainItem.DOMAIN, domain);
+    return this.setItem(KeychainItem.DOMAIN, domain);
   }
 
   /**
@@ -83,7 +192,7 @@ class KeychainService {
    * @returns A promise that resolves to the domain or null if not found
    */
   async getDomain(): Promise<string | null> {
-    return this.get(KeychainItem.DOMAIN);
+    return this.getItem(KeychainItem.DOMAIN);
   }
 
   /**
@@ -92,7 +201,7 @@ class KeychainService {
    * @returns A promise that resolves to true if successful, false otherwise
    */
   async setRefreshToken(refreshToken: string): Promise<boolean> {
-    return this.set(KeychainItem.REFRESH_TOKEN, refreshToken);
+    return this.setItem(KeychainItem.REFRESH_TOKEN, refreshToken);
   }
 
   /**
@@ -100,7 +209,7 @@ class KeychainService {
    * @returns A promise that resolves to the refresh token or null if not found
    */
   async getRefreshToken(): Promise<string | null> {
-    return this.get(KeychainItem.REFRESH_TOKEN);
+    return this.getItem(KeychainItem.REFRESH_TOKEN);
   }
 
   /**
@@ -109,7 +218,7 @@ class KeychainService {
    * @returns A promise that resolves to true if successful, false otherwise
    */
   async setTokenExpiresAt(timestamp: number): Promise<boolean> {
-    return this.set(KeychainItem.TOKEN_EXPIRES_AT, timestamp.toString());
+    return this.setItem(KeychainItem.TOKEN_EXPIRES_AT, timestamp.toString());
   }
 
   /**
@@ -117,17 +226,39 @@ class KeychainService {
    * @returns A promise that resolves to the timestamp as a number or null if not found
    */
   async getTokenExpiresAt(): Promise<number | null> {
-    const value = await this.get(KeychainItem.TOKEN_EXPIRES_AT);
+    const value = await this.getItem(KeychainItem.TOKEN_EXPIRES_AT);
     return value ? parseInt(value, 10) : null;
   }
 
   /**
-   * Delete all Auth0 related items from the keychain
+   * Delete all Auth0 related items from the keychain. An instance pinned to a profile only
+   * deletes the items of that profile, any other instance deletes those of every profile.
    * @returns A promise that resolves to an array of results for each deletion operation
    */
   async clearAll(): Promise<KeychainOperationResult[]> {
+    let items: string[];
+
+    if (this.profile) {
+      items = ALL_KEYCHAIN_ITEMS.map((item) => this.itemKey(item));
+      await this.forgetProfile();
+      if (await this.getEnvironment()) {
+        await this.setEnvironment(null);
+      }
+    } else {
+      const profiles = await this.readProfiles();
+      const environments = await this.readEnvironments();
+      items = [
+        ...ALL_KEYCHAIN_ITEMS,
+        ...profiles.flatMap((profile) =>
+          ALL_KEYCHAIN_ITEMS.map((item) => this.forProfile(profile).itemKey(item))
+        ),
+        ...(profiles.length > 0 ? [PROFILES_ITEM] : []),
+        ...(Object.keys(environments).length > 0 ? [ENVIRONMENTS_ITEM] : []),
+      ];
+    }
+
     const results = await Promise.all(
-      ALL_KEYCHAIN_ITEMS.map(async (item) => {
+      items.map(async (item) => {
         try {
           const result = await keytar.deletePassword(this.serviceName, item);
           log(`Deleted ${item} from keychain: ${result ? 'Success' : 'Not found'}`);
@@ -144,17 +275,18 @@ class KeychainService {
 
     // Log a summary of the results
     const successCount = results.filter((r) => r.success).length;
-    log(`Cleared ${successCount}/${ALL_KEYCHAIN_ITEMS.length} items from keychain`);
+    log(`Cleared ${successCount}/${items.length} items from keychain`);
 
     return results;
   }
 
   /**
-   * Delete a specific item from the keychain
-   * @param key - The key to delete
+   * Delete a specific item of the profile from the keychain
+   * @param item - The item to delete
    * @returns A promise that resolves to true if successful, false otherwise
    */
-  async delete(key: string): Promise<boolean> {
+  async delete(item: string): Promise<boolean> {
+    const key = this.itemKey(item);
     try {
       const result = await keytar.deletePassword(this.serviceName, key);
       log(`Deleted ${key} from keychain: ${result ? 'Success' : 'Not found'}`);
@@ -165,6 +297,104 @@ class KeychainService {
     }
   }
 
+  /**
+   * Internal method to build the keychain account name of an item of the profile
+   * @param item - The keychain item
+   * @returns The account name, e.g. "AUTH0_TOKEN:staging", or the item itself for the default profile
+   * @private
+   */
+  private itemKey(item: string): string {
+    const profile = this.getProfile();
+    return profile === DEFAULT_PROFILE ? item : `${item}:${profile}`;
+  }
+
+  /**
+   * Internal method to store an item of the profile, adding a named profile to the profile list
+   * @param item - The keychain item
+   * @param value - The value to store
+   * @returns A promise that resolves to true if successful, false otherwise
+   * @private
+   */
+  private async setItem(item: string, value: string): Promise<boolean> {
+    if (!(await this.set(this.itemKey(item), value))) {
+      return false;
+    }
+
+    const profile = this.getProfile();
+    const profiles = await this.readProfiles();
+    if (profile === DEFAULT_PROFILE || profiles.includes(profile)) {
+      return true;
+    }
+    return this.set(PROFILES_ITEM, JSON.stringify([...profiles, profile].sort()));
+  }
+
+  /**
+   * Internal method to retrieve an item of the profile
+   * @param item - The keychain item
+   * @returns A promise that resolves to the stored value or null if not found
+   * @private
+   */
+  private async getItem(item: string): Promise<string | null> {
+    return this.get(this.itemKey(item));
+  }
+
+  /**
+   * Internal method to remove the profile from the profile list
+   * @private
+   */
+  private async forgetProfile(): Promise<void> {
+    const profiles = await this.readProfiles();
+    if (!profiles.includes(this.getProfile())) {
+      return;
+    }
+
+    const remaining = profiles.filter((name) => name !== this.getProfile());
+    if (remaining.length > 0) {
+      await this.set(PROFILES_ITEM, JSON.stringify(remaining));
+      return;
+    }
+
+    try {
+      await keytar.deletePassword(this.serviceName, PROFILES_ITEM);
+    } catch (error) {
+      log(`Error deleting ${PROFILES_ITEM} from keychain:`, error);
+    }
+  }
+
+  /**
+   * Internal method to read the list of named profiles, tolerating a malformed value
+   * @returns A promise that resolves to the list of profile names
+   * @private
+   */
+  private async readProfiles(): Promise<string[]> {
+    const value = await this.get(PROFILES_ITEM);
+    try {
+      const profiles = value ? JSON.parse(value) : [];
+      return Array.isArray(profiles) ? profiles : [];
+    } catch {
+      log(`Ignoring malformed ${PROFILES_ITEM} in keychain`);
+      return [];
+    }
+  }
+
+  /**
+   * Internal method to read the map of profile environments, tolerating a malformed value
+   * @returns A promise that resolves to the environment of each tagged profile
+   * @private
+   */
+  private async readEnvironments(): Promise<Record<string, Environment>> {
+    const value = await this.get(ENVIRONMENTS_ITEM);
+    try {
+      const environments = value ? JSON.parse(value) : {};
+      return environments && typeof environments === 'object' && !Array.isArray(environments)
+        ? environments
+        : {};
+    } catch {
+      log(`Ignoring malformed ${ENVIRONMENTS_ITEM} in keychain`);
+      return {};
+    }
+  }
+
   /**
    * Internal method to store a value in the system keychain
    * @param key - The key to store the value under
@@ -0,0 +1,266 @@
+import type { LogSeverity } from './log-types.js';
+
+export type AnomalyKind =
+  | 'credential_stuffing'
+  | 'brute_force'
+  | 'blocked_spike'
+  | 'management_api_burst';
+
+export interface AnomalyThresholds {
+  // Failed logins from one IP address, spread over several users
+  credentialStuffing: number;
+  // Distinct users one IP address must fail for to count as credential stuffing
+  credentialStuffingUsers: number;
+  // Failed logins against one user
+  bruteForce: number;
+  // limit_wc and limit_mu events in one hour
+  blockedSpike: number;
+  // sapi events within burstMinutes
+  managementApiBurst: number;
+  burstMinutes: number;
+}
+
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  credentialStuffing: 20,
+  credentialStuffingUsers: 5,
+  bruteForce: 10,
+  blockedSpike: 5,
+  managementApiBurst: 20,
+  burstMinutes: 5,
+};
+
+export interface AnomalyFinding {
+  kind: AnomalyKind;
+  severity: LogSeverity;
+  summary: string;
+  count: number;
+  first_seen: string;
+  last_seen: string;
+  log_ids: string[];
+  more_log_ids?: number;
+  [key: string]: unknown;
+}
+
+// Fields of a log entry the detectors rely on
+export interface AnomalyLogEntry {
+  log_id?: string;
+  date?: string | Date | Record<string, any>;
+  type?: string;
+  ip?: string;
+  user_id?: string;
+  user_name?: string;
+  client_id?: string;
+  client_name?: string;
+}
+
+// Most supporting log IDs returned per finding
+const MAX_LOG_IDS = 20;
+
+const FAILED_LOGIN_TYPES = new Set(['f', 'fp', 'fu']);
+const BRUTE_FORCE_TYPES = new Set(['f', 'fp']);
+const BLOCKED_TYPES = new Set(['limit_wc', 'limit_mu']);
+
+const SEVERITY_ORDER: LogSeverity[] = ['critical', 'error', 'warning', 'info'];
+
+function timeOf(entry: AnomalyLogEntry): number {
+  return new Date(entry.date as string).getTime();
+}
+
+function groupBy(
+  logs: AnomalyLogEntry[],
+  keyOf: (entry: AnomalyLogEntry) => string | undefined
+): Map<string, AnomalyLogEntry[]> {
+  const groups = new Map<string, AnomalyLogEntry[]>();
+  for (const entry of logs) {
+    const key = keyOf(entry);
+    if (!key) continue;
+
+    const group = groups.get(key) ?? [];
+    group.push(entry);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+function distinct(
+  logs: AnomalyLogEntry[],
+  valueOf: (entry: AnomalyLogEntry) => string | undefined
+) {
+  return [...new Set(logs.map(valueOf).filter((value): value is string => !!value))];
+}
+
+// Helper function to build a finding with its time range and supporting log IDs
+function createFinding(
+  kind: AnomalyKind,
+  severity: LogSeverity,
+  summary: string,
+  logs: AnomalyLogEntry[],
+  extra: Record<string, unknown> = {}
+): AnomalyFinding {
+  const sorted = [...logs].sort((a, b) => timeOf(a) - timeOf(b));
+  const logIds = sorted.map((entry) => entry.log_id).filter((id): id is string => !!id);
+
+  return {
+    kind,
+    severity,
+    summary,
+    count: logs.length,
+    first_seen: new Date(timeOf(sorted[0])).toISOString(),
+    last_seen: new Date(timeOf(sorted[sorted.length - 1])).toISOString(),
+    ...extra,
+    log_ids: logIds.slice(0, MAX_LOG_IDS),
+    ...(logIds.length > MAX_LOG_IDS ? { more_log_ids: logIds.length - MAX_LOG_IDS } : {}),
+  };
+}
+
+/**
+ * Flags IP addresses with many failed logins spread over many users.
+ */
+function detectCredentialStuffing(
+  logs: AnomalyLogEntry[],
+  thresholds: AnomalyThresholds
+): AnomalyFinding[] {
+  const failures = logs.filter((entry) => FAILED_LOGIN_TYPES.has(entry.type ?? ''));
+
+  return [...groupBy(failures, (entry) => entry.ip)]
+    .map(([ip, attempts]) => ({ ip, attempts, users: distinct(attempts, userOf) }))
+    .filter(
+      ({ attempts, users }) =>
+        attempts.length >= thresholds.credentialStuffing &&
+        users.length >= thresholds.credentialStuffingUsers
+    )
+    .map(({ ip, attempts, users }) =>
+      createFinding(
+        'credential_stuffing',
+        'critical',
+        `${attempts.length} failed logins for ${users.length} different users from ${ip}`,
+        attempts,
+        { ip, users: users.length, sample_users: users.slice(0, 5) }
+      )
+    );
+}
+
+/**
+ * Flags users with many failed logins, from any number of IP addresses.
+ */
+function detectBruteForce(
+  logs: AnomalyLogEntry[],
+  thresholds: AnomalyThresholds
+): AnomalyFinding[] {
+  const failures = logs.filter((entry) => BRUTE_FORCE_TYPES.has(entry.type ?? ''));
+
+  return [...groupBy(failures, userOf)]
+    .filter(([, attempts]) => attempts.length >= thresholds.bruteForce)
+    .map(([user, attempts]) => {
+      const ips = distinct(attempts, (entry) => entry.ip);
+      return createFinding(
+        'brute_force',
+        'error',
+        `${attempts.length} failed logins for ${user} from ${ips.length} IP address(es)`,
+        attempts,
+        { user, ips }
+      );
+    });
+}
+
+/**
+ * Flags hours with many blocked accounts or IP addresses.
+ */
+function detectBlockedSpikes(
+  logs: AnomalyLogEntry[],
+  thresholds: AnomalyThresholds
+): AnomalyFinding[] {
+  const blocks = logs.filter((entry) => BLOCKED_TYPES.has(entry.type ?? ''));
+
+  return [...groupBy(blocks, (entry) => new Date(timeOf(entry)).toISOString().slice(0, 13))]
+    .filter(([, events]) => events.length >= thresholds.blockedSpike)
+    .map(([hour, events]) => {
+      const accounts = events.filter((entry) => entry.type === 'limit_wc').length;
+      const ips = events.length - accounts;
+      return createFinding(
+        'blocked_spike',
+        'critical',
+        `${accounts} account(s) and ${ips} IP address(es) blocked in the hour starting ${hour}:00Z`,
+        events,
+        { blocked_accounts: accounts, blocked_ips: ips }
+      );
+    });
+}
+
+/**
+ * Flags bursts of Management API write operations. Overlapping bursts are merged.
+ */
+function detectManagementApiBursts(
+  logs: AnomalyLogEntry[],
+  thresholds: AnomalyThresholds
+): AnomalyFinding[] {
+  const operations = logs
+    .filter((entry) => entry.type === 'sapi')
+    .sort((a, b) => timeOf(a) - timeOf(b));
+  const windowMs = thresholds.burstMinutes * 60 * 1000;
+
+  // Index ranges of the operations in each burst
+  const bursts: Array<{ from: number; to: number }> = [];
+  let start = 0;
+  for (let end = 0; end < operations.length; end++) {
+    while (timeOf(operations[end]) - timeOf(operations[start]) > windowMs) {
+      start++;
+    }
+
+    if (end - start + 1 < thresholds.managementApiBurst) {
+      continue;
+    }
+
+    const current = bursts[bursts.length - 1];
+    if (current && start <= current.to) {
+      current.to = end;
+    } else {
+      bursts.push({ from: start, to: end });
+    }
+  }
+
+  return bursts.map(({ from, to }) => {
+    const burst = operations.slice(from, to + 1);
+    const actors = distinct(
+      burst,
+      (entry) => entry.client_name || entry.client_id || userOf(entry)
+    );
+    return createFinding(
+      'management_api_burst',
+      'warning',
+      `${burst.length} Management API changes in a burst by ${actors.join(', ') || 'unknown actors'}`,
+      burst,
+      { actors }
+    );
+  });
+}
+
+function userOf(entry: AnomalyLogEntry): string | undefined {
+  return entry.user_name || entry.user_id;
+}
+
+/**
+ * Detects security anomalies in tenant logs: credential stuffing, brute force against
+ * single users, spikes in blocked accounts and IP addresses, and bursts of Management API changes.
+ *
+ * @param logs - The log entries to analyze
+ * @param thresholds - Overrides for the default detection thresholds
+ * @returns The findings, most severe and most frequent first
+ */
+export function detectAnomalies(
+  logs: AnomalyLogEntry[],
+  thresholds: Partial<AnomalyThresholds> = {}
+): AnomalyFinding[] {
+  const effective = { ...DEFAULT_ANOMALY_THRESHOLDS, ...thresholds };
+  const dated = logs.filter((entry) => !isNaN(timeOf(entry)));
+
+  return [
+    ...detectCredentialStuffing(dated, effective),
+    ...detectBruteForce(dated, effective),
+    ...detectBlockedSpikes(dated, effective),
+    ...detectManagementApiBursts(dated, effective),
+  ].sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.count - a.count
+  );
+}
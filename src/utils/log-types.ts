@@ -0,0 +1,328 @@
+export type LogSeverity = 'info' | 'warning' | 'error' | 'critical';
+
+export interface LogTypeInfo {
+  description: string;
+  severity: LogSeverity;
+}
+
+// Catalog of the Auth0 log event type codes
+// See: https://auth0.com/docs/deploy-monitor/logs/log-event-type-codes
+export const LOG_TYPES: Record<string, LogTypeInfo> = {
+  acls_summary: { description: 'Allowed access control list summary', severity: 'info' },
+  api_limit: {
+    description: 'Rate limit on the Authentication or Management APIs',
+    severity: 'error',
+  },
+  api_limit_warning: {
+    description: 'Rate limit warning on the Authentication or Management APIs',
+    severity: 'warning',
+  },
+  appi: { description: 'Successfully accepted a user invitation', severity: 'info' },
+  cls: { description: 'Passwordless login code or link sent', severity: 'info' },
+  cs: { description: 'Passwordless login code sent', severity: 'info' },
+  depnote: { description: 'Deprecation notice', severity: 'warning' },
+  du: { description: 'User deleted', severity: 'info' },
+  f: { description: 'Failed login', severity: 'error' },
+  fapi: { description: 'Failed Management API operation', severity: 'error' },
+  fc: { description: 'Failed connector login', severity: 'error' },
+  fce: { description: 'Failed to change user email', severity: 'error' },
+  fco: { description: 'Origin is not in the allowed web origins', severity: 'error' },
+  fcoa: { description: 'Failed cross-origin authentication', severity: 'error' },
+  fcp: { description: 'Failed to change password', severity: 'error' },
+  fcph: { description: 'Failed to post change password hook', severity: 'error' },
+  fcpn: { description: 'Failed to change phone number', severity: 'error' },
+  fcpr: { description: 'Failed change password request', severity: 'error' },
+  fcpro: { description: 'Failed to provision an AD/LDAP connector', severity: 'error' },
+  fcu: { description: 'Failed to change username', severity: 'error' },
+  fd: { description: 'Failed to generate a delegation token', severity: 'error' },
+  fdeac: { description: 'Failed to activate a device', severity: 'error' },
+  fdeaz: { description: 'Device authorization request failed', severity: 'error' },
+  fdecc: { description: 'User did not confirm the device', severity: 'error' },
+  fdu: { description: 'Failed user deletion', severity: 'error' },
+  feacft: {
+    description: 'Failed exchange of authorization code for access token',
+    severity: 'error',
+  },
+  feccft: {
+    description: 'Failed exchange of client credentials for access token',
+    severity: 'error',
+  },
+  fede: { description: 'Failed exchange of device code for access token', severity: 'error' },
+  fens: { description: 'Failed exchange of native social login', severity: 'error' },
+  feoobft: {
+    description: 'Failed exchange of password and OOB challenge for access token',
+    severity: 'error',
+  },
+  feotpft: {
+    description: 'Failed exchange of password and OTP challenge for access token',
+    severity: 'error',
+  },
+  fepft: { description: 'Failed exchange of password for access token', severity: 'error' },
+  fepotpft: {
+    description: 'Failed exchange of passwordless OTP for access token',
+    severity: 'error',
+  },
+  fercft: {
+    description: 'Failed exchange of password and MFA recovery code for access token',
+    severity: 'error',
+  },
+  ferrt: { description: 'Failed exchange of rotating refresh token', severity: 'error' },
+  fertft: { description: 'Failed exchange of refresh token for access token', severity: 'error' },
+  fi: { description: 'Failed to accept a user invitation', severity: 'error' },
+  flo: { description: 'Failed logout', severity: 'error' },
+  fn: { description: 'Failed to send email notification', severity: 'error' },
+  fp: { description: 'Failed login (incorrect password)', severity: 'error' },
+  fpar: { description: 'Failed pushed authorization request', severity: 'error' },
+  fs: { description: 'Failed signup', severity: 'error' },
+  fsa: { description: 'Failed silent authentication', severity: 'error' },
+  fu: { description: 'Failed login (invalid email or username)', severity: 'error' },
+  fui: { description: 'Failed users import', severity: 'error' },
+  fv: { description: 'Failed to send verification email', severity: 'error' },
+  fvr: { description: 'Failed to process verification email request', severity: 'error' },
+  gd_auth_failed: { description: 'MFA authentication failed', severity: 'error' },
+  gd_auth_rejected: { description: 'MFA authentication rejected', severity: 'error' },
+  gd_auth_succeed: { description: 'MFA authentication succeeded', severity: 'info' },
+  gd_enrollment_complete: { description: 'MFA enrollment completed', severity: 'info' },
+  gd_otp_rate_limit_exceed: {
+    description: 'Too many failed MFA OTP attempts',
+    severity: 'critical',
+  },
+  gd_recovery_failed: { description: 'MFA recovery failed', severity: 'error' },
+  gd_recovery_rate_limit_exceed: {
+    description: 'Too many failed MFA recovery attempts',
+    severity: 'critical',
+  },
+  gd_recovery_succeed: { description: 'MFA recovery succeeded', severity: 'info' },
+  gd_send_email: { description: 'MFA email sent', severity: 'info' },
+  gd_send_pn: { description: 'MFA push notification sent', severity: 'info' },
+  gd_send_pn_failure: { description: 'Failed to send MFA push notification', severity: 'error' },
+  gd_send_sms: { description: 'MFA SMS sent', severity: 'info' },
+  gd_send_sms_failure: { description: 'Failed to send MFA SMS', severity: 'error' },
+  gd_send_voice: { description: 'MFA voice call made', severity: 'info' },
+  gd_send_voice_failure: { description: 'Failed to make MFA voice call', severity: 'error' },
+  gd_start_auth: { description: 'MFA authentication started', severity: 'info' },
+  gd_start_enroll: { description: 'MFA enrollment started', severity: 'info' },
+  gd_start_enroll_failed: { description: 'MFA enrollment failed', severity: 'error' },
+  gd_tenant_update: { description: 'MFA tenant settings updated', severity: 'info' },
+  gd_unenroll: { description: 'MFA device unenrolled', severity: 'info' },
+  gd_update_device_account: { description: 'MFA device account updated', severity: 'info' },
+  gd_webauthn_challenge_failed: { description: 'WebAuthn challenge failed', severity: 'error' },
+  gd_webauthn_enrollment_failed: { description: 'WebAuthn enrollment failed', severity: 'error' },
+  limit_delegation: { description: 'Too many calls to delegation', severity: 'error' },
+  limit_mu: {
+    description: 'IP address blocked after too many failed logins for multiple users',
+    severity: 'critical',
+  },
+  limit_sul: {
+    description: 'User blocked after too many logins from the same IP address',
+    severity: 'critical',
+  },
+  limit_wc: { description: 'Account blocked after too many failed logins', severity: 'critical' },
+  mfar: { description: 'MFA required', severity: 'info' },
+  mgmt_api_read: { description: 'Management API read operation', severity: 'info' },
+  oidc_backchannel_logout_failed: {
+    description: 'Failed OIDC back-channel logout',
+    severity: 'error',
+  },
+  oidc_backchannel_logout_succeeded: {
+    description: 'OIDC back-channel logout succeeded',
+    severity: 'info',
+  },
+  pla: { description: 'Pre-login assessment', severity: 'info' },
+  pwd_leak: { description: 'Login attempt with a breached password', severity: 'critical' },
+  reset_pwd_leak: {
+    description: 'Password reset attempt with a breached password',
+    severity: 'critical',
+  },
+  s: { description: 'Successful login', severity: 'info' },
+  sapi: { description: 'Successful Management API write operation', severity: 'info' },
+  sce: { description: 'Changed user email', severity: 'info' },
+  scoa: { description: 'Successful cross-origin authentication', severity: 'info' },
+  scp: { description: 'Changed password', severity: 'info' },
+  scph: { description: 'Post change password hook succeeded', severity: 'info' },
+  scpn: { description: 'Changed phone number', severity: 'info' },
+  scpr: { description: 'Change password request', severity: 'info' },
+  scu: { description: 'Changed username', severity: 'info' },
+  sd: { description: 'Successful delegation', severity: 'info' },
+  sdu: { description: 'Successful user deletion', severity: 'info' },
+  seacft: { description: 'Exchanged authorization code for access token', severity: 'info' },
+  seccft: { description: 'Exchanged client credentials for access token', severity: 'info' },
+  sede: { description: 'Exchanged device code for access token', severity: 'info' },
+  sens: { description: 'Exchanged native social login', severity: 'info' },
+  seoobft: {
+    description: 'Exchanged password and OOB challenge for access token',
+    severity: 'info',
+  },
+  seotpft: {
+    description: 'Exchanged password and OTP challenge for access token',
+    severity: 'info',
+  },
+  sepft: { description: 'Exchanged password for access token', severity: 'info' },
+  sepotpft: { description: 'Exchanged passwordless OTP for access token', severity: 'info' },
+  sercft: {
+    description: 'Exchanged password and MFA recovery code for access token',
+    severity: 'info',
+  },
+  srrt: { description: 'Revoked refresh token', severity: 'info' },
+  sertft: { description: 'Exchanged refresh token for access token', severity: 'info' },
+  signup_pwd_leak: { description: 'Signup attempt with a breached password', severity: 'critical' },
+  slo: { description: 'Successful logout', severity: 'info' },
+  ss: { description: 'Successful signup', severity: 'info' },
+  ssa: { description: 'Successful silent authentication', severity: 'info' },
+  sui: { description: 'Successful users import', severity: 'info' },
+  sv: { description: 'Verification email confirmed', severity: 'info' },
+  svr: { description: 'Verification email sent', severity: 'info' },
+  sys_os_update_end: { description: 'Auth0 OS update ended', severity: 'info' },
+  sys_os_update_start: { description: 'Auth0 OS update started', severity: 'info' },
+  sys_update_end: { description: 'Auth0 update ended', severity: 'info' },
+  sys_update_start: { description: 'Auth0 update started', severity: 'info' },
+  ublkdu: { description: 'User block released', severity: 'info' },
+  w: { description: 'Warning during login', severity: 'warning' },
+};
+
+// Friendly names accepted in log queries, e.g. "type:failed_login", and the codes they stand for
+export const LOG_TYPE_ALIASES: Record<string, string[]> = {
+  login: ['s', 'f', 'fp', 'fu'],
+  successful_login: ['s'],
+  failed_login: ['f', 'fp', 'fu'],
+  wrong_password: ['fp'],
+  wrong_username: ['fu'],
+  logout: ['slo', 'flo'],
+  failed_logout: ['flo'],
+  signup: ['ss', 'fs'],
+  successful_signup: ['ss'],
+  failed_signup: ['fs'],
+  silent_auth: ['ssa', 'fsa'],
+  failed_silent_auth: ['fsa'],
+  token_exchange: codesMatching(/^(Exchanged|Failed exchange)\b/),
+  failed_token_exchange: codesMatching(/^Failed exchange\b/),
+  change_password: ['scp', 'fcp', 'scpr', 'fcpr'],
+  failed_change_password: ['fcp', 'fcpr'],
+  management_api: ['sapi', 'fapi', 'mgmt_api_read'],
+  management_api_write: ['sapi'],
+  failed_management_api: ['fapi'],
+  mfa: codesMatching(/^(MFA|WebAuthn|Too many failed MFA)\b/),
+  failed_mfa: [
+    'gd_auth_failed',
+    'gd_auth_rejected',
+    'gd_recovery_failed',
+    'gd_otp_rate_limit_exceed',
+  ],
+  blocked: ['limit_wc', 'limit_mu', 'limit_sul'],
+  blocked_account: ['limit_wc'],
+  blocked_ip: ['limit_mu'],
+  breached_password: ['pwd_leak', 'signup_pwd_leak', 'reset_pwd_leak'],
+  rate_limit: ['api_limit', 'api_limit_warning'],
+  user_deleted: ['du', 'sdu'],
+  warning: codesWithSeverity('warning'),
+  failure: [...codesWithSeverity('error'), ...codesWithSeverity('critical')],
+  critical: codesWithSeverity('critical'),
+};
+
+function codesMatching(pattern: RegExp): string[] {
+  return Object.keys(LOG_TYPES).filter((type) => pattern.test(LOG_TYPES[type].description));
+}
+
+function codesWithSeverity(severity: LogSeverity): string[] {
+  return Object.keys(LOG_TYPES).filter((type) => LOG_TYPES[type].severity === severity);
+}
+
+/**
+ * Returns the readable description of a log event type code, e.g. "Failed login (incorrect password)" for "fp".
+ *
+ * @param type - The log event type code
+ * @returns The description, or the code itself if it is unknown
+ */
+export function describeLogType(type: string | undefined): string {
+  if (!type) {
+    return 'Unknown event';
+  }
+
+  return LOG_TYPES[type]?.description ?? type;
+}
+
+/**
+ * Returns the severity of a log event type code. Unknown codes are reported as info.
+ *
+ * @param type - The log event type code
+ * @returns The severity
+ */
+export function getLogSeverity(type: string | undefined): LogSeverity {
+  return (type && LOG_TYPES[type]?.severity) || 'info';
+}
+
+/**
+ * Checks whether a log event type code records a failed or blocked operation.
+ *
+ * @param type - The log event type code
+ * @returns True if the code records a failure
+ */
+export function isFailureLogType(type: string | undefined): boolean {
+  const severity = getLogSeverity(type);
+  return severity === 'error' || severity === 'critical';
+}
+
+/**
+ * Translates friendly type names in a log query to the codes they stand for,
+ * e.g. "type:failed_login" becomes "type:(f OR fp OR fu)". Codes are left as they are.
+ *
+ * @param q - Query in Lucene query string syntax
+ * @returns The query the Logs API understands
+ */
+export function translateLogQuery(q: string): string {
+  return q.replace(/\btype:([A-Za-z_]+)\b/g, (match, name: string) => {
+    const codes = LOG_TYPE_ALIASES[name.toLowerCase()];
+    if (!codes || LOG_TYPES[name]) {
+      return match;
+    }
+
+    return codes.length === 1 ? `type:${codes[0]}` : `type:(${codes.join(' OR ')})`;
+  });
+}
+
+/**
+ * Renders a log entry as one readable line, e.g.
+ * "Failed login (incorrect password) (fp) for user@example.com via Username-Password-Authentication
+ * at 2024-05-01 12:01:00Z from 203.0.113.7: Wrong email or password."
+ *
+ * @param entry - The log entry as returned by the Logs API
+ * @returns The rendered line
+ */
+export function renderLog(entry: Record<string, any>): string {
+  const typeDescription = describeLogType(entry.type);
+  const parts = [`${typeDescription} (${entry.type ?? 'unknown'})`];
+
+  if (entry.user_name || entry.user_id) {
+    parts.push(`for ${entry.user_name || entry.user_id}`);
+  }
+  if (entry.connection) {
+    parts.push(`via ${entry.connection}`);
+  }
+  if (entry.client_name || entry.client_id) {
+    parts.push(`on ${entry.client_name || entry.client_id}`);
+  }
+  if (entry.date) {
+    parts.push(`at ${formatLogDate(entry.date)}`);
+  }
+  if (entry.ip) {
+    parts.push(`from ${entry.ip}`);
+  }
+
+  const line = parts.join(' ');
+  // Skip descriptions that only repeat the event type, e.g. "Failed Login" for "f"
+  return entry.description && entry.description.toLowerCase() !== typeDescription.toLowerCase()
+    ? `${line}: ${entry.description}`
+    : line;
+}
+
+function formatLogDate(date: string | Date): string {
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) {
+    return String(date);
+  }
+
+  return parsed
+    .toISOString()
+    .replace('T', ' ')
+    .replace(/\.\d+Z$/, 'Z');
+}
@@ -0,0 +1,148 @@
+import { createPublicKey, verify, type JsonWebKey, type KeyObject } from 'crypto';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { log } from './logger.js';
+
+export interface TokenVerifierOptions {
+  // Issuer of the access tokens, e.g. https://your-tenant.us.auth0.com/
+  issuer: string;
+  // Audience the access tokens must be issued for, i.e. the URL of the MCP endpoint
+  audience: string;
+  // Where the issuer publishes its signing keys, defaults to the issuer's /.well-known/jwks.json
+  jwksUri?: string;
+}
+
+// Leeway for clocks that are slightly out of sync with the issuer's
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+// Minimum time between two fetches of the signing keys
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Builds the default JWKS URL of an issuer, as Auth0 publishes it
+ * @param issuer - The issuer URL
+ * @returns The JWKS URL
+ */
+export const getDefaultJwksUri = (issuer: string): string =>
+  new URL('.well-known/jwks.json', issuer.endsWith('/') ? issuer : `${issuer}/`).toString();
+
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+// Helper function to decode the JSON header or payload of a JWT
+function decodeSegment(segment: string): Record<string, any> {
+  const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new InvalidTokenError('Access token is not a JWT');
+  }
+  return value;
+}
+
+/**
+ * Creates a function that verifies RS256-signed JWT access tokens, such as the ones Auth0
+ * issues for an API. The signing keys are fetched from the JWKS URL when first needed, and
+ * again when a token names a key that is not known yet, e.g. after the issuer rotated its keys.
+ *
+ * @param options - The issuer, the audience and optionally the JWKS URL
+ * @returns A function that resolves to the caller's auth info, with the token's subject in
+ *          `extra.subject`
+ * @throws {InvalidTokenError} From the returned function, if the token is malformed, not signed
+ *         by the issuer, expired, or issued for another audience
+ */
+export function createTokenVerifier({
+  issuer,
+  audience,
+  jwksUri = getDefaultJwksUri(issuer),
+}: TokenVerifierOptions): (token: string) => Promise<AuthInfo> {
+  let keys = new Map<string, KeyObject>();
+  let fetchedAt = 0;
+
+  const fetchKeys = async () => {
+    log(`Fetching signing keys from ${jwksUri}`);
+    const response = await fetch(jwksUri);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch signing keys from ${jwksUri}: ${response.status}`);
+    }
+
+    const { keys: jwks = [] } = (await response.json()) as { keys?: JsonWebKey[] };
+    keys = new Map(
+      jwks
+        .filter(
+          (jwk) => jwk.kty === 'RSA' && typeof jwk.kid === 'string' && (jwk.use ?? 'sig') === 'sig'
+        )
+        .map((jwk) => [jwk.kid as string, createPublicKey({ key: jwk, format: 'jwk' })])
+    );
+    fetchedAt = Date.now();
+  };
+
+  // Tokens naming unknown keys are cheap to forge, so they never trigger more than one
+  // fetch per interval
+  const getKey = async (kid: string) => {
+    if (!keys.has(kid) && Date.now() - fetchedAt >= JWKS_REFETCH_INTERVAL_MS) {
+      await fetchKeys();
+    }
+    return keys.get(kid);
+  };
+
+  return async (token: string): Promise<AuthInfo> => {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new InvalidTokenError('Access token is not a JWT');
+    }
+
+    let header: Record<string, any>;
+    let payload: Record<string, any>;
+    try {
+      header = decodeSegment(segments[0]);
+      payload = decodeSegment(segments[1]);
+    } catch {
+      throw new InvalidTokenError('Access token is not a JWT');
+    }
+
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+      throw new InvalidTokenError('Access token must be signed with RS256 and name its key');
+    }
+
+    const key = await getKey(header.kid);
+    if (!key) {
+      throw new InvalidTokenError('Access token is signed with an unknown key');
+    }
+
+    const isSigned = verify(
+      'RSA-SHA256',
+      Buffer.from(`${segments[0]}.${segments[1]}`),
+      key,
+      Buffer.from(segments[2], 'base64url')
+    );
+    if (!isSigned) {
+      throw new InvalidTokenError('Access token signature is invalid');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      typeof payload.iss !== 'string' ||
+      trimTrailingSlash(payload.iss) !== trimTrailingSlash(issuer)
+    ) {
+      throw new InvalidTokenError('Access token was issued by another issuer');
+    }
+    if (![payload.aud].flat().includes(audience)) {
+      throw new InvalidTokenError('Access token was issued for another audience');
+    }
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_TOLERANCE_SECONDS < now) {
+      throw new InvalidTokenError('Access token has expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+      throw new InvalidTokenError('Access token is not valid yet');
+    }
+    if (typeof payload.sub !== 'string' || !payload.sub) {
+      throw new InvalidTokenError('Access token has no subject');
+    }
+
+    return {
+      token,
+      clientId: payload.azp ?? payload.client_id ?? '',
+      scopes: typeof payload.scope === 'string' ? payload.scope.split(' ').filter(Boolean) : [],
+      expiresAt: payload.exp,
+      extra: { subject: payload.sub },
+    };
+  };
+}
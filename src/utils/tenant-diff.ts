@@ -0,0 +1,221 @@
+import type { ManagementClient } from 'auth0';
+import { canonicalJson } from './tenant-plan.js';
+import { fetchLiveTenant, resourceKey, type SnapshotSection } from './tenant-snapshot.js';
+
+// Resource types that are compared between tenants
+export const DIFF_SECTIONS = [
+  'applications',
+  'resource-servers',
+  'actions',
+  'forms',
+  'settings',
+] as const;
+
+export type DiffSection = (typeof DIFF_SECTIONS)[number];
+
+// Normalized resources by section. Settings hold a single resource.
+export type TenantComparison = Record<DiffSection, Record<string, any>[]>;
+
+export interface FieldDifference {
+  // Dotted path of the field, e.g. "jwt_configuration.lifetime_in_seconds" or "scopes[read:users]"
+  path: string;
+  source?: unknown;
+  target?: unknown;
+  // Items of a list that are only in the target or only in the source
+  added?: unknown[];
+  removed?: unknown[];
+  // First line that differs, for multi-line values such as action code
+  line?: number;
+}
+
+export interface ResourceDifference {
+  section: DiffSection;
+  key: string;
+  differences: FieldDifference[];
+}
+
+export interface TenantDiff {
+  only_in_source: Array<{ section: DiffSection; key: string }>;
+  only_in_target: Array<{ section: DiffSection; key: string }>;
+  changed: ResourceDifference[];
+}
+
+// Settings fields that describe the tenant's environment rather than its configuration
+const NOISY_SETTINGS_FIELDS = ['sandbox_versions_available'];
+
+// Fields that identify the items of a list of objects, in order of preference
+const ITEM_KEY_FIELDS = ['name', 'value', 'id', 'header'];
+
+const SETTINGS_KEY = 'settings';
+
+/**
+ * Fetches the resources of a tenant that {@link diffTenants} compares, normalized the
+ * same way as an export so that IDs and server-generated fields never show up as differences.
+ *
+ * @param managementClient - A Management API client for the tenant
+ * @param sections - The resource types to fetch
+ * @returns The normalized resources by section
+ */
+export async function fetchTenantComparison(
+  managementClient: ManagementClient,
+  sections: readonly DiffSection[] = DIFF_SECTIONS
+): Promise<TenantComparison> {
+  const snapshotSections = sections.filter(
+    (section): section is DiffSection & SnapshotSection => section !== 'settings'
+  );
+
+  const [live, settings] = await Promise.all([
+    fetchLiveTenant(managementClient, snapshotSections),
+    sections.includes('settings')
+      ? managementClient.tenants
+          .getSettings()
+          .then(({ data }) => [
+            Object.fromEntries(
+              Object.entries(data as Record<string, any>).filter(
+                ([field]) => !NOISY_SETTINGS_FIELDS.includes(field)
+              )
+            ),
+          ])
+      : [],
+  ]);
+
+  return {
+    applications: live.snapshot.applications,
+    'resource-servers': live.snapshot['resource-servers'],
+    actions: live.snapshot.actions,
+    forms: live.snapshot.forms,
+    settings,
+  };
+}
+
+// Helper function to get the key that matches a resource across tenants
+function diffKey(section: DiffSection, resource: Record<string, any>): string {
+  return section === 'settings' ? SETTINGS_KEY : resourceKey(section, resource);
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Helper function to find the field that identifies the items of two lists, if they are all
+// objects that have one
+function itemKeyField(source: unknown[], target: unknown[]): string | undefined {
+  const items = [...source, ...target];
+  if (items.length === 0 || !items.every(isObject)) {
+    return undefined;
+  }
+
+  return ITEM_KEY_FIELDS.find((field) =>
+    items.every((item) => typeof (item as Record<string, any>)[field] === 'string')
+  );
+}
+
+// Helper function to record the differences between two values, recursing into objects and
+// matching list items by their identifying field
+function diffValues(path: string, source: any, target: any, differences: FieldDifference[]) {
+  if (canonicalJson(source) === canonicalJson(target)) {
+    return;
+  }
+
+  if (isObject(source) && isObject(target)) {
+    const fields = [...new Set([...Object.keys(source), ...Object.keys(target)])].sort();
+    for (const field of fields) {
+      diffValues(path ? `${path}.${field}` : field, source[field], target[field], differences);
+    }
+    return;
+  }
+
+  if (Array.isArray(source) && Array.isArray(target)) {
+    const field = itemKeyField(source, target);
+    if (field) {
+      const keys = [...new Set([...source, ...target].map((item) => item[field]))].sort();
+      for (const key of keys) {
+        diffValues(
+          `${path}[${key}]`,
+          source.find((item) => item[field] === key),
+          target.find((item) => item[field] === key),
+          differences
+        );
+      }
+      return;
+    }
+
+    const sourceItems = source.map(canonicalJson);
+    const targetItems = target.map(canonicalJson);
+    const added = target.filter((_item, index) => !sourceItems.includes(targetItems[index]));
+    const removed = source.filter((_item, index) => !targetItems.includes(sourceItems[index]));
+
+    // Lists holding the same items in a different order are reported as a whole
+    differences.push(
+      added.length > 0 || removed.length > 0
+        ? {
+            path,
+            ...(added.length > 0 && { added }),
+            ...(removed.length > 0 && { removed }),
+          }
+        : { path, source, target }
+    );
+    return;
+  }
+
+  if (
+    typeof source === 'string' &&
+    typeof target === 'string' &&
+    (source.includes('\n') || target.includes('\n'))
+  ) {
+    const sourceLines = source.split('\n');
+    const targetLines = target.split('\n');
+    const index = sourceLines.findIndex((line, i) => line !== targetLines[i]);
+    const line = index === -1 ? sourceLines.length : index;
+    differences.push({
+      path,
+      line: line + 1,
+      source: sourceLines[line],
+      target: targetLines[line],
+    });
+    return;
+  }
+
+  differences.push({ path, source, target });
+}
+
+/**
+ * Compares the resources of two tenants. Resources are matched by name, or by identifier for
+ * resource servers, since their IDs differ between tenants. Secrets are compared by their
+ * placeholders only, so differing secret values never show up.
+ *
+ * @param source - The resources of the source tenant
+ * @param target - The resources of the target tenant
+ * @returns The resources that exist in only one tenant and the fields that differ
+ */
+export function diffTenants(source: TenantComparison, target: TenantComparison): TenantDiff {
+  const diff: TenantDiff = { only_in_source: [], only_in_target: [], changed: [] };
+
+  for (const section of DIFF_SECTIONS) {
+    const sourceResources = new Map(
+      source[section].map((resource) => [diffKey(section, resource), resource])
+    );
+    const targetResources = new Map(
+      target[section].map((resource) => [diffKey(section, resource), resource])
+    );
+    const keys = [...new Set([...sourceResources.keys(), ...targetResources.keys()])].sort();
+
+    for (const key of keys) {
+      const sourceResource = sourceResources.get(key);
+      const targetResource = targetResources.get(key);
+
+      if (!targetResource) {
+        diff.only_in_source.push({ section, key });
+      } else if (!sourceResource) {
+        diff.only_in_target.push({ section, key });
+      } else {
+        const differences: FieldDifference[] = [];
+        diffValues('', sourceResource, targetResource, differences);
+        if (differences.length > 0) {
+          diff.changed.push({ section, key, differences });
+        }
+      }
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,446 @@
+import { createHash } from 'crypto';
+import type { ManagementClient } from 'auth0';
+import { analyzeActionCode } from './action-analysis.js';
+import {
+  isSecretPlaceholder,
+  resourceKey,
+  type LiveTenant,
+  type SnapshotSection,
+  type TenantSnapshot,
+} from './tenant-snapshot.js';
+
+export type PlannedAction = 'create' | 'update' | 'delete';
+
+export interface PlannedChange {
+  section: SnapshotSection;
+  action: PlannedAction;
+  key: string;
+  // ID of the live resource, for updates and deletes
+  id?: string;
+  // Fields that differ from the live resource, for updates
+  fields?: string[];
+  // The local resource, for creates and updates
+  resource?: Record<string, any>;
+}
+
+export interface TenantPlan {
+  changes: PlannedChange[];
+  // Problems in the local files that prevent the plan from being applied
+  errors: string[];
+}
+
+export interface AppliedChange {
+  section: SnapshotSection;
+  action: PlannedAction;
+  key: string;
+  status: 'applied' | 'failed' | 'skipped';
+  error?: string;
+}
+
+export interface PlanOptions {
+  // Delete live resources that have no local file
+  allowDelete?: boolean;
+}
+
+// Order in which creates and updates are applied, so that every resource exists before anything
+// refers to it. Deletes run in the reverse order.
+export const APPLY_ORDER: SnapshotSection[] = [
+  'resource-servers',
+  'applications',
+  'client-grants',
+  'actions',
+  'triggers',
+  'forms',
+  'log-streams',
+];
+
+// Fields that identify a resource and are never sent in updates
+const KEY_FIELDS: Record<SnapshotSection, string[]> = {
+  applications: [],
+  'resource-servers': ['identifier'],
+  'client-grants': ['client', 'audience'],
+  actions: [],
+  triggers: ['trigger'],
+  forms: [],
+  'log-streams': [],
+};
+
+// How long to wait for a new or updated action to build before deploying it
+const ACTION_BUILD_ATTEMPTS = 10;
+const ACTION_BUILD_INTERVAL_MS = 1000;
+
+// Helper function to drop values that are still secret placeholders, so they are neither
+// compared nor sent to the tenant
+function stripPlaceholders(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(stripPlaceholders);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => !isSecretPlaceholder(item))
+        .map(([key, item]) => [key, stripPlaceholders(item)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Serializes a value independently of its key order, so that equal resources compare equal.
+ */
+export function canonicalJson(value: any): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map((key) => [key, item[key]])
+        )
+      : item
+  );
+}
+
+// Helper function to list the fields of a local resource that differ from the live resource.
+// Fields left out of the local file are not managed by it and never count as changed.
+function changedFields(local: Record<string, any>, live: Record<string, any>): string[] {
+  const localValues = stripPlaceholders(local);
+  const liveValues = stripPlaceholders(live);
+
+  return Object.keys(localValues)
+    .filter((field) => canonicalJson(localValues[field]) !== canonicalJson(liveValues[field]))
+    .sort();
+}
+
+// Helper function to check local resources for problems that would make applying them fail
+function validateSection(
+  section: SnapshotSection,
+  local: TenantSnapshot,
+  live: LiveTenant
+): string[] {
+  const errors: string[] = [];
+  const known = (other: SnapshotSection, key: string) =>
+    local[other].some((resource) => resourceKey(other, resource) === key) || key in live.ids[other];
+
+  for (const resource of local[section]) {
+    const key = resourceKey(section, resource);
+
+    if (section === 'client-grants' && !known('applications', resource.client)) {
+      errors.push(`client-grants/${key}: application '${resource.client}' does not exist`);
+    }
+
+    if (section === 'triggers') {
+      for (const action of resource.actions ?? []) {
+        if (!known('actions', action)) {
+          errors.push(`triggers/${key}: action '${action}' does not exist`);
+        }
+      }
+    }
+
+    if (section === 'actions' && typeof resource.code === 'string') {
+      const analysis = analyzeActionCode(resource.code, resource);
+      for (const finding of analysis.findings.filter((item) => item.severity === 'error')) {
+        errors.push(
+          `actions/${key}: ${finding.message}${finding.line ? ` (line ${finding.line})` : ''}`
+        );
+      }
+    }
+
+    if (section === 'log-streams') {
+      const current = live.snapshot[section].find((stream) => resourceKey(section, stream) === key);
+      if (current && resource.type && resource.type !== current.type) {
+        errors.push(`log-streams/${key}: the type of a log stream cannot be changed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Compares local tenant files against a live tenant and plans the changes that make the
+ * tenant match the files. Resources are matched by their key (see {@link resourceKey}),
+ * and fields that still hold a secret placeholder are left as they are in the tenant.
+ *
+ * @param local - The snapshot read from the local files
+ * @param live - The live tenant
+ * @param options - Whether live resources without a local file are deleted
+ * @returns The planned changes, creates and updates in {@link APPLY_ORDER} followed by deletes
+ */
+export function planTenantChanges(
+  local: TenantSnapshot,
+  live: LiveTenant,
+  options: PlanOptions = {}
+): TenantPlan {
+  const upserts: PlannedChange[] = [];
+  const deletes: PlannedChange[] = [];
+  const errors: string[] = [];
+
+  for (const section of APPLY_ORDER) {
+    const seen = new Set<string>();
+
+    // Live resources are told apart by their key only, so a key shared by several of them
+    // cannot be updated or deleted safely
+    const liveKeys = new Set<string>();
+    const ambiguous = new Set<string>();
+    for (const current of live.snapshot[section]) {
+      const key = resourceKey(section, current);
+      if (liveKeys.has(key) && !ambiguous.has(key)) {
+        ambiguous.add(key);
+        errors.push(
+          `${section}/${key}: more than one resource in the tenant has this name. Rename all but one of them in the tenant first.`
+        );
+      }
+      liveKeys.add(key);
+    }
+
+    for (const resource of local[section]) {
+      const key = resourceKey(section, resource);
+      if (!key || key.includes('undefined')) {
+        errors.push(`${section}: a resource is missing the fields that identify it`);
+        continue;
+      }
+      if (seen.has(key)) {
+        errors.push(`${section}/${key}: defined more than once`);
+        continue;
+      }
+      seen.add(key);
+
+      const current = live.snapshot[section].find((item) => resourceKey(section, item) === key);
+      if (!current) {
+        upserts.push({ section, action: 'create', key, resource });
+        continue;
+      }
+
+      const fields = changedFields(resource, current);
+      if (fields.length > 0) {
+        upserts.push({
+          section,
+          action: 'update',
+          key,
+          id: live.ids[section][key],
+          fields,
+          resource,
+        });
+      }
+    }
+
+    if (options.allowDelete) {
+      const deleted = new Set<string>();
+      for (const current of live.snapshot[section]) {
+        const key = resourceKey(section, current);
+        if (!seen.has(key) && !deleted.has(key)) {
+          deleted.add(key);
+          deletes.unshift({ section, action: 'delete', key, id: live.ids[section][key] });
+        }
+      }
+    }
+
+    errors.push(...validateSection(section, local, live));
+  }
+
+  return { changes: [...upserts, ...deletes], errors };
+}
+
+/**
+ * Computes a fingerprint of a plan, so an approved plan can be told apart from one
+ * computed after the files or the tenant changed.
+ */
+export function planFingerprint(plan: TenantPlan): string {
+  return createHash('sha256').update(canonicalJson(plan)).digest('hex');
+}
+
+function pick(resource: Record<string, any>, fields: string[]) {
+  return Object.fromEntries(Object.entries(resource).filter(([key]) => fields.includes(key)));
+}
+
+function omit(resource: Record<string, any>, fields: string[]) {
+  return Object.fromEntries(Object.entries(resource).filter(([key]) => !fields.includes(key)));
+}
+
+// Helper function to build the request body of a create or update
+function toBody(change: PlannedChange): Record<string, any> {
+  const resource = stripPlaceholders(change.resource ?? {});
+  const body =
+    change.action === 'update'
+      ? omit(pick(resource, change.fields ?? []), KEY_FIELDS[change.section])
+      : resource;
+
+  // Action secrets without a value cannot be created, so they are left as they are
+  if (Array.isArray(body.secrets)) {
+    body.secrets = body.secrets.filter((secret: Record<string, any>) => secret.value);
+  }
+
+  return body;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Helper function to deploy an action once its latest changes have been built
+async function deployAction(managementClient: ManagementClient, id: string, status?: string) {
+  for (let attempt = 0; status !== 'built' && attempt < ACTION_BUILD_ATTEMPTS; attempt++) {
+    await sleep(ACTION_BUILD_INTERVAL_MS);
+    status = (await managementClient.actions.get({ id })).data.status;
+  }
+
+  if (status !== 'built') {
+    throw new Error(`Action is still ${status ?? 'building'} and could not be deployed`);
+  }
+
+  await managementClient.actions.deploy({ id });
+}
+
+// Helper function to apply a single change, recording the IDs of created resources
+async function applyChange(
+  managementClient: ManagementClient,
+  change: PlannedChange,
+  ids: LiveTenant['ids']
+): Promise<void> {
+  const { section, action, key } = change;
+  const id = change.id as string;
+
+  if (action === 'delete') {
+    switch (section) {
+      case 'applications':
+        await managementClient.clients.delete({ client_id: id });
+        return;
+      case 'resource-servers':
+        await managementClient.resourceServers.delete({ id });
+        return;
+      case 'client-grants':
+        await managementClient.clientGrants.delete({ id });
+        return;
+      case 'actions':
+        await managementClient.actions.delete({ id });
+        return;
+      case 'triggers':
+        await managementClient.actions.updateTriggerBindings({ triggerId: id }, { bindings: [] });
+        return;
+      case 'forms':
+        await managementClient.forms.delete({ id });
+        return;
+      case 'log-streams':
+        await managementClient.logStreams.delete({ id });
+        return;
+    }
+  }
+
+  const body = toBody(change);
+  const create = action === 'create';
+
+  switch (section) {
+    case 'applications': {
+      if (create) {
+        const { data } = await managementClient.clients.create(body as any);
+        ids[section][key] = data.client_id;
+      } else {
+        await managementClient.clients.update({ client_id: id }, body);
+      }
+      return;
+    }
+    case 'resource-servers': {
+      if (create) {
+        const { data } = await managementClient.resourceServers.create(body as any);
+        ids[section][key] = data.id as string;
+      } else {
+        await managementClient.resourceServers.update({ id }, body);
+      }
+      return;
+    }
+    case 'client-grants': {
+      const { client, ...clientGrant } = body;
+      if (create) {
+        const { data } = await managementClient.clientGrants.create({
+          ...(clientGrant as any),
+          client_id: ids.applications[client],
+        });
+        ids[section][key] = data.id as string;
+      } else {
+        await managementClient.clientGrants.update({ id }, clientGrant);
+      }
+      return;
+    }
+    case 'actions': {
+      const { data } = create
+        ? await managementClient.actions.create(body as any)
+        : await managementClient.actions.update({ id }, body);
+      ids[section][key] = data.id;
+      await deployAction(managementClient, data.id, data.status);
+      return;
+    }
+    case 'triggers': {
+      const bindings = (change.resource?.actions ?? []).map((name: string) => ({
+        ref: { type: 'action_name' as const, value: name },
+        display_name: name,
+      }));
+      await managementClient.actions.updateTriggerBindings({ triggerId: key }, { bindings });
+      return;
+    }
+    case 'forms': {
+      if (create) {
+        const { data } = await managementClient.forms.create(body as any);
+        ids[section][key] = data.id as string;
+      } else {
+        await managementClient.forms.update({ id }, body);
+      }
+      return;
+    }
+    case 'log-streams': {
+      if (create) {
+        const { data } = await managementClient.logStreams.create(body as any);
+        ids[section][key] = data.id;
+      } else {
+        await managementClient.logStreams.update({ id }, omit(body, ['type']));
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Applies a plan to a tenant, one change at a time in plan order. Changed actions are
+ * deployed so that trigger bindings pick them up. Applying stops at the first failure,
+ * since later changes may depend on it.
+ *
+ * @param managementClient - A Management API client for the tenant
+ * @param plan - The plan to apply
+ * @param live - The live tenant the plan was computed against
+ * @returns The outcome of every planned change
+ */
+export async function applyTenantPlan(
+  managementClient: ManagementClient,
+  plan: TenantPlan,
+  live: LiveTenant
+): Promise<AppliedChange[]> {
+  const ids = Object.fromEntries(
+    Object.entries(live.ids).map(([section, sectionIds]) => [section, { ...sectionIds }])
+  ) as LiveTenant['ids'];
+  const results: AppliedChange[] = [];
+  let failed = false;
+
+  for (const change of plan.changes) {
+    const { section, action, key } = change;
+
+    if (failed) {
+      results.push({ section, action, key, status: 'skipped' });
+      continue;
+    }
+
+    try {
+      await applyChange(managementClient, change, ids);
+      results.push({ section, action, key, status: 'applied' });
+    } catch (error: any) {
+      failed = true;
+      results.push({
+        section,
+        action,
+        key,
+        status: 'failed',
+        error: error?.message || String(error),
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,560 @@
+import { mkdir, readdir, readFile, realpath, rm, stat, writeFile } from 'fs/promises';
+import * as path from 'path';
+import type { ManagementClient } from 'auth0';
+import { SECRET_KEY_PATTERN } from './http-utility.js';
+import { SINK_CREDENTIAL_FIELDS } from '../tools/log-streams.js';
+
+// Directories of an exported tenant, one per resource type
+export const SNAPSHOT_SECTIONS = [
+  'applications',
+  'resource-servers',
+  'client-grants',
+  'actions',
+  'triggers',
+  'forms',
+  'log-streams',
+] as const;
+
+export type SnapshotSection = (typeof SNAPSHOT_SECTIONS)[number];
+
+// Normalized resources by section. Actions keep their code inline until they are rendered to files.
+export type TenantSnapshot = Record<SnapshotSection, Record<string, any>[]>;
+
+/**
+ * A snapshot of a live tenant, along with the IDs of its resources by resource key.
+ * Exports never contain IDs, since they differ between tenants.
+ */
+export interface LiveTenant {
+  snapshot: TenantSnapshot;
+  ids: Record<SnapshotSection, Record<string, string>>;
+}
+
+// Server-generated fields that change without anyone editing the resource
+const NOISY_FIELDS: Record<SnapshotSection, string[]> = {
+  applications: [
+    'client_id',
+    'tenant',
+    'global',
+    'signing_keys',
+    'callback_url_template',
+    'owners',
+    'created_at',
+    'updated_at',
+  ],
+  'resource-servers': ['id', 'is_system', 'created_at', 'updated_at'],
+  'client-grants': ['id', 'client_id', 'created_at', 'updated_at'],
+  actions: [
+    'id',
+    'status',
+    'all_changes_deployed',
+    'built_at',
+    'deployed_version',
+    'installed_integration_id',
+    'integration',
+    'created_at',
+    'updated_at',
+  ],
+  triggers: [],
+  forms: ['id', 'embedded_at', 'submitted_at', 'created_at', 'updated_at'],
+  'log-streams': ['id', 'created_at', 'updated_at'],
+};
+
+const PAGE_SIZE = 100;
+
+const PLACEHOLDER_PATTERN = /^##[A-Z0-9_]+##$/;
+
+/**
+ * Builds the placeholder written in place of a secret, e.g. "##MY_APP_CLIENT_SECRET##".
+ * Placeholders are stable so exports of the same tenant stay identical.
+ */
+export function secretPlaceholder(...parts: string[]): string {
+  const name = parts
+    .join('_')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+  return `##${name}##`;
+}
+
+/**
+ * Checks whether a value is a secret placeholder written by an export.
+ */
+export function isSecretPlaceholder(value: unknown): boolean {
+  return typeof value === 'string' && PLACEHOLDER_PATTERN.test(value);
+}
+
+/**
+ * Returns the key that identifies a resource in both exports and live tenants.
+ * IDs differ between tenants, so resources are matched by name, identifier or trigger instead.
+ */
+export function resourceKey(section: SnapshotSection, resource: Record<string, any>): string {
+  switch (section) {
+    case 'resource-servers':
+      return resource.identifier;
+    case 'client-grants':
+      return `${resource.client} ${resource.audience}`;
+    case 'triggers':
+      return resource.trigger;
+    default:
+      return resource.name;
+  }
+}
+
+// Helper function to sort object keys recursively so serialized resources diff cleanly
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys(value[key])])
+    );
+  }
+
+  return value;
+}
+
+// Helper function to replace every secret-looking string value with a placeholder
+function replaceSecrets(value: any, owner: string): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceSecrets(item, owner));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && typeof item === 'string' && item
+          ? secretPlaceholder(owner, key)
+          : replaceSecrets(item, owner),
+      ])
+    );
+  }
+
+  return value;
+}
+
+function omit(resource: Record<string, any>, fields: string[]) {
+  return Object.fromEntries(Object.entries(resource).filter(([key]) => !fields.includes(key)));
+}
+
+// Helper function to fetch every page of a paginated list endpoint
+async function fetchAllPages(
+  fetchPage: (params: { page: number; per_page: number; include_totals: boolean }) => Promise<{
+    data: any;
+  }>,
+  key: string
+): Promise<Record<string, any>[]> {
+  const items: Record<string, any>[] = [];
+
+  for (let page = 0; ; page++) {
+    const { data } = await fetchPage({ page, per_page: PAGE_SIZE, include_totals: true });
+    const batch: Record<string, any>[] = Array.isArray(data) ? data : (data?.[key] ?? []);
+    items.push(...batch);
+
+    const total = Array.isArray(data) ? undefined : data?.total;
+    if (batch.length < PAGE_SIZE || (total !== undefined && items.length >= total)) {
+      return items;
+    }
+  }
+}
+
+function normalizeApplication(application: Record<string, any>) {
+  return replaceSecrets(omit(application, NOISY_FIELDS.applications), application.name);
+}
+
+function normalizeResourceServer(resourceServer: Record<string, any>) {
+  return replaceSecrets(
+    omit(resourceServer, NOISY_FIELDS['resource-servers']),
+    resourceServer.name
+  );
+}
+
+// Client grants refer to their application by name, so they can be imported into another tenant
+function normalizeClientGrant(clientGrant: Record<string, any>, client: string) {
+  return {
+    ...omit(clientGrant, NOISY_FIELDS['client-grants']),
+    client,
+    scope: [...(clientGrant.scope ?? [])].sort(),
+  };
+}
+
+function normalizeAction(action: Record<string, any>) {
+  const normalized = omit(action, NOISY_FIELDS.actions);
+
+  // Secret values are never returned by the API, so every secret gets a placeholder
+  if (Array.isArray(action.secrets)) {
+    normalized.secrets = action.secrets.map((secret: Record<string, any>) => ({
+      name: secret.name,
+      value: secretPlaceholder(action.name, secret.name),
+    }));
+  }
+
+  return normalized;
+}
+
+function normalizeForm(form: Record<string, any>) {
+  return omit(form, NOISY_FIELDS.forms);
+}
+
+function normalizeLogStream(logStream: Record<string, any>) {
+  const normalized = omit(logStream, NOISY_FIELDS['log-streams']);
+  if (!logStream.sink) {
+    return normalized;
+  }
+
+  const sink: Record<string, any> = { ...logStream.sink };
+  for (const field of SINK_CREDENTIAL_FIELDS) {
+    if (typeof sink[field] === 'string') {
+      sink[field] = secretPlaceholder(logStream.name, field);
+    }
+  }
+
+  if (Array.isArray(sink.httpCustomHeaders)) {
+    sink.httpCustomHeaders = sink.httpCustomHeaders.map((header: Record<string, any>) => ({
+      ...header,
+      value: secretPlaceholder(logStream.name, header.header),
+    }));
+  }
+
+  return { ...normalized, sink };
+}
+
+// Helper function to pair normalized resources with the IDs of the live resources they came from
+function collect(
+  section: SnapshotSection,
+  entries: Array<{ id: string; resource: Record<string, any> }>,
+  live: LiveTenant
+) {
+  const sorted = [...entries].sort((a, b) =>
+    String(resourceKey(section, a.resource) ?? '').localeCompare(
+      String(resourceKey(section, b.resource) ?? '')
+    )
+  );
+
+  live.snapshot[section] = sorted.map(({ resource }) => resource);
+  live.ids[section] = Object.fromEntries(
+    sorted.map(({ id, resource }) => [resourceKey(section, resource), id])
+  );
+}
+
+/**
+ * Fetches the applications, resource servers, client grants, actions, trigger bindings, forms
+ * and log streams of a tenant and normalizes them for export: server-generated fields are
+ * stripped, secrets are replaced with placeholders and resources are sorted by key.
+ *
+ * @param managementClient - A Management API client for the tenant
+ * @param sections - The sections to fetch; the others are left empty
+ * @returns The normalized tenant snapshot and the IDs of its resources
+ */
+export async function fetchLiveTenant(
+  managementClient: ManagementClient,
+  sections: readonly SnapshotSection[] = SNAPSHOT_SECTIONS
+): Promise<LiveTenant> {
+  // Client grants are keyed by application name and triggers are found through actions
+  const needs = (...dependents: SnapshotSection[]) =>
+    dependents.some((section) => sections.includes(section));
+  const skip = Promise.resolve([] as Record<string, any>[]);
+
+  const [applications, resourceServers, clientGrants, actions, formList, logStreams] =
+    await Promise.all([
+      needs('applications', 'client-grants')
+        ? fetchAllPages((params) => managementClient.clients.getAll(params), 'clients')
+        : skip,
+      needs('resource-servers')
+        ? fetchAllPages(
+            (params) => managementClient.resourceServers.getAll(params),
+            'resource_servers'
+          )
+        : skip,
+      needs('client-grants')
+        ? fetchAllPages((params) => managementClient.clientGrants.getAll(params), 'client_grants')
+        : skip,
+      needs('actions', 'triggers')
+        ? fetchAllPages((params) => managementClient.actions.getAll(params), 'actions')
+        : skip,
+      needs('forms')
+        ? fetchAllPages((params) => managementClient.forms.getAll(params), 'forms')
+        : skip,
+      needs('log-streams')
+        ? managementClient.logStreams.getAll().then(({ data }) => data as Record<string, any>[])
+        : skip,
+    ]);
+
+  // The list endpoint leaves out the form flow, so each form is fetched on its own
+  const forms = await Promise.all(
+    formList.map(async (form) => (await managementClient.forms.get({ id: form.id })).data)
+  );
+
+  // Only triggers that some action supports can have bindings
+  const triggerIds = [
+    ...new Set(
+      actions.flatMap((action) =>
+        (action.supported_triggers ?? []).map((trigger: Record<string, any>) => trigger.id)
+      )
+    ),
+  ];
+  const triggers = await Promise.all(
+    (needs('triggers') ? triggerIds : []).map(async (triggerId) => {
+      const { data } = await managementClient.actions.getTriggerBindings({ triggerId });
+      return {
+        trigger: triggerId,
+        actions: (data.bindings ?? []).map((binding) => binding.action?.name ?? ''),
+      };
+    })
+  );
+
+  // Global clients and system APIs are managed by Auth0, not by the tenant owner
+  const ownedApplications = applications.filter((application) => !application.global);
+  const clientNames = new Map(
+    ownedApplications.map((application) => [application.client_id, application.name])
+  );
+
+  const live = { snapshot: {}, ids: {} } as LiveTenant;
+  collect(
+    'applications',
+    ownedApplications.map((application) => ({
+      id: application.client_id,
+      resource: normalizeApplication(application),
+    })),
+    live
+  );
+  collect(
+    'resource-servers',
+    resourceServers
+      .filter((resourceServer) => !resourceServer.is_system)
+      .map((resourceServer) => ({
+        id: resourceServer.id,
+        resource: normalizeResourceServer(resourceServer),
+      })),
+    live
+  );
+  collect(
+    'client-grants',
+    clientGrants
+      .filter((clientGrant) => clientNames.has(clientGrant.client_id))
+      .map((clientGrant) => ({
+        id: clientGrant.id,
+        resource: normalizeClientGrant(clientGrant, clientNames.get(clientGrant.client_id)),
+      })),
+    live
+  );
+  collect(
+    'actions',
+    actions.map((action) => ({ id: action.id, resource: normalizeAction(action) })),
+    live
+  );
+  collect(
+    'triggers',
+    triggers
+      .filter((trigger) => trigger.actions.length > 0)
+      .map((trigger) => ({ id: trigger.trigger, resource: trigger })),
+    live
+  );
+  collect(
+    'forms',
+    forms.map((form) => ({ id: form.id as string, resource: normalizeForm(form) })),
+    live
+  );
+  collect(
+    'log-streams',
+    logStreams.map((logStream) => ({ id: logStream.id, resource: normalizeLogStream(logStream) })),
+    live
+  );
+
+  // Resources that were fetched only to resolve another section are left out
+  for (const section of SNAPSHOT_SECTIONS.filter((section) => !sections.includes(section))) {
+    live.snapshot[section] = [];
+    live.ids[section] = {};
+  }
+
+  return live;
+}
+
+/**
+ * Fetches a tenant and normalizes it for export. See {@link fetchLiveTenant}.
+ *
+ * @param managementClient - A Management API client for the tenant
+ * @returns The normalized tenant snapshot
+ */
+export async function fetchTenantSnapshot(
+  managementClient: ManagementClient
+): Promise<TenantSnapshot> {
+  return (await fetchLiveTenant(managementClient)).snapshot;
+}
+
+// Helper function to turn a resource name into a file name, e.g. "My App" -> "my-app"
+function toFileName(name: string | undefined, taken: Set<string>) {
+  const base =
+    String(name ?? '')
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, '-')
+      .replace(/^[-.]+|-+$/g, '') || 'unnamed';
+
+  let fileName = base;
+  for (let suffix = 2; taken.has(fileName); suffix++) {
+    fileName = `${base}-${suffix}`;
+  }
+  taken.add(fileName);
+
+  return fileName;
+}
+
+function toJson(value: unknown) {
+  return `${JSON.stringify(sortKeys(value), null, 2)}\n`;
+}
+
+/**
+ * Renders a tenant snapshot to its directory layout: one JSON file per resource in a
+ * directory per section, with action code written next to its action as a .js file.
+ *
+ * @param snapshot - The snapshot to render
+ * @returns File contents by path relative to the export directory
+ */
+export function renderTenantSnapshot(snapshot: TenantSnapshot): Record<string, string> {
+  const files: Record<string, string> = {};
+
+  for (const section of SNAPSHOT_SECTIONS) {
+    const taken = new Set<string>();
+
+    for (const resource of snapshot[section] ?? []) {
+      const fileName = toFileName(resource.name ?? resourceKey(section, resource), taken);
+
+      if (section === 'actions') {
+        const { code, ...action } = resource;
+        files[`${section}/${fileName}.js`] = code ?? '';
+        files[`${section}/${fileName}.json`] = toJson({ ...action, code: `./${fileName}.js` });
+      } else {
+        files[`${section}/${fileName}.json`] = toJson(resource);
+      }
+    }
+  }
+
+  return files;
+}
+
+// Helper function to make sure that writing an export only replaces an earlier export: the
+// directory is missing or empty, or it holds section directories of JSON and action code files
+async function assertReplaceableExport(directory: string): Promise<void> {
+  const entries = await readdir(directory).catch((error) => {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  });
+  if (entries.length === 0) {
+    return;
+  }
+
+  const sections = entries.filter((entry) =>
+    (SNAPSHOT_SECTIONS as readonly string[]).includes(entry)
+  );
+  if (sections.length === 0) {
+    throw new Error(`${directory} is not empty and does not hold an earlier export`);
+  }
+
+  for (const section of sections) {
+    const files = await readdir(path.join(directory, section), { withFileTypes: true });
+    const foreign = files.find((file) => !file.isFile() || !/\.(json|js)$/.test(file.name));
+    if (foreign) {
+      throw new Error(
+        `${path.join(directory, section)} holds ${foreign.name}, which is not part of an export`
+      );
+    }
+  }
+}
+
+/**
+ * Writes a tenant snapshot to a directory. Section directories are replaced as a whole,
+ * so resources deleted from the tenant also disappear from the export.
+ *
+ * @param directory - The export directory
+ * @param snapshot - The snapshot to write
+ * @returns The paths written, relative to the export directory
+ * @throws {Error} If the directory holds files other than an earlier export
+ */
+export async function writeTenantSnapshot(
+  directory: string,
+  snapshot: TenantSnapshot
+): Promise<string[]> {
+  const files = renderTenantSnapshot(snapshot);
+  await assertReplaceableExport(directory);
+
+  for (const section of SNAPSHOT_SECTIONS) {
+    await rm(path.join(directory, section), { recursive: true, force: true });
+    await mkdir(path.join(directory, section), { recursive: true });
+  }
+
+  for (const [file, content] of Object.entries(files)) {
+    await writeFile(path.join(directory, file), content);
+  }
+
+  return Object.keys(files);
+}
+
+// Helper function to read the code file of an action. Files are only read from the actions
+// directory itself, following symbolic links, so an export cannot point the server at other
+// files on disk. Returns null for a file outside the directory.
+async function readCodeFile(sectionDir: string, fileName: string): Promise<string | null> {
+  const codeFile = await realpath(path.resolve(sectionDir, fileName));
+  const relative = path.relative(await realpath(sectionDir), codeFile);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  return readFile(codeFile, 'utf8');
+}
+
+/**
+ * Reads a tenant snapshot back from an export directory. Missing section directories are
+ * read as empty, and action code is loaded from the file its action refers to.
+ *
+ * @param directory - The export directory
+ * @returns The snapshot
+ * @throws {Error} If the directory does not exist, or a file is not valid JSON or refers to missing
+ *   action code or code outside the actions directory
+ */
+export async function readTenantSnapshot(directory: string): Promise<TenantSnapshot> {
+  // A mistyped directory must not read as an empty tenant, which would plan to delete everything
+  if (!(await stat(directory)).isDirectory()) {
+    throw new Error(`${directory} is not a directory`);
+  }
+
+  const snapshot = {} as TenantSnapshot;
+
+  for (const section of SNAPSHOT_SECTIONS) {
+    const sectionDir = path.join(directory, section);
+    const fileNames = await readdir(sectionDir).catch((error) => {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    });
+
+    snapshot[section] = [];
+    for (const fileName of fileNames.filter((name) => name.endsWith('.json')).sort()) {
+      let resource: Record<string, any>;
+      try {
+        resource = JSON.parse(await readFile(path.join(sectionDir, fileName), 'utf8'));
+      } catch (error) {
+        throw new Error(
+          `${section}/${fileName} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      if (section === 'actions' && typeof resource.code === 'string') {
+        const codeFile = await readCodeFile(sectionDir, resource.code).catch(() => {
+          throw new Error(`${section}/${fileName} refers to missing code file ${resource.code}`);
+        });
+        if (codeFile === null) {
+          throw new Error(
+            `${section}/${fileName} refers to code file ${resource.code} outside ${section}/`
+          );
+        }
+        resource.code = codeFile;
+      }
+
+      snapshot[section].push(resource);
+    }
+  }
+
+  return snapshot;
+}
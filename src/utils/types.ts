@@ -1,5 +1,8 @@
 // This file contains common types and interfaces used across the application.
 
+import type { Auth0Config } from './config.js';
+import type { Environment } from './keychain.js';
+
 // Define ToolAnnotations interface based on MCP schema 2025-03-26
 export interface ToolAnnotations {
   destructiveHint?: boolean;
@@ -14,6 +17,7 @@ export interface Tool {
   name: string;
   description: string;
   inputSchema?: Record<string, any>;
+  outputSchema?: Record<string, any>;
   _meta?: {
     requiredScopes: string[];
     readOnly?: boolean;
@@ -29,6 +33,29 @@ export interface HandlerRequest {
 
 export interface HandlerConfig {
   domain: string | undefined;
+  // Set when the server was started with --read-only
+  readOnly?: boolean;
+  // Directory that tools may read tenant files from and write them to, set with --files-dir.
+  // Defaults to the working directory of the server.
+  filesDir?: string;
+  // Looks up the stored session of another tenant, for tools that work across tenants
+  getDomainConfig?: (domain: string) => Promise<Auth0Config | null>;
+  // Lists the tenants stored in keychain profiles and switches between them, for the
+  // tenant switching tools
+  listTenants?: () => Promise<TenantSession[]>;
+  switchTenant?: (profile: string) => Promise<TenantSession>;
+}
+
+// A tenant whose session is stored in a keychain profile
+export interface TenantSession {
+  profile: string;
+  domain: string | null;
+  expiresAt: number | null;
+  environment: Environment | null;
+  // True for the tenant that tool calls currently run against
+  current: boolean;
+  // False when the server was started with --allow-profiles and the profile is not listed
+  allowed: boolean;
 }
 
 export interface HandlerResponse {
@@ -36,6 +63,7 @@ export interface HandlerResponse {
     type: string;
     [key: string]: any;
   }>;
+  structuredContent?: Record<string, any>;
   isError: boolean;
 }
 
@@ -43,6 +71,7 @@ export interface HandlerResponse {
 export interface ClientOptions {
   tools: string[];
   readOnly?: boolean;
+  profile?: string;
 }
 
 // Auth0 response interfaces
@@ -104,6 +104,21 @@ describe('BaseClientManager', () => {
       );
     });
 
+    it('should pin the server to the profile it was configured with', async () => {
+      // Arrange
+      const options: ClientOptions = { tools: ['*'], profile: 'staging' };
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      // Act
+      await manager.configure(options);
+
+      // Assert
+      const written = JSON.parse(vi.mocked(fs.writeFileSync).mock.calls[0][1] as string);
+      expect(written.mcpServers.auth0.args).toEqual(
+        expect.arrayContaining(['run', '--profile', 'staging'])
+      );
+    });
+
     it('should preserve existing mcpServers entries when updating config', async () => {
       // Arrange
       const mockConfig = {
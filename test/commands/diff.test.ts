@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import diffTenants from '../../src/commands/diff.js';
+import { loadConfig, loadDomainConfig, validateConfig } from '../../src/utils/config.js';
+import { getManagementClient } from '../../src/utils/auth0-client.js';
+import * as tenantDiff from '../../src/utils/tenant-diff.js';
+import { cliOutput } from '../../src/utils/terminal.js';
+
+// Mock dependencies
+vi.mock('../../src/utils/config.js', () => ({
+  loadConfig: vi.fn(),
+  loadDomainConfig: vi.fn(),
+  validateConfig: vi.fn(),
+}));
+
+vi.mock('../../src/utils/auth0-client.js', () => ({
+  getManagementClient: vi.fn(),
+}));
+
+vi.mock('../../src/utils/tenant-diff.js', () => ({
+  diffTenants: vi.fn(),
+  fetchTenantComparison: vi.fn(),
+}));
+
+vi.mock('../../src/utils/terminal.js', () => ({
+  cliOutput: vi.fn(),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  log: vi.fn(),
+}));
+
+describe('diff command', () => {
+  const originalExit = process.exit;
+  const config = { token: 'mock-token', domain: 'test-tenant.auth0.com' };
+  const stagingConfig = { token: 'staging-token', domain: 'staging-tenant.auth0.com' };
+  const diff = {
+    only_in_source: [{ section: 'forms', key: 'Signup' }],
+    only_in_target: [],
+    changed: [
+      {
+        section: 'applications',
+        key: 'App',
+        differences: [
+          { path: 'grant_types', added: ['refresh_token'] },
+          { path: 'session_lifetime', source: 24, target: 168 },
+        ],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.exit = vi.fn() as any;
+
+    vi.mocked(loadConfig).mockResolvedValue(config);
+    vi.mocked(validateConfig).mockResolvedValue(true);
+    vi.mocked(loadDomainConfig).mockImplementation(async (domain) =>
+      domain === stagingConfig.domain ? stagingConfig : null
+    );
+    vi.mocked(getManagementClient).mockImplementation(
+      async (tenantConfig) => ({ domain: tenantConfig.domain }) as any
+    );
+    vi.mocked(tenantDiff.fetchTenantComparison).mockResolvedValue({} as any);
+    vi.mocked(tenantDiff.diffTenants).mockReturnValue(diff as any);
+  });
+
+  afterEach(() => {
+    process.exit = originalExit;
+  });
+
+  it('should compare a stored tenant with the current one', async () => {
+    await diffTenants({ source: 'staging-tenant.auth0.com' });
+
+    expect(loadDomainConfig).toHaveBeenCalledWith('staging-tenant.auth0.com');
+    expect(getManagementClient).toHaveBeenNthCalledWith(1, stagingConfig);
+    expect(getManagementClient).toHaveBeenNthCalledWith(2, config);
+
+    const output = vi.mocked(cliOutput).mock.calls[0][0];
+    expect(output).toContain('Differences from staging-tenant.auth0.com to test-tenant.auth0.com');
+    expect(output).toContain('forms/Signup');
+    expect(output).toContain('grant_types: + "refresh_token"');
+    expect(output).toContain('session_lifetime: 24 → 168');
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it('should print the differences as JSON', async () => {
+    await diffTenants({
+      source: 'https://staging-tenant.auth0.com/',
+      target: 'test-tenant.auth0.com',
+      json: true,
+    });
+
+    expect(JSON.parse(vi.mocked(cliOutput).mock.calls[0][0])).toEqual({
+      source: 'staging-tenant.auth0.com',
+      target: 'test-tenant.auth0.com',
+      ...diff,
+    });
+  });
+
+  it('should exit when a tenant has no stored session', async () => {
+    await diffTenants({ source: 'prod-tenant.auth0.com' });
+
+    expect(tenantDiff.fetchTenantComparison).not.toHaveBeenCalled();
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('prod-tenant.auth0.com'));
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should exit when the source and target are the same tenant', async () => {
+    await diffTenants({ source: 'https://test-tenant.auth0.com/' });
+
+    expect(tenantDiff.fetchTenantComparison).not.toHaveBeenCalled();
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('same tenant'));
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import exportTenant from '../../src/commands/export.js';
+import { loadConfig, validateConfig } from '../../src/utils/config.js';
+import { getManagementClient } from '../../src/utils/auth0-client.js';
+import { fetchTenantSnapshot, writeTenantSnapshot } from '../../src/utils/tenant-snapshot.js';
+import { cliOutput } from '../../src/utils/terminal.js';
+
+// Mock dependencies
+vi.mock('../../src/utils/config.js', () => ({
+  loadConfig: vi.fn(),
+  validateConfig: vi.fn(),
+}));
+
+vi.mock('../../src/utils/auth0-client.js', () => ({
+  getManagementClient: vi.fn(),
+}));
+
+vi.mock('../../src/utils/tenant-snapshot.js', () => ({
+  fetchTenantSnapshot: vi.fn(),
+  writeTenantSnapshot: vi.fn(),
+}));
+
+vi.mock('../../src/utils/terminal.js', () => ({
+  cliOutput: vi.fn(),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  log: vi.fn(),
+}));
+
+describe('export command', () => {
+  const originalExit = process.exit;
+  const config = { token: 'mock-token', domain: 'test-tenant.auth0.com' };
+  const snapshot = { applications: [] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.exit = vi.fn() as any;
+
+    vi.mocked(loadConfig).mockResolvedValue(config);
+    vi.mocked(validateConfig).mockResolvedValue(true);
+    vi.mocked(getManagementClient).mockResolvedValue({} as any);
+    vi.mocked(fetchTenantSnapshot).mockResolvedValue(snapshot as any);
+    vi.mocked(writeTenantSnapshot).mockResolvedValue(['applications/app.json']);
+  });
+
+  afterEach(() => {
+    process.exit = originalExit;
+  });
+
+  it('should write the tenant snapshot to the output directory', async () => {
+    await exportTenant({ output: 'tenant' });
+
+    expect(getManagementClient).toHaveBeenCalledWith(config);
+    expect(writeTenantSnapshot).toHaveBeenCalledWith(path.resolve('tenant'), snapshot);
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('test-tenant.auth0.com'));
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('1 files'));
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it('should exit when there is no valid session', async () => {
+    vi.mocked(validateConfig).mockResolvedValue(false);
+
+    await exportTenant({ output: 'tenant' });
+
+    expect(fetchTenantSnapshot).not.toHaveBeenCalled();
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('init'));
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should report export failures', async () => {
+    vi.mocked(fetchTenantSnapshot).mockRejectedValue(new Error('Forbidden'));
+
+    await exportTenant({ output: 'tenant' });
+
+    expect(writeTenantSnapshot).not.toHaveBeenCalled();
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('Forbidden'));
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import importTenant from '../../src/commands/import.js';
+import { loadConfig, validateConfig } from '../../src/utils/config.js';
+import { getManagementClient } from '../../src/utils/auth0-client.js';
+import { fetchLiveTenant, readTenantSnapshot } from '../../src/utils/tenant-snapshot.js';
+import { applyTenantPlan, planTenantChanges } from '../../src/utils/tenant-plan.js';
+import { cliOutput } from '../../src/utils/terminal.js';
+
+// Mock dependencies
+vi.mock('../../src/utils/config.js', () => ({
+  loadConfig: vi.fn(),
+  validateConfig: vi.fn(),
+}));
+
+vi.mock('../../src/utils/auth0-client.js', () => ({
+  getManagementClient: vi.fn(),
+}));
+
+vi.mock('../../src/utils/tenant-snapshot.js', () => ({
+  fetchLiveTenant: vi.fn(),
+  readTenantSnapshot: vi.fn(),
+}));
+
+vi.mock('../../src/utils/tenant-plan.js', () => ({
+  applyTenantPlan: vi.fn(),
+  planTenantChanges: vi.fn(),
+}));
+
+vi.mock('../../src/utils/terminal.js', () => ({
+  cliOutput: vi.fn(),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  log: vi.fn(),
+}));
+
+describe('import command', () => {
+  const originalExit = process.exit;
+  const config = { token: 'mock-token', domain: 'test-tenant.auth0.com' };
+  const local = { applications: [] };
+  const live = { snapshot: {}, ids: {} };
+  const plan = {
+    changes: [
+      { section: 'applications', action: 'update', key: 'My App', fields: ['callbacks'] },
+      { section: 'forms', action: 'create', key: 'Signup' },
+    ],
+    errors: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.exit = vi.fn() as any;
+
+    vi.mocked(loadConfig).mockResolvedValue(config);
+    vi.mocked(validateConfig).mockResolvedValue(true);
+    vi.mocked(getManagementClient).mockResolvedValue({} as any);
+    vi.mocked(readTenantSnapshot).mockResolvedValue(local as any);
+    vi.mocked(fetchLiveTenant).mockResolvedValue(live as any);
+    vi.mocked(planTenantChanges).mockReturnValue(plan as any);
+    vi.mocked(applyTenantPlan).mockResolvedValue([
+      { section: 'applications', action: 'update', key: 'My App', status: 'applied' },
+      { section: 'forms', action: 'create', key: 'Signup', status: 'applied' },
+    ]);
+  });
+
+  afterEach(() => {
+    process.exit = originalExit;
+  });
+
+  it('should print the plan without applying it', async () => {
+    await importTenant({ input: 'tenant', allowDelete: true });
+
+    expect(readTenantSnapshot).toHaveBeenCalledWith(path.resolve('tenant'));
+    expect(planTenantChanges).toHaveBeenCalledWith(local, live, { allowDelete: true });
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('update applications/My App'));
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('create forms/Signup'));
+    expect(applyTenantPlan).not.toHaveBeenCalled();
+  });
+
+  it('should apply the plan with --apply', async () => {
+    await importTenant({ input: 'tenant', apply: true });
+
+    expect(applyTenantPlan).toHaveBeenCalledWith({}, plan, live);
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('Applied 2 changes'));
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it('should refuse --apply in read-only mode', async () => {
+    await importTenant({ input: 'tenant', apply: true, readOnly: true });
+
+    expect(loadConfig).not.toHaveBeenCalled();
+    expect(applyTenantPlan).not.toHaveBeenCalled();
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should not apply a plan with errors', async () => {
+    vi.mocked(planTenantChanges).mockReturnValue({
+      changes: [],
+      errors: ["triggers/post-login: action 'Gone' does not exist"],
+    });
+
+    await importTenant({ input: 'tenant', apply: true });
+
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining("action 'Gone'"));
+    expect(applyTenantPlan).not.toHaveBeenCalled();
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should report the change that failed', async () => {
+    vi.mocked(applyTenantPlan).mockResolvedValue([
+      {
+        section: 'applications',
+        action: 'update',
+        key: 'My App',
+        status: 'failed',
+        error: 'Bad Request',
+      },
+      { section: 'forms', action: 'create', key: 'Signup', status: 'skipped' },
+    ]);
+
+    await importTenant({ input: 'tenant', apply: true });
+
+    expect(cliOutput).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to update applications/My App: Bad Request')
+    );
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
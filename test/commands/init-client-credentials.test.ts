@@ -4,6 +4,7 @@ import type { ClientType } from '../../src/clients/types';
 import { requestAuthorization } from '../../src/auth/device-auth-flow';
 import { requestClientCredentialsAuthorization } from '../../src/auth/client-credentials-flow';
 import { clients } from '../../src/clients/index';
+import { keychain } from '../../src/utils/keychain';
 
 // Mock dependencies
 vi.mock('../../src/auth/device-auth-flow', () => ({
@@ -14,6 +15,14 @@ vi.mock('../../src/auth/client-credentials-flow', () => ({
   requestClientCredentialsAuthorization: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock('../../src/utils/keychain', () => ({
+  keychain: {
+    useProfile: vi.fn(),
+    getProfile: vi.fn().mockReturnValue('default'),
+    setEnvironment: vi.fn().mockResolvedValue(true),
+  },
+}));
+
 vi.mock('../../src/utils/logger', () => ({
   log: vi.fn(),
   logError: vi.fn(),
@@ -151,4 +160,46 @@ describe('init command with client credentials', () => {
       readOnly: options.readOnly,
     });
   });
+
+  it('should store the session in the given profile and pin the client to it', async () => {
+    const options = {
+      client: 'claude' as ClientType,
+      tools: ['*'],
+      readOnly: false,
+      auth0Domain: 'staging-instance.auth0.com',
+      auth0ClientId: 'test-client-id',
+      auth0ClientSecret: 'test-client-secret',
+      profile: 'staging',
+    };
+
+    await init(options);
+
+    expect(keychain.useProfile).toHaveBeenCalledWith('staging');
+    expect(vi.mocked(keychain.useProfile).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(requestClientCredentialsAuthorization).mock.invocationCallOrder[0]
+    );
+    expect(clients.claude.configure).toHaveBeenCalledWith(
+      expect.objectContaining({ profile: 'staging' })
+    );
+  });
+
+  it('should tag the profile with the environment after logging in', async () => {
+    const options = {
+      client: 'claude' as ClientType,
+      tools: ['*'],
+      readOnly: false,
+      auth0Domain: 'prod-instance.auth0.com',
+      auth0ClientId: 'test-client-id',
+      auth0ClientSecret: 'test-client-secret',
+      profile: 'prod',
+      environment: 'production' as const,
+    };
+
+    await init(options);
+
+    expect(keychain.setEnvironment).toHaveBeenCalledWith('production');
+    expect(vi.mocked(keychain.setEnvironment).mock.invocationCallOrder[0]).toBeGreaterThan(
+      vi.mocked(requestClientCredentialsAuthorization).mock.invocationCallOrder[0]
+    );
+  });
 });
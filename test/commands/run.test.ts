@@ -30,6 +30,7 @@ vi.mock('../../src/utils/keychain.js', () => ({
     getToken: vi.fn().mockResolvedValue('mock-token'),
     getDomain: vi.fn().mockResolvedValue('mock-domain.auth0.com'),
     getTokenExpiresAt: vi.fn().mockResolvedValue(Date.now() + 3600000), // 1 hour from now
+    useProfile: vi.fn(),
   },
 }));
 
@@ -148,6 +149,17 @@ describe('Run Module', () => {
     expect(process.exit).not.toHaveBeenCalled();
   });
 
+  it('should pin the keychain to the given profile before validating the session', async () => {
+    await run({ tools: ['*'], profile: 'staging' });
+
+    expect(keychain.useProfile).toHaveBeenCalledWith('staging');
+    expect(logInfo).toHaveBeenCalledWith('Using profile staging');
+    expect(vi.mocked(keychain.useProfile).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(keychain.getToken).mock.invocationCallOrder[0]
+    );
+    expect(startServer).toHaveBeenCalled();
+  });
+
   describe('Authorization Validation', () => {
     it('should exit if no token is found', async () => {
       vi.mocked(keychain.getToken).mockResolvedValue(null);
@@ -203,4 +215,72 @@ describe('Run Module', () => {
       expect(startServer).not.toHaveBeenCalled();
     });
   });
+
+  describe('OAuth', () => {
+    const oauthOptions = {
+      tools: ['*'],
+      transport: 'http' as const,
+      authIssuer: 'https://issuer.auth0.com/',
+      authAudience: 'https://mcp.example.com/mcp',
+      callerProfiles: './callers.json',
+    };
+
+    it('should start without a stored session, since callers use their own profiles', async () => {
+      vi.mocked(keychain.getToken).mockResolvedValue(null);
+
+      await run(oauthOptions);
+
+      expect(keychain.getToken).not.toHaveBeenCalled();
+      expect(process.exit).not.toHaveBeenCalled();
+      expect(startServer).toHaveBeenCalledWith(oauthOptions);
+    });
+
+    it.each([
+      ['the stdio transport', { ...oauthOptions, transport: 'stdio' as const }],
+      ['no caller profiles', { ...oauthOptions, callerProfiles: undefined }],
+      ['an audience without issuer', { tools: ['*'], authAudience: 'https://mcp.example.com' }],
+    ])('should exit for OAuth options with %s', async (_name, options) => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('Process exit called');
+      });
+
+      await expect(run(options)).rejects.toThrow('Process exit called');
+
+      expect(logError).toHaveBeenCalledWith(expect.stringContaining('Configuration Error:'));
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+      expect(startServer).not.toHaveBeenCalled();
+    });
+
+    it('should exit when other machines could reach the server without OAuth', async () => {
+      const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('Process exit called');
+      });
+
+      await expect(run({ tools: ['*'], transport: 'http', host: '0.0.0.0' })).rejects.toThrow(
+        'Process exit called'
+      );
+
+      expect(logError).toHaveBeenCalledWith(
+        expect.stringContaining('--host 0.0.0.0 lets other machines use your Auth0 session')
+      );
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+      expect(startServer).not.toHaveBeenCalled();
+    });
+
+    it('should warn when serving other machines without OAuth is allowed', async () => {
+      const options = {
+        tools: ['*'],
+        transport: 'http' as const,
+        host: '0.0.0.0',
+        allowUnauthenticated: true,
+      };
+
+      await run(options);
+
+      expect(logInfo).toHaveBeenCalledWith(
+        expect.stringContaining('Serving on 0.0.0.0 without authentication')
+      );
+      expect(startServer).toHaveBeenCalledWith(options);
+    });
+  });
 });
@@ -10,6 +10,9 @@ vi.mock('../../src/utils/keychain.js', () => ({
     getToken: vi.fn(),
     getDomain: vi.fn(),
     getTokenExpiresAt: vi.fn(),
+    getEnvironment: vi.fn(),
+    getProfiles: vi.fn(),
+    forProfile: vi.fn(),
   },
 }));
 
@@ -91,6 +94,68 @@ describe('session command', () => {
     });
   });
 
+  describe('profiles', () => {
+    it('should show the session of the given profile', async () => {
+      // Arrange
+      const staging = {
+        getToken: vi.fn().mockResolvedValue('staging-token'),
+        getDomain: vi.fn().mockResolvedValue('staging-tenant.auth0.com'),
+        getTokenExpiresAt: vi.fn().mockResolvedValue(Date.now() + 3600000),
+        getEnvironment: vi.fn().mockResolvedValue('staging'),
+      };
+      vi.mocked(keychain.forProfile).mockReturnValue(staging as any);
+
+      // Act
+      await session({ profile: 'staging' });
+
+      // Assert
+      expect(keychain.forProfile).toHaveBeenCalledWith('staging');
+      expect(keychain.getToken).not.toHaveBeenCalled();
+      expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('Profile:'));
+      expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('staging-tenant.auth0.com'));
+      expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('Environment:'));
+    });
+
+    it('should list every stored profile with --all', async () => {
+      // Arrange
+      vi.mocked(keychain.getProfiles).mockResolvedValue(['default', 'staging']);
+      vi.mocked(keychain.forProfile).mockImplementation(
+        (profile: string) =>
+          ({
+            getDomain: vi.fn().mockResolvedValue(`${profile}-tenant.auth0.com`),
+            getTokenExpiresAt: vi
+              .fn()
+              .mockResolvedValue(profile === 'default' ? Date.now() - 3600000 : null),
+            getEnvironment: vi.fn().mockResolvedValue(profile === 'default' ? 'production' : null),
+          }) as any
+      );
+
+      // Act
+      await session({ all: true });
+
+      // Assert
+      const output = vi.mocked(cliOutput).mock.calls[0][0];
+      expect(output).toContain('Stored profiles');
+      expect(output).toContain('default-tenant.auth0.com');
+      expect(output).toContain('expired on');
+      expect(output).toContain('production');
+      expect(output).toContain('staging-tenant.auth0.com');
+    });
+
+    it('should show "no active session" message with --all when no profile is stored', async () => {
+      // Arrange
+      vi.mocked(keychain.getProfiles).mockResolvedValue([]);
+
+      // Act
+      await session({ all: true });
+
+      // Assert
+      expect(cliOutput).toHaveBeenCalledWith(
+        expect.stringContaining('No active authentication session found')
+      );
+    });
+  });
+
   describe('error handling', () => {
     it('should handle errors gracefully', async () => {
       // Arrange
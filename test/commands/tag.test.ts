@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import tag from '../../src/commands/tag.js';
+import { keychain } from '../../src/utils/keychain.js';
+import { cliOutput } from '../../src/utils/terminal.js';
+
+// Mock dependencies
+const mockProfileKeychain = vi.hoisted(() => ({
+  setEnvironment: vi.fn(),
+}));
+
+vi.mock('../../src/utils/keychain.js', () => ({
+  DEFAULT_PROFILE: 'default',
+  keychain: {
+    getProfiles: vi.fn(),
+    forProfile: vi.fn().mockReturnValue(mockProfileKeychain),
+  },
+}));
+
+vi.mock('../../src/utils/terminal.js', () => ({
+  cliOutput: vi.fn(),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  log: vi.fn(),
+}));
+
+describe('tag command', () => {
+  const originalExit = process.exit;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.exit = vi.fn() as any;
+    vi.mocked(keychain.getProfiles).mockResolvedValue(['default', 'prod']);
+    vi.mocked(keychain.forProfile).mockReturnValue(mockProfileKeychain as any);
+    mockProfileKeychain.setEnvironment.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    process.exit = originalExit;
+  });
+
+  it('should tag the given profile with the environment', async () => {
+    await tag('production', { profile: 'prod' });
+
+    expect(keychain.forProfile).toHaveBeenCalledWith('prod');
+    expect(mockProfileKeychain.setEnvironment).toHaveBeenCalledWith('production');
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('Tagged profile'));
+  });
+
+  it('should tag the default profile when no profile is given', async () => {
+    await tag('development');
+
+    expect(keychain.forProfile).toHaveBeenCalledWith('default');
+    expect(mockProfileKeychain.setEnvironment).toHaveBeenCalledWith('development');
+  });
+
+  it('should remove the tag with "none"', async () => {
+    await tag('none', { profile: 'prod' });
+
+    expect(mockProfileKeychain.setEnvironment).toHaveBeenCalledWith(null);
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('Removed the environment tag'));
+  });
+
+  it('should exit when the profile does not exist', async () => {
+    await tag('production', { profile: 'unknown' });
+
+    expect(mockProfileKeychain.setEnvironment).not.toHaveBeenCalled();
+    expect(cliOutput).toHaveBeenCalledWith(expect.stringContaining('No profile named'));
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
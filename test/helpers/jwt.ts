@@ -0,0 +1,36 @@
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+
+export interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  // The public key, as the issuer publishes it in its JWKS
+  jwk: Record<string, unknown>;
+}
+
+/**
+ * Creates an RSA key pair that stands in for the signing key of an issuer
+ * @param kid - The key ID
+ * @returns The signing key
+ */
+export function createSigningKey(kid: string): SigningKey {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return {
+    kid,
+    privateKey,
+    jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' },
+  };
+}
+
+/**
+ * Signs an RS256 access token, valid for an hour unless the claims say otherwise
+ * @param key - The signing key
+ * @param claims - The claims of the token
+ * @returns The JWT
+ */
+export function signToken(key: SigningKey, claims: Record<string, unknown>): string {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', kid: key.kid })}.${encode({ iat: now, exp: now + 3600, ...claims })}`;
+  return `${input}.${sign('RSA-SHA256', Buffer.from(input), key.privateKey).toString('base64url')}`;
+}
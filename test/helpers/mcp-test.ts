@@ -1,11 +1,12 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import type { Prompt, Resource, Tool } from '@modelcontextprotocol/sdk/types';
 
 /**
- * Options for starting an MCP test session.
+ * Options for starting an MCP test session on a spawned process, over stdio.
  */
-export interface MCPTestOptions {
+export interface MCPStdioTestOptions {
   /** Command to execute (e.g., 'npx') */
   command: string;
   /** Arguments to pass to the command */
@@ -14,6 +15,19 @@ export interface MCPTestOptions {
   env?: Record<string, string>;
 }
 
+/**
+ * Options for starting an MCP test session on a running server, over Streamable HTTP.
+ */
+export interface MCPHttpTestOptions {
+  /** URL of the MCP endpoint (e.g., 'http://127.0.0.1:3000/mcp') */
+  url: string;
+}
+
+/**
+ * Options for starting an MCP test session.
+ */
+export type MCPTestOptions = MCPStdioTestOptions | MCPHttpTestOptions;
+
 /**
  * Context passed to the MCP test callback.
  */
@@ -39,8 +53,8 @@ export type MCPTestCallback = (ctx: MCPTestContext) => Promise<void>;
 /**
  * Runs a test against an MCP server implementation.
  *
- * Connects to a locally spawned MCP server, discovers available features,
- * and provides testing utilities.
+ * Connects to a locally spawned MCP server, or to one served over HTTP,
+ * discovers available features, and provides testing utilities.
  *
  * @example
  * ```typescript
@@ -56,12 +70,16 @@ export type MCPTestCallback = (ctx: MCPTestContext) => Promise<void>;
  * );
  * ```
  */
-export async function mcpTest(
-  { command, args = [], env = {} }: MCPTestOptions,
-  callback: MCPTestCallback
-): Promise<void> {
-  // Start transport with subprocess
-  const transport = new StdioClientTransport({ command, args, env });
+export async function mcpTest(options: MCPTestOptions, callback: MCPTestCallback): Promise<void> {
+  // Start transport with subprocess, or connect to the HTTP endpoint
+  const transport =
+    'url' in options
+      ? new StreamableHTTPClientTransport(new URL(options.url))
+      : new StdioClientTransport({
+          command: options.command,
+          args: options.args ?? [],
+          env: options.env ?? {},
+        });
 
   // Create minimal client
   const client = new Client(
@@ -0,0 +1,194 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createServer, type Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startServer } from '../../src/server.js';
+import { loadProfileConfig } from '../../src/utils/config.js';
+import { createSigningKey, signToken } from '../helpers/jwt.js';
+import { server as mswServer } from '../setup';
+
+// Serve the real MCP SDK server over HTTP, with each caller mapped to a profile of their own
+vi.unmock('@modelcontextprotocol/sdk/server/index.js');
+
+vi.mock('../../src/utils/config.js', () => ({
+  loadConfig: vi.fn(),
+  validateConfig: vi.fn().mockResolvedValue(true),
+  loadDomainConfig: vi.fn().mockResolvedValue(null),
+  loadProfileConfig: vi.fn().mockImplementation(async (profile: string) => ({
+    token: `${profile}-token`,
+    domain: `${profile}-tenant.auth0.com`,
+  })),
+  getProfileEnvironment: vi.fn().mockResolvedValue(null),
+  getCurrentProfile: vi.fn().mockReturnValue('default'),
+  getCurrentEnvironment: vi.fn().mockResolvedValue(null),
+  listProfileSessions: vi.fn().mockResolvedValue([]),
+  switchProfile: vi.fn(),
+  readCallerProfiles: vi.fn().mockResolvedValue(
+    new Map([
+      ['auth0|alice', 'alice'],
+      ['auth0|bob', 'bob'],
+    ])
+  ),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('MCP Server over Streamable HTTP with OAuth', () => {
+  const signingKey = createSigningKey('test-key');
+  let jwksServer: HttpServer;
+  let issuer: string;
+  let httpServer: HttpServer;
+  let url: string;
+  const clients: Client[] = [];
+
+  const tokenFor = (subject: string, claims: Record<string, unknown> = {}) =>
+    signToken(signingKey, { iss: issuer, aud: url, sub: subject, ...claims });
+
+  // Connects a client that presents a bearer token and stays open until the end of the test
+  const connect = async (token: string) => {
+    const transport = new StreamableHTTPClientTransport(new URL(url), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    const client = new Client({ name: 'oauth-test', version: '0.1.0' });
+    await client.connect(transport);
+    clients.push(client);
+    return transport;
+  };
+
+  const postToolsList = (headers: Record<string, string>) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+  beforeAll(async () => {
+    // The clients talk to real local servers, which must not be intercepted
+    mswServer.close();
+
+    // Stands in for the issuer, which publishes its signing keys
+    jwksServer = createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ keys: [signingKey.jwk] }));
+    });
+    await new Promise<void>((resolve) => jwksServer.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${(jwksServer.address() as AddressInfo).port}/`;
+  });
+
+  beforeEach(async () => {
+    // The audience is the URL of the endpoint, which is only known once a free port is picked
+    const port = await new Promise<number>((resolve) => {
+      const probe = createServer().listen(0, '127.0.0.1', () => {
+        const { port: freePort } = probe.address() as AddressInfo;
+        probe.close(() => resolve(freePort));
+      });
+    });
+    url = `http://127.0.0.1:${port}/mcp`;
+
+    httpServer = (await startServer({
+      tools: ['*'],
+      transport: 'http',
+      port,
+      authIssuer: issuer,
+      authAudience: url,
+      callerProfiles: './callers.json',
+    })) as HttpServer;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => jwksServer.close(resolve));
+    mswServer.listen({ onUnhandledRequest: 'error' });
+  });
+
+  it('should advertise the protected resource metadata', async () => {
+    const origin = new URL(url).origin;
+
+    const responses = await Promise.all([
+      fetch(`${origin}/.well-known/oauth-protected-resource/mcp`),
+      fetch(`${origin}/.well-known/oauth-protected-resource`),
+    ]);
+
+    for (const response of responses) {
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        resource: url,
+        authorization_servers: [issuer],
+        bearer_methods_supported: ['header'],
+        resource_name: 'Auth0 MCP Server',
+      });
+    }
+  });
+
+  it('should reject requests without a valid token and point to the metadata', async () => {
+    const missing = await postToolsList({});
+    const otherAudience = await postToolsList({
+      Authorization: `Bearer ${tokenFor('auth0|alice', { aud: 'https://other.example.com' })}`,
+    });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe(
+      `Bearer error="invalid_token", error_description="Missing bearer token in the Authorization header", ` +
+        `resource_metadata="${new URL(url).origin}/.well-known/oauth-protected-resource/mcp"`
+    );
+    expect(otherAudience.status).toBe(401);
+    expect(await otherAudience.json()).toEqual({
+      error: 'invalid_token',
+      error_description: 'Access token was issued for another audience',
+    });
+  });
+
+  it('should refuse callers that are not mapped to a profile', async () => {
+    const response = await postToolsList({ Authorization: `Bearer ${tokenFor('auth0|mallory')}` });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: 'insufficient_scope' });
+  });
+
+  it('should run the tool calls of each caller against their own profile', async () => {
+    await connect(tokenFor('auth0|alice'));
+    await connect(tokenFor('auth0|bob'));
+
+    const [alice, bob] = await Promise.all(
+      clients.map((client) => client.callTool({ name: 'auth0_list_tenants', arguments: {} }))
+    );
+
+    // Callers cannot switch to, or even list, the profiles of other callers
+    for (const [result, profile] of [
+      [alice, 'alice'],
+      [bob, 'bob'],
+    ] as const) {
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Error: Tenant switching is not available' },
+        { type: 'text', text: `Tenant: ${profile}-tenant.auth0.com (profile: ${profile})` },
+      ]);
+    }
+    expect(loadProfileConfig).toHaveBeenCalledWith('alice');
+    expect(loadProfileConfig).toHaveBeenCalledWith('bob');
+  });
+
+  it('should not let a caller use the session of another caller', async () => {
+    const transport = await connect(tokenFor('auth0|alice'));
+
+    const response = await postToolsList({
+      Authorization: `Bearer ${tokenFor('auth0|bob')}`,
+      'Mcp-Session-Id': transport.sessionId!,
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,255 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { mcpTest } from '../helpers/mcp-test.js';
+import { startServer } from '../../src/server.js';
+import { TOOLS } from '../../src/tools/index.js';
+import { MAX_BODY_BYTES, startHttpTransport } from '../../src/utils/http-transport.js';
+import { mockConfig } from '../mocks/config';
+import { server as mswServer } from '../setup';
+
+// Serve the real MCP SDK server over HTTP, with stored sessions replaced by two profiles
+vi.unmock('@modelcontextprotocol/sdk/server/index.js');
+
+const mockProfiles = vi.hoisted(() => ({
+  current: 'default',
+  environments: { prod: 'production' } as Record<string, string>,
+}));
+
+vi.mock('../../src/utils/config.js', () => ({
+  loadConfig: vi.fn().mockImplementation(async () => mockConfig),
+  validateConfig: vi.fn().mockResolvedValue(true),
+  loadDomainConfig: vi.fn().mockResolvedValue(null),
+  getCurrentProfile: vi.fn().mockImplementation(() => mockProfiles.current),
+  getCurrentEnvironment: vi
+    .fn()
+    .mockImplementation(async () => mockProfiles.environments[mockProfiles.current] ?? null),
+  listProfileSessions: vi.fn().mockImplementation(async () =>
+    ['default', 'prod'].map((profile) => ({
+      profile,
+      domain: profile === 'default' ? mockConfig.domain : 'prod-tenant.auth0.com',
+      expiresAt: null,
+      environment: mockProfiles.environments[profile] ?? null,
+    }))
+  ),
+  switchProfile: vi.fn().mockImplementation(async (profile: string) => {
+    mockProfiles.current = profile;
+    return { token: 'prod-token', domain: 'prod-tenant.auth0.com' };
+  }),
+}));
+
+// Listing resources calls the Management API, which these tests do not reach
+vi.mock('../../src/resources/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/resources/index.js')>()),
+  listResources: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('MCP Server over Streamable HTTP', () => {
+  let httpServer: HttpServer;
+  let url: string;
+  const clients: Client[] = [];
+
+  // Connects a client that stays open until the end of the test
+  const connect = async () => {
+    const client = new Client({ name: 'http-test', version: '0.1.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(url)));
+    clients.push(client);
+    return client;
+  };
+
+  beforeAll(() => {
+    // The clients talk to a real local server, which must not be intercepted
+    mswServer.close();
+  });
+
+  beforeEach(async () => {
+    mockProfiles.current = 'default';
+    httpServer = (await startServer({ tools: ['*'], transport: 'http', port: 0 })) as HttpServer;
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  afterAll(() => {
+    mswServer.listen({ onUnhandledRequest: 'error' });
+  });
+
+  it('should expose exactly the tools defined in TOOLS', async () => {
+    await mcpTest({ url }, async ({ tools }) => {
+      expect(tools.map((tool) => tool.name).sort()).toEqual(TOOLS.map((tool) => tool.name).sort());
+    });
+  });
+
+  it('should expose the resource templates of tenant objects', async () => {
+    const client = await connect();
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toContain(
+      'auth0://actions/{id}/code'
+    );
+  });
+
+  it('should offer the workflow prompts', async () => {
+    const client = await connect();
+
+    const { prompts } = await client.listPrompts();
+    const { messages } = await client.getPrompt({
+      name: 'investigate_failed_logins',
+      arguments: { user: 'alice@example.com' },
+    });
+
+    expect(prompts.map((prompt) => prompt.name)).toContain('write_post_login_action');
+    expect(messages[0].content).toMatchObject({ type: 'text' });
+  });
+
+  it('should run tool calls and name the tenant in the response', async () => {
+    const client = await connect();
+
+    const result = await client.callTool({ name: 'auth0_list_tenants', arguments: {} });
+
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content[0].text).tenants.map((tenant: any) => tenant.profile)).toEqual([
+      'default',
+      'prod',
+    ]);
+    expect(content[1].text).toBe(`Tenant: ${mockConfig.domain} (profile: default)`);
+  });
+
+  it('should give each client its own session', async () => {
+    const first = new StreamableHTTPClientTransport(new URL(url));
+    const second = new StreamableHTTPClientTransport(new URL(url));
+    clients.push(new Client({ name: 'first', version: '0.1.0' }));
+    clients.push(new Client({ name: 'second', version: '0.1.0' }));
+
+    await clients[0].connect(first);
+    await clients[1].connect(second);
+
+    expect(first.sessionId).toEqual(expect.any(String));
+    expect(second.sessionId).toEqual(expect.any(String));
+    expect(first.sessionId).not.toBe(second.sessionId);
+  });
+
+  it('should reject requests for unknown sessions and requests without a session', async () => {
+    const headers = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    };
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    const unknownSession = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': 'unknown' },
+      body,
+    });
+    const noSession = await fetch(url, { method: 'POST', headers, body });
+    const wrongPath = await fetch(url.replace('/mcp', '/other'));
+
+    expect(unknownSession.status).toBe(404);
+    expect(noSession.status).toBe(400);
+    expect(wrongPath.status).toBe(404);
+  });
+
+  it('should end a session when the client deletes it', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(url));
+    const client = new Client({ name: 'http-test', version: '0.1.0' });
+    await client.connect(transport);
+    const sessionId = transport.sessionId!;
+
+    await transport.terminateSession();
+    await client.close();
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject request bodies that are too large', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({ padding: 'x'.repeat(MAX_BODY_BYTES) }),
+    });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const idleServer = await startHttpTransport(
+      () => new Server({ name: 'idle-test', version: '0.1.0' }, { capabilities: {} }),
+      { host: '127.0.0.1', port: 0, sessionIdleTimeout: 50 }
+    );
+    const idleUrl = `http://127.0.0.1:${(idleServer.address() as AddressInfo).port}/mcp`;
+
+    try {
+      const transport = new StreamableHTTPClientTransport(new URL(idleUrl));
+      const client = new Client({ name: 'http-test', version: '0.1.0' });
+      await client.connect(transport);
+      const sessionId = transport.sessionId!;
+      await client.close();
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const response = await fetch(idleUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          'Mcp-Session-Id': sessionId,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+      });
+      expect(response.status).toBe(404);
+    } finally {
+      idleServer.closeAllConnections();
+      await new Promise((resolve) => idleServer.close(resolve));
+    }
+  });
+
+  it('should refuse to serve other machines without OAuth unless allowed', async () => {
+    await expect(
+      startServer({ tools: ['*'], transport: 'http', host: '0.0.0.0', port: 0 })
+    ).rejects.toThrow('Serving on 0.0.0.0 without --auth-issuer requires --allow-unauthenticated');
+  });
+
+  it('should refuse to switch the tenant that every session shares', async () => {
+    const switcher = await connect();
+    const other = await connect();
+
+    const result = await switcher.callTool({
+      name: 'auth0_switch_tenant',
+      arguments: { profile: 'prod' },
+    });
+
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(result.isError).toBe(true);
+    expect(content[0].text).toContain('Switching tenants is not available over HTTP');
+    const otherResult = await other.callTool({ name: 'auth0_list_tenants', arguments: {} });
+    expect((otherResult.content as Array<{ text: string }>).at(-1)?.text).toBe(
+      `Tenant: ${mockConfig.domain} (profile: default)`
+    );
+  });
+});
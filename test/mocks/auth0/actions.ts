@@ -82,3 +82,48 @@ export const mockDeployActionResponse = {
   ...mockActions[0],
   status: 'built',
 };
+
+// Mock deployed versions of the first action
+export const mockActionVersions = [
+  {
+    id: 'version2',
+    action_id: 'action1',
+    number: 2,
+    status: 'built',
+    deployed: true,
+    runtime: 'node18',
+    code: 'exports.onExecutePostLogin = async (event, api) => { console.log("Version 2"); };',
+    created_at: '2023-02-01T00:00:00.000Z',
+  },
+  {
+    id: 'version1',
+    action_id: 'action1',
+    number: 1,
+    status: 'built',
+    deployed: false,
+    runtime: 'node18',
+    code: 'exports.onExecutePostLogin = async (event, api) => { console.log("Version 1"); };',
+    created_at: '2023-01-01T00:00:00.000Z',
+  },
+];
+
+// Mock post-login trigger bindings
+export const mockTriggerBindings = [
+  {
+    id: 'binding1',
+    trigger_id: 'post-login',
+    display_name: 'Test Action 1',
+    action: { id: 'action1', name: 'Test Action 1' },
+    created_at: '2023-01-01T00:00:00.000Z',
+    updated_at: '2023-01-01T00:00:00.000Z',
+  },
+];
+
+// Mock result of testing the first action against a post-login event
+export const mockActionTestResult = {
+  payload: {
+    logs: 'Hello from action 1\nSetting custom claim\n',
+    stats: { action_duration_ms: 12, boot_duration_ms: 30, network_duration_ms: 4 },
+    commands: [{ name: 'idToken.setCustomClaim', args: ['https://example.com/roles', ['admin']] }],
+  },
+};
@@ -0,0 +1,23 @@
+// Mock Auth0 client grants data for testing
+export const mockClientGrants = [
+  {
+    id: 'cgr_1',
+    client_id: 'app1',
+    audience: 'https://api.example.com',
+    scope: ['read:users'],
+  },
+  {
+    id: 'cgr_2',
+    client_id: 'app2',
+    audience: 'https://api2.example.com',
+    scope: ['read:data'],
+  },
+];
+
+// Mock client grant list response
+export const mockClientGrantListResponse = {
+  client_grants: mockClientGrants,
+  start: 0,
+  limit: 50,
+  total: mockClientGrants.length,
+};
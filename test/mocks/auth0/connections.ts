@@ -0,0 +1,38 @@
+// Mock Auth0 connections data for testing
+export const mockConnections = [
+  {
+    id: 'con_1',
+    name: 'Username-Password-Authentication',
+    display_name: 'Database',
+    strategy: 'auth0',
+    realms: ['Username-Password-Authentication'],
+    is_domain_connection: false,
+    enabled_clients: ['app1'],
+    options: {
+      brute_force_protection: true,
+      passwordPolicy: 'good',
+    },
+  },
+  {
+    id: 'con_2',
+    name: 'google-oauth2',
+    display_name: 'Google',
+    strategy: 'google-oauth2',
+    realms: ['google-oauth2'],
+    is_domain_connection: false,
+    enabled_clients: [],
+    options: {
+      client_id: 'google-client-id',
+      client_secret: 'google-client-secret',
+      scope: ['email', 'profile'],
+    },
+  },
+];
+
+// Mock connection list response
+export const mockConnectionListResponse = {
+  connections: mockConnections,
+  start: 0,
+  limit: 50,
+  total: mockConnections.length,
+};
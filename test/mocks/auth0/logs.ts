@@ -70,3 +70,88 @@ export const mockLogSearchResponse = {
 
 // Mock single log response
 export const mockSingleLog = mockLogs[0];
+
+// Mock logs of one hour, in chronological order, for paging through a time window
+export const mockWindowLogs = Array.from({ length: 250 }, (_, index) => {
+  const failed = index % 5 === 0;
+  return {
+    log_id: `log_w${String(index).padStart(4, '0')}`,
+    date: new Date(Date.UTC(2024, 4, 1, 12, 0, index * 14)).toISOString(),
+    type: failed ? (index % 10 === 0 ? 'fp' : 'fu') : 's',
+    description: failed ? (index % 10 === 0 ? 'Wrong email or password.' : 'Wrong email.') : '',
+    client_id: index % 2 === 0 ? 'app1' : 'app2',
+    client_name: index % 2 === 0 ? 'Test Application 1' : 'Test Application 2',
+    connection: 'Username-Password-Authentication',
+    ip: failed ? '203.0.113.7' : `192.168.1.${index % 4}`,
+    user_name: `user${index % 7}@example.com`,
+  };
+});
+
+// Mock Management API operations, newest first
+export const mockConfigChangeLogs = [
+  {
+    log_id: 'log_c4',
+    date: '2024-05-01T15:00:00.000Z',
+    type: 'fapi',
+    description: 'Update a client',
+    client_id: 'mgmt-cli',
+    client_name: 'Deploy CLI',
+    details: {
+      request: {
+        method: 'patch',
+        path: '/api/v2/clients/app1',
+        body: { callbacks: 'not-a-list' },
+        channel: 'api',
+      },
+      response: { statusCode: 400 },
+    },
+  },
+  {
+    log_id: 'log_c3',
+    date: '2024-05-01T14:00:00.000Z',
+    type: 'sapi',
+    description: 'Deploy an action',
+    details: {
+      request: {
+        method: 'post',
+        path: '/api/v2/actions/actions/action1/deploy',
+        channel: 'https://manage.auth0.com/',
+        auth: { user: { user_id: 'auth0|admin', email: 'admin@example.com' } },
+      },
+      response: { statusCode: 200 },
+    },
+  },
+  {
+    log_id: 'log_c2',
+    date: '2024-05-01T13:00:00.000Z',
+    type: 'sapi',
+    description: 'Update a client',
+    details: {
+      request: {
+        method: 'patch',
+        path: '/api/v2/clients/app1',
+        body: { callbacks: ['https://app.example.com/callback'], client_secret: 'rotated-secret' },
+        channel: 'https://manage.auth0.com/',
+        auth: { user: { user_id: 'auth0|admin', email: 'admin@example.com' } },
+      },
+      response: { statusCode: 200 },
+    },
+  },
+  {
+    log_id: 'log_c1',
+    date: '2024-05-01T12:00:00.000Z',
+    type: 'sapi',
+    description: 'Update a resource server',
+    client_id: 'mgmt-cli',
+    client_name: 'Deploy CLI',
+    details: {
+      request: {
+        method: 'patch',
+        path: '/api/v2/resource-servers/rs1',
+        body: { token_lifetime: 3600 },
+        channel: 'api',
+      },
+      response: { statusCode: 200 },
+    },
+  },
+];
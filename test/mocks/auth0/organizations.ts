@@ -0,0 +1,31 @@
+// Mock Auth0 organizations data for testing
+export const mockOrganizations = [
+  {
+    id: 'org_1',
+    name: 'acme',
+    display_name: 'Acme Corp',
+    metadata: { tier: 'enterprise' },
+  },
+  {
+    id: 'org_2',
+    name: 'globex',
+    display_name: 'Globex',
+  },
+];
+
+// Mock organization list response
+export const mockOrganizationListResponse = {
+  organizations: mockOrganizations,
+  start: 0,
+  limit: 50,
+  total: mockOrganizations.length,
+};
+
+// Mock members of the first organization
+export const mockOrganizationMembers = [
+  {
+    user_id: 'auth0|user1',
+    email: 'jane.doe@example.com',
+    name: 'Jane Doe',
+  },
+];
@@ -0,0 +1,40 @@
+// Mock Auth0 roles data for testing
+export const mockRoles = [
+  {
+    id: 'rol_1',
+    name: 'Admin',
+    description: 'Tenant administrators',
+  },
+  {
+    id: 'rol_2',
+    name: 'Viewer',
+    description: 'Read-only access',
+  },
+];
+
+// Mock role list response
+export const mockRoleListResponse = {
+  roles: mockRoles,
+  start: 0,
+  limit: 50,
+  total: mockRoles.length,
+};
+
+// Mock permissions assigned to the first role
+export const mockRolePermissions = [
+  {
+    permission_name: 'read:users',
+    description: 'Read user information',
+    resource_server_name: 'Test API 1',
+    resource_server_identifier: 'https://api.example.com',
+  },
+];
+
+// Mock users assigned to the first role
+export const mockRoleUsers = [
+  {
+    user_id: 'auth0|user1',
+    email: 'jane.doe@example.com',
+    name: 'Jane Doe',
+  },
+];
@@ -0,0 +1,15 @@
+// Mock Auth0 tenant settings data for testing
+export const mockTenantSettings = {
+  friendly_name: 'Test Tenant',
+  support_email: 'support@example.com',
+  default_audience: '',
+  session_lifetime: 168,
+  idle_session_lifetime: 72,
+  allowed_logout_urls: ['https://example.com/logout'],
+  flags: {
+    enable_client_connections: false,
+    revoke_refresh_token_grant: false,
+  },
+  sandbox_version: '18',
+  sandbox_versions_available: ['18', '22'],
+};
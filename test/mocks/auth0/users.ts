@@ -0,0 +1,50 @@
+// Mock Auth0 users data for testing
+export const mockUsers = [
+  {
+    user_id: 'auth0|user1',
+    email: 'jane.doe@example.com',
+    email_verified: true,
+    name: 'Jane Doe',
+    nickname: 'jane',
+    blocked: false,
+    logins_count: 12,
+    last_login: '2023-01-05T00:00:00.000Z',
+    identities: [
+      {
+        connection: 'Username-Password-Authentication',
+        provider: 'auth0',
+        user_id: 'user1',
+        isSocial: false,
+      },
+    ],
+  },
+  {
+    user_id: 'google-oauth2|user2',
+    email: 'john.smith@example.com',
+    email_verified: true,
+    name: 'John Smith',
+    nickname: 'john',
+    logins_count: 3,
+    last_login: '2023-01-06T00:00:00.000Z',
+    identities: [
+      {
+        connection: 'google-oauth2',
+        provider: 'google-oauth2',
+        user_id: 'user2',
+        isSocial: true,
+      },
+    ],
+  },
+];
+
+// Mock user list response
+export const mockUserListResponse = {
+  users: mockUsers,
+  start: 0,
+  limit: 50,
+  length: mockUsers.length,
+  total: mockUsers.length,
+};
+
+// Mock single user response
+export const mockSingleUser = mockUsers[0];
@@ -1,9 +1,26 @@
 import { http, HttpResponse, delay } from 'msw';
 import { mockApplications } from './auth0/applications';
 import { mockLogs } from './auth0/logs';
-import { mockActions, mockActionListResponse } from './auth0/actions';
+import {
+  mockActions,
+  mockActionListResponse,
+  mockActionVersions,
+  mockActionTestResult,
+  mockTriggerBindings,
+} from './auth0/actions';
 import { mockForms, mockFormListResponse } from './auth0/forms';
 import { mockResourceServers, mockResourceServerListResponse } from './auth0/resource-servers';
+import { mockUsers, mockUserListResponse } from './auth0/users';
+import { mockRoles, mockRoleListResponse, mockRolePermissions, mockRoleUsers } from './auth0/roles';
+import { mockConnections, mockConnectionListResponse } from './auth0/connections';
+import {
+  mockOrganizations,
+  mockOrganizationListResponse,
+  mockOrganizationMembers,
+} from './auth0/organizations';
+import { mockClientGrants, mockClientGrantListResponse } from './auth0/client-grants';
+import { mockLogStreams } from './auth0/log-streams';
+import { mockTenantSettings } from './auth0/tenant-settings';
 
 // Define handlers for Auth0 API endpoints
 export const handlers = [
@@ -196,6 +213,112 @@ export const handlers = [
     });
   }),
 
+  http.post('https://*/api/v2/actions/actions/:actionId/test', async ({ params, request }) => {
+    const { actionId } = params;
+    const action = mockActions.find((a) => a.id === actionId);
+
+    if (!action) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    const body = (await request.json()) as Record<string, any>;
+    if (!body.payload) {
+      return new HttpResponse(null, { status: 400 });
+    }
+
+    return HttpResponse.json(mockActionTestResult);
+  }),
+
+  http.delete('https://*/api/v2/actions/actions/:actionId', ({ params }) => {
+    const { actionId } = params;
+    const action = mockActions.find((a) => a.id === actionId);
+
+    if (!action) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  http.get('https://*/api/v2/actions/actions/:actionId/versions', ({ params }) => {
+    const { actionId } = params;
+    const action = mockActions.find((a) => a.id === actionId);
+
+    if (!action) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    const versions = actionId === mockActions[0].id ? mockActionVersions : [];
+    return HttpResponse.json({ versions, total: versions.length, page: 0, per_page: 5 });
+  }),
+
+  http.get('https://*/api/v2/actions/actions/:actionId/versions/:versionId', ({ params }) => {
+    const { actionId, versionId } = params;
+    const version = mockActionVersions.find((v) => v.action_id === actionId && v.id === versionId);
+
+    if (!version) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(version);
+  }),
+
+  http.post(
+    'https://*/api/v2/actions/actions/:actionId/versions/:versionId/deploy',
+    ({ params }) => {
+      const { actionId, versionId } = params;
+      const version = mockActionVersions.find(
+        (v) => v.action_id === actionId && v.id === versionId
+      );
+
+      if (!version) {
+        return new HttpResponse(null, { status: 404 });
+      }
+
+      return HttpResponse.json({
+        ...version,
+        id: 'version3',
+        number: mockActionVersions.length + 1,
+        deployed: true,
+      });
+    }
+  ),
+
+  http.get('https://*/api/v2/actions/triggers/:triggerId/bindings', ({ params }) => {
+    const { triggerId } = params;
+    const bindings = triggerId === 'post-login' ? mockTriggerBindings : [];
+    return HttpResponse.json({ bindings, total: bindings.length, page: 0, per_page: 20 });
+  }),
+
+  http.patch(
+    'https://*/api/v2/actions/triggers/:triggerId/bindings',
+    async ({ params, request }) => {
+      const { triggerId } = params;
+      const body = (await request.json()) as Record<string, any>;
+
+      // Resolve each reference to a mock action, as the API does
+      const bindings = (body.bindings || []).map((binding: Record<string, any>, index: number) => {
+        const action = mockActions.find((a) =>
+          binding.ref.type === 'action_id'
+            ? a.id === binding.ref.value
+            : a.name === binding.ref.value
+        );
+        return {
+          id: `binding${index + 1}`,
+          trigger_id: triggerId,
+          display_name: binding.display_name || action?.name,
+          action: action ? { id: action.id, name: action.name } : undefined,
+        };
+      });
+
+      if (bindings.some((binding: Record<string, any>) => !binding.action)) {
+        return new HttpResponse(null, { status: 404 });
+      }
+
+      return HttpResponse.json({ bindings });
+    }
+  ),
+
   // Forms API
   http.get('https://*/api/v2/forms', ({ request }) => {
     const authHeader = request.headers.get('Authorization');
@@ -245,6 +368,17 @@ export const handlers = [
     });
   }),
 
+  http.delete('https://*/api/v2/forms/:formId', ({ params }) => {
+    const { formId } = params;
+    const form = mockForms.find((f) => f.id === formId);
+
+    if (!form) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
   // Resource Servers API
   http.get('https://*/api/v2/resource-servers', ({ request }) => {
     const authHeader = request.headers.get('Authorization');
@@ -293,4 +427,473 @@ export const handlers = [
       ...updates,
     });
   }),
+
+  http.delete('https://*/api/v2/resource-servers/:resourceServerId', ({ params }) => {
+    const { resourceServerId } = params;
+    const resourceServer = mockResourceServers.find((rs) => rs.id === resourceServerId);
+
+    if (!resourceServer) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  // Users API
+  http.get('https://*/api/v2/users', ({ request }) => {
+    const authHeader = request.headers.get('Authorization');
+
+    // Check for invalid token
+    if (authHeader === 'Bearer invalid-token') {
+      return new HttpResponse(JSON.stringify({ error: 'Unauthorized', message: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return HttpResponse.json(mockUserListResponse);
+  }),
+
+  http.get('https://*/api/v2/users/:userId', ({ params }) => {
+    const { userId } = params;
+    const user = mockUsers.find((u) => u.user_id === userId);
+
+    if (!user) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(user);
+  }),
+
+  http.delete('https://*/api/v2/users/:userId', ({ params }) => {
+    const { userId } = params;
+    const user = mockUsers.find((u) => u.user_id === userId);
+
+    if (!user) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  http.post('https://*/api/v2/users', async ({ request }) => {
+    const newUser = (await request.json()) as Record<string, any>;
+    return HttpResponse.json({
+      ...newUser,
+      user_id: 'auth0|new-user-id',
+    });
+  }),
+
+  http.patch('https://*/api/v2/users/:userId', async ({ params, request }) => {
+    const { userId } = params;
+    const updates = (await request.json()) as Record<string, any>;
+    const user = mockUsers.find((u) => u.user_id === userId);
+
+    if (!user) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json({
+      ...user,
+      ...updates,
+    });
+  }),
+
+  http.post('https://*/api/v2/users/:userId/roles', ({ params }) => {
+    const { userId } = params;
+    const user = mockUsers.find((u) => u.user_id === userId);
+
+    if (!user) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  // Roles API
+  http.get('https://*/api/v2/roles', ({ request }) => {
+    const authHeader = request.headers.get('Authorization');
+
+    // Check for invalid token
+    if (authHeader === 'Bearer invalid-token') {
+      return new HttpResponse(JSON.stringify({ error: 'Unauthorized', message: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return HttpResponse.json(mockRoleListResponse);
+  }),
+
+  http.get('https://*/api/v2/roles/:roleId', ({ params }) => {
+    const { roleId } = params;
+    const role = mockRoles.find((r) => r.id === roleId);
+
+    if (!role) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(role);
+  }),
+
+  http.delete('https://*/api/v2/roles/:roleId', ({ params }) => {
+    const { roleId } = params;
+    const role = mockRoles.find((r) => r.id === roleId);
+
+    if (!role) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  http.post('https://*/api/v2/roles', async ({ request }) => {
+    const newRole = (await request.json()) as Record<string, any>;
+    return HttpResponse.json({
+      ...newRole,
+      id: 'new-role-id',
+    });
+  }),
+
+  http.patch('https://*/api/v2/roles/:roleId', async ({ params, request }) => {
+    const { roleId } = params;
+    const updates = (await request.json()) as Record<string, any>;
+    const role = mockRoles.find((r) => r.id === roleId);
+
+    if (!role) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json({
+      ...role,
+      ...updates,
+    });
+  }),
+
+  http.get('https://*/api/v2/roles/:roleId/permissions', ({ params }) => {
+    const { roleId } = params;
+    const role = mockRoles.find((r) => r.id === roleId);
+
+    if (!role) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(roleId === mockRoles[0].id ? mockRolePermissions : []);
+  }),
+
+  http.post('https://*/api/v2/roles/:roleId/permissions', ({ params }) => {
+    const { roleId } = params;
+    const role = mockRoles.find((r) => r.id === roleId);
+
+    if (!role) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 201 });
+  }),
+
+  http.get('https://*/api/v2/roles/:roleId/users', ({ params }) => {
+    const { roleId } = params;
+    const role = mockRoles.find((r) => r.id === roleId);
+
+    if (!role) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(roleId === mockRoles[0].id ? mockRoleUsers : []);
+  }),
+
+  // Connections API
+  http.get('https://*/api/v2/connections', ({ request }) => {
+    const authHeader = request.headers.get('Authorization');
+
+    // Check for invalid token
+    if (authHeader === 'Bearer invalid-token') {
+      return new HttpResponse(JSON.stringify({ error: 'Unauthorized', message: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return HttpResponse.json(mockConnectionListResponse);
+  }),
+
+  http.get('https://*/api/v2/connections/:connectionId', ({ params }) => {
+    const { connectionId } = params;
+    const connection = mockConnections.find((c) => c.id === connectionId);
+
+    if (!connection) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(connection);
+  }),
+
+  http.delete('https://*/api/v2/connections/:connectionId', ({ params }) => {
+    const { connectionId } = params;
+    const connection = mockConnections.find((c) => c.id === connectionId);
+
+    if (!connection) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  http.post('https://*/api/v2/connections', async ({ request }) => {
+    const newConnection = (await request.json()) as Record<string, any>;
+    return HttpResponse.json({
+      ...newConnection,
+      id: 'new-connection-id',
+    });
+  }),
+
+  http.patch('https://*/api/v2/connections/:connectionId', async ({ params, request }) => {
+    const { connectionId } = params;
+    const updates = (await request.json()) as Record<string, any>;
+    const connection = mockConnections.find((c) => c.id === connectionId);
+
+    if (!connection) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json({
+      ...connection,
+      ...updates,
+    });
+  }),
+
+  http.patch('https://*/api/v2/connections/:connectionId/clients', ({ params }) => {
+    const { connectionId } = params;
+    const connection = mockConnections.find((c) => c.id === connectionId);
+
+    if (!connection) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  // Organizations API
+  http.get('https://*/api/v2/organizations', ({ request }) => {
+    const authHeader = request.headers.get('Authorization');
+
+    // Check for invalid token
+    if (authHeader === 'Bearer invalid-token') {
+      return new HttpResponse(JSON.stringify({ error: 'Unauthorized', message: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return HttpResponse.json(mockOrganizationListResponse);
+  }),
+
+  http.get('https://*/api/v2/organizations/name/:name', ({ params }) => {
+    const { name } = params;
+    const organization = mockOrganizations.find((o) => o.name === name);
+
+    if (!organization) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(organization);
+  }),
+
+  http.get('https://*/api/v2/organizations/:orgId', ({ params }) => {
+    const { orgId } = params;
+    const organization = mockOrganizations.find((o) => o.id === orgId);
+
+    if (!organization) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(organization);
+  }),
+
+  http.delete('https://*/api/v2/organizations/:orgId', ({ params }) => {
+    const { orgId } = params;
+    const organization = mockOrganizations.find((o) => o.id === orgId);
+
+    if (!organization) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  http.post('https://*/api/v2/organizations', async ({ request }) => {
+    const newOrganization = (await request.json()) as Record<string, any>;
+    return HttpResponse.json({
+      ...newOrganization,
+      id: 'new-org-id',
+    });
+  }),
+
+  http.patch('https://*/api/v2/organizations/:orgId', async ({ params, request }) => {
+    const { orgId } = params;
+    const updates = (await request.json()) as Record<string, any>;
+    const organization = mockOrganizations.find((o) => o.id === orgId);
+
+    if (!organization) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json({
+      ...organization,
+      ...updates,
+    });
+  }),
+
+  http.get('https://*/api/v2/organizations/:orgId/members', ({ params }) => {
+    const { orgId } = params;
+    const organization = mockOrganizations.find((o) => o.id === orgId);
+
+    if (!organization) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(orgId === mockOrganizations[0].id ? mockOrganizationMembers : []);
+  }),
+
+  http.post('https://*/api/v2/organizations/:orgId/members', ({ params }) => {
+    const { orgId } = params;
+    const organization = mockOrganizations.find((o) => o.id === orgId);
+
+    if (!organization) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  http.post('https://*/api/v2/organizations/:orgId/invitations', async ({ params, request }) => {
+    const { orgId } = params;
+    const invitation = (await request.json()) as Record<string, any>;
+    const organization = mockOrganizations.find((o) => o.id === orgId);
+
+    if (!organization) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json({
+      ...invitation,
+      id: 'uinv_new',
+      organization_id: orgId,
+      invitation_url: `https://example.com/login?invitation=uinv_new&organization=${orgId}`,
+    });
+  }),
+
+  http.post(
+    'https://*/api/v2/organizations/:orgId/enabled_connections',
+    async ({ params, request }) => {
+      const { orgId } = params;
+      const body = (await request.json()) as Record<string, any>;
+      const organization = mockOrganizations.find((o) => o.id === orgId);
+
+      if (!organization) {
+        return new HttpResponse(null, { status: 404 });
+      }
+
+      return HttpResponse.json({
+        ...body,
+        connection: { name: 'Username-Password-Authentication', strategy: 'auth0' },
+      });
+    }
+  ),
+
+  // Client Grants API
+  http.get('https://*/api/v2/client-grants', ({ request }) => {
+    const authHeader = request.headers.get('Authorization');
+
+    // Check for invalid token
+    if (authHeader === 'Bearer invalid-token') {
+      return new HttpResponse(JSON.stringify({ error: 'Unauthorized', message: 'Invalid token' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return HttpResponse.json(mockClientGrantListResponse);
+  }),
+
+  http.post('https://*/api/v2/client-grants', async ({ request }) => {
+    const newClientGrant = (await request.json()) as Record<string, any>;
+    return HttpResponse.json({
+      ...newClientGrant,
+      id: 'new-client-grant-id',
+    });
+  }),
+
+  http.patch('https://*/api/v2/client-grants/:grantId', async ({ params, request }) => {
+    const { grantId } = params;
+    const updates = (await request.json()) as Record<string, any>;
+    const clientGrant = mockClientGrants.find((g) => g.id === grantId);
+
+    if (!clientGrant) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json({
+      ...clientGrant,
+      ...updates,
+    });
+  }),
+
+  http.delete('https://*/api/v2/client-grants/:grantId', ({ params }) => {
+    const { grantId } = params;
+    const clientGrant = mockClientGrants.find((g) => g.id === grantId);
+
+    if (!clientGrant) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  // Log streams endpoints
+  http.get('https://*/api/v2/log-streams', () => {
+    return HttpResponse.json(mockLogStreams);
+  }),
+
+  http.get('https://*/api/v2/log-streams/:id', ({ params }) => {
+    const { id } = params;
+    const logStream = mockLogStreams.find((l) => l.id === id);
+
+    if (!logStream) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    return HttpResponse.json(logStream);
+  }),
+
+  http.post('https://*/api/v2/log-streams', async ({ request }) => {
+    const body = (await request.json()) as Record<string, any>;
+    return HttpResponse.json({
+      id: 'lst_new',
+      name: body.name || `${body.type} stream`,
+      status: 'active',
+      ...body,
+    });
+  }),
+
+  http.patch('https://*/api/v2/log-streams/:id', async ({ params, request }) => {
+    const { id } = params;
+    const logStream = mockLogStreams.find((l) => l.id === id);
+
+    if (!logStream) {
+      return new HttpResponse(null, { status: 404 });
+    }
+
+    const updates = (await request.json()) as Record<string, any>;
+    return HttpResponse.json({
+      ...logStream,
+      ...updates,
+    });
+  }),
+
+  // Tenant settings endpoints
+  http.get('https://*/api/v2/tenants/settings', () => {
+    return HttpResponse.json(mockTenantSettings);
+  }),
 ];
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getPrompt, listPrompts } from '../../src/prompts/index';
+import { TOOLS } from '../../src/tools/index';
+
+describe('Prompts', () => {
+  // Helper function to get the text of the message that starts a workflow
+  const getText = (name: string, args: Record<string, string>) => {
+    const { messages } = getPrompt(name, args, TOOLS);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ role: 'user', content: { type: 'text' } });
+    return (messages[0].content as { text: string }).text;
+  };
+
+  describe('listPrompts', () => {
+    it('should offer the workflows whose tools are all available', () => {
+      expect(listPrompts(TOOLS).map((prompt) => prompt.name)).toEqual([
+        'setup_spa_with_api',
+        'investigate_failed_logins',
+        'write_post_login_action',
+      ]);
+
+      const logTools = TOOLS.filter(
+        (tool) => tool.name.endsWith('_log') || tool.name.endsWith('_logs')
+      );
+      expect(listPrompts(logTools).map((prompt) => prompt.name)).toEqual([
+        'investigate_failed_logins',
+      ]);
+      expect(listPrompts([])).toEqual([]);
+    });
+
+    it('should describe the arguments of every prompt', () => {
+      const [spa] = listPrompts(TOOLS);
+
+      expect(spa).toMatchObject({ title: 'Set up a SPA with an API' });
+      expect(spa.arguments?.map(({ name, required }) => [name, required ?? false])).toEqual([
+        ['app_name', true],
+        ['api_identifier', true],
+        ['app_url', false],
+        ['scopes', false],
+      ]);
+    });
+  });
+
+  describe('getPrompt', () => {
+    it('should chain the creation of the API and the application', () => {
+      const text = getText('setup_spa_with_api', {
+        app_name: 'Orders',
+        api_identifier: 'https://api.example.com',
+        scopes: 'read:orders, write:orders',
+      });
+
+      expect(text).toContain('auth0_create_resource_server');
+      expect(text).toContain('the scopes read:orders, write:orders');
+      expect(text).toContain('auth0_create_application, with app_type "spa"');
+      expect(text).toContain('http://localhost:3000 as callback URL');
+    });
+
+    it('should query the failed logins of the user within the time window', () => {
+      vi.useFakeTimers({ now: new Date('2025-06-10T00:00:00.000Z'), toFake: ['Date'] });
+      try {
+        const text = getText('investigate_failed_logins', {
+          user: 'al"ice@example.com',
+          days: '3',
+        });
+
+        expect(text).toContain(
+          '`(user_name:"al\\"ice@example.com" OR user_id:"al\\"ice@example.com") AND ' +
+            '(type:failed_login OR type:blocked OR type:breached_password) AND ' +
+            'date:[2025-06-07T00:00:00.000Z TO *]`'
+        );
+        expect(text).toContain('auth0_get_log');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should deploy and bind the action only after it is tested', () => {
+      const text = getText('write_post_login_action', {
+        goal: "Add the user's roles to the ID token",
+        action_name: 'Add roles',
+      });
+
+      expect(text).toContain("does the following: Add the user's roles to the ID token");
+      expect(text).toContain('named "Add roles"');
+      expect(text.indexOf('auth0_test_action')).toBeLessThan(text.indexOf('auth0_deploy_action'));
+      expect(text).toContain('auth0_update_trigger_bindings');
+    });
+
+    it('should fail for unknown prompts and missing or invalid arguments', () => {
+      expect(() => getPrompt('missing', {}, TOOLS)).toThrow('Unknown prompt: missing');
+      expect(() => getPrompt('write_post_login_action', {}, [])).toThrow('Unknown prompt');
+      expect(() => getPrompt('setup_spa_with_api', { app_name: ' ' }, TOOLS)).toThrow(
+        'Missing required arguments: app_name, api_identifier'
+      );
+      expect(() =>
+        getPrompt('investigate_failed_logins', { user: 'alice', days: 'week' }, TOOLS)
+      ).toThrow('days must be a positive whole number');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import {
+  isResource,
+  listChangedResources,
+  listResources,
+  listResourceTemplates,
+  readResource,
+} from '../../src/resources/index';
+import { TOOLS } from '../../src/tools/index';
+import { mockConfig } from '../mocks/config';
+import { mockApplications } from '../mocks/auth0/applications';
+import { mockActions } from '../mocks/auth0/actions';
+import { mockForms } from '../mocks/auth0/forms';
+import { mockConfigChangeLogs } from '../mocks/auth0/logs';
+import { mockResourceServers } from '../mocks/auth0/resource-servers';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Resources', () => {
+  const token = mockConfig.token;
+  const config = { domain: mockConfig.domain };
+
+  describe('listResourceTemplates', () => {
+    it('should offer a template for every type whose list and get tools are available', () => {
+      expect(listResourceTemplates(TOOLS).map((template) => template.uriTemplate)).toEqual([
+        'auth0://applications/{client_id}',
+        'auth0://resource-servers/{id}',
+        'auth0://actions/{id}/code',
+        'auth0://forms/{id}',
+      ]);
+
+      const formTools = TOOLS.filter(
+        (tool) => tool.name.endsWith('_forms') || tool.name.endsWith('_form')
+      );
+      expect(listResourceTemplates(formTools).map((template) => template.name)).toEqual(['Form']);
+    });
+  });
+
+  describe('listResources', () => {
+    it('should list the objects of every type with the list tools', async () => {
+      const resources = await listResources(TOOLS, token, config);
+
+      expect(resources.map((resource) => resource.uri)).toEqual([
+        ...mockApplications.map((app) => `auth0://applications/${app.client_id}`),
+        ...mockResourceServers.map((api) => `auth0://resource-servers/${api.id}`),
+        ...mockActions.map((action) => `auth0://actions/${action.id}/code`),
+        ...mockForms.map((form) => `auth0://forms/${form.id}`),
+      ]);
+      expect(resources[0]).toEqual({
+        uri: 'auth0://applications/app1',
+        name: 'Test Application 1',
+        description: 'Application app1',
+        mimeType: 'application/json',
+      });
+    });
+
+    it('should leave out the types whose list tool fails', async () => {
+      server.use(http.get('https://*/api/v2/forms', () => new HttpResponse(null, { status: 403 })));
+
+      const resources = await listResources(TOOLS, token, config);
+
+      expect(resources.some((resource) => resource.uri.startsWith('auth0://forms/'))).toBe(false);
+      expect(resources.some((resource) => resource.uri.startsWith('auth0://actions/'))).toBe(true);
+    });
+  });
+
+  describe('readResource', () => {
+    it('should read an application as JSON with the get tool', async () => {
+      const [content] = await readResource('auth0://applications/app1', TOOLS, token, config);
+
+      expect(content).toMatchObject({
+        uri: 'auth0://applications/app1',
+        mimeType: 'application/json',
+      });
+      expect(JSON.parse(content.text as string)).toMatchObject({
+        client_id: 'app1',
+        name: 'Test Application 1',
+      });
+    });
+
+    it('should read the code of an action as JavaScript', async () => {
+      const contents = await readResource('auth0://actions/action1/code', TOOLS, token, config);
+
+      expect(contents).toEqual([
+        {
+          uri: 'auth0://actions/action1/code',
+          mimeType: 'text/javascript',
+          text: mockActions[0].code,
+        },
+      ]);
+    });
+
+    it('should read forms and resource servers', async () => {
+      const [form] = await readResource('auth0://forms/form1', TOOLS, token, config);
+      const [api] = await readResource('auth0://resource-servers/rs1', TOOLS, token, config);
+
+      expect(JSON.parse(form.text as string)).toMatchObject({ id: 'form1', name: 'Test Form 1' });
+      expect(JSON.parse(api.text as string)).toMatchObject({ id: 'rs1', name: 'Test API 1' });
+    });
+
+    it('should fail for unknown objects and URIs', async () => {
+      await expect(
+        readResource('auth0://applications/missing', TOOLS, token, config)
+      ).rejects.toThrow("Application with client_id 'missing' not found.");
+      await expect(readResource('auth0://users/user1', TOOLS, token, config)).rejects.toThrow(
+        'Unknown resource: auth0://users/user1'
+      );
+      await expect(readResource('auth0://forms/form1', [], token, config)).rejects.toThrow(
+        'Unknown resource'
+      );
+    });
+  });
+
+  describe('isResource', () => {
+    it('should only accept URIs of the available resource types', () => {
+      expect(isResource('auth0://actions/action1/code', TOOLS)).toBe(true);
+      expect(isResource('auth0://actions/action1', TOOLS)).toBe(false);
+      expect(isResource('auth0://actions/action1/code', [])).toBe(false);
+    });
+  });
+
+  describe('listChangedResources', () => {
+    const from = new Date('2024-05-01T00:00:00Z');
+    const to = new Date('2024-05-02T00:00:00Z');
+
+    it('should find the resources changed by successful Management API operations', async () => {
+      let query: string | null = null;
+      server.use(
+        http.get('https://*/api/v2/logs', ({ request }) => {
+          query = new URL(request.url).searchParams.get('q');
+          return HttpResponse.json(mockConfigChangeLogs.filter((entry) => entry.type === 'sapi'));
+        })
+      );
+
+      const changes = await listChangedResources(TOOLS, token, config, from, to);
+
+      expect(query).toBe(
+        'type:sapi AND date:[2024-05-01T00:00:00.000Z TO 2024-05-02T00:00:00.000Z]'
+      );
+      expect(changes).toEqual([
+        { uri: 'auth0://actions/action1/code', logIds: ['log_c3'] },
+        { uri: 'auth0://applications/app1', logIds: ['log_c2'] },
+        { uri: 'auth0://resource-servers/rs1', logIds: ['log_c1'] },
+      ]);
+    });
+
+    it('should fail when the logs cannot be read', async () => {
+      server.use(http.get('https://*/api/v2/logs', () => new HttpResponse(null, { status: 401 })));
+
+      await expect(listChangedResources(TOOLS, token, config, from, to)).rejects.toThrow(
+        'Failed to list configuration changes'
+      );
+    });
+  });
+});
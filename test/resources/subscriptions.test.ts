@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createResourceWatcher } from '../../src/resources/subscriptions';
+import { listChangedResources } from '../../src/resources/index';
+import { log } from '../../src/utils/logger';
+
+// Mock dependencies
+vi.mock('../../src/resources/index.js', () => ({
+  listChangedResources: vi.fn(),
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+}));
+
+describe('createResourceWatcher', () => {
+  const mockListChangedResources = listChangedResources as ReturnType<typeof vi.fn>;
+  const onUpdated = vi.fn().mockResolvedValue(undefined);
+  const loadConfig = vi.fn().mockResolvedValue({
+    token: 'token',
+    config: { domain: 'test-tenant.auth0.com' },
+  });
+
+  const createWatcher = () =>
+    createResourceWatcher({ tools: [], interval: 30 * 1000, loadConfig, onUpdated });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date('2025-06-10T00:00:00.000Z') });
+    mockListChangedResources.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only poll the logs while the client holds subscriptions', async () => {
+    const watcher = createWatcher();
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(mockListChangedResources).not.toHaveBeenCalled();
+
+    watcher.subscribe('auth0://actions/action1/code');
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(mockListChangedResources).toHaveBeenCalledTimes(1);
+
+    // Every poll looks back a minute into the previous window, for logs that show up late
+    const [, , , from, to] = mockListChangedResources.mock.calls[0];
+    expect(from).toEqual(new Date('2025-06-10T00:00:00.000Z'));
+    expect(to).toEqual(new Date('2025-06-10T00:01:30.000Z'));
+
+    watcher.unsubscribe('auth0://actions/action1/code');
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(mockListChangedResources).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify about each change to a subscribed resource once', async () => {
+    const watcher = createWatcher();
+    watcher.subscribe('auth0://actions/action1/code');
+
+    mockListChangedResources.mockResolvedValue([
+      { uri: 'auth0://actions/action1/code', logIds: ['log_1'] },
+      { uri: 'auth0://forms/form1', logIds: ['log_2'] },
+    ]);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(onUpdated).toHaveBeenCalledTimes(1);
+    expect(onUpdated).toHaveBeenCalledWith('auth0://actions/action1/code');
+
+    // The next poll finds the same entry again in the overlap of the windows
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(onUpdated).toHaveBeenCalledTimes(1);
+
+    mockListChangedResources.mockResolvedValue([
+      { uri: 'auth0://actions/action1/code', logIds: ['log_1', 'log_3'] },
+    ]);
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(onUpdated).toHaveBeenCalledTimes(2);
+
+    watcher.close();
+  });
+
+  it('should keep polling the same window after a failed poll', async () => {
+    const watcher = createWatcher();
+    watcher.subscribe('auth0://forms/form1');
+
+    mockListChangedResources.mockRejectedValueOnce(new Error('Unauthorized'));
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(log).toHaveBeenCalledWith(
+      'Failed to check subscribed resources for changes: Unauthorized'
+    );
+
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    const [, , , from] = mockListChangedResources.mock.calls[1];
+    expect(from).toEqual(new Date('2025-06-09T23:59:00.000Z'));
+
+    watcher.close();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(mockListChangedResources).toHaveBeenCalledTimes(2);
+  });
+});
@@ -2,8 +2,24 @@ import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
 import { mockLoadConfig, mockValidateConfig, mockConfig } from './mocks/config';
 import { startServer } from '../src/server';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { TOOLS, HANDLERS } from '../src/tools/index';
+import { readResource } from '../src/resources/index';
+import { loadDomainConfig } from '../src/utils/config';
+
+// Profile that the mocked keychain is pinned to
+const mockProfile = vi.hoisted(() => ({
+  current: 'default',
+  environments: {} as Record<string, string>,
+}));
 
 // Mock dependencies
 vi.mock('../src/utils/package.js', () => ({
@@ -13,6 +29,33 @@ vi.mock('../src/utils/package.js', () => ({
 vi.mock('../src/utils/config.js', () => ({
   loadConfig: vi.fn().mockImplementation(() => mockLoadConfig()),
   validateConfig: vi.fn().mockImplementation(async (config) => mockValidateConfig(config)),
+  loadDomainConfig: vi.fn().mockResolvedValue(null),
+  getCurrentProfile: vi.fn().mockImplementation(() => mockProfile.current),
+  getCurrentEnvironment: vi
+    .fn()
+    .mockImplementation(async () => mockProfile.environments[mockProfile.current] ?? null),
+  listProfileSessions: vi.fn().mockImplementation(async () =>
+    ['default', 'staging', 'prod'].map((profile) => ({
+      profile,
+      domain: profile === 'default' ? 'test-tenant.auth0.com' : `${profile}-tenant.auth0.com`,
+      expiresAt: null,
+      environment: mockProfile.environments[profile] ?? null,
+    }))
+  ),
+  switchProfile: vi.fn().mockImplementation(async (profile: string) => {
+    mockProfile.current = profile;
+    return { token: `${profile}-token`, domain: `${profile}-tenant.auth0.com` };
+  }),
+  loadProfileConfig: vi
+    .fn()
+    .mockImplementation(async (profile: string) =>
+      profile === 'expired'
+        ? null
+        : { token: `${profile}-token`, domain: `${profile}-tenant.auth0.com` }
+    ),
+  getProfileEnvironment: vi
+    .fn()
+    .mockImplementation(async (profile: string) => mockProfile.environments[profile] ?? null),
 }));
 vi.mock('../src/utils/logger.js', () => ({
   log: vi.fn(),
@@ -28,7 +71,11 @@ const mockSetRequestHandler = vi.fn();
 const mockConnect = vi.fn().mockResolvedValue(undefined);
 const mockClose = vi.fn().mockResolvedValue(undefined);
 const mockSendLoggingMessage = vi.fn().mockResolvedValue(undefined);
+const mockSendToolListChanged = vi.fn().mockResolvedValue(undefined);
+const mockSendResourceListChanged = vi.fn().mockResolvedValue(undefined);
 const mockServer = {
+  sendToolListChanged: mockSendToolListChanged,
+  sendResourceListChanged: mockSendResourceListChanged,
   setRequestHandler: mockSetRequestHandler,
   connect: mockConnect,
   close: mockClose,
@@ -55,6 +102,13 @@ vi.mock('../src/tools/index.js', () => {
   };
 });
 
+vi.mock('../src/resources/index.js', () => ({
+  isResource: vi.fn().mockImplementation((uri: string) => uri.startsWith('auth0://')),
+  listResourceTemplates: vi.fn().mockReturnValue([]),
+  listResources: vi.fn().mockResolvedValue([]),
+  readResource: vi.fn().mockImplementation(async (uri: string) => [{ uri, text: '{}' }]),
+}));
+
 describe('Server', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -63,6 +117,8 @@ describe('Server', () => {
     mockConnect.mockClear();
     mockClose.mockClear();
     mockValidateConfig.mockImplementation(() => Promise.resolve(true));
+    mockProfile.current = 'default';
+    mockProfile.environments = {};
   });
 
   describe('Initialization', () => {
@@ -74,7 +130,14 @@ describe('Server', () => {
       expect(server).toBeDefined();
       expect(Server).toHaveBeenCalledWith(
         { name: 'auth0', version: '0.1.0-beta.1' },
-        { capabilities: { tools: {}, logging: {} } }
+        {
+          capabilities: {
+            tools: { listChanged: true },
+            resources: { subscribe: true, listChanged: true },
+            prompts: {},
+            logging: {},
+          },
+        }
       );
     });
 
@@ -169,7 +232,12 @@ describe('Server', () => {
           token: mockConfig.token,
           parameters: { param: 'value' },
         },
-        { domain: mockConfig.domain }
+        {
+          domain: mockConfig.domain,
+          getDomainConfig: expect.any(Function),
+          listTenants: expect.any(Function),
+          switchTenant: expect.any(Function),
+        }
       );
 
       // Verify the result is passed through correctly
@@ -177,6 +245,24 @@ describe('Server', () => {
       expect(result).toHaveProperty('isError', false);
     });
 
+    it('should refuse tools that --tools and --read-only leave out', async () => {
+      await startServer({ tools: ['auth0_*'] });
+      await startServer({ tools: ['*'], readOnly: true });
+
+      const results = await Promise.all(
+        mockSetRequestHandler.mock.calls
+          .filter((call) => call[0] === CallToolRequestSchema)
+          .map((call) => call[1]({ params: { name: 'test_tool', arguments: {} } }))
+      );
+
+      expect(results).toHaveLength(2);
+      for (const result of results) {
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('test_tool is not available');
+      }
+      expect(HANDLERS.test_tool).not.toHaveBeenCalled();
+    });
+
     it('should handle unknown tool errors', async () => {
       await startServer();
 
@@ -320,5 +406,245 @@ describe('Server', () => {
       expect(result).toHaveProperty('isError', true);
       expect(result.content[0].text).toContain('Error: Tool execution failed');
     });
+
+    it('should only offer the prompts whose tools are available', async () => {
+      await startServer();
+
+      const getRequestHandler = (schema: unknown) =>
+        mockSetRequestHandler.mock.calls.find((call) => call[0] === schema)![1];
+
+      // The mocked tools include none of the tools that the workflows call
+      expect(await getRequestHandler(ListPromptsRequestSchema)()).toEqual({ prompts: [] });
+      await expect(
+        getRequestHandler(GetPromptRequestSchema)({
+          params: { name: 'investigate_failed_logins', arguments: { user: 'alice' } },
+        })
+      ).rejects.toThrow('Unknown prompt: investigate_failed_logins');
+    });
+  });
+
+  describe('Tenant switching', () => {
+    const getCallToolHandler = () =>
+      mockSetRequestHandler.mock.calls.find((call) => call[0] === CallToolRequestSchema)![1];
+
+    const getHandlerConfig = () => (HANDLERS.test_tool as Mock).mock.calls[0][1];
+
+    it('should name the tenant in every tool response', async () => {
+      await startServer();
+
+      const result = await getCallToolHandler()({ params: { name: 'test_tool', arguments: {} } });
+
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Success' },
+        { type: 'text', text: 'Tenant: test-tenant.auth0.com (profile: default)' },
+      ]);
+    });
+
+    it('should run later tool calls against the tenant that was switched to', async () => {
+      await startServer();
+      const handleCallTool = getCallToolHandler();
+      await handleCallTool({ params: { name: 'test_tool', arguments: {} } });
+
+      const tenant = await getHandlerConfig().switchTenant('staging');
+      const result = await handleCallTool({ params: { name: 'test_tool', arguments: {} } });
+
+      expect(tenant).toMatchObject({ profile: 'staging', current: true, allowed: true });
+      expect(mockSendResourceListChanged).toHaveBeenCalledTimes(1);
+      expect(HANDLERS.test_tool).toHaveBeenLastCalledWith(
+        { token: 'staging-token', parameters: {} },
+        expect.objectContaining({ domain: 'staging-tenant.auth0.com' })
+      );
+      expect(result.content[1].text).toBe('Tenant: staging-tenant.auth0.com (profile: staging)');
+    });
+
+    it('should only switch to the profiles allowed by --allow-profiles', async () => {
+      await startServer({ tools: ['*'], allowProfiles: ['staging'] });
+      await getCallToolHandler()({ params: { name: 'test_tool', arguments: {} } });
+      const { listTenants, switchTenant } = getHandlerConfig();
+
+      expect(await listTenants()).toEqual([
+        expect.objectContaining({ profile: 'default', current: true, allowed: true }),
+        expect.objectContaining({ profile: 'staging', current: false, allowed: true }),
+        expect.objectContaining({ profile: 'prod', current: false, allowed: false }),
+      ]);
+      await expect(switchTenant('prod')).rejects.toThrow('not allowed by --allow-profiles');
+      await expect(switchTenant('unknown')).rejects.toThrow('No profile named unknown');
+      expect(mockProfile.current).toBe('default');
+    });
+
+    it('should only look up the sessions of other tenants in allowed profiles', async () => {
+      await startServer({ tools: ['*'], allowProfiles: ['staging'] });
+      await getCallToolHandler()({ params: { name: 'test_tool', arguments: {} } });
+
+      await getHandlerConfig().getDomainConfig('prod-tenant.auth0.com');
+
+      const [domain, isProfileAllowed] = vi.mocked(loadDomainConfig).mock.calls[0];
+      expect(domain).toBe('prod-tenant.auth0.com');
+      expect(['default', 'staging', 'prod'].map(isProfileAllowed!)).toEqual([true, true, false]);
+    });
+  });
+
+  describe('Production tenants', () => {
+    const getRequestHandler = (schema: unknown) =>
+      mockSetRequestHandler.mock.calls.find((call) => call[0] === schema)![1];
+
+    beforeEach(() => {
+      mockProfile.environments = { default: 'production' };
+    });
+
+    it('should refuse write tools until the call is confirmed', async () => {
+      await startServer();
+
+      const result = await getRequestHandler(CallToolRequestSchema)({
+        params: { name: 'test_tool', arguments: { param: 'value' } },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('test-tenant.auth0.com is tagged production');
+      expect(result.content[0].text).toContain('confirm_production: true');
+      expect(HANDLERS.test_tool).not.toHaveBeenCalled();
+    });
+
+    it('should run confirmed write tools with a warning banner', async () => {
+      await startServer();
+
+      const result = await getRequestHandler(CallToolRequestSchema)({
+        params: { name: 'test_tool', arguments: { param: 'value', confirm_production: true } },
+      });
+
+      expect(result.isError).toBe(false);
+      expect(HANDLERS.test_tool).toHaveBeenCalledWith(
+        { token: mockConfig.token, parameters: { param: 'value' } },
+        expect.anything()
+      );
+      expect(result.content[0].text).toContain('PRODUCTION TENANT');
+      expect(result.content[2].text).toBe(
+        'Tenant: test-tenant.auth0.com (profile: default, environment: production)'
+      );
+    });
+
+    it('should ask for the confirmation in the input schema of write tools', async () => {
+      await startServer();
+
+      const { tools } = await getRequestHandler(ListToolsRequestSchema)();
+
+      expect(tools[0].inputSchema.properties.confirm_production).toMatchObject({
+        type: 'boolean',
+      });
+      expect(tools[0].inputSchema.required).toContain('confirm_production');
+    });
+
+    it('should only expose read-only tools with --production-read-only', async () => {
+      await startServer({ tools: ['*'], productionReadOnly: true });
+
+      const { tools } = await getRequestHandler(ListToolsRequestSchema)();
+      const result = await getRequestHandler(CallToolRequestSchema)({
+        params: { name: 'test_tool', arguments: { confirm_production: true } },
+      });
+
+      expect(tools).toEqual([]);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('--production-read-only');
+      expect(HANDLERS.test_tool).not.toHaveBeenCalled();
+    });
+
+    it('should notify the client that the tool list changed when switching to production', async () => {
+      mockProfile.environments = { prod: 'production' };
+      await startServer();
+      await getRequestHandler(CallToolRequestSchema)({
+        params: { name: 'test_tool', arguments: {} },
+      });
+      const { switchTenant } = (HANDLERS.test_tool as Mock).mock.calls[0][1];
+
+      await switchTenant('staging');
+      expect(mockSendToolListChanged).not.toHaveBeenCalled();
+
+      await switchTenant('prod');
+      expect(mockSendToolListChanged).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('OAuth callers', () => {
+    const getRequestHandler = (schema: unknown) =>
+      mockSetRequestHandler.mock.calls.find((call) => call[0] === schema)![1];
+
+    // Auth info that the HTTP transport attaches to the requests of an authenticated caller
+    const callerExtra = (profile: string) => ({
+      authInfo: { token: 'caller-token', clientId: 'client', scopes: [], extra: { profile } },
+    });
+
+    it('should run tool calls with the session of the caller profile', async () => {
+      await startServer();
+
+      const result = await getRequestHandler(CallToolRequestSchema)(
+        { params: { name: 'test_tool', arguments: { param: 'value' } } },
+        callerExtra('alice')
+      );
+
+      expect(HANDLERS.test_tool).toHaveBeenCalledWith(
+        { token: 'alice-token', parameters: { param: 'value' } },
+        { domain: 'alice-tenant.auth0.com' }
+      );
+      expect(result.content[1].text).toBe('Tenant: alice-tenant.auth0.com (profile: alice)');
+      expect(mockProfile.current).toBe('default');
+    });
+
+    it('should refuse tool calls when the caller profile has no valid session', async () => {
+      await startServer();
+
+      const result = await getRequestHandler(CallToolRequestSchema)(
+        { params: { name: 'test_tool', arguments: {} } },
+        callerExtra('expired')
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual([
+        {
+          type: 'text',
+          text: expect.stringContaining('Profile expired has no valid session'),
+        },
+      ]);
+      expect(HANDLERS.test_tool).not.toHaveBeenCalled();
+    });
+
+    it('should apply the environment of the caller profile', async () => {
+      mockProfile.environments = { bob: 'production' };
+      await startServer();
+
+      const aliceTools = await getRequestHandler(ListToolsRequestSchema)({}, callerExtra('alice'));
+      const bobTools = await getRequestHandler(ListToolsRequestSchema)({}, callerExtra('bob'));
+
+      expect(aliceTools.tools[0].inputSchema.required).toBeUndefined();
+      expect(bobTools.tools[0].inputSchema.required).toContain('confirm_production');
+    });
+
+    it('should read resources with the session of the caller profile', async () => {
+      await startServer();
+
+      const result = await getRequestHandler(ReadResourceRequestSchema)(
+        { params: { uri: 'auth0://forms/form1' } },
+        callerExtra('alice')
+      );
+
+      expect(readResource).toHaveBeenCalledWith('auth0://forms/form1', TOOLS, 'alice-token', {
+        domain: 'alice-tenant.auth0.com',
+      });
+      expect(result.contents).toEqual([{ uri: 'auth0://forms/form1', text: '{}' }]);
+    });
+
+    it('should accept subscriptions to known resources only', async () => {
+      await startServer();
+
+      const subscribe = getRequestHandler(SubscribeRequestSchema);
+      const unsubscribe = getRequestHandler(UnsubscribeRequestSchema);
+
+      await expect(
+        subscribe({ params: { uri: 'auth0://forms/form1' } }, callerExtra('alice'))
+      ).resolves.toEqual({});
+      await expect(
+        subscribe({ params: { uri: 'https://example.com' } }, callerExtra('alice'))
+      ).rejects.toThrow('Unknown resource: https://example.com');
+      await expect(unsubscribe({ params: { uri: 'auth0://forms/form1' } })).resolves.toEqual({});
+    });
   });
 });
@@ -2,7 +2,12 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { http, HttpResponse } from 'msw';
 import { ACTION_HANDLERS } from '../../src/tools/actions';
 import { mockConfig } from '../mocks/config';
-import { mockActions, mockActionListResponse } from '../mocks/auth0/actions';
+import {
+  mockActions,
+  mockActionListResponse,
+  mockActionTestResult,
+  mockActionVersions,
+} from '../mocks/auth0/actions';
 import { server } from '../setup';
 
 // Mock dependencies
@@ -299,6 +304,27 @@ describe('Actions Tool Handlers', () => {
       expect(response.isError).toBe(true);
       expect(response.content[0].text).toContain('Failed to create action');
     });
+
+    it('should attach the code analysis to the created action', async () => {
+      const request = {
+        token,
+        parameters: {
+          name: 'Test Action',
+          supported_triggers: [{ id: 'post-login', version: 'v2' }],
+          code: "const axios = require('axios');\nexports.onExecutePostLogin = async () => {};",
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_create_action(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.code_analysis.warnings).toBe(1);
+      expect(parsedContent.code_analysis.findings[0].rule).toBe('undeclared-dependency');
+    });
   });
 
   describe('auth0_update_action', () => {
@@ -367,6 +393,26 @@ describe('Actions Tool Handlers', () => {
       expect(response.isError).toBe(true);
       expect(response.content[0].text).toContain('not found');
     });
+
+    it('should analyze new code against the current triggers and dependencies', async () => {
+      const request = {
+        token,
+        parameters: {
+          id: mockActions[0].id,
+          code: "const _ = require('lodash');\nexports.onExecuteCredentialsExchange = async () => {};",
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_update_action(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.code_analysis.warnings).toBe(1);
+      expect(parsedContent.code_analysis.findings[0].rule).toBe('missing-handler');
+    });
   });
 
   describe('auth0_deploy_action', () => {
@@ -430,5 +476,523 @@ describe('Actions Tool Handlers', () => {
       expect(response.isError).toBe(true);
       expect(response.content[0].text).toContain('Failed to deploy action');
     });
+
+    it('should refuse to deploy code that fails the analysis', async () => {
+      let deployed = false;
+      server.use(
+        http.get('https://*/api/v2/actions/actions/:actionId', () => {
+          return HttpResponse.json({
+            ...mockActions[0],
+            code: 'exports.onExecutePostLogin = async (event, api) => {',
+          });
+        }),
+        http.post('https://*/api/v2/actions/actions/:actionId/deploy', () => {
+          deployed = true;
+          return HttpResponse.json(mockActions[0]);
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_deploy_action(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('was not deployed');
+      expect(response.content[0].text).toContain('syntax-error');
+      expect(deployed).toBe(false);
+    });
+    it('should deploy code with warnings and return them', async () => {
+      let deployed = false;
+      server.use(
+        http.get('https://*/api/v2/actions/actions/:actionId', () => {
+          return HttpResponse.json({
+            ...mockActions[0],
+            code: 'const handlers = { onExecutePostLogin: async () => {} };\nmodule.exports = handlers;',
+          });
+        }),
+        http.post('https://*/api/v2/actions/actions/:actionId/deploy', () => {
+          deployed = true;
+          return HttpResponse.json(mockActions[0]);
+        })
+      );
+
+      const response = await ACTION_HANDLERS.auth0_deploy_action(
+        { token, parameters: { id: mockActions[0].id } },
+        { domain }
+      );
+
+      expect(response.isError).toBe(false);
+      expect(deployed).toBe(true);
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.code_analysis.findings[0].rule).toBe('missing-handler');
+    });
+  });
+
+  describe('auth0_list_action_versions', () => {
+    it('should return the versions of an action without their code', async () => {
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_list_action_versions(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.versions).toHaveLength(mockActionVersions.length);
+      expect(parsedContent.versions[0]).toEqual({
+        id: 'version2',
+        number: 2,
+        status: 'built',
+        deployed: true,
+        runtime: 'node18',
+        created_at: '2023-02-01T00:00:00.000Z',
+      });
+      expect(parsedContent.total).toBe(mockActionVersions.length);
+    });
+
+    it('should handle action not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'missing-action' },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_list_action_versions(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_get_action_version', () => {
+    it('should return a version including its code', async () => {
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id, version_id: 'version1' },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_get_action_version(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.number).toBe(1);
+      expect(parsedContent.code).toContain('Version 1');
+    });
+
+    it('should handle missing version_id parameter', async () => {
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_get_action_version(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('version_id is required');
+    });
+  });
+
+  describe('auth0_rollback_action', () => {
+    it('should deploy an earlier version again', async () => {
+      let capturedBody: Record<string, any> | undefined;
+      server.use(
+        http.post(
+          'https://*/api/v2/actions/actions/:actionId/versions/:versionId/deploy',
+          async ({ request }) => {
+            capturedBody = (await request.json()) as Record<string, any>;
+            return HttpResponse.json({ ...mockActionVersions[1], id: 'version3', number: 3 });
+          }
+        )
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id, version_id: 'version1' },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_rollback_action(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody).toEqual({ update_draft: false });
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.number).toBe(3);
+      expect(parsedContent.code).toContain('Version 1');
+    });
+
+    it('should handle version not found', async () => {
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id, version_id: 'missing-version' },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_rollback_action(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_get_trigger_bindings', () => {
+    it('should return the actions bound to a trigger', async () => {
+      const request = {
+        token,
+        parameters: { trigger_id: 'post-login' },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_get_trigger_bindings(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.trigger_id).toBe('post-login');
+      expect(parsedContent.bindings).toHaveLength(1);
+      expect(parsedContent.bindings[0].action_id).toBe('action1');
+      expect(parsedContent.bindings[0].action_name).toBe('Test Action 1');
+    });
+
+    it('should handle missing trigger_id parameter', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_get_trigger_bindings(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('trigger_id is required');
+    });
+  });
+
+  describe('auth0_update_trigger_bindings', () => {
+    it('should bind actions by id or name in the given order', async () => {
+      let capturedBody: Record<string, any> | undefined;
+      server.use(
+        http.patch('https://*/api/v2/actions/triggers/:triggerId/bindings', async ({ request }) => {
+          capturedBody = (await request.json()) as Record<string, any>;
+          return HttpResponse.json({ bindings: [] });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {
+          trigger_id: 'post-login',
+          bindings: [
+            { action_id: 'action1' },
+            { action_name: 'Test Action 2', display_name: 'Second' },
+          ],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_update_trigger_bindings(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody).toEqual({
+        bindings: [
+          { ref: { type: 'action_id', value: 'action1' } },
+          { ref: { type: 'action_name', value: 'Test Action 2' }, display_name: 'Second' },
+        ],
+      });
+    });
+
+    it('should return the resulting bindings', async () => {
+      const request = {
+        token,
+        parameters: {
+          trigger_id: 'post-login',
+          bindings: [{ action_id: 'action1' }],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_update_trigger_bindings(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.count).toBe(1);
+      expect(parsedContent.bindings[0].action_name).toBe('Test Action 1');
+    });
+
+    it('should reject bindings without an action reference', async () => {
+      const request = {
+        token,
+        parameters: {
+          trigger_id: 'post-login',
+          bindings: [{ display_name: 'Nothing' }],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_update_trigger_bindings(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('requires an action_id or action_name');
+    });
+  });
+
+  describe('auth0_test_action', () => {
+    it('should run the action against the sample event of its trigger', async () => {
+      let capturedBody: Record<string, any> | undefined;
+      server.use(
+        http.post('https://*/api/v2/actions/actions/:actionId/test', async ({ request }) => {
+          capturedBody = (await request.json()) as Record<string, any>;
+          return HttpResponse.json(mockActionTestResult);
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id, payload: { user: { email: 'tester@example.com' } } },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_test_action(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody?.payload.user.email).toBe('tester@example.com');
+      expect(capturedBody?.payload.user.user_id).toBeDefined();
+      expect(capturedBody?.payload.transaction).toBeDefined();
+
+      expect(response.structuredContent).toBeDefined();
+      expect(response.structuredContent?.trigger_id).toBe('post-login');
+      expect(response.structuredContent?.succeeded).toBe(true);
+      expect(response.structuredContent?.console_logs).toEqual([
+        'Hello from action 1',
+        'Setting custom claim',
+      ]);
+      expect(response.structuredContent?.api_calls).toEqual([
+        { name: 'idToken.setCustomClaim', args: ['https://example.com/roles', ['admin']] },
+      ]);
+      expect(response.structuredContent?.stats).toEqual(mockActionTestResult.payload.stats);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.console_logs).toHaveLength(2);
+    });
+
+    it('should report errors thrown by the action', async () => {
+      server.use(
+        http.post('https://*/api/v2/actions/actions/:actionId/test', () => {
+          return HttpResponse.json({
+            payload: {
+              logs: '',
+              error: { message: 'event.user.email is undefined' },
+            },
+          });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_test_action(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(response.structuredContent?.succeeded).toBe(false);
+      expect(response.structuredContent?.error.message).toContain('undefined');
+      expect(response.structuredContent?.console_logs).toEqual([]);
+    });
+
+    it('should reject a trigger the action does not support', async () => {
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id, trigger_id: 'credentials-exchange' },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_test_action(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain("does not support trigger 'credentials-exchange'");
+    });
+
+    it('should handle action not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'non-existent-id' },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_test_action(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_delete_action', () => {
+    it('should return a preview and confirmation token without deleting', async () => {
+      const deleteRequest = vi.fn();
+      server.use(
+        http.delete('https://*/api/v2/actions/actions/:actionId', () => {
+          deleteRequest();
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_delete_action(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(deleteRequest).not.toHaveBeenCalled();
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.preview.name).toBe(mockActions[0].name);
+      expect(parsedContent.confirmation_token).toEqual(expect.any(String));
+      expect(parsedContent.expires_at).toEqual(expect.any(String));
+    });
+
+    it('should delete when called again with the confirmation token', async () => {
+      const config = { domain };
+
+      const previewResponse = await ACTION_HANDLERS.auth0_delete_action(
+        { token, parameters: { id: mockActions[0].id } },
+        config
+      );
+      const { confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      const response = await ACTION_HANDLERS.auth0_delete_action(
+        { token, parameters: { id: mockActions[0].id, confirmation_token } },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.deleted).toBe(true);
+
+      // The confirmation token can only be used once
+      const replayResponse = await ACTION_HANDLERS.auth0_delete_action(
+        { token, parameters: { id: mockActions[0].id, confirmation_token } },
+        config
+      );
+
+      expect(replayResponse.isError).toBe(true);
+      expect(replayResponse.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should show the bound triggers and only force the delete when the preview did', async () => {
+      const deleteRequest = vi.fn();
+      server.use(
+        http.delete('https://*/api/v2/actions/actions/:actionId', ({ request }) => {
+          deleteRequest(new URL(request.url).searchParams.get('force'));
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+      const config = { domain };
+
+      const previewResponse = await ACTION_HANDLERS.auth0_delete_action(
+        { token, parameters: { id: mockActions[0].id } },
+        config
+      );
+      const { preview, confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      expect(preview).toMatchObject({ bound_triggers: ['post-login'], force: false });
+      expect(preview.warning).toContain('fails unless force is true');
+
+      // A plain delete that was approved cannot be turned into a forced one
+      const forcedResponse = await ACTION_HANDLERS.auth0_delete_action(
+        { token, parameters: { id: mockActions[0].id, force: true, confirmation_token } },
+        config
+      );
+
+      expect(forcedResponse.isError).toBe(true);
+      expect(forcedResponse.content[0].text).toContain('issued for force: false');
+      expect(deleteRequest).not.toHaveBeenCalled();
+
+      const forcedPreview = JSON.parse(
+        (
+          await ACTION_HANDLERS.auth0_delete_action(
+            { token, parameters: { id: mockActions[0].id, force: true } },
+            config
+          )
+        ).content[0].text
+      );
+      expect(forcedPreview.preview.warning).toContain('removed from the flows of post-login');
+
+      const response = await ACTION_HANDLERS.auth0_delete_action(
+        {
+          token,
+          parameters: {
+            id: mockActions[0].id,
+            force: true,
+            confirmation_token: forcedPreview.confirmation_token,
+          },
+        },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+      expect(deleteRequest).toHaveBeenCalledWith('true');
+    });
+
+    it('should reject an unknown confirmation token', async () => {
+      const request = {
+        token,
+        parameters: { id: mockActions[0].id, confirmation_token: 'not-a-real-token' },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_delete_action(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should handle action not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'missing-id' },
+      };
+
+      const config = { domain };
+
+      const response = await ACTION_HANDLERS.auth0_delete_action(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
   });
 });
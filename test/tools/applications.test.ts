@@ -125,6 +125,34 @@ describe('Applications Tool Handlers', () => {
       expect(appData.client_id).toBe(clientId);
     });
 
+    it('should redact the client secret', async () => {
+      const clientId = mockApplications[0].client_id;
+
+      server.use(
+        http.get(`https://*/api/v2/clients/${clientId}`, () => {
+          return HttpResponse.json({ ...mockApplications[0], client_secret: 'super-secret-value' });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {
+          client_id: clientId,
+        },
+      };
+
+      const config = { domain };
+
+      const response = await APPLICATION_HANDLERS.auth0_get_application(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(response.content[0].text).not.toContain('super-secret-value');
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      const appData = parsedContent.data || parsedContent;
+      expect(appData.client_secret).toBe('[REDACTED]');
+    });
+
     it('should handle missing client_id parameter', async () => {
       const request = {
         token,
@@ -251,5 +279,94 @@ describe('Applications Tool Handlers', () => {
     });
   });
 
-  // Note: auth0_delete_application and auth0_search_applications handlers are not implemented in the source code
+  describe('auth0_delete_application', () => {
+    it('should return a preview and confirmation token without deleting', async () => {
+      const deleteRequest = vi.fn();
+      server.use(
+        http.delete('https://*/api/v2/clients/:clientId', () => {
+          deleteRequest();
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { client_id: mockApplications[0].client_id },
+      };
+
+      const config = { domain };
+
+      const response = await APPLICATION_HANDLERS.auth0_delete_application(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(deleteRequest).not.toHaveBeenCalled();
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.preview.name).toBe(mockApplications[0].name);
+      expect(parsedContent.confirmation_token).toEqual(expect.any(String));
+      expect(parsedContent.expires_at).toEqual(expect.any(String));
+    });
+
+    it('should delete when called again with the confirmation token', async () => {
+      const config = { domain };
+
+      const previewResponse = await APPLICATION_HANDLERS.auth0_delete_application(
+        { token, parameters: { client_id: mockApplications[0].client_id } },
+        config
+      );
+      const { confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      const response = await APPLICATION_HANDLERS.auth0_delete_application(
+        { token, parameters: { client_id: mockApplications[0].client_id, confirmation_token } },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.deleted).toBe(true);
+
+      // The confirmation token can only be used once
+      const replayResponse = await APPLICATION_HANDLERS.auth0_delete_application(
+        { token, parameters: { client_id: mockApplications[0].client_id, confirmation_token } },
+        config
+      );
+
+      expect(replayResponse.isError).toBe(true);
+      expect(replayResponse.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should reject an unknown confirmation token', async () => {
+      const request = {
+        token,
+        parameters: {
+          client_id: mockApplications[0].client_id,
+          confirmation_token: 'not-a-real-token',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await APPLICATION_HANDLERS.auth0_delete_application(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should handle application not found', async () => {
+      const request = {
+        token,
+        parameters: { client_id: 'missing-id' },
+      };
+
+      const config = { domain };
+
+      const response = await APPLICATION_HANDLERS.auth0_delete_application(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  // Note: auth0_search_applications handler is not implemented in the source code
 });
@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { CLIENT_GRANT_HANDLERS } from '../../src/tools/client-grants';
+import { mockConfig } from '../mocks/config';
+import { mockClientGrants } from '../mocks/auth0/client-grants';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Client Grants Tool Handlers', () => {
+  const domain = mockConfig.domain;
+  const token = mockConfig.token;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  describe('auth0_list_client_grants', () => {
+    it('should return a list of client grants', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_list_client_grants(request, config);
+
+      expect(response.isError).toBe(false);
+
+      // The response should be a JSON string that we can parse
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.client_grants).toHaveLength(mockClientGrants.length);
+      expect(parsedContent.total).toBe(mockClientGrants.length);
+    });
+
+    it('should filter by client_id and audience', async () => {
+      let capturedUrl: URL | undefined;
+      server.use(
+        http.get('https://*/api/v2/client-grants', ({ request }) => {
+          capturedUrl = new URL(request.url);
+          return HttpResponse.json([mockClientGrants[0]]);
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { client_id: 'app1', audience: 'https://api.example.com' },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_list_client_grants(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedUrl?.searchParams.get('client_id')).toBe('app1');
+      expect(capturedUrl?.searchParams.get('audience')).toBe('https://api.example.com');
+    });
+
+    it('should handle API errors', async () => {
+      const request = {
+        token: 'invalid-token',
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_list_client_grants(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to list client grants');
+      expect(response.content[0].text).toContain('Unauthorized');
+    });
+  });
+
+  describe('auth0_create_client_grant', () => {
+    it('should create a client grant with scopes defined on the resource server', async () => {
+      const request = {
+        token,
+        parameters: {
+          client_id: 'app2',
+          audience: 'https://api.example.com',
+          scope: ['read:users', 'write:users'],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_create_client_grant(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.id).toBe('new-client-grant-id');
+      expect(parsedContent.scope).toEqual(['read:users', 'write:users']);
+    });
+
+    it('should reject scopes that are not defined on the resource server', async () => {
+      const createClientGrant = vi.fn();
+      server.use(
+        http.post('https://*/api/v2/client-grants', () => {
+          createClientGrant();
+          return HttpResponse.json({});
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {
+          client_id: 'app2',
+          audience: 'https://api.example.com',
+          scope: ['read:users', 'admin:all'],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_create_client_grant(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain(
+        "not defined on resource server 'https://api.example.com': admin:all."
+      );
+      expect(createClientGrant).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown audience', async () => {
+      const request = {
+        token,
+        parameters: {
+          client_id: 'app2',
+          audience: 'https://unknown.example.com',
+          scope: ['read:users'],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_create_client_grant(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain("'https://unknown.example.com' not found");
+    });
+
+    it('should handle missing audience parameter', async () => {
+      const request = {
+        token,
+        parameters: { client_id: 'app2', scope: ['read:users'] },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_create_client_grant(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('audience is required');
+    });
+  });
+
+  describe('auth0_update_client_grant', () => {
+    it('should update the scopes of a client grant', async () => {
+      const request = {
+        token,
+        parameters: { id: mockClientGrants[0].id, scope: ['read:users', 'write:users'] },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_update_client_grant(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.scope).toEqual(['read:users', 'write:users']);
+    });
+
+    it('should reject scopes that are not defined on the resource server', async () => {
+      const request = {
+        token,
+        parameters: { id: mockClientGrants[0].id, scope: ['read:users', 'read:unknown'] },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_update_client_grant(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain(
+        "The following scopes are not defined on resource server 'https://api.example.com': read:unknown"
+      );
+    });
+
+    it('should handle client grant not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'cgr_missing', scope: [] },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_update_client_grant(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_delete_client_grant', () => {
+    it('should return a preview before deleting a client grant', async () => {
+      const request = {
+        token,
+        parameters: { id: mockClientGrants[1].id },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_delete_client_grant(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.preview).toEqual(mockClientGrants[1]);
+      expect(parsedContent.confirmation_token).toEqual(expect.any(String));
+    });
+
+    it('should delete a client grant with a confirmation token', async () => {
+      const config = { domain };
+
+      const previewResponse = await CLIENT_GRANT_HANDLERS.auth0_delete_client_grant(
+        { token, parameters: { id: mockClientGrants[1].id } },
+        config
+      );
+      const { confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_delete_client_grant(
+        { token, parameters: { id: mockClientGrants[1].id, confirmation_token } },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.id).toBe(mockClientGrants[1].id);
+      expect(parsedContent.deleted).toBe(true);
+    });
+
+    it('should not accept a confirmation token issued for another client grant', async () => {
+      const config = { domain };
+
+      const previewResponse = await CLIENT_GRANT_HANDLERS.auth0_delete_client_grant(
+        { token, parameters: { id: mockClientGrants[1].id } },
+        config
+      );
+      const { confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_delete_client_grant(
+        { token, parameters: { id: mockClientGrants[0].id, confirmation_token } },
+        config
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should handle client grant not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'cgr_missing' },
+      };
+
+      const config = { domain };
+
+      const response = await CLIENT_GRANT_HANDLERS.auth0_delete_client_grant(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { CONNECTION_HANDLERS } from '../../src/tools/connections';
+import { mockConfig } from '../mocks/config';
+import { mockConnections } from '../mocks/auth0/connections';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Connections Tool Handlers', () => {
+  const domain = mockConfig.domain;
+  const token = mockConfig.token;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  describe('auth0_list_connections', () => {
+    it('should return a list of connections', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_list_connections(request, config);
+
+      expect(response.isError).toBe(false);
+
+      // The response should be a JSON string that we can parse
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.connections).toHaveLength(mockConnections.length);
+      expect(parsedContent.connections[1].strategy).toBe('google-oauth2');
+      expect(parsedContent.total).toBe(mockConnections.length);
+    });
+
+    it('should pass the strategy filter', async () => {
+      let capturedUrl: URL | undefined;
+      server.use(
+        http.get('https://*/api/v2/connections', ({ request }) => {
+          capturedUrl = new URL(request.url);
+          return HttpResponse.json([]);
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { strategy: ['google-oauth2'] },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_list_connections(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedUrl?.searchParams.get('strategy')).toBe('google-oauth2');
+    });
+
+    it('should handle API errors', async () => {
+      const request = {
+        token: 'invalid-token',
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_list_connections(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to list connections');
+      expect(response.content[0].text).toContain('Unauthorized');
+    });
+  });
+
+  describe('auth0_get_connection', () => {
+    it('should return a connection with its secrets redacted', async () => {
+      const request = {
+        token,
+        parameters: { id: mockConnections[1].id },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_get_connection(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(response.content[0].text).not.toContain('google-client-secret');
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.name).toBe('google-oauth2');
+      expect(parsedContent.options.client_id).toBe('google-client-id');
+      expect(parsedContent.options.client_secret).toBe('[REDACTED]');
+    });
+
+    it('should handle connection not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'con_missing' },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_get_connection(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_create_connection', () => {
+    it('should create a new connection without echoing the secret', async () => {
+      const request = {
+        token,
+        parameters: {
+          name: 'github',
+          strategy: 'github',
+          options: { client_id: 'gh-client-id', client_secret: 'gh-client-secret' },
+          enabled_clients: ['app1'],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_create_connection(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.id).toBe('new-connection-id');
+      expect(parsedContent.strategy).toBe('github');
+      expect(parsedContent.enabled_clients).toEqual(['app1']);
+      expect(parsedContent.options.client_secret).toBe('[REDACTED]');
+    });
+
+    it('should handle missing strategy parameter', async () => {
+      const request = {
+        token,
+        parameters: { name: 'github' },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_create_connection(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('strategy is required');
+    });
+  });
+
+  describe('auth0_update_connection', () => {
+    it('should update an existing connection', async () => {
+      const request = {
+        token,
+        parameters: { id: mockConnections[0].id, display_name: 'Customers' },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_update_connection(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.display_name).toBe('Customers');
+    });
+
+    it('should keep the stored secrets of options read back from the connection', async () => {
+      let capturedBody: any;
+      server.use(
+        http.patch('https://*/api/v2/connections/:connectionId', async ({ request }) => {
+          capturedBody = await request.json();
+          return HttpResponse.json({ ...mockConnections[1], ...capturedBody });
+        })
+      );
+      const config = { domain };
+
+      const read = await CONNECTION_HANDLERS.auth0_get_connection(
+        { token, parameters: { id: 'con_2' } },
+        config
+      );
+      const { options } = JSON.parse(read.content[0].text);
+      const response = await CONNECTION_HANDLERS.auth0_update_connection(
+        { token, parameters: { id: 'con_2', options: { ...options, scope: ['email'] } } },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody.options).toEqual({
+        client_id: 'google-client-id',
+        client_secret: 'google-client-secret',
+        scope: ['email'],
+      });
+    });
+
+    it('should refuse placeholders that no stored secret replaces', async () => {
+      const request = {
+        token,
+        parameters: { id: 'con_1', options: { client_secret: '[REDACTED]' } },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_update_connection(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('client_secret holds the [REDACTED] placeholder');
+    });
+
+    it('should handle connection not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'con_missing', display_name: 'Nobody' },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_update_connection(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_enable_connection_for_application', () => {
+    it('should enable the connection for an application by default', async () => {
+      let capturedBody: any;
+      server.use(
+        http.patch('https://*/api/v2/connections/:connectionId/clients', async ({ request }) => {
+          capturedBody = await request.json();
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockConnections[1].id, client_id: 'app1' },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_enable_connection_for_application(
+        request,
+        config
+      );
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody).toEqual([{ client_id: 'app1', status: true }]);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.enabled).toBe(true);
+    });
+
+    it('should disable the connection when enabled is false', async () => {
+      const request = {
+        token,
+        parameters: { id: mockConnections[0].id, client_id: 'app1', enabled: false },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_enable_connection_for_application(
+        request,
+        config
+      );
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.enabled).toBe(false);
+    });
+
+    it('should handle missing client_id parameter', async () => {
+      const request = {
+        token,
+        parameters: { id: mockConnections[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_enable_connection_for_application(
+        request,
+        config
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('client_id is required');
+    });
+  });
+
+  describe('auth0_delete_connection', () => {
+    it('should return a preview and confirmation token without deleting', async () => {
+      const deleteRequest = vi.fn();
+      server.use(
+        http.delete('https://*/api/v2/connections/:id', () => {
+          deleteRequest();
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockConnections[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_delete_connection(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(deleteRequest).not.toHaveBeenCalled();
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.preview.name).toBe(mockConnections[0].name);
+      expect(parsedContent.confirmation_token).toEqual(expect.any(String));
+    });
+
+    it('should delete when called again with the confirmation token', async () => {
+      const config = { domain };
+
+      const previewResponse = await CONNECTION_HANDLERS.auth0_delete_connection(
+        { token, parameters: { id: mockConnections[0].id } },
+        config
+      );
+      const { confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      const response = await CONNECTION_HANDLERS.auth0_delete_connection(
+        { token, parameters: { id: mockConnections[0].id, confirmation_token } },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+      expect(JSON.parse(response.content[0].text).deleted).toBe(true);
+
+      // The confirmation token can only be used once
+      const replayResponse = await CONNECTION_HANDLERS.auth0_delete_connection(
+        { token, parameters: { id: mockConnections[0].id, confirmation_token } },
+        config
+      );
+
+      expect(replayResponse.isError).toBe(true);
+      expect(replayResponse.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should handle connection not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'missing' },
+      };
+
+      const config = { domain };
+
+      const response = await CONNECTION_HANDLERS.auth0_delete_connection(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+});
@@ -351,4 +351,90 @@ describe('Forms Tool Handlers', () => {
       expect(response.content[0].text).toContain('not found');
     });
   });
+
+  describe('auth0_delete_form', () => {
+    it('should return a preview and confirmation token without deleting', async () => {
+      const deleteRequest = vi.fn();
+      server.use(
+        http.delete('https://*/api/v2/forms/:formId', () => {
+          deleteRequest();
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockForms[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await FORM_HANDLERS.auth0_delete_form(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(deleteRequest).not.toHaveBeenCalled();
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.preview.name).toBe(mockForms[0].name);
+      expect(parsedContent.confirmation_token).toEqual(expect.any(String));
+      expect(parsedContent.expires_at).toEqual(expect.any(String));
+    });
+
+    it('should delete when called again with the confirmation token', async () => {
+      const config = { domain };
+
+      const previewResponse = await FORM_HANDLERS.auth0_delete_form(
+        { token, parameters: { id: mockForms[0].id } },
+        config
+      );
+      const { confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      const response = await FORM_HANDLERS.auth0_delete_form(
+        { token, parameters: { id: mockForms[0].id, confirmation_token } },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.deleted).toBe(true);
+
+      // The confirmation token can only be used once
+      const replayResponse = await FORM_HANDLERS.auth0_delete_form(
+        { token, parameters: { id: mockForms[0].id, confirmation_token } },
+        config
+      );
+
+      expect(replayResponse.isError).toBe(true);
+      expect(replayResponse.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should reject an unknown confirmation token', async () => {
+      const request = {
+        token,
+        parameters: { id: mockForms[0].id, confirmation_token: 'not-a-real-token' },
+      };
+
+      const config = { domain };
+
+      const response = await FORM_HANDLERS.auth0_delete_form(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should handle form not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'missing-id' },
+      };
+
+      const config = { domain };
+
+      const response = await FORM_HANDLERS.auth0_delete_form(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
 });
@@ -5,6 +5,13 @@ import { APPLICATION_TOOLS, APPLICATION_HANDLERS } from '../../src/tools/applica
 import { FORM_TOOLS, FORM_HANDLERS } from '../../src/tools/forms';
 import { LOG_TOOLS, LOG_HANDLERS } from '../../src/tools/logs';
 import { RESOURCE_SERVER_TOOLS, RESOURCE_SERVER_HANDLERS } from '../../src/tools/resource-servers';
+import { USER_TOOLS, USER_HANDLERS } from '../../src/tools/users';
+import { ROLE_TOOLS, ROLE_HANDLERS } from '../../src/tools/roles';
+import { CONNECTION_TOOLS, CONNECTION_HANDLERS } from '../../src/tools/connections';
+import { ORGANIZATION_TOOLS, ORGANIZATION_HANDLERS } from '../../src/tools/organizations';
+import { CLIENT_GRANT_TOOLS, CLIENT_GRANT_HANDLERS } from '../../src/tools/client-grants';
+import { LOG_STREAM_TOOLS, LOG_STREAM_HANDLERS } from '../../src/tools/log-streams';
+import { TENANT_TOOLS, TENANT_HANDLERS } from '../../src/tools/tenant';
 
 describe('Tools Index', () => {
   describe('TOOLS', () => {
@@ -15,7 +22,14 @@ describe('Tools Index', () => {
         APPLICATION_TOOLS.length +
         FORM_TOOLS.length +
         LOG_TOOLS.length +
-        RESOURCE_SERVER_TOOLS.length;
+        RESOURCE_SERVER_TOOLS.length +
+        USER_TOOLS.length +
+        ROLE_TOOLS.length +
+        CONNECTION_TOOLS.length +
+        ORGANIZATION_TOOLS.length +
+        CLIENT_GRANT_TOOLS.length +
+        LOG_STREAM_TOOLS.length +
+        TENANT_TOOLS.length;
 
       // Verify the combined TOOLS array has the correct length
       expect(TOOLS.length).toBe(expectedToolCount);
@@ -27,6 +41,13 @@ describe('Tools Index', () => {
         ...FORM_TOOLS,
         ...LOG_TOOLS,
         ...RESOURCE_SERVER_TOOLS,
+        ...USER_TOOLS,
+        ...ROLE_TOOLS,
+        ...CONNECTION_TOOLS,
+        ...ORGANIZATION_TOOLS,
+        ...CLIENT_GRANT_TOOLS,
+        ...LOG_STREAM_TOOLS,
+        ...TENANT_TOOLS,
       ];
 
       allIndividualTools.forEach((tool) => {
@@ -45,6 +66,13 @@ describe('Tools Index', () => {
       const formHandlerKeys = Object.keys(FORM_HANDLERS);
       const logHandlerKeys = Object.keys(LOG_HANDLERS);
       const resourceServerHandlerKeys = Object.keys(RESOURCE_SERVER_HANDLERS);
+      const userHandlerKeys = Object.keys(USER_HANDLERS);
+      const roleHandlerKeys = Object.keys(ROLE_HANDLERS);
+      const connectionHandlerKeys = Object.keys(CONNECTION_HANDLERS);
+      const organizationHandlerKeys = Object.keys(ORGANIZATION_HANDLERS);
+      const clientGrantHandlerKeys = Object.keys(CLIENT_GRANT_HANDLERS);
+      const logStreamHandlerKeys = Object.keys(LOG_STREAM_HANDLERS);
+      const tenantHandlerKeys = Object.keys(TENANT_HANDLERS);
 
       // Calculate the expected total number of handlers
       const expectedHandlerCount =
@@ -52,7 +80,14 @@ describe('Tools Index', () => {
         applicationHandlerKeys.length +
         formHandlerKeys.length +
         logHandlerKeys.length +
-        resourceServerHandlerKeys.length;
+        resourceServerHandlerKeys.length +
+        userHandlerKeys.length +
+        roleHandlerKeys.length +
+        connectionHandlerKeys.length +
+        organizationHandlerKeys.length +
+        clientGrantHandlerKeys.length +
+        logStreamHandlerKeys.length +
+        tenantHandlerKeys.length;
 
       // Verify the combined HANDLERS object has the correct number of keys
       expect(Object.keys(HANDLERS).length).toBe(expectedHandlerCount);
@@ -64,6 +99,13 @@ describe('Tools Index', () => {
         ...formHandlerKeys,
         ...logHandlerKeys,
         ...resourceServerHandlerKeys,
+        ...userHandlerKeys,
+        ...roleHandlerKeys,
+        ...connectionHandlerKeys,
+        ...organizationHandlerKeys,
+        ...clientGrantHandlerKeys,
+        ...logStreamHandlerKeys,
+        ...tenantHandlerKeys,
       ];
 
       allHandlerKeys.forEach((key) => {
@@ -90,6 +132,34 @@ describe('Tools Index', () => {
       resourceServerHandlerKeys.forEach((key) => {
         expect(typeof HANDLERS[key]).toBe('function');
       });
+
+      userHandlerKeys.forEach((key) => {
+        expect(typeof HANDLERS[key]).toBe('function');
+      });
+
+      roleHandlerKeys.forEach((key) => {
+        expect(typeof HANDLERS[key]).toBe('function');
+      });
+
+      connectionHandlerKeys.forEach((key) => {
+        expect(typeof HANDLERS[key]).toBe('function');
+      });
+
+      organizationHandlerKeys.forEach((key) => {
+        expect(typeof HANDLERS[key]).toBe('function');
+      });
+
+      clientGrantHandlerKeys.forEach((key) => {
+        expect(typeof HANDLERS[key]).toBe('function');
+      });
+
+      logStreamHandlerKeys.forEach((key) => {
+        expect(typeof HANDLERS[key]).toBe('function');
+      });
+
+      tenantHandlerKeys.forEach((key) => {
+        expect(typeof HANDLERS[key]).toBe('function');
+      });
     });
   });
 });
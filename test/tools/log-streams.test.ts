@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { LOG_STREAM_HANDLERS } from '../../src/tools/log-streams';
+import { mockConfig } from '../mocks/config';
+import { mockLogStreams } from '../mocks/auth0/log-streams';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Log Streams Tool Handlers', () => {
+  const domain = mockConfig.domain;
+  const token = mockConfig.token;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  describe('auth0_list_log_streams', () => {
+    it('should return the log streams with masked credentials', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_list_log_streams(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.count).toBe(mockLogStreams.length);
+
+      const [datadog, webhook] = parsedContent.log_streams;
+      expect(datadog.sink.datadogRegion).toBe('us');
+      expect(datadog.sink.datadogApiKey).toBe('dd0***bcd');
+      expect(webhook.sink.httpEndpoint).toBe('https://logs.example.com/auth0');
+      expect(webhook.sink.httpAuthorization).toBe('Bea***xyz');
+      expect(webhook.sink.httpCustomHeaders[0]).toEqual({
+        header: 'X-Api-Key',
+        value: 'hea***123',
+      });
+      expect(response.content[0].text).not.toContain('abcdefghijklmnopqrstuvwxyz');
+    });
+
+    it('should handle API errors', async () => {
+      server.use(
+        http.get('https://*/api/v2/log-streams', () => {
+          return new HttpResponse(null, { status: 403 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_list_log_streams(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('read:log_streams');
+    });
+  });
+
+  describe('auth0_create_log_stream', () => {
+    it('should create a log stream', async () => {
+      const request = {
+        token,
+        parameters: {
+          name: 'Sumo',
+          type: 'sumo',
+          sink: { sumoSourceAddress: 'https://collectors.sumologic.com/receiver/v1/http/SECRET' },
+        },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_create_log_stream(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.id).toBe('lst_new');
+      expect(parsedContent.type).toBe('sumo');
+      expect(parsedContent.sink.sumoSourceAddress).toBe('https://collectors.sumologic.com/***');
+    });
+
+    it('should reject an unknown type', async () => {
+      const request = {
+        token,
+        parameters: { type: 'syslog', sink: {} },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_create_log_stream(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('type must be one of');
+    });
+
+    it('should require a sink', async () => {
+      const request = {
+        token,
+        parameters: { type: 'http' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_create_log_stream(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('sink is required');
+    });
+  });
+
+  describe('auth0_update_log_stream', () => {
+    it('should update the filters of a log stream', async () => {
+      let capturedBody: Record<string, any> | undefined;
+      server.use(
+        http.patch('https://*/api/v2/log-streams/:id', async ({ request }) => {
+          capturedBody = (await request.json()) as Record<string, any>;
+          return HttpResponse.json({ ...mockLogStreams[0], ...capturedBody });
+        })
+      );
+
+      const filters = [{ type: 'category', name: 'auth.signup.fail' }];
+      const request = {
+        token,
+        parameters: { id: 'lst_1', filters },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_update_log_stream(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody).toEqual({ filters });
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.filters).toEqual(filters);
+      expect(parsedContent.sink.datadogApiKey).toBe('dd0***bcd');
+    });
+
+    it('should keep the stored credentials of a sink copied from the list', async () => {
+      let capturedBody: Record<string, any> | undefined;
+      server.use(
+        http.patch('https://*/api/v2/log-streams/:id', async ({ request }) => {
+          capturedBody = (await request.json()) as Record<string, any>;
+          return HttpResponse.json({ ...mockLogStreams[1], ...capturedBody });
+        })
+      );
+      const config = { domain };
+
+      const list = await LOG_STREAM_HANDLERS.auth0_list_log_streams(
+        { token, parameters: {} },
+        config
+      );
+      const [, webhook] = JSON.parse(list.content[0].text).log_streams;
+      const response = await LOG_STREAM_HANDLERS.auth0_update_log_stream(
+        {
+          token,
+          parameters: {
+            id: 'lst_2',
+            sink: { ...webhook.sink, httpEndpoint: 'https://logs.example.com/v2' },
+          },
+        },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody?.sink).toEqual({
+        ...mockLogStreams[1].sink,
+        httpEndpoint: 'https://logs.example.com/v2',
+      });
+    });
+
+    it('should refuse masked credentials that do not match the stored ones', async () => {
+      const request = {
+        token,
+        parameters: { id: 'lst_1', sink: { datadogRegion: 'eu', datadogApiKey: 'abc***xyz' } },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_update_log_stream(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('sink.datadogApiKey holds a masked credential');
+    });
+
+    it('should require a field to update', async () => {
+      const request = {
+        token,
+        parameters: { id: 'lst_1' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_update_log_stream(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('at least one of');
+    });
+  });
+
+  describe('auth0_pause_log_stream', () => {
+    it('should pause a log stream', async () => {
+      const request = {
+        token,
+        parameters: { id: 'lst_1' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_pause_log_stream(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.status).toBe('paused');
+    });
+
+    it('should handle log stream not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'lst_missing' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_pause_log_stream(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain("Log stream with id 'lst_missing' not found.");
+    });
+  });
+
+  describe('auth0_resume_log_stream', () => {
+    it('should resume a log stream', async () => {
+      const request = {
+        token,
+        parameters: { id: 'lst_2' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_resume_log_stream(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.status).toBe('active');
+    });
+
+    it('should require an id', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await LOG_STREAM_HANDLERS.auth0_resume_log_stream(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('id is required');
+    });
+  });
+});
@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { http, HttpResponse } from 'msw';
 import { LOG_HANDLERS } from '../../src/tools/logs';
 import { mockConfig } from '../mocks/config';
-import { mockLogs } from '../mocks/auth0/logs';
+import { mockConfigChangeLogs, mockLogs, mockWindowLogs } from '../mocks/auth0/logs';
 import { server } from '../setup';
 
 // Mock dependencies
@@ -24,6 +24,29 @@ describe('Logs Tool Handlers', () => {
     server.resetHandlers();
   });
 
+  // Serves logs with date queries and checkpoint pagination, like the Logs API
+  const requestedCheckpoints: string[] = [];
+  const useWindowLogs = (windowLogs: Array<Record<string, any>> = mockWindowLogs) => {
+    requestedCheckpoints.length = 0;
+    server.use(
+      http.get('https://*/api/v2/logs', ({ request }) => {
+        const url = new URL(request.url);
+        const from = url.searchParams.get('from');
+        const take = Number(url.searchParams.get('take') || 50);
+
+        if (from) {
+          requestedCheckpoints.push(from);
+          const start = windowLogs.findIndex((entry) => entry.log_id === from) + 1;
+          return HttpResponse.json(windowLogs.slice(start, start + take));
+        }
+
+        const [, start, end] = /date:\[(\S+) TO (\S+)\]/.exec(url.searchParams.get('q') || '')!;
+        const first = windowLogs.find((entry) => entry.date >= start && entry.date <= end);
+        return HttpResponse.json(first ? [first] : []);
+      })
+    );
+  };
+
   describe('auth0_list_logs', () => {
     it('should return a list of logs', async () => {
       const request = {
@@ -74,6 +97,66 @@ describe('Logs Tool Handlers', () => {
       await LOG_HANDLERS.auth0_list_logs(request, config);
     });
 
+    it('should render each log as a decoded line by default', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_list_logs(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.count).toBe(mockLogs.length);
+      expect(parsedContent.logs[1]).toEqual({
+        log_id: 'log_2',
+        severity: 'error',
+        summary:
+          'Failed login (f) for another.user@example.com on Test Application 1 at 2023-01-02 00:00:00Z from 192.168.1.2',
+      });
+    });
+
+    it('should return the full log entries in json format', async () => {
+      const request = {
+        token,
+        parameters: { format: 'json' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_list_logs(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.logs[0].details.request.path).toBe('/oauth/token');
+    });
+
+    it('should translate friendly type names in the query', async () => {
+      let capturedQuery: string | null = null;
+      server.use(
+        http.get('https://*/api/v2/logs', ({ request }) => {
+          capturedQuery = new URL(request.url).searchParams.get('q');
+          return HttpResponse.json([]);
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { q: 'type:failed_login AND user_name:"test.user@example.com"' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_list_logs(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedQuery).toBe('type:(f OR fp OR fu) AND user_name:"test.user@example.com"');
+    });
+
     it('should handle API errors', async () => {
       // Override the handler for this specific test
       server.use(
@@ -129,6 +212,31 @@ describe('Logs Tool Handlers', () => {
       expect(parsedContent.log_id).toBe(logId);
     });
 
+    it('should return the full log entry in json format', async () => {
+      const logId = mockLogs[0].log_id;
+
+      server.use(
+        http.get(`https://*/api/v2/logs/${logId}`, () => {
+          return HttpResponse.json(mockLogs[0]);
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: logId, format: 'json' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_get_log(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.details.response.statusCode).toBe(200);
+      expect(parsedContent.summary).toBeUndefined();
+    });
+
     it('should handle missing id parameter', async () => {
       const request = {
         token,
@@ -168,4 +276,379 @@ describe('Logs Tool Handlers', () => {
   });
 
   // Note: auth0_search_logs handler is not implemented in the source code
+
+  describe('auth0_summarize_logs', () => {
+    it('should aggregate all logs of the time window', async () => {
+      useWindowLogs();
+
+      const request = {
+        token,
+        parameters: { from_date: '2024-05-01T12:00:00Z', to_date: '2024-05-01T13:00:00Z' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_summarize_logs(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(requestedCheckpoints).toEqual(['log_w0000', 'log_w0100', 'log_w0200']);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.logs_analyzed).toBe(mockWindowLogs.length);
+      expect(parsedContent.truncated).toBe(false);
+      expect(parsedContent.failures).toBe(50);
+      expect(parsedContent.by_type).toEqual([
+        { type: 's', name: 'Successful login', severity: 'info', count: 200 },
+        { type: 'fp', name: 'Failed login (incorrect password)', severity: 'error', count: 25 },
+        {
+          type: 'fu',
+          name: 'Failed login (invalid email or username)',
+          severity: 'error',
+          count: 25,
+        },
+      ]);
+      expect(parsedContent.by_client).toEqual([
+        { client_id: 'app1', client_name: 'Test Application 1', count: 125 },
+        { client_id: 'app2', client_name: 'Test Application 2', count: 125 },
+      ]);
+      expect(parsedContent.by_connection).toEqual([
+        { connection: 'Username-Password-Authentication', count: 250 },
+      ]);
+      expect(parsedContent.by_ip[0]).toEqual({ ip: '203.0.113.7', count: 50 });
+      expect(parsedContent.top_failures[0]).toMatchObject({
+        type: 'fp',
+        description: 'Wrong email or password.',
+        count: 25,
+      });
+    });
+
+    it('should stop at the end of the time window', async () => {
+      useWindowLogs();
+
+      const request = {
+        token,
+        parameters: { from_date: '2024-05-01T12:00:00Z', to_date: '2024-05-01T12:10:00Z' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_summarize_logs(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.logs_analyzed).toBe(43);
+      expect(requestedCheckpoints).toEqual(['log_w0000']);
+    });
+
+    it('should report when max_logs truncates the window', async () => {
+      useWindowLogs();
+
+      const request = {
+        token,
+        parameters: {
+          from_date: '2024-05-01T12:00:00Z',
+          to_date: '2024-05-01T13:00:00Z',
+          max_logs: 120,
+          top: 1,
+        },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_summarize_logs(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.logs_analyzed).toBe(120);
+      expect(parsedContent.truncated).toBe(true);
+      expect(parsedContent.by_type).toHaveLength(1);
+    });
+
+    it('should handle an empty time window', async () => {
+      useWindowLogs();
+
+      const request = {
+        token,
+        parameters: { from_date: '2020-01-01T00:00:00Z', to_date: '2020-01-02T00:00:00Z' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_summarize_logs(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.logs_analyzed).toBe(0);
+      expect(parsedContent.by_type).toEqual([]);
+    });
+
+    it('should reject an invalid time window', async () => {
+      const request = {
+        token,
+        parameters: { from_date: '2024-05-02T00:00:00Z', to_date: '2024-05-01T00:00:00Z' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_summarize_logs(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('from_date must be before to_date');
+    });
+
+    it.each([0, -5, 2.5, '10', 101])('should reject top: %s', async (top) => {
+      const request = { token, parameters: { top } };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_summarize_logs(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toBe('Error: top must be an integer from 1 to 100');
+    });
+  });
+
+  describe('auth0_detect_anomalies', () => {
+    it('should return findings with supporting log IDs', async () => {
+      // Failed logins for many users from one IP address, between normal logins
+      const windowLogs = Array.from({ length: 60 }, (_, index) => ({
+        log_id: `log_a${String(index).padStart(3, '0')}`,
+        date: new Date(Date.UTC(2024, 4, 1, 12, 0, index * 10)).toISOString(),
+        ...(index % 2
+          ? { type: 'fu', ip: '203.0.113.7', user_name: `victim${index}@example.com` }
+          : { type: 's', ip: '192.168.1.1', user_name: 'user@example.com' }),
+      }));
+      useWindowLogs(windowLogs);
+
+      const request = {
+        token,
+        parameters: { from_date: '2024-05-01T12:00:00Z', to_date: '2024-05-01T13:00:00Z' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_detect_anomalies(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.logs_analyzed).toBe(60);
+      expect(parsedContent.findings).toHaveLength(1);
+      expect(parsedContent.findings[0]).toMatchObject({
+        kind: 'credential_stuffing',
+        ip: '203.0.113.7',
+        count: 30,
+      });
+      expect(parsedContent.findings[0].log_ids[0]).toBe('log_a001');
+    });
+
+    it('should apply custom thresholds', async () => {
+      useWindowLogs();
+
+      const request = {
+        token,
+        parameters: {
+          from_date: '2024-05-01T12:00:00Z',
+          to_date: '2024-05-01T13:00:00Z',
+          credential_stuffing_threshold: 1000,
+          brute_force_threshold: 4,
+        },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_detect_anomalies(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.thresholds.credentialStuffing).toBe(1000);
+      expect(parsedContent.findings.map((finding: any) => finding.kind)).toEqual(
+        Array(4).fill('brute_force')
+      );
+    });
+
+    it('should report when there are no anomalies', async () => {
+      useWindowLogs();
+
+      const request = {
+        token,
+        parameters: { from_date: '2024-05-01T12:00:00Z', to_date: '2024-05-01T12:10:00Z' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_detect_anomalies(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.findings).toEqual([]);
+      expect(parsedContent.message).toContain('No anomalies');
+    });
+
+    it.each([0, -1, 1.5, 'abc', 721])('should reject hours: %s', async (hours) => {
+      const request = { token, parameters: { hours } };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_detect_anomalies(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toBe('Error: hours must be an integer from 1 to 720');
+    });
+  });
+
+  describe('auth0_list_config_changes', () => {
+    // Serves mockConfigChangeLogs, filtered by the type clause of the query
+    const capturedQueries: string[] = [];
+    const useConfigChangeLogs = () => {
+      capturedQueries.length = 0;
+      server.use(
+        http.get('https://*/api/v2/logs', ({ request }) => {
+          const q = new URL(request.url).searchParams.get('q') || '';
+          capturedQueries.push(q);
+          const includeFailed = q.includes('fapi');
+          return HttpResponse.json(
+            mockConfigChangeLogs.filter((entry) => includeFailed || entry.type === 'sapi')
+          );
+        })
+      );
+    };
+
+    it('should group changes by resource', async () => {
+      useConfigChangeLogs();
+
+      const request = {
+        token,
+        parameters: { from_date: '2024-05-01T00:00:00Z', to_date: '2024-05-02T00:00:00Z' },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_list_config_changes(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedQueries).toEqual([
+        'type:(sapi OR fapi) AND date:[2024-05-01T00:00:00.000Z TO 2024-05-02T00:00:00.000Z]',
+      ]);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.changes_found).toBe(4);
+      expect(
+        parsedContent.resources.map((resource: any) => [
+          resource.resource_type,
+          resource.resource_id,
+          resource.change_count,
+        ])
+      ).toEqual([
+        ['client', 'app1', 2],
+        ['action', 'action1', 1],
+        ['resource_server', 'rs1', 1],
+      ]);
+
+      const [failedChange, clientChange] = parsedContent.resources[0].changes;
+      expect(failedChange).toMatchObject({
+        log_id: 'log_c4',
+        who: 'Deploy CLI',
+        succeeded: false,
+        status: 400,
+      });
+      expect(clientChange).toMatchObject({
+        log_id: 'log_c2',
+        date: '2024-05-01T13:00:00.000Z',
+        who: 'admin@example.com',
+        succeeded: true,
+        method: 'PATCH',
+        path: '/api/v2/clients/app1',
+      });
+      expect(clientChange.body.callbacks).toEqual(['https://app.example.com/callback']);
+      expect(clientChange.body.client_secret).toBe('[REDACTED]');
+    });
+
+    it('should filter by resource type and skip failed operations', async () => {
+      useConfigChangeLogs();
+
+      const request = {
+        token,
+        parameters: { hours: 48, resource_type: 'client', include_failed: false },
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_list_config_changes(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedQueries[0]).toMatch(/^type:sapi AND date:\[/);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.changes_found).toBe(1);
+      expect(parsedContent.resources[0].changes[0].log_id).toBe('log_c2');
+    });
+
+    it('should mask the sink credentials in log stream request bodies', async () => {
+      server.use(
+        http.get('https://*/api/v2/logs', () =>
+          HttpResponse.json([
+            {
+              log_id: 'log_ls1',
+              date: '2024-05-01T12:00:00.000Z',
+              type: 'sapi',
+              description: 'Update a log stream',
+              details: {
+                request: {
+                  method: 'patch',
+                  path: '/api/v2/log-streams/lst_1',
+                  body: {
+                    sink: {
+                      httpEndpoint: 'https://logs.example.com/ingest',
+                      httpAuthorization: 'Bearer live-stream-token',
+                      httpCustomHeaders: [{ header: 'X-Api-Key', value: 'live-header-key' }],
+                    },
+                  },
+                },
+              },
+            },
+          ])
+        )
+      );
+
+      const response = await LOG_HANDLERS.auth0_list_config_changes(
+        { token, parameters: {} },
+        { domain }
+      );
+
+      expect(response.content[0].text).not.toContain('live-stream-token');
+      expect(response.content[0].text).not.toContain('live-header-key');
+      const { sink } = JSON.parse(response.content[0].text).resources[0].changes[0].body;
+      expect(sink.httpEndpoint).toBe('https://logs.example.com/ingest');
+      expect(sink.httpAuthorization).toMatch(/\*{3}/);
+    });
+
+    it('should report when there are no changes', async () => {
+      server.use(
+        http.get('https://*/api/v2/logs', () => {
+          return HttpResponse.json([]);
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await LOG_HANDLERS.auth0_list_config_changes(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.resources).toEqual([]);
+      expect(parsedContent.message).toContain('No configuration changes');
+    });
+  });
 });
@@ -0,0 +1,400 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { ORGANIZATION_HANDLERS } from '../../src/tools/organizations';
+import { mockConfig } from '../mocks/config';
+import { mockOrganizations } from '../mocks/auth0/organizations';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Organizations Tool Handlers', () => {
+  const domain = mockConfig.domain;
+  const token = mockConfig.token;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  describe('auth0_list_organizations', () => {
+    it('should return a list of organizations', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_list_organizations(request, config);
+
+      expect(response.isError).toBe(false);
+
+      // The response should be a JSON string that we can parse
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.organizations).toHaveLength(mockOrganizations.length);
+      expect(parsedContent.total).toBe(mockOrganizations.length);
+    });
+
+    it('should handle API errors', async () => {
+      const request = {
+        token: 'invalid-token',
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_list_organizations(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to list organizations');
+      expect(response.content[0].text).toContain('Unauthorized');
+    });
+  });
+
+  describe('auth0_get_organization', () => {
+    it('should return an organization by id', async () => {
+      const request = {
+        token,
+        parameters: { id: mockOrganizations[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_get_organization(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.name).toBe('acme');
+    });
+
+    it('should return an organization by name', async () => {
+      const request = {
+        token,
+        parameters: { name: 'globex' },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_get_organization(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.id).toBe('org_2');
+    });
+
+    it('should handle missing id and name parameters', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_get_organization(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('id or name is required');
+    });
+
+    it('should handle organization not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'org_missing' },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_get_organization(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_create_organization', () => {
+    it('should create a new organization', async () => {
+      const request = {
+        token,
+        parameters: {
+          name: 'initech',
+          display_name: 'Initech',
+          enabled_connections: [{ connection_id: 'con_1', assign_membership_on_login: true }],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_create_organization(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.id).toBe('new-org-id');
+      expect(parsedContent.display_name).toBe('Initech');
+      expect(parsedContent.enabled_connections).toEqual([
+        { connection_id: 'con_1', assign_membership_on_login: true },
+      ]);
+    });
+
+    it('should handle missing name parameter', async () => {
+      const request = {
+        token,
+        parameters: { display_name: 'Initech' },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_create_organization(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('name is required');
+    });
+  });
+
+  describe('auth0_update_organization', () => {
+    it('should update an existing organization', async () => {
+      const request = {
+        token,
+        parameters: { id: mockOrganizations[1].id, display_name: 'Globex Corporation' },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_update_organization(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.display_name).toBe('Globex Corporation');
+    });
+  });
+
+  describe('auth0_list_organization_members', () => {
+    it('should return the members of an organization', async () => {
+      const request = {
+        token,
+        parameters: { id: mockOrganizations[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_list_organization_members(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.count).toBe(1);
+      expect(parsedContent.members[0].user_id).toBe('auth0|user1');
+    });
+  });
+
+  describe('auth0_add_organization_members', () => {
+    it('should add members to an organization', async () => {
+      let capturedBody: Record<string, any> | undefined;
+      server.use(
+        http.post('https://*/api/v2/organizations/:orgId/members', async ({ request }) => {
+          capturedBody = (await request.json()) as Record<string, any>;
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockOrganizations[0].id, members: ['auth0|user2'] },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_add_organization_members(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody).toEqual({ members: ['auth0|user2'] });
+    });
+
+    it('should handle missing members parameter', async () => {
+      const request = {
+        token,
+        parameters: { id: mockOrganizations[0].id, members: [] },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_add_organization_members(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('members is required');
+    });
+  });
+
+  describe('auth0_create_organization_invitation', () => {
+    it('should create an invitation and send the email by default', async () => {
+      const request = {
+        token,
+        parameters: {
+          id: mockOrganizations[0].id,
+          inviter_name: 'Jane Doe',
+          invitee_email: 'new.hire@acme.com',
+          client_id: 'app1',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_create_organization_invitation(
+        request,
+        config
+      );
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.invitee).toEqual({ email: 'new.hire@acme.com' });
+      expect(parsedContent.inviter).toEqual({ name: 'Jane Doe' });
+      expect(parsedContent.send_invitation_email).toBe(true);
+      expect(parsedContent.invitation_url).toContain('invitation=uinv_new');
+    });
+
+    it('should handle missing invitee_email parameter', async () => {
+      const request = {
+        token,
+        parameters: {
+          id: mockOrganizations[0].id,
+          inviter_name: 'Jane Doe',
+          client_id: 'app1',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_create_organization_invitation(
+        request,
+        config
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('invitee_email is required');
+    });
+  });
+
+  describe('auth0_enable_organization_connection', () => {
+    it('should enable a connection for an organization', async () => {
+      const request = {
+        token,
+        parameters: {
+          id: mockOrganizations[0].id,
+          connection_id: 'con_1',
+          assign_membership_on_login: true,
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_enable_organization_connection(
+        request,
+        config
+      );
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.connection_id).toBe('con_1');
+      expect(parsedContent.assign_membership_on_login).toBe(true);
+    });
+
+    it('should handle organization not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'org_missing', connection_id: 'con_1' },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_enable_organization_connection(
+        request,
+        config
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_delete_organization', () => {
+    it('should return a preview and confirmation token without deleting', async () => {
+      const deleteRequest = vi.fn();
+      server.use(
+        http.delete('https://*/api/v2/organizations/:id', () => {
+          deleteRequest();
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockOrganizations[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_delete_organization(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(deleteRequest).not.toHaveBeenCalled();
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.preview.name).toBe(mockOrganizations[0].name);
+      expect(parsedContent.confirmation_token).toEqual(expect.any(String));
+    });
+
+    it('should delete when called again with the confirmation token', async () => {
+      const config = { domain };
+
+      const previewResponse = await ORGANIZATION_HANDLERS.auth0_delete_organization(
+        { token, parameters: { id: mockOrganizations[0].id } },
+        config
+      );
+      const { confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      const response = await ORGANIZATION_HANDLERS.auth0_delete_organization(
+        { token, parameters: { id: mockOrganizations[0].id, confirmation_token } },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+      expect(JSON.parse(response.content[0].text).deleted).toBe(true);
+
+      // The confirmation token can only be used once
+      const replayResponse = await ORGANIZATION_HANDLERS.auth0_delete_organization(
+        { token, parameters: { id: mockOrganizations[0].id, confirmation_token } },
+        config
+      );
+
+      expect(replayResponse.isError).toBe(true);
+      expect(replayResponse.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should handle organization not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'missing' },
+      };
+
+      const config = { domain };
+
+      const response = await ORGANIZATION_HANDLERS.auth0_delete_organization(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+});
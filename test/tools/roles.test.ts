@@ -0,0 +1,368 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { ROLE_HANDLERS } from '../../src/tools/roles';
+import { mockConfig } from '../mocks/config';
+import { mockRoles } from '../mocks/auth0/roles';
+import { mockUsers } from '../mocks/auth0/users';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Roles Tool Handlers', () => {
+  const domain = mockConfig.domain;
+  const token = mockConfig.token;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  describe('auth0_list_roles', () => {
+    it('should return a list of roles', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_list_roles(request, config);
+
+      expect(response.isError).toBe(false);
+
+      // The response should be a JSON string that we can parse
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.roles).toHaveLength(mockRoles.length);
+      expect(parsedContent.total).toBe(mockRoles.length);
+    });
+
+    it('should handle API errors', async () => {
+      const request = {
+        token: 'invalid-token',
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_list_roles(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to list roles');
+      expect(response.content[0].text).toContain('Unauthorized');
+    });
+  });
+
+  describe('auth0_get_role', () => {
+    it('should return a role with its permissions', async () => {
+      const request = {
+        token,
+        parameters: { id: mockRoles[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_get_role(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.name).toBe(mockRoles[0].name);
+      expect(parsedContent.permissions).toEqual([
+        {
+          permission_name: 'read:users',
+          resource_server_identifier: 'https://api.example.com',
+        },
+      ]);
+    });
+
+    it('should handle role not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'rol_missing' },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_get_role(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_create_role', () => {
+    it('should create a new role', async () => {
+      const request = {
+        token,
+        parameters: { name: 'Support', description: 'Support agents' },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_create_role(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.id).toBe('new-role-id');
+      expect(parsedContent.name).toBe('Support');
+    });
+
+    it('should handle missing name parameter', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_create_role(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('name is required');
+    });
+  });
+
+  describe('auth0_update_role', () => {
+    it('should update an existing role', async () => {
+      const request = {
+        token,
+        parameters: { id: mockRoles[1].id, description: 'Read-only tenant access' },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_update_role(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.description).toBe('Read-only tenant access');
+    });
+  });
+
+  describe('auth0_assign_role_permissions', () => {
+    it('should assign permissions defined on the resource server', async () => {
+      let capturedBody: Record<string, any> | undefined;
+      server.use(
+        http.post('https://*/api/v2/roles/:roleId/permissions', async ({ request }) => {
+          capturedBody = (await request.json()) as Record<string, any>;
+          return new HttpResponse(null, { status: 201 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {
+          id: mockRoles[0].id,
+          resource_server_identifier: 'https://api.example.com',
+          permissions: ['read:users', 'write:users'],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_assign_role_permissions(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody).toEqual({
+        permissions: [
+          { resource_server_identifier: 'https://api.example.com', permission_name: 'read:users' },
+          { resource_server_identifier: 'https://api.example.com', permission_name: 'write:users' },
+        ],
+      });
+    });
+
+    it('should reject permissions that are not defined on the resource server', async () => {
+      const assignPermissions = vi.fn();
+      server.use(
+        http.post('https://*/api/v2/roles/:roleId/permissions', () => {
+          assignPermissions();
+          return new HttpResponse(null, { status: 201 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {
+          id: mockRoles[0].id,
+          resource_server_identifier: 'https://api.example.com',
+          permissions: ['read:users', 'delete:everything'],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_assign_role_permissions(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain(
+        "not defined on resource server 'https://api.example.com': delete:everything."
+      );
+      expect(assignPermissions).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown resource server', async () => {
+      const request = {
+        token,
+        parameters: {
+          id: mockRoles[0].id,
+          resource_server_identifier: 'https://unknown.example.com',
+          permissions: ['read:users'],
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_assign_role_permissions(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain("'https://unknown.example.com' not found");
+    });
+
+    it('should handle missing permissions parameter', async () => {
+      const request = {
+        token,
+        parameters: {
+          id: mockRoles[0].id,
+          resource_server_identifier: 'https://api.example.com',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_assign_role_permissions(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('permissions is required');
+    });
+  });
+
+  describe('auth0_assign_roles_to_user', () => {
+    it('should assign roles to a user', async () => {
+      const request = {
+        token,
+        parameters: { user_id: mockUsers[0].user_id, roles: [mockRoles[0].id] },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_assign_roles_to_user(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.roles).toEqual([mockRoles[0].id]);
+    });
+
+    it('should handle missing roles parameter', async () => {
+      const request = {
+        token,
+        parameters: { user_id: mockUsers[0].user_id },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_assign_roles_to_user(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('roles is required');
+    });
+  });
+
+  describe('auth0_list_role_users', () => {
+    it('should return the users assigned to a role', async () => {
+      const request = {
+        token,
+        parameters: { id: mockRoles[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_list_role_users(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.count).toBe(1);
+      expect(parsedContent.users[0].user_id).toBe('auth0|user1');
+    });
+  });
+
+  describe('auth0_delete_role', () => {
+    it('should return a preview and confirmation token without deleting', async () => {
+      const deleteRequest = vi.fn();
+      server.use(
+        http.delete('https://*/api/v2/roles/:id', () => {
+          deleteRequest();
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { id: mockRoles[0].id },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_delete_role(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(deleteRequest).not.toHaveBeenCalled();
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.preview.name).toBe(mockRoles[0].name);
+      expect(parsedContent.confirmation_token).toEqual(expect.any(String));
+    });
+
+    it('should delete when called again with the confirmation token', async () => {
+      const config = { domain };
+
+      const previewResponse = await ROLE_HANDLERS.auth0_delete_role(
+        { token, parameters: { id: mockRoles[0].id } },
+        config
+      );
+      const { confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      const response = await ROLE_HANDLERS.auth0_delete_role(
+        { token, parameters: { id: mockRoles[0].id, confirmation_token } },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+      expect(JSON.parse(response.content[0].text).deleted).toBe(true);
+
+      // The confirmation token can only be used once
+      const replayResponse = await ROLE_HANDLERS.auth0_delete_role(
+        { token, parameters: { id: mockRoles[0].id, confirmation_token } },
+        config
+      );
+
+      expect(replayResponse.isError).toBe(true);
+      expect(replayResponse.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should handle role not found', async () => {
+      const request = {
+        token,
+        parameters: { id: 'missing' },
+      };
+
+      const config = { domain };
+
+      const response = await ROLE_HANDLERS.auth0_delete_role(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+});
@@ -0,0 +1,737 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { mkdtemp, mkdir, readFile, readdir, realpath, rm, writeFile } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { TENANT_HANDLERS } from '../../src/tools/tenant';
+import { mockConfig } from '../mocks/config';
+import { mockApplications } from '../mocks/auth0/applications';
+import { mockSingleForm } from '../mocks/auth0/forms';
+import { mockActions } from '../mocks/auth0/actions';
+import { mockTenantSettings } from '../mocks/auth0/tenant-settings';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Tenant Tool Handlers', () => {
+  const domain = mockConfig.domain;
+  const token = mockConfig.token;
+  // Tenant files may only be read and written inside the files directory of the server
+  const filesDir = os.tmpdir();
+  let outputDir: string;
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    outputDir = await realpath(await mkdtemp(path.join(filesDir, 'auth0-export-')));
+  });
+
+  afterEach(async () => {
+    server.resetHandlers();
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  const readJson = async (file: string) =>
+    JSON.parse(await readFile(path.join(outputDir, file), 'utf8'));
+
+  const editJson = async (file: string, edit: (resource: Record<string, any>) => void) => {
+    const resource = await readJson(file);
+    edit(resource);
+    await writeFile(path.join(outputDir, file), JSON.stringify(resource));
+  };
+
+  describe('auth0_export_tenant', () => {
+    it('should write one file per resource and action code next to its action', async () => {
+      const response = await TENANT_HANDLERS.auth0_export_tenant(
+        { token, parameters: { output_dir: outputDir } },
+        { domain, filesDir }
+      );
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.output_dir).toBe(outputDir);
+      expect(parsedContent.counts).toEqual({
+        applications: 2,
+        'resource-servers': 2,
+        'client-grants': 2,
+        actions: 2,
+        triggers: 1,
+        forms: 2,
+        'log-streams': 2,
+      });
+      expect(parsedContent.files).toContain('actions/test-action-1.js');
+
+      expect((await readdir(path.join(outputDir, 'applications'))).sort()).toEqual([
+        'test-application-1.json',
+        'test-application-2.json',
+      ]);
+      expect(await readFile(path.join(outputDir, 'actions/test-action-1.js'), 'utf8')).toContain(
+        'exports.onExecutePostLogin'
+      );
+
+      const action = await readJson('actions/test-action-1.json');
+      expect(action.code).toBe('./test-action-1.js');
+      expect(action.id).toBeUndefined();
+      expect(action.status).toBeUndefined();
+      expect(action.secrets).toEqual([{ name: 'API_KEY', value: '##TEST_ACTION_1_API_KEY##' }]);
+
+      expect(await readJson('triggers/post-login.json')).toEqual({
+        trigger: 'post-login',
+        actions: ['Test Action 1'],
+      });
+      expect(await readJson('client-grants/test-application-1-https-api.example.com.json')).toEqual(
+        {
+          client: 'Test Application 1',
+          audience: 'https://api.example.com',
+          scope: ['read:users'],
+        }
+      );
+
+      const form = await readJson('forms/test-form-1.json');
+      expect(form.id).toBeUndefined();
+      expect(form.nodes).toEqual(mockSingleForm.nodes);
+    });
+
+    it('should replace secrets with placeholders and strip generated fields', async () => {
+      server.use(
+        http.get('https://*/api/v2/clients', () => {
+          return HttpResponse.json({
+            clients: [
+              { ...mockApplications[0], client_secret: 'super-secret-value', tenant: 'test' },
+              { client_id: 'global', name: 'All Applications', global: true },
+            ],
+            total: 2,
+          });
+        })
+      );
+
+      await TENANT_HANDLERS.auth0_export_tenant(
+        { token, parameters: { output_dir: outputDir } },
+        { domain, filesDir }
+      );
+
+      const raw = await readFile(
+        path.join(outputDir, 'applications/test-application-1.json'),
+        'utf8'
+      );
+      expect(raw).not.toContain('super-secret-value');
+      expect(await readdir(path.join(outputDir, 'applications'))).toEqual([
+        'test-application-1.json',
+      ]);
+
+      const application = JSON.parse(raw);
+      expect(application.client_secret).toBe('##TEST_APPLICATION_1_CLIENT_SECRET##');
+      expect(application.client_id).toBeUndefined();
+      expect(application.tenant).toBeUndefined();
+      expect(Object.keys(application)).toEqual(Object.keys(application).sort());
+
+      const webhook = await readJson('log-streams/webhook.json');
+      expect(webhook.sink.httpAuthorization).toBe('##WEBHOOK_HTTPAUTHORIZATION##');
+      expect(webhook.sink.httpCustomHeaders).toEqual([
+        { header: 'X-Api-Key', value: '##WEBHOOK_X_API_KEY##' },
+      ]);
+      expect(webhook.sink.httpEndpoint).toBe('https://logs.example.com/auth0');
+    });
+
+    it('should produce identical files when exported twice', async () => {
+      const request = { token, parameters: { output_dir: outputDir } };
+
+      await TENANT_HANDLERS.auth0_export_tenant(request, { domain, filesDir });
+      const first = await readFile(
+        path.join(outputDir, 'resource-servers/test-api-1.json'),
+        'utf8'
+      );
+      await TENANT_HANDLERS.auth0_export_tenant(request, { domain, filesDir });
+      const second = await readFile(
+        path.join(outputDir, 'resource-servers/test-api-1.json'),
+        'utf8'
+      );
+
+      expect(second).toBe(first);
+    });
+
+    it('should remove files of resources that no longer exist', async () => {
+      await mkdir(path.join(outputDir, 'forms'), { recursive: true });
+      await writeFile(path.join(outputDir, 'forms/deleted-form.json'), '{}\n');
+      await writeFile(path.join(outputDir, 'README.md'), '# Tenant\n');
+
+      await TENANT_HANDLERS.auth0_export_tenant(
+        { token, parameters: { output_dir: outputDir } },
+        { domain, filesDir }
+      );
+
+      expect(await readdir(path.join(outputDir, 'forms'))).not.toContain('deleted-form.json');
+      expect(await readdir(outputDir)).toContain('README.md');
+    });
+
+    it('should refuse directories outside the files directory', async () => {
+      const response = await TENANT_HANDLERS.auth0_export_tenant(
+        { token, parameters: { output_dir: '../tenant' } },
+        { domain, filesDir: outputDir }
+      );
+      const rootResponse = await TENANT_HANDLERS.auth0_export_tenant(
+        { token, parameters: { output_dir: outputDir } },
+        { domain, filesDir: path.parse(outputDir).root }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('../tenant is outside the files directory');
+      expect(rootResponse.isError).toBe(true);
+      expect(rootResponse.content[0].text).toContain('--files-dir');
+    });
+
+    it('should not replace a directory that holds something other than an export', async () => {
+      await mkdir(path.join(outputDir, 'actions'));
+      await writeFile(path.join(outputDir, 'actions/notes.txt'), 'keep me\n');
+      await mkdir(path.join(outputDir, 'project'));
+      await writeFile(path.join(outputDir, 'project/index.ts'), 'keep me\n');
+
+      const responses = await Promise.all(
+        ['.', 'project'].map((dir) =>
+          TENANT_HANDLERS.auth0_export_tenant(
+            { token, parameters: { output_dir: dir } },
+            { domain, filesDir: outputDir }
+          )
+        )
+      );
+
+      expect(responses[0].content[0].text).toContain('notes.txt, which is not part of an export');
+      expect(responses[1].content[0].text).toContain('does not hold an earlier export');
+      expect(await readFile(path.join(outputDir, 'actions/notes.txt'), 'utf8')).toBe('keep me\n');
+    });
+
+    it('should return an error when output_dir is missing', async () => {
+      const response = await TENANT_HANDLERS.auth0_export_tenant(
+        { token, parameters: {} },
+        { domain, filesDir }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('output_dir is required');
+    });
+
+    it('should handle API errors', async () => {
+      server.use(
+        http.get('https://*/api/v2/actions/actions', () => {
+          return new HttpResponse(null, { status: 403 });
+        })
+      );
+
+      const response = await TENANT_HANDLERS.auth0_export_tenant(
+        { token, parameters: { output_dir: outputDir } },
+        { domain, filesDir }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to export tenant');
+      expect(response.content[0].text).toContain('read:actions');
+    });
+  });
+
+  describe('auth0_plan_tenant_changes', () => {
+    const exportTenant = () =>
+      TENANT_HANDLERS.auth0_export_tenant(
+        { token, parameters: { output_dir: outputDir } },
+        { domain, filesDir }
+      );
+
+    const plan = async (parameters: Record<string, any> = {}) =>
+      JSON.parse(
+        (
+          await TENANT_HANDLERS.auth0_plan_tenant_changes(
+            { token, parameters: { input_dir: outputDir, ...parameters } },
+            { domain, filesDir }
+          )
+        ).content[0].text
+      );
+
+    it('should find nothing to change right after an export', async () => {
+      await exportTenant();
+
+      const result = await plan();
+
+      expect(result.message).toContain('already matches');
+      expect(result.changes).toEqual([]);
+      expect(result.plan_token).toBeUndefined();
+    });
+
+    it('should plan creates and updates with the changed fields', async () => {
+      await exportTenant();
+      await editJson('applications/test-application-1.json', (application) => {
+        application.description = 'Edited in a pull request';
+      });
+      await writeFile(
+        path.join(outputDir, 'forms/new-form.json'),
+        JSON.stringify({ name: 'New Form', nodes: [] })
+      );
+
+      const result = await plan();
+
+      expect(result.summary).toEqual({ create: 1, update: 1, delete: 0 });
+      expect(result.changes).toEqual([
+        {
+          section: 'applications',
+          action: 'update',
+          key: 'Test Application 1',
+          fields: ['description'],
+        },
+        { section: 'forms', action: 'create', key: 'New Form' },
+      ]);
+      expect(result.plan_token).toMatch(/^[a-f0-9]{32}$/);
+    });
+
+    it('should only plan deletes when allow_delete is set', async () => {
+      await exportTenant();
+      await rm(path.join(outputDir, 'log-streams/webhook.json'));
+
+      expect((await plan()).changes).toEqual([]);
+      expect((await plan({ allow_delete: true })).changes).toEqual([
+        { section: 'log-streams', action: 'delete', key: 'Webhook' },
+      ]);
+    });
+
+    it('should report errors in the files instead of a plan', async () => {
+      await exportTenant();
+      await writeFile(
+        path.join(outputDir, 'client-grants/orphan.json'),
+        JSON.stringify({ client: 'Missing App', audience: 'https://api.example.com', scope: [] })
+      );
+      await writeFile(path.join(outputDir, 'actions/test-action-2.js'), 'exports.onExecute = (');
+
+      const result = await plan();
+
+      expect(result.errors[0]).toBe(
+        "client-grants/Missing App https://api.example.com: application 'Missing App' does not exist"
+      );
+      expect(result.errors[1]).toContain('actions/Test Action 2:');
+      expect(result.plan_token).toBeUndefined();
+    });
+
+    it('should return an error when input_dir does not exist', async () => {
+      const response = await TENANT_HANDLERS.auth0_plan_tenant_changes(
+        { token, parameters: { input_dir: path.join(outputDir, 'missing') } },
+        { domain, filesDir }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to plan tenant changes');
+    });
+    it('should refuse input directories outside the files directory', async () => {
+      const response = await TENANT_HANDLERS.auth0_plan_tenant_changes(
+        { token, parameters: { input_dir: '/etc' } },
+        { domain, filesDir: outputDir }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('/etc is outside the files directory');
+    });
+
+    it('should not read action code from outside the actions directory', async () => {
+      await exportTenant();
+      await writeFile(path.join(outputDir, 'secret.txt'), 'not action code\n');
+
+      for (const code of ['../secret.txt', path.join(outputDir, 'secret.txt')]) {
+        await editJson('actions/test-action-1.json', (action) => {
+          action.code = code;
+        });
+
+        const response = await TENANT_HANDLERS.auth0_plan_tenant_changes(
+          { token, parameters: { input_dir: outputDir } },
+          { domain, filesDir }
+        );
+
+        expect(response.isError).toBe(true);
+        expect(response.content[0].text).toContain(
+          `actions/test-action-1.json refers to code file ${code} outside actions/`
+        );
+      }
+    });
+  });
+
+  describe('auth0_apply_tenant_changes', () => {
+    const planToken = async () => {
+      const response = await TENANT_HANDLERS.auth0_plan_tenant_changes(
+        { token, parameters: { input_dir: outputDir } },
+        { domain, filesDir }
+      );
+      return JSON.parse(response.content[0].text).plan_token;
+    };
+
+    beforeEach(async () => {
+      await TENANT_HANDLERS.auth0_export_tenant(
+        { token, parameters: { output_dir: outputDir } },
+        { domain, filesDir }
+      );
+    });
+
+    it('should apply the approved plan in dependency order', async () => {
+      const requests: string[] = [];
+      server.events.on('request:start', ({ request }) => {
+        if (request.method !== 'GET') {
+          requests.push(`${request.method} ${new URL(request.url).pathname}`);
+        }
+      });
+
+      await writeFile(
+        path.join(outputDir, 'client-grants/orders.json'),
+        JSON.stringify({ client: 'Orders', audience: 'https://orders.example.com', scope: [] })
+      );
+      await writeFile(
+        path.join(outputDir, 'applications/orders.json'),
+        JSON.stringify({ name: 'Orders', app_type: 'non_interactive' })
+      );
+      await writeFile(
+        path.join(outputDir, 'resource-servers/orders.json'),
+        JSON.stringify({ name: 'Orders API', identifier: 'https://orders.example.com' })
+      );
+      await editJson('triggers/post-login.json', (trigger) => {
+        trigger.actions = ['Test Action 1', 'Test Action 2'];
+      });
+
+      const plan_token = await planToken();
+      const response = await TENANT_HANDLERS.auth0_apply_tenant_changes(
+        { token, parameters: { input_dir: outputDir, plan_token } },
+        { domain, filesDir }
+      );
+      server.events.removeAllListeners();
+
+      expect(response.isError).toBe(false);
+      expect(JSON.parse(response.content[0].text).applied).toBe(4);
+      expect(requests).toEqual([
+        'POST /api/v2/resource-servers',
+        'POST /api/v2/clients',
+        'POST /api/v2/client-grants',
+        'PATCH /api/v2/actions/triggers/post-login/bindings',
+      ]);
+    });
+
+    it('should list the scopes needed to apply changes on API errors', async () => {
+      await editJson('forms/test-form-1.json', (form) => {
+        form.style = { theme: 'dark' };
+      });
+      const plan_token = await planToken();
+      server.use(
+        http.get('https://*/api/v2/actions/actions', () => {
+          return new HttpResponse(null, { status: 403 });
+        })
+      );
+
+      const response = await TENANT_HANDLERS.auth0_apply_tenant_changes(
+        { token, parameters: { input_dir: outputDir, plan_token } },
+        { domain, filesDir }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to apply tenant changes');
+      expect(response.content[0].text).toContain('update:actions');
+    });
+
+    it('should refuse to run in read-only mode', async () => {
+      const response = await TENANT_HANDLERS.auth0_apply_tenant_changes(
+        { token, parameters: { input_dir: outputDir, plan_token: 'token' } },
+        { domain, filesDir, readOnly: true }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('read-only mode');
+    });
+
+    it('should refuse a plan_token when the files changed after planning', async () => {
+      await editJson('forms/test-form-1.json', (form) => {
+        form.style = { theme: 'dark' };
+      });
+      const plan_token = await planToken();
+      await editJson('forms/test-form-1.json', (form) => {
+        form.style = { theme: 'contrast' };
+      });
+
+      const response = await TENANT_HANDLERS.auth0_apply_tenant_changes(
+        { token, parameters: { input_dir: outputDir, plan_token } },
+        { domain, filesDir }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('plan_token is invalid');
+    });
+
+    it('should stop at the first failed change', async () => {
+      server.use(
+        http.patch('https://*/api/v2/forms/:formId', () => {
+          return new HttpResponse(null, { status: 400 });
+        })
+      );
+      await editJson('forms/test-form-1.json', (form) => {
+        form.style = { theme: 'dark' };
+      });
+      await editJson('log-streams/datadog.json', (logStream) => {
+        logStream.status = 'paused';
+      });
+
+      const plan_token = await planToken();
+      const response = await TENANT_HANDLERS.auth0_apply_tenant_changes(
+        { token, parameters: { input_dir: outputDir, plan_token } },
+        { domain, filesDir }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to update forms/Test Form 1');
+      expect(response.content[0].text).toContain('"status": "skipped"');
+    });
+  });
+
+  describe('auth0_diff_tenants', () => {
+    const staging = 'staging-tenant.auth0.com';
+    const getDomainConfig = vi.fn();
+
+    beforeEach(() => {
+      getDomainConfig.mockImplementation(async (requested: string) =>
+        requested === staging ? { domain: staging, token: 'staging-token' } : null
+      );
+
+      server.use(
+        http.get(`https://${staging}/api/v2/clients`, () => {
+          return HttpResponse.json({
+            clients: [
+              {
+                ...mockApplications[0],
+                client_id: 'staging-app1',
+                callbacks: [
+                  ...mockApplications[0].callbacks,
+                  'https://staging.example.com/callback',
+                ],
+              },
+              { client_id: 'staging-app3', name: 'Staging Only App', app_type: 'spa' },
+            ],
+            total: 2,
+          });
+        }),
+        http.get(`https://${staging}/api/v2/actions/actions`, () => {
+          return HttpResponse.json({
+            actions: [
+              {
+                ...mockActions[0],
+                id: 'staging-action1',
+                code: `// staging\n${mockActions[0].code}`,
+                dependencies: [{ name: 'lodash', version: '4.17.20' }],
+              },
+              { ...mockActions[1], id: 'staging-action2' },
+            ],
+            total: 2,
+          });
+        }),
+        http.get(`https://${staging}/api/v2/tenants/settings`, () => {
+          return HttpResponse.json({ ...mockTenantSettings, session_lifetime: 24 });
+        })
+      );
+    });
+
+    it('should match resources by name and report the fields that differ', async () => {
+      const response = await TENANT_HANDLERS.auth0_diff_tenants(
+        { token, parameters: { source_domain: staging } },
+        { domain, getDomainConfig }
+      );
+
+      expect(response.isError).toBe(false);
+      expect(getDomainConfig).toHaveBeenCalledWith(staging);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.source).toBe(staging);
+      expect(parsedContent.target).toBe(domain);
+      expect(parsedContent.summary).toEqual({ only_in_source: 1, only_in_target: 1, changed: 3 });
+      expect(parsedContent.only_in_source).toEqual([
+        { section: 'applications', key: 'Staging Only App' },
+      ]);
+      expect(parsedContent.only_in_target).toEqual([
+        { section: 'applications', key: 'Test Application 2' },
+      ]);
+      expect(parsedContent.changed).toEqual([
+        {
+          section: 'applications',
+          key: 'Test Application 1',
+          differences: [{ path: 'callbacks', removed: ['https://staging.example.com/callback'] }],
+        },
+        {
+          section: 'actions',
+          key: 'Test Action 1',
+          differences: [
+            { path: 'code', line: 1, source: '// staging', target: mockActions[0].code },
+            { path: 'dependencies[lodash].version', source: '4.17.20', target: '4.17.21' },
+          ],
+        },
+        {
+          section: 'settings',
+          key: 'settings',
+          differences: [{ path: 'session_lifetime', source: 24, target: 168 }],
+        },
+      ]);
+    });
+
+    it('should only fetch the requested resource types', async () => {
+      const requests: string[] = [];
+      server.events.on('request:start', ({ request }) => {
+        requests.push(new URL(request.url).pathname);
+      });
+
+      const response = await TENANT_HANDLERS.auth0_diff_tenants(
+        { token, parameters: { source_domain: staging, resource_types: ['settings'] } },
+        { domain, getDomainConfig }
+      );
+      server.events.removeAllListeners();
+
+      expect(response.isError).toBe(false);
+      expect(JSON.parse(response.content[0].text).changed).toHaveLength(1);
+      expect(requests).toEqual(['/api/v2/tenants/settings', '/api/v2/tenants/settings']);
+    });
+
+    it('should return an error when no session is stored for a tenant', async () => {
+      const response = await TENANT_HANDLERS.auth0_diff_tenants(
+        { token, parameters: { source_domain: 'prod-tenant.auth0.com' } },
+        { domain, getDomainConfig }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain(
+        'No valid session is stored for prod-tenant.auth0.com'
+      );
+    });
+
+    it('should return an error when both domains are the same tenant', async () => {
+      const response = await TENANT_HANDLERS.auth0_diff_tenants(
+        { token, parameters: { source_domain: `https://${domain}/`, target_domain: domain } },
+        { domain, getDomainConfig }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('are the same tenant');
+      expect(getDomainConfig).not.toHaveBeenCalled();
+    });
+
+    it('should return an error for unknown resource types', async () => {
+      const response = await TENANT_HANDLERS.auth0_diff_tenants(
+        { token, parameters: { source_domain: staging, resource_types: ['users'] } },
+        { domain, getDomainConfig }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Unknown resource_types: users');
+    });
+  });
+
+  describe('auth0_list_tenants', () => {
+    it('should list the stored tenants with the current and allowed ones marked', async () => {
+      const listTenants = vi.fn().mockResolvedValue([
+        {
+          profile: 'default',
+          domain,
+          expiresAt: Date.UTC(2030, 0, 1),
+          environment: 'development',
+          current: true,
+          allowed: true,
+        },
+        {
+          profile: 'prod',
+          domain: 'prod-tenant.auth0.com',
+          expiresAt: null,
+          environment: 'production',
+          current: false,
+          allowed: false,
+        },
+      ]);
+
+      const response = await TENANT_HANDLERS.auth0_list_tenants(
+        { token, parameters: {} },
+        { domain, listTenants }
+      );
+
+      expect(response.isError).toBe(false);
+      expect(JSON.parse(response.content[0].text).tenants).toEqual([
+        {
+          profile: 'default',
+          domain,
+          environment: 'development',
+          token_expires_at: '2030-01-01T00:00:00.000Z',
+          current: true,
+          allowed: true,
+        },
+        {
+          profile: 'prod',
+          domain: 'prod-tenant.auth0.com',
+          environment: 'production',
+          token_expires_at: null,
+          current: false,
+          allowed: false,
+        },
+      ]);
+    });
+
+    it('should return an error when tenant switching is not available', async () => {
+      const response = await TENANT_HANDLERS.auth0_list_tenants(
+        { token, parameters: {} },
+        { domain, filesDir }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Tenant switching is not available');
+    });
+  });
+
+  describe('auth0_switch_tenant', () => {
+    it('should switch to the profile and describe the new tenant', async () => {
+      const switchTenant = vi.fn().mockResolvedValue({
+        profile: 'staging',
+        domain: 'staging-tenant.auth0.com',
+        expiresAt: null,
+        environment: null,
+        current: true,
+        allowed: true,
+      });
+
+      const response = await TENANT_HANDLERS.auth0_switch_tenant(
+        { token, parameters: { profile: 'staging' } },
+        { domain, switchTenant }
+      );
+
+      expect(response.isError).toBe(false);
+      expect(switchTenant).toHaveBeenCalledWith('staging');
+      expect(JSON.parse(response.content[0].text).switched_to).toMatchObject({
+        profile: 'staging',
+        domain: 'staging-tenant.auth0.com',
+        current: true,
+      });
+    });
+
+    it('should return an error when the profile is missing', async () => {
+      const switchTenant = vi.fn();
+
+      const response = await TENANT_HANDLERS.auth0_switch_tenant(
+        { token, parameters: {} },
+        { domain, switchTenant }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('profile is required');
+      expect(switchTenant).not.toHaveBeenCalled();
+    });
+
+    it('should return the error of a refused switch', async () => {
+      const switchTenant = vi
+        .fn()
+        .mockRejectedValue(
+          new Error('Switching to profile prod is not allowed by --allow-profiles')
+        );
+
+      const response = await TENANT_HANDLERS.auth0_switch_tenant(
+        { token, parameters: { profile: 'prod' } },
+        { domain, switchTenant }
+      );
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not allowed by --allow-profiles');
+    });
+  });
+});
@@ -0,0 +1,455 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { USER_HANDLERS } from '../../src/tools/users';
+import { mockConfig } from '../mocks/config';
+import { mockUsers } from '../mocks/auth0/users';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logInfo: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Users Tool Handlers', () => {
+  const domain = mockConfig.domain;
+  const token = mockConfig.token;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    server.resetHandlers();
+  });
+
+  describe('auth0_list_users', () => {
+    it('should return a list of users', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_list_users(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(response.content[0].type).toBe('text');
+
+      // The response should be a JSON string that we can parse
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.users).toHaveLength(mockUsers.length);
+      expect(parsedContent.users[0].user_id).toBe(mockUsers[0].user_id);
+      expect(parsedContent.users[0].connection).toBe('Username-Password-Authentication');
+      expect(parsedContent.total).toBe(mockUsers.length);
+    });
+
+    it('should pass connection and paging parameters', async () => {
+      let capturedUrl: URL | undefined;
+      server.use(
+        http.get('https://*/api/v2/users', ({ request }) => {
+          capturedUrl = new URL(request.url);
+          return HttpResponse.json([]);
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {
+          page: 2,
+          per_page: 10,
+          connection: 'google-oauth2',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_list_users(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedUrl?.searchParams.get('page')).toBe('2');
+      expect(capturedUrl?.searchParams.get('per_page')).toBe('10');
+      expect(capturedUrl?.searchParams.get('q')).toBe('identities.connection:"google-oauth2"');
+      expect(capturedUrl?.searchParams.get('search_engine')).toBe('v3');
+      expect(capturedUrl?.searchParams.has('connection')).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.users).toEqual([]);
+    });
+
+    it('should handle API errors', async () => {
+      const request = {
+        token: 'invalid-token',
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_list_users(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to list users');
+      expect(response.content[0].text).toContain('Unauthorized');
+    });
+
+    it('should handle missing token', async () => {
+      const request = {
+        token: '',
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_list_users(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Missing authorization token');
+    });
+  });
+
+  describe('auth0_search_users', () => {
+    it('should send the Lucene query with the v3 search engine', async () => {
+      let capturedUrl: URL | undefined;
+      server.use(
+        http.get('https://*/api/v2/users', ({ request }) => {
+          capturedUrl = new URL(request.url);
+          return HttpResponse.json({ users: [mockUsers[0]], start: 0, limit: 5, total: 1 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {
+          q: 'email:"jane.doe@example.com"',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_search_users(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedUrl?.searchParams.get('q')).toBe('email:"jane.doe@example.com"');
+      expect(capturedUrl?.searchParams.get('search_engine')).toBe('v3');
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.users).toHaveLength(1);
+      expect(parsedContent.users[0].email).toBe('jane.doe@example.com');
+    });
+
+    it('should handle missing q parameter', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_search_users(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('q is required');
+    });
+
+    it('should explain invalid queries', async () => {
+      server.use(
+        http.get('https://*/api/v2/users', () => {
+          return new HttpResponse(JSON.stringify({ message: 'Bad Request' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { q: 'email:(' },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_search_users(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('Failed to search users');
+      expect(response.content[0].text).toContain('Lucene');
+    });
+  });
+
+  describe('auth0_get_user', () => {
+    it('should return a single user', async () => {
+      const request = {
+        token,
+        parameters: {
+          user_id: mockUsers[0].user_id,
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_get_user(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.user_id).toBe(mockUsers[0].user_id);
+      expect(parsedContent.email).toBe(mockUsers[0].email);
+    });
+
+    it('should handle missing user_id parameter', async () => {
+      const request = {
+        token,
+        parameters: {},
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_get_user(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('user_id is required');
+    });
+
+    it('should handle user not found', async () => {
+      const request = {
+        token,
+        parameters: {
+          user_id: 'auth0|missing',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_get_user(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_create_user', () => {
+    it('should create a new user', async () => {
+      const request = {
+        token,
+        parameters: {
+          connection: 'Username-Password-Authentication',
+          email: 'new.user@example.com',
+          password: 'Sup3r-Secret!',
+          given_name: 'New',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_create_user(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.user_id).toBe('auth0|new-user-id');
+      expect(parsedContent.email).toBe('new.user@example.com');
+      expect(parsedContent.given_name).toBe('New');
+    });
+
+    it('should handle missing connection parameter', async () => {
+      const request = {
+        token,
+        parameters: {
+          email: 'new.user@example.com',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_create_user(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('connection is required');
+    });
+
+    it('should handle duplicate users', async () => {
+      server.use(
+        http.post('https://*/api/v2/users', () => {
+          return new HttpResponse(JSON.stringify({ message: 'The user already exists.' }), {
+            status: 409,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {
+          connection: 'Username-Password-Authentication',
+          email: 'jane.doe@example.com',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_create_user(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('already exists');
+    });
+  });
+
+  describe('auth0_update_user', () => {
+    it('should update an existing user', async () => {
+      const request = {
+        token,
+        parameters: {
+          user_id: mockUsers[0].user_id,
+          name: 'Jane Q. Doe',
+          app_metadata: { plan: 'pro' },
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_update_user(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.name).toBe('Jane Q. Doe');
+      expect(parsedContent.app_metadata).toEqual({ plan: 'pro' });
+    });
+
+    it('should handle user not found', async () => {
+      const request = {
+        token,
+        parameters: {
+          user_id: 'auth0|missing',
+          name: 'Nobody',
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_update_user(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('auth0_block_user', () => {
+    it('should block a user by default', async () => {
+      let capturedBody: Record<string, any> | undefined;
+      server.use(
+        http.patch('https://*/api/v2/users/:userId', async ({ request }) => {
+          capturedBody = (await request.json()) as Record<string, any>;
+          return HttpResponse.json({ ...mockUsers[0], ...capturedBody });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: {
+          user_id: mockUsers[0].user_id,
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_block_user(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(capturedBody).toEqual({ blocked: true });
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.blocked).toBe(true);
+    });
+
+    it('should unblock a user when blocked is false', async () => {
+      const request = {
+        token,
+        parameters: {
+          user_id: mockUsers[0].user_id,
+          blocked: false,
+        },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_block_user(request, config);
+
+      expect(response.isError).toBe(false);
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.blocked).toBe(false);
+    });
+  });
+
+  describe('auth0_delete_user', () => {
+    it('should return a preview and confirmation token without deleting', async () => {
+      const deleteRequest = vi.fn();
+      server.use(
+        http.delete('https://*/api/v2/users/:id', () => {
+          deleteRequest();
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      const request = {
+        token,
+        parameters: { user_id: mockUsers[0].user_id },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_delete_user(request, config);
+
+      expect(response.isError).toBe(false);
+      expect(deleteRequest).not.toHaveBeenCalled();
+
+      const parsedContent = JSON.parse(response.content[0].text);
+      expect(parsedContent.preview.email).toBe(mockUsers[0].email);
+      expect(parsedContent.confirmation_token).toEqual(expect.any(String));
+    });
+
+    it('should delete when called again with the confirmation token', async () => {
+      const config = { domain };
+
+      const previewResponse = await USER_HANDLERS.auth0_delete_user(
+        { token, parameters: { user_id: mockUsers[0].user_id } },
+        config
+      );
+      const { confirmation_token } = JSON.parse(previewResponse.content[0].text);
+
+      const response = await USER_HANDLERS.auth0_delete_user(
+        { token, parameters: { user_id: mockUsers[0].user_id, confirmation_token } },
+        config
+      );
+
+      expect(response.isError).toBe(false);
+      expect(JSON.parse(response.content[0].text).deleted).toBe(true);
+
+      // The confirmation token can only be used once
+      const replayResponse = await USER_HANDLERS.auth0_delete_user(
+        { token, parameters: { user_id: mockUsers[0].user_id, confirmation_token } },
+        config
+      );
+
+      expect(replayResponse.isError).toBe(true);
+      expect(replayResponse.content[0].text).toContain('confirmation_token is invalid');
+    });
+
+    it('should handle user not found', async () => {
+      const request = {
+        token,
+        parameters: { user_id: 'missing' },
+      };
+
+      const config = { domain };
+
+      const response = await USER_HANDLERS.auth0_delete_user(request, config);
+
+      expect(response.isError).toBe(true);
+      expect(response.content[0].text).toContain('not found');
+    });
+  });
+});
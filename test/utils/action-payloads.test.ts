@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { ACTION_TEST_PAYLOADS, buildActionTestPayload } from '../../src/utils/action-payloads';
+import { ACTION_TRIGGER_IDS } from '../../src/tools/actions';
+
+describe('Action test payloads', () => {
+  it('should provide a template for every supported trigger', () => {
+    for (const triggerId of ACTION_TRIGGER_IDS) {
+      expect(ACTION_TEST_PAYLOADS[triggerId]).toBeDefined();
+    }
+  });
+
+  it('should merge overrides over the template', () => {
+    const payload = buildActionTestPayload('post-login', {
+      user: { email: 'tester@example.com' },
+      authorization: { roles: ['admin'] },
+    });
+
+    expect(payload?.user.email).toBe('tester@example.com');
+    expect(payload?.user.user_id).toBe(ACTION_TEST_PAYLOADS['post-login'].user.user_id);
+    expect(payload?.authorization.roles).toEqual(['admin']);
+    expect(ACTION_TEST_PAYLOADS['post-login'].user.email).not.toBe('tester@example.com');
+  });
+
+  it('should return null for an unknown trigger', () => {
+    expect(buildActionTestPayload('unknown-trigger')).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import keytar from 'keytar';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { http, HttpResponse } from 'msw';
+import { loadDomainConfig, loadProfileConfig, readCallerProfiles } from '../../src/utils/config';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('keytar', () => ({
+  default: {
+    setPassword: vi.fn(),
+    getPassword: vi.fn(),
+    deletePassword: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logError: vi.fn(),
+}));
+
+describe('Config', () => {
+  describe('loadProfileConfig', () => {
+    const storeSession = (items: Record<string, string>) =>
+      vi.mocked(keytar.getPassword).mockImplementation(async (_service, key) => items[key] ?? null);
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should load the session of a profile without switching to it', async () => {
+      storeSession({
+        'AUTH0_TOKEN:alice': 'alice-token',
+        'AUTH0_DOMAIN:alice': 'alice-tenant.auth0.com',
+        'AUTH0_TOKEN_EXPIRES_AT:alice': String(Date.now() + 3600 * 1000),
+      });
+
+      expect(await loadProfileConfig('alice')).toEqual({
+        token: 'alice-token',
+        domain: 'alice-tenant.auth0.com',
+        tenantName: 'alice-tenant.auth0.com',
+      });
+    });
+
+    it('should return null for a profile whose token is about to expire', async () => {
+      storeSession({
+        'AUTH0_TOKEN:alice': 'alice-token',
+        'AUTH0_DOMAIN:alice': 'alice-tenant.auth0.com',
+        'AUTH0_TOKEN_EXPIRES_AT:alice': String(Date.now() + 60 * 1000),
+      });
+
+      expect(await loadProfileConfig('alice')).toBeNull();
+      expect(await loadProfileConfig('bob')).toBeNull();
+    });
+
+    it('should refresh an expired token with the refresh token of the profile', async () => {
+      const stored = new Map<string, string>([
+        ['AUTH0_TOKEN:alice', 'alice-token'],
+        ['AUTH0_DOMAIN:alice', 'alice-tenant.auth0.com'],
+        ['AUTH0_REFRESH_TOKEN:alice', 'alice-refresh-token'],
+        ['AUTH0_TOKEN_EXPIRES_AT:alice', String(Date.now() - 60 * 1000)],
+        ['AUTH0_REFRESH_TOKEN', 'default-refresh-token'],
+      ]);
+      vi.mocked(keytar.getPassword).mockImplementation(
+        async (_service, key) => stored.get(key) ?? null
+      );
+      vi.mocked(keytar.setPassword).mockImplementation(async (_service, key, value) => {
+        stored.set(key, value);
+      });
+
+      // An unsigned access token for the Management API of the tenant
+      const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const refreshedToken = `${encode({ alg: 'none' })}.${encode({ aud: 'https://alice-tenant.auth0.com/api/v2/' })}.`;
+      const refreshTokens: string[] = [];
+      server.use(
+        http.post('https://auth0.auth0.com/oauth/token', async ({ request }) => {
+          refreshTokens.push(new URLSearchParams(await request.text()).get('refresh_token')!);
+          return HttpResponse.json({
+            access_token: refreshedToken,
+            refresh_token: 'alice-rotated-refresh-token',
+            expires_in: 86400,
+          });
+        })
+      );
+
+      // Concurrent calls share one refresh, since the refresh token rotates
+      const configs = await Promise.all([loadProfileConfig('alice'), loadProfileConfig('alice')]);
+
+      expect(configs).toEqual([
+        {
+          token: refreshedToken,
+          domain: 'alice-tenant.auth0.com',
+          tenantName: 'alice-tenant.auth0.com',
+        },
+        expect.objectContaining({ token: refreshedToken }),
+      ]);
+      expect(refreshTokens).toEqual(['alice-refresh-token']);
+      expect(stored.get('AUTH0_TOKEN:alice')).toBe(refreshedToken);
+      expect(stored.get('AUTH0_REFRESH_TOKEN:alice')).toBe('alice-rotated-refresh-token');
+      expect(stored.get('AUTH0_REFRESH_TOKEN')).toBe('default-refresh-token');
+    });
+  });
+
+  describe('loadDomainConfig', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      const expiresAt = String(Date.now() + 3600 * 1000);
+      const items: Record<string, string> = {
+        AUTH0_PROFILES: JSON.stringify(['prod', 'prod-admin']),
+        'AUTH0_TOKEN:prod': 'prod-token',
+        'AUTH0_DOMAIN:prod': 'prod-tenant.auth0.com',
+        'AUTH0_TOKEN_EXPIRES_AT:prod': expiresAt,
+        'AUTH0_TOKEN:prod-admin': 'prod-admin-token',
+        'AUTH0_DOMAIN:prod-admin': 'prod-tenant.auth0.com',
+        'AUTH0_TOKEN_EXPIRES_AT:prod-admin': expiresAt,
+      };
+      vi.mocked(keytar.getPassword).mockImplementation(async (_service, key) => items[key] ?? null);
+    });
+
+    it('should use the session of the first profile for the domain', async () => {
+      expect(await loadDomainConfig('prod-tenant.auth0.com')).toMatchObject({
+        token: 'prod-token',
+      });
+      expect(await loadDomainConfig('dev-tenant.auth0.com')).toBeNull();
+    });
+
+    it('should skip the profiles that are not allowed', async () => {
+      expect(
+        await loadDomainConfig('prod-tenant.auth0.com', (profile) => profile !== 'prod')
+      ).toMatchObject({ token: 'prod-admin-token' });
+      expect(await loadDomainConfig('prod-tenant.auth0.com', () => false)).toBeNull();
+    });
+  });
+
+  describe('readCallerProfiles', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(os.tmpdir(), 'auth0-mcp-callers-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should map token subjects to profiles', async () => {
+      const file = path.join(dir, 'callers.json');
+      await writeFile(file, JSON.stringify({ 'auth0|alice': 'alice', 'auth0|bob': 'bob' }));
+
+      const callers = await readCallerProfiles(file);
+
+      expect(Object.fromEntries(callers)).toEqual({ 'auth0|alice': 'alice', 'auth0|bob': 'bob' });
+    });
+
+    it('should reject files that do not map subjects to valid profile names', async () => {
+      const list = path.join(dir, 'list.json');
+      const invalid = path.join(dir, 'invalid.json');
+      await writeFile(list, JSON.stringify(['alice']));
+      await writeFile(invalid, JSON.stringify({ 'auth0|alice': 'alice:prod' }));
+
+      await expect(readCallerProfiles(list)).rejects.toThrow('must hold a JSON object');
+      await expect(readCallerProfiles(invalid)).rejects.toThrow(
+        'maps auth0|alice to an invalid profile name'
+      );
+    });
+  });
+});
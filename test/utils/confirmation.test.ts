@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  CONFIRMATION_TOKEN_TTL_MS,
+  consumeConfirmationToken,
+  createDeletionPreviewResponse,
+  issueConfirmationToken,
+} from '../../src/utils/confirmation';
+
+describe('confirmation tokens', () => {
+  const domain = 'test-tenant.auth0.com';
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should accept a token once for the resource it was issued for', () => {
+    const { token } = issueConfirmationToken('auth0_delete_form', 'form1', domain);
+
+    expect(consumeConfirmationToken(token, 'auth0_delete_form', 'form1', domain)).toBe(true);
+    expect(consumeConfirmationToken(token, 'auth0_delete_form', 'form1', domain)).toBe(false);
+  });
+
+  it('should reject a token presented for a different tool, resource or tenant', () => {
+    const { token } = issueConfirmationToken('auth0_delete_form', 'form1', domain);
+
+    expect(consumeConfirmationToken(token, 'auth0_delete_action', 'form1', domain)).toBe(false);
+    expect(consumeConfirmationToken(token, 'auth0_delete_form', 'form2', domain)).toBe(false);
+    expect(consumeConfirmationToken(token, 'auth0_delete_form', 'form1', 'other.auth0.com')).toBe(
+      false
+    );
+
+    // A mismatched attempt does not consume the token
+    expect(consumeConfirmationToken(token, 'auth0_delete_form', 'form1', domain)).toBe(true);
+  });
+
+  it('should reject an expired token', () => {
+    vi.useFakeTimers();
+
+    const { token } = issueConfirmationToken('auth0_delete_form', 'form1', domain);
+
+    vi.advanceTimersByTime(CONFIRMATION_TOKEN_TTL_MS + 1);
+
+    expect(consumeConfirmationToken(token, 'auth0_delete_form', 'form1', domain)).toBe(false);
+  });
+
+  it('should build a preview response containing a usable token', () => {
+    const response = createDeletionPreviewResponse('auth0_delete_form', 'form1', domain, {
+      id: 'form1',
+      name: 'Test Form 1',
+    });
+
+    expect(response.isError).toBe(false);
+
+    const parsedContent = JSON.parse(response.content[0].text);
+    expect(parsedContent.preview).toEqual({ id: 'form1', name: 'Test Form 1' });
+    expect(parsedContent.message).toContain('Nothing has been deleted yet');
+    expect(
+      consumeConfirmationToken(
+        parsedContent.confirmation_token,
+        'auth0_delete_form',
+        'form1',
+        domain
+      )
+    ).toBe(true);
+  });
+});
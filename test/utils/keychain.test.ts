@@ -5,6 +5,10 @@ import {
   KEYCHAIN_SERVICE_NAME,
   KeychainItem,
   KeychainOperationResult,
+  DEFAULT_PROFILE,
+  PROFILES_ITEM,
+  ENVIRONMENTS_ITEM,
+  isValidProfileName,
 } from '../../src/utils/keychain';
 
 // Mock dependencies
@@ -179,4 +183,150 @@ describe('Keychain', () => {
       expect(errorResult?.error?.message).toBe('Access denied');
     });
   });
+
+  describe('profiles', () => {
+    // In-memory keychain, keyed by account name
+    let stored: Map<string, string>;
+
+    beforeEach(() => {
+      stored = new Map();
+      vi.mocked(keytar.setPassword).mockImplementation(async (_service, key, value) => {
+        stored.set(key, value);
+      });
+      vi.mocked(keytar.getPassword).mockImplementation(async (_service, key) =>
+        stored.has(key) ? (stored.get(key) as string) : null
+      );
+      vi.mocked(keytar.deletePassword).mockImplementation(async (_service, key) =>
+        stored.delete(key)
+      );
+    });
+
+    it('should store the items of a named profile under their own keys', async () => {
+      // Arrange
+      await keychain.setDomain('dev.auth0.com');
+      await keychain.setToken('dev-token');
+      const staging = keychain.forProfile('staging');
+
+      // Act
+      await staging.setDomain('staging.auth0.com');
+      await staging.setToken('staging-token');
+      await staging.setTokenExpiresAt(1000);
+
+      // Assert
+      expect(await keychain.getToken()).toBe('dev-token');
+      expect(await staging.getToken()).toBe('staging-token');
+      expect(await staging.getTokenExpiresAt()).toBe(1000);
+      expect(staging.getProfile()).toBe('staging');
+      expect(stored.get(`${KeychainItem.TOKEN}:staging`)).toBe('staging-token');
+      expect(await keychain.getProfiles()).toEqual([DEFAULT_PROFILE, 'staging']);
+    });
+
+    it('should keep a session stored before profiles existed as the default profile', async () => {
+      // Arrange
+      stored.set(KeychainItem.DOMAIN, 'dev.auth0.com');
+      stored.set(KeychainItem.TOKEN, 'dev-token');
+
+      // Act & Assert
+      expect(await keychain.getProfiles()).toEqual([DEFAULT_PROFILE]);
+      expect(await keychain.forProfile(DEFAULT_PROFILE).getToken()).toBe('dev-token');
+    });
+
+    it('should ignore a malformed list of profiles', async () => {
+      // Arrange
+      stored.set(PROFILES_ITEM, 'not json');
+
+      // Act & Assert
+      expect(await keychain.getProfiles()).toEqual([]);
+    });
+
+    it('should delete the items of all profiles when clearing the keychain', async () => {
+      // Arrange
+      await keychain.setToken('dev-token');
+      await keychain.forProfile('staging').setToken('staging-token');
+
+      // Act
+      const results = await keychain.clearAll();
+
+      // Assert
+      expect(results.map((r) => r.item)).toContain(`${KeychainItem.TOKEN}:staging`);
+      expect(results.map((r) => r.item)).toContain(PROFILES_ITEM);
+      expect(stored.size).toBe(0);
+    });
+
+    it('should only delete its own items when clearing a profile', async () => {
+      // Arrange
+      await keychain.setToken('dev-token');
+      await keychain.forProfile('staging').setToken('staging-token');
+      await keychain.forProfile('prod').setToken('prod-token');
+
+      // Act
+      await keychain.forProfile('staging').clearAll();
+
+      // Assert
+      expect(await keychain.getToken()).toBe('dev-token');
+      expect(await keychain.forProfile('staging').getToken()).toBeNull();
+      expect(await keychain.getProfiles()).toEqual([DEFAULT_PROFILE, 'prod']);
+    });
+
+    it('should tag each profile with its own environment', async () => {
+      // Arrange
+      await keychain.setToken('dev-token');
+      await keychain.forProfile('prod').setToken('prod-token');
+
+      // Act
+      await keychain.forProfile('prod').setEnvironment('production');
+      await keychain.setEnvironment('development');
+
+      // Assert
+      expect(await keychain.forProfile('prod').getEnvironment()).toBe('production');
+      expect(await keychain.getEnvironment()).toBe('development');
+      expect(await keychain.forProfile('staging').getEnvironment()).toBeNull();
+    });
+
+    it('should delete the environment tags once no profile is tagged', async () => {
+      // Arrange
+      await keychain.forProfile('prod').setEnvironment('production');
+
+      // Act
+      await keychain.forProfile('prod').setEnvironment(null);
+
+      // Assert
+      expect(stored.has(ENVIRONMENTS_ITEM)).toBe(false);
+    });
+
+    it('should forget the environment of a profile when clearing it', async () => {
+      // Arrange
+      await keychain.setEnvironment('development');
+      await keychain.forProfile('prod').setToken('prod-token');
+      await keychain.forProfile('prod').setEnvironment('production');
+
+      // Act
+      await keychain.forProfile('prod').clearAll();
+
+      // Assert
+      expect(await keychain.forProfile('prod').getEnvironment()).toBeNull();
+      expect(await keychain.getEnvironment()).toBe('development');
+
+      // Act
+      const results = await keychain.clearAll();
+
+      // Assert
+      expect(results.map((r) => r.item)).toContain(ENVIRONMENTS_ITEM);
+      expect(stored.size).toBe(0);
+    });
+
+    it('should ignore malformed environment tags', async () => {
+      // Arrange
+      stored.set(ENVIRONMENTS_ITEM, '["production"]');
+
+      // Act & Assert
+      expect(await keychain.getEnvironment()).toBeNull();
+    });
+
+    it('should only accept profile names made of letters, digits, dashes and underscores', () => {
+      expect(isValidProfileName('prod-eu_1')).toBe(true);
+      expect(isValidProfileName('prod eu')).toBe(false);
+      expect(isValidProfileName('')).toBe(false);
+    });
+  });
 });
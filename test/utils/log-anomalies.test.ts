@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnomalies } from '../../src/utils/log-anomalies';
+
+// Builds log entries one second apart starting at the given time
+const entries = (
+  count: number,
+  fields: (index: number) => Record<string, any>,
+  start = '2024-05-01T12:00:00Z'
+) =>
+  Array.from({ length: count }, (_, index) => ({
+    log_id: `${fields(index).type}_${start}_${index}`,
+    date: new Date(new Date(start).getTime() + index * 1000).toISOString(),
+    ...fields(index),
+  }));
+
+describe('Log anomaly detection', () => {
+  it('should return no findings for normal traffic', () => {
+    const logs = [
+      ...entries(50, (i) => ({ type: 's', ip: `10.0.0.${i}`, user_name: `user${i}@example.com` })),
+      ...entries(3, (i) => ({ type: 'fp', ip: '10.0.1.1', user_name: `user${i}@example.com` })),
+    ];
+
+    expect(detectAnomalies(logs)).toEqual([]);
+  });
+
+  it('should flag credential stuffing from one IP address', () => {
+    const logs = entries(30, (i) => ({
+      type: i % 2 ? 'fp' : 'fu',
+      ip: '203.0.113.7',
+      user_name: `victim${i}@example.com`,
+    }));
+
+    const [finding] = detectAnomalies(logs);
+
+    expect(finding).toMatchObject({
+      kind: 'credential_stuffing',
+      severity: 'critical',
+      ip: '203.0.113.7',
+      users: 30,
+      count: 30,
+      more_log_ids: 10,
+    });
+    expect(finding.log_ids).toHaveLength(20);
+    expect(finding.first_seen).toBe('2024-05-01T12:00:00.000Z');
+  });
+
+  it('should flag brute force against one user', () => {
+    const logs = entries(12, (i) => ({
+      type: 'fp',
+      ip: `198.51.100.${i % 3}`,
+      user_name: 'ceo@example.com',
+    }));
+
+    const findings = detectAnomalies(logs);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      kind: 'brute_force',
+      user: 'ceo@example.com',
+      ips: ['198.51.100.0', '198.51.100.1', '198.51.100.2'],
+    });
+  });
+
+  it('should flag hours with many blocked accounts or IP addresses', () => {
+    const logs = [
+      ...entries(4, () => ({ type: 'limit_wc', user_name: 'a@example.com' })),
+      ...entries(2, () => ({ type: 'limit_mu', ip: '203.0.113.9' }), '2024-05-01T12:30:00Z'),
+      ...entries(3, () => ({ type: 'limit_wc' }), '2024-05-01T15:00:00Z'),
+    ];
+
+    const findings = detectAnomalies(logs);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      kind: 'blocked_spike',
+      count: 6,
+      blocked_accounts: 4,
+      blocked_ips: 2,
+    });
+  });
+
+  it('should merge overlapping bursts of Management API changes', () => {
+    const logs = [
+      ...entries(30, () => ({ type: 'sapi', client_name: 'Deploy CLI' })),
+      ...entries(5, () => ({ type: 'sapi', client_name: 'Dashboard' }), '2024-05-01T14:00:00Z'),
+    ];
+
+    const findings = detectAnomalies(logs, { managementApiBurst: 10 });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      kind: 'management_api_burst',
+      count: 30,
+      actors: ['Deploy CLI'],
+    });
+  });
+
+  it('should order findings by severity', () => {
+    const logs = [
+      ...entries(25, () => ({ type: 'sapi', client_name: 'Deploy CLI' })),
+      ...entries(10, () => ({ type: 'fp', ip: '198.51.100.1', user_name: 'ceo@example.com' })),
+      ...entries(5, () => ({ type: 'limit_wc' })),
+    ];
+
+    expect(detectAnomalies(logs).map((finding) => finding.kind)).toEqual([
+      'blocked_spike',
+      'brute_force',
+      'management_api_burst',
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LOG_TYPE_ALIASES,
+  LOG_TYPES,
+  describeLogType,
+  getLogSeverity,
+  isFailureLogType,
+  renderLog,
+  translateLogQuery,
+} from '../../src/utils/log-types';
+
+describe('Log types', () => {
+  it('should decode type codes', () => {
+    expect(describeLogType('fp')).toBe('Failed login (incorrect password)');
+    expect(describeLogType('made_up')).toBe('made_up');
+    expect(describeLogType(undefined)).toBe('Unknown event');
+  });
+
+  it('should classify severities', () => {
+    expect(getLogSeverity('s')).toBe('info');
+    expect(getLogSeverity('w')).toBe('warning');
+    expect(getLogSeverity('fp')).toBe('error');
+    expect(getLogSeverity('limit_wc')).toBe('critical');
+    expect(getLogSeverity('made_up')).toBe('info');
+
+    expect(isFailureLogType('fu')).toBe(true);
+    expect(isFailureLogType('pwd_leak')).toBe(true);
+    expect(isFailureLogType('seacft')).toBe(false);
+  });
+
+  it('should only alias known codes', () => {
+    for (const codes of Object.values(LOG_TYPE_ALIASES)) {
+      expect(codes.length).toBeGreaterThan(0);
+      for (const code of codes) {
+        expect(LOG_TYPES[code]).toBeDefined();
+      }
+    }
+  });
+
+  it('should translate friendly names in queries', () => {
+    expect(translateLogQuery('type:failed_login')).toBe('type:(f OR fp OR fu)');
+    expect(translateLogQuery('type:BLOCKED_ACCOUNT AND ip:"1.2.3.4"')).toBe(
+      'type:limit_wc AND ip:"1.2.3.4"'
+    );
+    expect(translateLogQuery('type:fp OR type:unknown_name')).toBe('type:fp OR type:unknown_name');
+  });
+
+  it('should render a log entry as one line', () => {
+    expect(
+      renderLog({
+        type: 'fp',
+        date: '2024-05-01T12:01:00.123Z',
+        user_name: 'user@example.com',
+        connection: 'Username-Password-Authentication',
+        ip: '1.2.3.4',
+        description: 'Wrong email or password.',
+      })
+    ).toBe(
+      'Failed login (incorrect password) (fp) for user@example.com via Username-Password-Authentication at 2024-05-01 12:01:00Z from 1.2.3.4: Wrong email or password.'
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { createTokenVerifier, getDefaultJwksUri } from '../../src/utils/oauth';
+import { createSigningKey, signToken } from '../helpers/jwt';
+import { server } from '../setup';
+
+// Mock dependencies
+vi.mock('../../src/utils/logger', () => ({
+  log: vi.fn(),
+  logError: vi.fn(),
+}));
+
+const issuer = 'https://issuer.auth0.com/';
+const audience = 'https://mcp.example.com/mcp';
+const jwksUri = 'https://issuer.auth0.com/.well-known/jwks.json';
+
+describe('OAuth', () => {
+  describe('createTokenVerifier', () => {
+    const key = createSigningKey('key-1');
+    const jwksRequests = vi.fn();
+
+    const serveKeys = (keys: Record<string, unknown>[]) =>
+      server.use(
+        http.get(jwksUri, () => {
+          jwksRequests();
+          return HttpResponse.json({ keys });
+        })
+      );
+
+    const claims = { iss: issuer, aud: audience, sub: 'auth0|alice', azp: 'client-1' };
+
+    beforeEach(() => {
+      jwksRequests.mockClear();
+      serveKeys([key.jwk]);
+    });
+
+    it('should default the JWKS URL to the issuer well-known location', () => {
+      expect(getDefaultJwksUri('https://issuer.auth0.com')).toBe(jwksUri);
+      expect(getDefaultJwksUri(issuer)).toBe(jwksUri);
+    });
+
+    it('should describe the caller of a valid token', async () => {
+      const verify = createTokenVerifier({ issuer, audience });
+      const token = signToken(key, { ...claims, scope: 'mcp:use profile', aud: [audience, 'x'] });
+
+      const authInfo = await verify(token);
+
+      expect(authInfo).toEqual({
+        token,
+        clientId: 'client-1',
+        scopes: ['mcp:use', 'profile'],
+        expiresAt: expect.any(Number),
+        extra: { subject: 'auth0|alice' },
+      });
+    });
+
+    it.each([
+      ['another audience', { aud: 'https://other.example.com' }, 'issued for another audience'],
+      ['another issuer', { iss: 'https://other.auth0.com/' }, 'issued by another issuer'],
+      ['an expired token', { exp: Math.floor(Date.now() / 1000) - 120 }, 'has expired'],
+      ['a token without subject', { sub: undefined }, 'has no subject'],
+    ])('should reject %s', async (_name, overrides, message) => {
+      const verify = createTokenVerifier({ issuer, audience, jwksUri });
+
+      const result = verify(signToken(key, { ...claims, ...overrides }));
+
+      await expect(result).rejects.toThrow(InvalidTokenError);
+      await expect(result).rejects.toThrow(message);
+    });
+
+    it('should reject tokens that are not signed by the issuer', async () => {
+      const verify = createTokenVerifier({ issuer, audience });
+      const forged = signToken({ ...createSigningKey('key-1'), jwk: key.jwk }, claims);
+
+      await expect(verify(forged)).rejects.toThrow('signature is invalid');
+      await expect(verify('not-a-jwt')).rejects.toThrow('not a JWT');
+    });
+
+    it('should fetch the keys once and again for a key that is not known yet', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const verify = createTokenVerifier({ issuer, audience });
+        await verify(signToken(key, claims));
+        await verify(signToken(key, claims));
+        expect(jwksRequests).toHaveBeenCalledTimes(1);
+
+        // Rotated keys are only picked up after the refetch interval
+        const rotated = createSigningKey('key-2');
+        serveKeys([key.jwk, rotated.jwk]);
+        await expect(verify(signToken(rotated, claims))).rejects.toThrow('unknown key');
+
+        vi.advanceTimersByTime(61 * 1000);
+        await expect(verify(signToken(rotated, claims))).resolves.toBeDefined();
+        expect(jwksRequests).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
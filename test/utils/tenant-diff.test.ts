@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { diffTenants, type TenantComparison } from '../../src/utils/tenant-diff';
+
+const tenant = (resources: Partial<TenantComparison> = {}): TenantComparison => ({
+  applications: [],
+  'resource-servers': [],
+  actions: [],
+  forms: [],
+  settings: [],
+  ...resources,
+});
+
+describe('Tenant diff', () => {
+  it('should report nothing for tenants that only differ in key order and secrets', () => {
+    const app = { name: 'App', client_secret: '##APP_CLIENT_SECRET##', jwt: { a: 1, b: 2 } };
+
+    const diff = diffTenants(
+      tenant({ applications: [app] }),
+      tenant({ applications: [{ jwt: { b: 2, a: 1 }, ...app }] })
+    );
+
+    expect(diff).toEqual({ only_in_source: [], only_in_target: [], changed: [] });
+  });
+
+  it('should match resource servers by identifier and recurse into nested fields', () => {
+    const api = {
+      name: 'API',
+      identifier: 'https://api.example.com',
+      token_lifetime: 86400,
+      scopes: [
+        { value: 'read:orders', description: 'Read orders' },
+        { value: 'write:orders', description: 'Write orders' },
+      ],
+    };
+
+    const diff = diffTenants(
+      tenant({ 'resource-servers': [{ ...api, name: 'Orders API', token_lifetime: 3600 }] }),
+      tenant({
+        'resource-servers': [
+          { ...api, scopes: [{ value: 'read:orders', description: 'Read all orders' }] },
+        ],
+      })
+    );
+
+    expect(diff.changed).toEqual([
+      {
+        section: 'resource-servers',
+        key: 'https://api.example.com',
+        differences: [
+          { path: 'name', source: 'Orders API', target: 'API' },
+          {
+            path: 'scopes[read:orders].description',
+            source: 'Read orders',
+            target: 'Read all orders',
+          },
+          {
+            path: 'scopes[write:orders]',
+            source: { value: 'write:orders', description: 'Write orders' },
+            target: undefined,
+          },
+          { path: 'token_lifetime', source: 3600, target: 86400 },
+        ],
+      },
+    ]);
+  });
+
+  it('should report added and removed list items and the first differing line of code', () => {
+    const diff = diffTenants(
+      tenant({
+        applications: [{ name: 'App', grant_types: ['implicit', 'authorization_code'] }],
+        actions: [{ name: 'Claims', code: 'exports.a = 1;\nexports.b = 2;\n' }],
+      }),
+      tenant({
+        applications: [{ name: 'App', grant_types: ['authorization_code', 'refresh_token'] }],
+        actions: [{ name: 'Claims', code: 'exports.a = 1;\nexports.b = 3;\n' }],
+      })
+    );
+
+    expect(diff.changed).toEqual([
+      {
+        section: 'applications',
+        key: 'App',
+        differences: [{ path: 'grant_types', added: ['refresh_token'], removed: ['implicit'] }],
+      },
+      {
+        section: 'actions',
+        key: 'Claims',
+        differences: [
+          { path: 'code', line: 2, source: 'exports.b = 2;', target: 'exports.b = 3;' },
+        ],
+      },
+    ]);
+  });
+
+  it('should list resources that exist in only one tenant', () => {
+    const diff = diffTenants(
+      tenant({ forms: [{ name: 'Signup' }, { name: 'Consent' }] }),
+      tenant({ forms: [{ name: 'Consent' }, { name: 'Profile' }] })
+    );
+
+    expect(diff.only_in_source).toEqual([{ section: 'forms', key: 'Signup' }]);
+    expect(diff.only_in_target).toEqual([{ section: 'forms', key: 'Profile' }]);
+    expect(diff.changed).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { planFingerprint, planTenantChanges } from '../../src/utils/tenant-plan';
+import type { LiveTenant, TenantSnapshot } from '../../src/utils/tenant-snapshot';
+
+const snapshot = (resources: Partial<TenantSnapshot> = {}): TenantSnapshot => ({
+  applications: [],
+  'resource-servers': [],
+  'client-grants': [],
+  actions: [],
+  triggers: [],
+  forms: [],
+  'log-streams': [],
+  ...resources,
+});
+
+const liveTenant = (resources: Partial<TenantSnapshot>): LiveTenant => {
+  const live = snapshot(resources);
+  return {
+    snapshot: live,
+    ids: {
+      applications: { App: 'app1' },
+      'resource-servers': { 'https://api.example.com': 'rs1' },
+      'client-grants': { 'App https://api.example.com': 'cgr_1' },
+      actions: {},
+      triggers: {},
+      forms: {},
+      'log-streams': { Webhook: 'lst_1' },
+    },
+  };
+};
+
+describe('Tenant plan', () => {
+  const app = { name: 'App', app_type: 'spa', client_secret: '##APP_CLIENT_SECRET##' };
+
+  it('should ignore secret placeholders and fields missing from the local file', () => {
+    const live = liveTenant({ applications: [{ ...app, callbacks: ['https://a'] }] });
+
+    const plan = planTenantChanges(snapshot({ applications: [app] }), live);
+
+    expect(plan).toEqual({ changes: [], errors: [] });
+  });
+
+  it('should update a secret once its placeholder is replaced with a value', () => {
+    const live = liveTenant({ applications: [app] });
+    const local = snapshot({ applications: [{ ...app, client_secret: 'rotated' }] });
+
+    expect(planTenantChanges(local, live).changes).toEqual([
+      {
+        section: 'applications',
+        action: 'update',
+        key: 'App',
+        id: 'app1',
+        fields: ['client_secret'],
+        resource: local.applications[0],
+      },
+    ]);
+  });
+
+  it('should delete dependents before the resources they refer to', () => {
+    const live = liveTenant({
+      applications: [app],
+      'resource-servers': [{ name: 'API', identifier: 'https://api.example.com' }],
+      'client-grants': [{ client: 'App', audience: 'https://api.example.com', scope: [] }],
+    });
+
+    const plan = planTenantChanges(snapshot(), live, { allowDelete: true });
+
+    expect(plan.changes.map(({ section, id }) => `${section} ${id}`)).toEqual([
+      'client-grants cgr_1',
+      'applications app1',
+      'resource-servers rs1',
+    ]);
+  });
+
+  it('should reject duplicate resources and log stream type changes', () => {
+    const live = liveTenant({ 'log-streams': [{ name: 'Webhook', type: 'http' }] });
+    const local = snapshot({
+      forms: [{ name: 'Signup' }, { name: 'Signup' }],
+      'log-streams': [{ name: 'Webhook', type: 'datadog' }],
+    });
+
+    expect(planTenantChanges(local, live).errors).toEqual([
+      'forms/Signup: defined more than once',
+      'log-streams/Webhook: the type of a log stream cannot be changed',
+    ]);
+  });
+
+  it('should refuse to plan when several live resources share a name', () => {
+    const live = liveTenant({
+      applications: [app, { ...app, app_type: 'native' }],
+    });
+
+    const plan = planTenantChanges(snapshot(), live, { allowDelete: true });
+
+    expect(plan.changes.map(({ section, id }) => `${section} ${id}`)).toEqual([
+      'applications app1',
+    ]);
+    expect(plan.errors).toEqual([
+      'applications/App: more than one resource in the tenant has this name. Rename all but one of them in the tenant first.',
+    ]);
+  });
+
+  it('should fingerprint plans by content', () => {
+    const live = liveTenant({ applications: [app] });
+    const first = planTenantChanges(
+      snapshot({ applications: [{ ...app, app_type: 'spa' }] }),
+      live
+    );
+    const second = planTenantChanges(
+      snapshot({ applications: [{ ...app, app_type: 'native' }] }),
+      live
+    );
+
+    expect(planFingerprint(first)).toBe(
+      planFingerprint(planTenantChanges(snapshot({ applications: [app] }), live))
+    );
+    expect(planFingerprint(first)).not.toBe(planFingerprint(second));
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  renderTenantSnapshot,
+  secretPlaceholder,
+  type TenantSnapshot,
+} from '../../src/utils/tenant-snapshot';
+
+const emptySnapshot = (): TenantSnapshot => ({
+  applications: [],
+  'resource-servers': [],
+  actions: [],
+  forms: [],
+  'log-streams': [],
+});
+
+describe('Tenant snapshot', () => {
+  describe('secretPlaceholder', () => {
+    it('should build an upper-case placeholder from the owner and field', () => {
+      expect(secretPlaceholder('My App', 'client_secret')).toBe('##MY_APP_CLIENT_SECRET##');
+      expect(secretPlaceholder('  Webhook ', 'X-Api-Key')).toBe('##WEBHOOK_X_API_KEY##');
+    });
+  });
+
+  describe('renderTenantSnapshot', () => {
+    it('should write keys in sorted order with a trailing newline', () => {
+      const snapshot = emptySnapshot();
+      snapshot.applications.push({ name: 'App', callbacks: ['b', 'a'], app_type: 'spa' });
+
+      const files = renderTenantSnapshot(snapshot);
+
+      expect(files['applications/app.json']).toBe(
+        '{\n  "app_type": "spa",\n  "callbacks": [\n    "b",\n    "a"\n  ],\n  "name": "App"\n}\n'
+      );
+    });
+
+    it('should split action code into its own file', () => {
+      const snapshot = emptySnapshot();
+      snapshot.actions.push({ name: 'Add Claims', code: 'exports.onExecutePostLogin = 1;' });
+
+      const files = renderTenantSnapshot(snapshot);
+
+      expect(files['actions/add-claims.js']).toBe('exports.onExecutePostLogin = 1;');
+      expect(JSON.parse(files['actions/add-claims.json'])).toEqual({
+        name: 'Add Claims',
+        code: './add-claims.js',
+      });
+    });
+
+    it('should give resources with clashing names distinct file names', () => {
+      const snapshot = emptySnapshot();
+      snapshot.forms.push({ name: 'Sign Up' }, { name: 'sign-up' }, { name: '' });
+
+      expect(Object.keys(renderTenantSnapshot(snapshot))).toEqual([
+        'forms/sign-up.json',
+        'forms/sign-up-2.json',
+        'forms/unnamed.json',
+      ]);
+    });
+  });
+});